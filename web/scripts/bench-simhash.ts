@@ -0,0 +1,227 @@
+/**
+ * Recall of the simhash band index (findSimhashNeighbors, src/server/ingest/dedupe.ts)
+ * against brute force, next to the old +/-2^24 window prefilter.
+ *
+ * Usage (run from the web/ directory):
+ *   npx tsx scripts/bench-simhash.ts [--synthetic 2000] [--seed 1]    (generated fixture, default)
+ *   npx tsx scripts/bench-simhash.ts --file messages.jsonl             (one {"text": ...} per line, or plain text lines)
+ *   npx tsx scripts/bench-simhash.ts --db [--limit 5000]              (stored simhash64 values)
+ *   add --distance 4,10 to choose the thresholds (default DEDUP and CAMPAIGN distances)
+ *
+ * Brute force compares every pair, so keep datasets to a few thousand messages. The
+ * synthetic fixture builds base messages from a fundraising vocabulary and near-copies
+ * of each with 1-8 word edits, so it has neighbors at every distance. Candidates are
+ * counted without the query's row limit; `candidates/query` is the lookup cost.
+ *
+ * --db requires SUPABASE env vars in .env.local
+ */
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { loadEnv } from "./lib/load-env";
+
+type Args = {
+  file?: string;
+  db: boolean;
+  synthetic: number;
+  seed: number;
+  limit: number;
+  distances?: number[];
+};
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const out: Args = { db: false, synthetic: 2000, seed: 1, limit: 5000 };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--file" && args[i + 1]) out.file = args[++i];
+    else if (args[i] === "--db") out.db = true;
+    else if (args[i] === "--synthetic" && args[i + 1]) out.synthetic = Math.max(2, Number(args[++i]) || 2000);
+    else if (args[i] === "--seed" && args[i + 1]) out.seed = Number(args[++i]) || 1;
+    else if (args[i] === "--limit" && args[i + 1]) out.limit = Math.max(2, Number(args[++i]) || 5000);
+    else if (args[i] === "--distance" && args[i + 1]) {
+      out.distances = args[++i].split(",").map((d) => Number(d.trim())).filter((d) => Number.isFinite(d) && d >= 0);
+    }
+  }
+  return out;
+}
+
+// Deterministic PRNG (mulberry32) so a seed always produces the same fixture
+function rng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const VOCABULARY = (
+  "urgent deadline midnight tonight donate chip in now give today match matched triple double your gift " +
+  "friend patriot supporter team we need you only hours left final notice before end of quarter fec report " +
+  "goal short dollars help us fight back against radical extremists protect democracy freedom save our " +
+  "country majority house senate election polls tied race close every vote counts rush emergency fund " +
+  "official survey response required member card renew membership expired reply stop to quit msg rates " +
+  "apply paid for by committee not authorized by any candidate rsvp president trump biden harris obama " +
+  "pelosi schumer desantis grassroots small dollar donors stand with"
+).split(" ");
+
+function syntheticTexts(count: number, seed: number): string[] {
+  const rand = rng(seed);
+  const pick = () => VOCABULARY[Math.floor(rand() * VOCABULARY.length)];
+  const texts: string[] = [];
+  while (texts.length < count) {
+    const base = Array.from({ length: 25 + Math.floor(rand() * 35) }, pick);
+    texts.push(base.join(" "));
+    const variants = Math.floor(rand() * 6);
+    for (let v = 0; v < variants && texts.length < count; v++) {
+      const words = [...base];
+      const edits = 1 + Math.floor(rand() * 8);
+      for (let e = 0; e < edits; e++) {
+        const at = Math.floor(rand() * words.length);
+        const op = rand();
+        if (op < 0.5) words[at] = pick();
+        else if (op < 0.75) words.splice(at, 0, pick());
+        else if (words.length > 10) words.splice(at, 1);
+      }
+      texts.push(words.join(" "));
+    }
+  }
+  return texts;
+}
+
+function fileTexts(path: string): string[] {
+  const out: string[] = [];
+  for (const line of readFileSync(resolve(process.cwd(), path), "utf-8").split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (trimmed.startsWith("{")) {
+      try {
+        const row = JSON.parse(trimmed) as { text?: string; raw_text?: string };
+        const text = row.text ?? row.raw_text;
+        if (text) out.push(text);
+        continue;
+      } catch {
+        // Not JSON, use the line as text
+      }
+    }
+    out.push(trimmed);
+  }
+  return out;
+}
+
+async function main() {
+  loadEnv();
+  const args = parseArgs();
+  // Imported after loadEnv so the app's env module sees .env.local
+  const { computeSimhash64, hammingDistance64, normalizeText, simhashBandProbes, simhashBands, simhashFromDb } = await import(
+    "../src/server/ingest/dedupe"
+  );
+  const { env } = await import("../src/lib/env");
+
+  // Unsigned simhashes of the dataset
+  let sims: bigint[] = [];
+  let source: string;
+  if (args.db) {
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for --db.");
+      process.exit(1);
+    }
+    const { getSupabaseServer } = await import("../src/lib/supabase-server");
+    const supabase = getSupabaseServer();
+    let cursor = "00000000-0000-0000-0000-000000000000";
+    while (sims.length < args.limit) {
+      const { data, error } = await supabase
+        .from("submissions")
+        .select("id, simhash64")
+        .not("simhash64", "is", null)
+        .gt("id", cursor)
+        .order("id", { ascending: true })
+        .limit(Math.min(1000, args.limit - sims.length));
+      if (error) {
+        console.error("Failed to load submissions:", error.message);
+        process.exit(1);
+      }
+      const rows = (data || []) as Array<{ id: string; simhash64: string | number }>;
+      for (const row of rows) sims.push(simhashFromDb(row.simhash64));
+      if (rows.length === 0) break;
+      cursor = String(rows[rows.length - 1].id);
+    }
+    source = `database (${sims.length} submissions)`;
+  } else {
+    const texts = args.file ? fileTexts(args.file) : syntheticTexts(args.synthetic, args.seed);
+    sims = texts.map((t) => normalizeText(t)).filter(Boolean).map((t) => computeSimhash64(t));
+    source = args.file ? `${args.file} (${sims.length} messages)` : `synthetic fixture (${sims.length} messages, seed ${args.seed})`;
+  }
+  if (sims.length < 2) {
+    console.error("Need at least two messages.");
+    process.exit(1);
+  }
+
+  const distances = args.distances?.length
+    ? args.distances
+    : Array.from(new Set([Number(env.DEDUP_SIMHASH_DISTANCE) || 4, Number(env.CAMPAIGN_SIMHASH_DISTANCE) || 10]));
+  const maxDistance = Math.max(...distances);
+
+  // Brute force: every pair within the widest threshold
+  const started = Date.now();
+  const pairs: Array<{ i: number; j: number; d: number }> = [];
+  for (let i = 0; i < sims.length; i++) {
+    for (let j = i + 1; j < sims.length; j++) {
+      const d = hammingDistance64(sims[i], sims[j]);
+      if (d <= maxDistance) pairs.push({ i, j, d });
+    }
+  }
+  const bruteMs = Date.now() - started;
+
+  // Old prefilter: signed values within 2^24 of each other
+  const signed = sims.map((s) => (s >= BigInt(1) << BigInt(63) ? s - (BigInt(1) << BigInt(64)) : s));
+  const window = BigInt(1) << BigInt(24);
+  const inWindow = (i: number, j: number) => {
+    const diff = signed[i] - signed[j];
+    return diff <= window && diff >= -window;
+  };
+
+  // Band index, as the submissions_simhash_band*_idx indexes would serve it
+  const index = new Map<string, number[]>();
+  sims.forEach((s, i) => {
+    simhashBands(s).forEach((value, band) => {
+      const key = `${band}:${value}`;
+      const list = index.get(key);
+      if (list) list.push(i);
+      else index.set(key, [i]);
+    });
+  });
+
+  console.log(`Dataset: ${source}; brute force ${bruteMs} ms`);
+  for (const d of distances) {
+    const truth = pairs.filter((p) => p.d <= d);
+    let bandTotal = 0;
+    const candidateSets = sims.map((s, i) => {
+      const found = new Set<number>();
+      simhashBandProbes(s, d).forEach((values, band) => {
+        for (const value of values) for (const j of index.get(`${band}:${value}`) || []) if (j !== i) found.add(j);
+      });
+      bandTotal += found.size;
+      return found;
+    });
+    const bandHits = truth.filter((p) => candidateSets[p.i].has(p.j)).length;
+    const windowHits = truth.filter((p) => inWindow(p.i, p.j)).length;
+    const recall = (hits: number) => (truth.length > 0 ? ((hits / truth.length) * 100).toFixed(1) + "%" : "n/a");
+    console.log(`\nDistance <= ${d}: ${truth.length} neighbor pair(s)`);
+    console.log(`  band index:   recall ${recall(bandHits)}  (${bandHits}/${truth.length}), ${(bandTotal / sims.length).toFixed(1)} candidates/query`);
+    console.log(`  +/-2^24 window: recall ${recall(windowHits)}  (${windowHits}/${truth.length})`);
+    const missed = new Map<number, number>();
+    for (const p of truth) if (!candidateSets[p.i].has(p.j)) missed.set(p.d, (missed.get(p.d) ?? 0) + 1);
+    if (missed.size > 0) {
+      const byDistance = Array.from(missed.entries()).sort((a, b) => a[0] - b[0]).map(([k, v]) => `d=${k}: ${v}`);
+      console.log(`  band misses by distance: ${byDistance.join(", ")}`);
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
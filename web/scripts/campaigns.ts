@@ -0,0 +1,149 @@
+/**
+ * Cluster cases into message campaigns (campaigns table, src/server/campaigns/cluster.ts).
+ *
+ * Usage (run from the web/ directory):
+ *   npx tsx scripts/campaigns.ts backfill [--all] [--limit 500]   (batch size)
+ *   npx tsx scripts/campaigns.ts show --id <campaign id>
+ *   npx tsx scripts/campaigns.ts split --id <campaign id> --variants <hash,hash>
+ *
+ * New cases are clustered by the sender job. `backfill` clusters cases that have no
+ * campaign yet, oldest first so each campaign starts from its earliest case; --all
+ * re-runs every case (after changing CAMPAIGN_SIMHASH_DISTANCE). Re-runs only move
+ * a case when it now links to a different campaign, and merge campaigns it bridges.
+ * `split` moves variants (hashes or hash prefixes as printed by `show`) that do not
+ * belong into a new campaign; later clustering does not merge the two again.
+ *
+ * Requires SUPABASE env vars in .env.local
+ */
+
+import { loadEnv } from "./lib/load-env";
+
+type Args = {
+  command: string;
+  id?: string;
+  variants?: string[];
+  all: boolean;
+  limit: number;
+};
+
+const COMMANDS = ["backfill", "show", "split"];
+const USAGE = `Usage: npx tsx scripts/campaigns.ts <${COMMANDS.join("|")}> [--all] [--limit N] [--id ID] [--variants HASH,HASH]`;
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const out: Args = { command: args[0] || "", all: false, limit: 500 };
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === "--id" && args[i + 1]) out.id = args[++i];
+    else if (args[i] === "--variants" && args[i + 1]) out.variants = args[++i].split(",").map((v) => v.trim()).filter(Boolean);
+    else if (args[i] === "--all") out.all = true;
+    else if (args[i] === "--limit" && args[i + 1]) out.limit = Math.max(1, Number(args[++i]) || 500);
+  }
+  if (!COMMANDS.includes(out.command)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  return out;
+}
+
+async function main() {
+  loadEnv();
+  const args = parseArgs();
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+    console.error("Make sure .env.local exists in the web/ directory, or run this script from web/.");
+    process.exit(1);
+  }
+  // Imported after loadEnv so the app's env module sees .env.local
+  const { assignCampaign, getCampaign, splitCampaign } = await import("../src/server/campaigns/cluster");
+  const { getSupabaseServer } = await import("../src/lib/supabase-server");
+
+  if (args.command === "show") {
+    if (!args.id) {
+      console.error("--id is required for show.");
+      process.exit(1);
+    }
+    const result = await getCampaign(args.id);
+    if (!result) {
+      console.error(`Campaign ${args.id} not found.`);
+      process.exit(1);
+    }
+    const { campaign, variants } = result;
+    if (campaign.id !== args.id) console.log(`(${args.id} was merged into ${campaign.id})`);
+    console.log(`\n=== Campaign ${campaign.id} ===`);
+    console.log(`  ${campaign.case_count} cases, ${campaign.variant_count} variants, ${campaign.sender_count} senders, ${campaign.received_by_count} honeytraps`);
+    console.log(`  first seen ${campaign.first_seen_at}, last seen ${campaign.last_seen_at}\n\nVariants:`);
+    for (const v of variants) {
+      console.log(`  ${v.normalized_hash.slice(0, 12)}  ${v.first_seen_at}  ${String(v.case_count).padStart(4)} case(s)  d=${v.distance ?? "-"}  ${v.senders.join(", ") || "unknown sender"}  [${v.received_by.join(", ")}]`);
+      console.log(`    ${(v.example?.raw_text || "").replace(/\s+/g, " ").slice(0, 120)}`);
+    }
+    return;
+  }
+
+  if (args.command === "split") {
+    if (!args.id || !args.variants?.length) {
+      console.error("--id and --variants are required for split.");
+      process.exit(1);
+    }
+    // Resolve hash prefixes against every case of the campaign, public or not
+    const { data, error } = await getSupabaseServer()
+      .from("submissions")
+      .select("normalized_hash")
+      .eq("campaign_id", args.id)
+      .not("normalized_hash", "is", null);
+    if (error) {
+      console.error("Failed to load the campaign's cases:", error.message);
+      process.exit(1);
+    }
+    const hashes = Array.from(new Set((data || []).map((r) => String(r.normalized_hash))));
+    const selected: string[] = [];
+    for (const prefix of args.variants) {
+      const matches = hashes.filter((h) => h.startsWith(prefix));
+      if (matches.length !== 1) {
+        console.error(`Variant ${prefix} matches ${matches.length} variant(s) of campaign ${args.id}.`);
+        process.exit(1);
+      }
+      selected.push(matches[0]);
+    }
+    const newId = await splitCampaign(args.id, selected);
+    console.log(`Moved ${selected.length} variant(s) from ${args.id} to new campaign ${newId}.`);
+    return;
+  }
+
+  // backfill: page by sort_date so cases that stay unclustered (no text) are not re-read
+  const supabase = getSupabaseServer();
+  let cursor = "1970-01-01T00:00:00Z";
+  let scanned = 0;
+  let created = 0;
+  let joined = 0;
+  for (;;) {
+    let builder = supabase
+      .from("submissions")
+      .select("id, sort_date")
+      .not("normalized_hash", "is", null)
+      .gt("sort_date", cursor)
+      .order("sort_date", { ascending: true })
+      .limit(args.limit);
+    if (!args.all) builder = builder.is("campaign_id", null);
+    const { data, error } = await builder;
+    if (error) {
+      console.error("Failed to load cases:", error.message);
+      process.exit(1);
+    }
+    const rows = data || [];
+    for (const row of rows) {
+      const result = await assignCampaign(String(row.id));
+      if (result?.created) created += 1;
+      else if (result) joined += 1;
+    }
+    scanned += rows.length;
+    if (rows.length < args.limit) break;
+    cursor = String(rows[rows.length - 1].sort_date);
+    console.log(`  ${scanned} scanned, ${created} new campaign(s), ${joined} joined`);
+  }
+  console.log(`Clustered ${created + joined} of ${scanned} case(s): ${created} new campaign(s), ${joined} joined an existing one.`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
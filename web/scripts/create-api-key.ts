@@ -11,32 +11,7 @@
 import { randomBytes, createHash } from "crypto";
 import { createClient } from "@supabase/supabase-js";
 import { Resend } from "resend";
-import { readFileSync } from "fs";
-import { resolve } from "path";
-
-function loadEnv() {
-  const candidates = [
-    resolve(process.cwd(), ".env.local"),
-    resolve(process.cwd(), "web", ".env.local"),
-  ];
-  for (const envPath of candidates) {
-    try {
-      const content = readFileSync(envPath, "utf-8");
-      for (const line of content.split("\n")) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed.startsWith("#")) continue;
-        const eqIdx = trimmed.indexOf("=");
-        if (eqIdx < 0) continue;
-        const key = trimmed.slice(0, eqIdx).trim();
-        const val = trimmed.slice(eqIdx + 1).trim();
-        if (!process.env[key]) process.env[key] = val;
-      }
-      return;
-    } catch {
-      // Try next candidate
-    }
-  }
-}
+import { loadEnv } from "./lib/load-env";
 
 function parseArgs(): { name: string; email: string; description?: string; noEmail: boolean } {
   const args = process.argv.slice(2);
@@ -0,0 +1,194 @@
+/**
+ * Load the FEC bulk committee and candidate master files and link cases to committees.
+ *
+ * Usage (run from the web/ directory):
+ *   npx tsx scripts/import-fec.ts --committees cm.txt [--candidates cn.txt] [--cycle 2026] [--dry-run]
+ *   npx tsx scripts/import-fec.ts --link [--all] [--limit 500]
+ *
+ * Files come from https://www.fec.gov/data/browse-data/?tab=bulk-data ("Committee
+ * master" cm26.zip and "Candidate master" cn26.zip, unzipped): pipe-delimited, no
+ * header row. Rows are upserted by committee/candidate ID, so importing a newer file
+ * updates the existing rows. --dry-run parses and counts without writing.
+ *
+ * --link matches cases that were never matched (the sender job does this for new
+ * cases); --all re-matches every case except links set by hand. Both can be given
+ * in one run, after the import.
+ *
+ * Requires SUPABASE env vars in .env.local
+ */
+
+import { createReadStream, existsSync } from "fs";
+import { resolve } from "path";
+import { createInterface } from "readline";
+import { loadEnv } from "./lib/load-env";
+
+type Args = {
+  committees?: string;
+  candidates?: string;
+  cycle: number | null;
+  dryRun: boolean;
+  link: boolean;
+  all: boolean;
+  limit: number;
+};
+
+const USAGE = "Usage: npx tsx scripts/import-fec.ts [--committees cm.txt] [--candidates cn.txt] [--cycle 2026] [--dry-run] [--link [--all]]";
+const BATCH_SIZE = 500;
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const out: Args = { cycle: null, dryRun: false, link: false, all: false, limit: 500 };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--committees" && args[i + 1]) out.committees = resolve(process.cwd(), args[++i]);
+    else if (args[i] === "--candidates" && args[i + 1]) out.candidates = resolve(process.cwd(), args[++i]);
+    else if (args[i] === "--cycle" && args[i + 1]) out.cycle = Number(args[++i]) || null;
+    else if (args[i] === "--limit" && args[i + 1]) out.limit = Math.max(1, Number(args[++i]) || 500);
+    else if (args[i] === "--dry-run") out.dryRun = true;
+    else if (args[i] === "--link") out.link = true;
+    else if (args[i] === "--all") out.all = true;
+  }
+  if (!out.committees && !out.candidates && !out.link) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  for (const path of [out.committees, out.candidates]) {
+    if (path && !existsSync(path)) {
+      console.error(`Not found: ${path}`);
+      process.exit(1);
+    }
+  }
+  return out;
+}
+
+/** Pipe-delimited rows; FEC files are Latin-1 */
+async function* readRows(path: string): AsyncGenerator<string[]> {
+  const lines = createInterface({ input: createReadStream(path, { encoding: "latin1" }), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim()) yield line.split("|").map((v) => v.trim());
+  }
+}
+
+const orNull = (v: string | undefined) => (v && v.length > 0 ? v : null);
+
+// CMTE_ID|CMTE_NM|TRES_NM|CMTE_ST1|CMTE_ST2|CMTE_CITY|CMTE_ST|CMTE_ZIP|CMTE_DSGN|CMTE_TP|CMTE_PTY_AFFILIATION|CMTE_FILING_FREQ|ORG_TP|CONNECTED_ORG_NM|CAND_ID
+function committeeRow(f: string[], cycle: number | null) {
+  if (!/^C\d{8}$/.test(f[0] || "") || !f[1]) return null;
+  return {
+    cmte_id: f[0],
+    name: f[1],
+    treasurer_name: orNull(f[2]),
+    city: orNull(f[5]),
+    state: orNull(f[6]),
+    designation: orNull(f[8]),
+    committee_type: orNull(f[9]),
+    party: orNull(f[10]),
+    filing_frequency: orNull(f[11]),
+    org_type: orNull(f[12]),
+    connected_org: orNull(f[13]),
+    candidate_id: orNull(f[14]),
+    cycle,
+    imported_at: new Date().toISOString(),
+  };
+}
+
+// CAND_ID|CAND_NAME|CAND_PTY_AFFILIATION|CAND_ELECTION_YR|CAND_OFFICE_ST|CAND_OFFICE|CAND_OFFICE_DISTRICT|CAND_ICI|CAND_STATUS|CAND_PCC|...
+function candidateRow(f: string[], cycle: number | null) {
+  if (!/^[HSP][0-9A-Z]{8}$/.test(f[0] || "") || !f[1]) return null;
+  return {
+    cand_id: f[0],
+    name: f[1],
+    party: orNull(f[2]),
+    election_year: Number(f[3]) || null,
+    office_state: orNull(f[4]),
+    office: orNull(f[5]),
+    office_district: orNull(f[6]),
+    incumbent_challenger: orNull(f[7]),
+    status: orNull(f[8]),
+    principal_committee_id: orNull(f[9]),
+    cycle,
+    imported_at: new Date().toISOString(),
+  };
+}
+
+async function main() {
+  loadEnv();
+  const args = parseArgs();
+  if (!args.dryRun && (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY)) {
+    console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+    console.error("Make sure .env.local exists in the web/ directory, or run this script from web/.");
+    process.exit(1);
+  }
+
+  // Server modules read env at import time, so load them after loadEnv()
+  const { getSupabaseServer } = await import("../src/lib/supabase-server");
+  const { linkFecCommittee } = await import("../src/server/senders/fec");
+  const supabase = args.dryRun ? null : getSupabaseServer();
+
+  const load = async <T>(label: string, path: string, table: string, key: string, toRow: (f: string[]) => T | null) => {
+    let batch: T[] = [];
+    let loaded = 0;
+    let skipped = 0;
+    const flush = async () => {
+      if (supabase && batch.length > 0) {
+        const { error } = await supabase.from(table).upsert(batch, { onConflict: key });
+        if (error) throw new Error(`${table} upsert failed: ${error.message}`);
+      }
+      loaded += batch.length;
+      batch = [];
+    };
+    for await (const fields of readRows(path)) {
+      const row = toRow(fields);
+      if (!row) {
+        skipped += 1;
+        continue;
+      }
+      batch.push(row);
+      if (batch.length >= BATCH_SIZE) {
+        await flush();
+        if (loaded % (BATCH_SIZE * 10) === 0) console.log(`  ... ${loaded} ${label}`);
+      }
+    }
+    await flush();
+    console.log(`${args.dryRun ? "Would load" : "Loaded"} ${loaded} ${label} (${skipped} malformed row(s) skipped)`);
+  };
+
+  // Candidates first: committees reference them only by ID, but the case page shows both
+  if (args.candidates) await load("candidates", args.candidates, "fec_candidates", "cand_id", (f) => candidateRow(f, args.cycle));
+  if (args.committees) await load("committees", args.committees, "fec_committees", "cmte_id", (f) => committeeRow(f, args.cycle));
+
+  if (!args.link) return;
+  if (!supabase) {
+    console.log("--link skipped in a dry run.");
+    return;
+  }
+  let cursor = "1970-01-01T00:00:00Z";
+  let scanned = 0;
+  let linked = 0;
+  for (;;) {
+    let builder = supabase
+      .from("submissions")
+      .select("id, created_at")
+      .eq("is_fundraising", true)
+      .or("fec_match_source.is.null,fec_match_source.neq.admin")
+      .gt("created_at", cursor)
+      .order("created_at", { ascending: true })
+      .limit(args.limit);
+    if (!args.all) builder = builder.is("fec_matched_at", null);
+    const { data, error } = await builder;
+    if (error) throw new Error(`Failed to load cases: ${error.message}`);
+    const rows = data || [];
+    for (const row of rows) {
+      if (await linkFecCommittee(String(row.id))) linked += 1;
+    }
+    scanned += rows.length;
+    if (rows.length < args.limit) break;
+    cursor = String(rows[rows.length - 1].created_at);
+    console.log(`  ... ${scanned} cases matched, ${linked} linked`);
+  }
+  console.log(`Linked ${linked} of ${scanned} case(s) to an FEC committee.`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,332 @@
+/**
+ * Import archived fundraising email from an mbox file or a Maildir folder.
+ *
+ * Usage (run from the web/ directory):
+ *   npx tsx scripts/import-mailbox.ts <path/to/archive.mbox | path/to/Maildir> [--dry-run] [--limit N]
+ *       [--state FILE] [--with-media]
+ *
+ * Every message goes through the same processing as /api/inbound-email (honeytrap
+ * redaction, cleanTextForAI, sanitizeEmailHtml, sender suppression list) and is
+ * ingested with its own Date header as email_sent_at, so cases sort by when the
+ * email was sent rather than when it was imported. Fundraising cases get the same
+ * jobs as an uploaded .eml (email render for HTML, media OCR for stored parts, then
+ * classify, plus sender and redact_pii); the cron worker works through them.
+ *
+ * Dedupe: a message already imported (same Message-ID, or near-identical text via
+ * simhash) returns the existing case instead of creating a new one.
+ *
+ * Progress is saved to a state file (default <path>.import-state.json) every few
+ * messages and on Ctrl-C; re-running the same command skips messages already
+ * handled. Failed messages are not marked done, so a re-run retries them.
+ * --dry-run parses and filters everything and checks each message against the database
+ * for duplicates, but writes nothing, not even the state file. Duplicates within the
+ * archive itself only show up in a real run, since nothing is inserted to match against.
+ * --with-media also stores inline images and image/PDF attachments (off by default:
+ * archives are large).
+ *
+ * Requires SUPABASE env vars in .env.local
+ */
+
+import { createHash } from "crypto";
+import { createReadStream, existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { basename, join, resolve } from "path";
+import { createInterface } from "readline";
+import { loadEnv } from "./lib/load-env";
+
+type Args = { source: string; dryRun: boolean; limit: number | null; statePath: string; withMedia: boolean };
+
+const USAGE = "Usage: npx tsx scripts/import-mailbox.ts <mbox file | Maildir folder> [--dry-run] [--limit N] [--state FILE] [--with-media]";
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  let source = "";
+  let dryRun = false;
+  let limit: number | null = null;
+  let statePath = "";
+  let withMedia = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--dry-run") dryRun = true;
+    else if (args[i] === "--with-media") withMedia = true;
+    else if (args[i] === "--limit" && args[i + 1]) limit = Number(args[++i]);
+    else if (args[i] === "--state" && args[i + 1]) statePath = args[++i];
+    else if (!args[i].startsWith("--") && !source) source = args[i];
+  }
+
+  if (!source || (limit != null && (!Number.isInteger(limit) || limit <= 0))) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  source = resolve(source);
+  return { source, dryRun, limit, statePath: statePath || `${source.replace(/\/+$/, "")}.import-state.json`, withMedia };
+}
+
+type RawMessage = { location: string; raw: Buffer };
+
+/**
+ * Stream an mbox file one message at a time. Messages start at a "From " line at
+ * the top of the file or after a blank line; ">From " escapes (mboxrd) are undone.
+ * latin1 keeps one char per byte so 8-bit bodies come back out unchanged.
+ */
+async function* readMbox(path: string): AsyncGenerator<RawMessage> {
+  const rl = createInterface({ input: createReadStream(path, { encoding: "latin1" }), crlfDelay: Infinity });
+  let lines: string[] = [];
+  let index = 0;
+  let previousBlank = true;
+  const flush = (): RawMessage | null => {
+    while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+    if (lines.length === 0) return null;
+    const msg = { location: `${basename(path)}#${index}`, raw: Buffer.from(lines.join("\n"), "latin1") };
+    lines = [];
+    return msg;
+  };
+  for await (const line of rl) {
+    if (previousBlank && line.startsWith("From ")) {
+      const msg = flush();
+      if (msg) yield msg;
+      index += 1;
+    } else {
+      lines.push(line.replace(/^>(>*From )/, "$1"));
+    }
+    previousBlank = line === "";
+  }
+  const last = flush();
+  if (last) yield last;
+}
+
+/** Maildir: files in cur/ and new/ (or directly in the folder), oldest name first. */
+async function* readMaildir(dir: string): AsyncGenerator<RawMessage> {
+  const subdirs = ["cur", "new"].map((d) => join(dir, d)).filter((d) => existsSync(d));
+  for (const folder of subdirs.length > 0 ? subdirs : [dir]) {
+    const files = readdirSync(folder)
+      .filter((f) => !f.startsWith("."))
+      .sort();
+    for (const file of files) {
+      const path = join(folder, file);
+      if (!statSync(path).isFile()) continue;
+      yield { location: path, raw: readFileSync(path) };
+    }
+  }
+}
+
+type Summary = {
+  seen: number;
+  already_done: number;
+  imported: number;
+  non_fundraising: number;
+  duplicate_message: number;
+  duplicate_content: number;
+  skipped_empty: number;
+  skipped_suppressed: number;
+  undated: number;
+  failed: number;
+  earliest: string | null;
+  latest: string | null;
+  senders: Record<string, number>;
+};
+
+type State = { source: string; startedAt: string; updatedAt: string; done: string[]; summary: Summary };
+
+function emptySummary(): Summary {
+  return {
+    seen: 0,
+    already_done: 0,
+    imported: 0,
+    non_fundraising: 0,
+    duplicate_message: 0,
+    duplicate_content: 0,
+    skipped_empty: 0,
+    skipped_suppressed: 0,
+    undated: 0,
+    failed: 0,
+    earliest: null,
+    latest: null,
+    senders: {},
+  };
+}
+
+function loadState(path: string, source: string): State {
+  try {
+    const state = JSON.parse(readFileSync(path, "utf-8")) as State;
+    if (state.source !== source) {
+      console.error(`State file ${path} belongs to ${state.source}; pass --state to use a different file.`);
+      process.exit(1);
+    }
+    return state;
+  } catch {
+    const now = new Date().toISOString();
+    return { source, startedAt: now, updatedAt: now, done: [], summary: emptySummary() };
+  }
+}
+
+/** Message-ID when present, otherwise a hash of the raw bytes. */
+function messageKey(messageId: string | null, raw: Buffer): string {
+  return messageId ? `id:${messageId.toLowerCase()}` : `sha256:${createHash("sha256").update(raw).digest("hex")}`;
+}
+
+function printSummary(summary: Summary, args: Args, elapsedMs: number) {
+  const topSenders = Object.entries(summary.senders)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10);
+  console.log(`\n=== Import ${args.dryRun ? "dry run " : ""}summary ===`);
+  console.log(`Source:             ${args.source}`);
+  console.log(`Messages seen:      ${summary.seen}`);
+  console.log(`Already done:       ${summary.already_done}`);
+  if (args.dryRun) console.log(`Would import:       ${summary.imported}`);
+  else console.log(`Imported:           ${summary.imported} (${summary.non_fundraising} non-fundraising)`);
+  console.log(`Duplicates:         ${summary.duplicate_message} same Message-ID, ${summary.duplicate_content} same text`);
+  console.log(`Skipped:            ${summary.skipped_empty} empty, ${summary.skipped_suppressed} suppressed sender`);
+  console.log(`Without Date:       ${summary.undated} (sorted by import time)`);
+  console.log(`Failed:             ${summary.failed}${summary.failed > 0 ? " (re-run to retry)" : ""}`);
+  console.log(`Sent between:       ${summary.earliest ?? "-"} and ${summary.latest ?? "-"}`);
+  console.log(`Elapsed:            ${Math.round(elapsedMs / 1000)}s`);
+  if (topSenders.length > 0) {
+    console.log("Top senders:");
+    for (const [sender, count] of topSenders) console.log(`  ${String(count).padStart(6)}  ${sender}`);
+  }
+  if (!args.dryRun) console.log(`State:              ${args.statePath}`);
+}
+
+const SAVE_EVERY = 25;
+
+async function main() {
+  loadEnv();
+  const args = parseArgs();
+  if (!existsSync(args.source)) {
+    console.error(`Not found: ${args.source}`);
+    process.exit(1);
+  }
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+    console.error("Make sure .env.local exists in the web/ directory, or run this script from web/.");
+    process.exit(1);
+  }
+
+  // Server modules read env at import time, so load them after loadEnv()
+  const { parseEml } = await import("../src/server/ingest/mime");
+  const { emlIngestParams } = await import("../src/server/ingest/eml");
+  const { storeMessageParts } = await import("../src/server/ingest/media");
+  const { honeytrapConfigured, isSuppressedSender } = await import("../src/server/ingest/honeytrap");
+  const { findByProviderMessageId, ingestTextSubmission } = await import("../src/server/ingest/save");
+  const { findDuplicateCase } = await import("../src/server/ingest/dedupe");
+  const { enqueueJob } = await import("../src/server/jobs/queue");
+
+  if (!honeytrapConfigured()) console.warn("Warning: HONEYTRAP_EMAILS/IDS not configured - skipping honeytrap redaction");
+
+  const state: State = args.dryRun
+    ? { source: args.source, startedAt: new Date().toISOString(), updatedAt: "", done: [], summary: emptySummary() }
+    : loadState(args.statePath, args.source);
+  const done = new Set(state.done);
+  // Outcome counts accumulate across resumed runs (a dry run always starts fresh);
+  // seen/already_done describe this pass over the archive only
+  const summary = state.summary;
+  summary.seen = 0;
+  summary.already_done = 0;
+  const saveState = () => {
+    if (args.dryRun) return;
+    state.done = Array.from(done);
+    state.updatedAt = new Date().toISOString();
+    writeFileSync(args.statePath, JSON.stringify(state));
+  };
+
+  let stopping = false;
+  process.on("SIGINT", () => {
+    if (stopping) process.exit(130);
+    stopping = true;
+    console.log("\nStopping after the current message (Ctrl-C again to quit without saving)...");
+  });
+
+  const started = Date.now();
+  const isMaildir = statSync(args.source).isDirectory();
+  const messages = isMaildir ? readMaildir(args.source) : readMbox(args.source);
+  let processed = 0;
+
+  for await (const { location, raw } of messages) {
+    if (stopping || (args.limit != null && processed >= args.limit)) break;
+    summary.seen += 1;
+    const parsed = parseEml(raw);
+    const key = messageKey(parsed.messageId, raw);
+    if (done.has(key)) {
+      summary.already_done += 1;
+      continue;
+    }
+    processed += 1;
+
+    const params = emlIngestParams(parsed);
+    if (!params) {
+      summary.skipped_empty += 1;
+      done.add(key);
+      continue;
+    }
+    if (params.senderId && isSuppressedSender(params.senderId)) {
+      summary.skipped_suppressed += 1;
+      done.add(key);
+      continue;
+    }
+    if (!params.emailSentAt) summary.undated += 1;
+
+    if (args.dryRun) {
+      // Same lookups ingestTextSubmission does, without recording a sighting
+      const existingId =
+        params.provider && params.providerMessageId ? await findByProviderMessageId(params.provider, params.providerMessageId) : null;
+      const dup = existingId
+        ? null
+        : await findDuplicateCase(params.rawText || params.text).catch((e) => {
+            console.warn(`Dedupe check failed ${location}: ${String(e)}`);
+            return null;
+          });
+      if (existingId || dup?.match) {
+        if (existingId) summary.duplicate_message += 1;
+        else summary.duplicate_content += 1;
+        done.add(key);
+        continue;
+      }
+    } else {
+      const result = await ingestTextSubmission(params);
+      if (!result.ok) {
+        if (result.error === "duplicate") {
+          if (result.duplicateOf === "message") summary.duplicate_message += 1;
+          else summary.duplicate_content += 1;
+          done.add(key);
+        } else {
+          summary.failed += 1;
+          console.error(`Failed ${location}: ${result.error}`);
+        }
+        continue;
+      }
+      // Parts go into storage before any job is queued, so the media job finds them
+      const storedParts =
+        result.id && args.withMedia ? await storeMessageParts(result.id, [...parsed.inline, ...parsed.attachments], "eml") : 0;
+      if (result.id && result.isFundraising) {
+        // The chain triggerPipelines builds: email render, then attachment OCR, then classify
+        const hasMedia = storedParts > 0;
+        if (params.emailBody) await enqueueJob("email_render", result.id, { next: hasMedia ? "media" : "classify" }, { maxAttempts: 2 });
+        else if (hasMedia) await enqueueJob("media", result.id);
+        else await enqueueJob("classify", result.id, { trigger: "batch" });
+        await enqueueJob("sender", result.id);
+        await enqueueJob("redact_pii", result.id);
+      }
+      if (!result.isFundraising) summary.non_fundraising += 1;
+    }
+
+    summary.imported += 1;
+    done.add(key);
+    const sentAt = params.emailSentAt?.toISOString() ?? null;
+    if (sentAt && (!summary.earliest || sentAt < summary.earliest)) summary.earliest = sentAt;
+    if (sentAt && (!summary.latest || sentAt > summary.latest)) summary.latest = sentAt;
+    if (params.senderId) summary.senders[params.senderId] = (summary.senders[params.senderId] ?? 0) + 1;
+
+    if (processed % SAVE_EVERY === 0) {
+      saveState();
+      console.log(`... ${summary.seen} seen, ${summary.imported} ${args.dryRun ? "would import" : "imported"}`);
+    }
+  }
+
+  saveState();
+  printSummary(summary, args, Date.now() - started);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+
+/**
+ * Load .env.local into process.env for the CLI scripts, from web/ or the repo root.
+ * Variables already set in the environment win. Server modules read env at import
+ * time, so call this before importing anything from src/.
+ */
+export function loadEnv() {
+  const candidates = [
+    resolve(process.cwd(), ".env.local"),
+    resolve(process.cwd(), "web", ".env.local"),
+  ];
+  for (const envPath of candidates) {
+    try {
+      const content = readFileSync(envPath, "utf-8");
+      for (const line of content.split("\n")) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith("#")) continue;
+        const eqIdx = trimmed.indexOf("=");
+        if (eqIdx < 0) continue;
+        const key = trimmed.slice(0, eqIdx).trim();
+        const val = trimmed.slice(eqIdx + 1).trim();
+        if (!process.env[key]) process.env[key] = val;
+      }
+      return;
+    } catch {
+      // Try next candidate
+    }
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Manage versioned prompt templates (prompt_templates table) without a deploy.
+ *
+ * Usage (run from the web/ directory):
+ *   npx tsx scripts/prompt-registry.ts list [--name violation_classifier]
+ *   npx tsx scripts/prompt-registry.ts show --name violation_classifier [--version v2]
+ *   npx tsx scripts/prompt-registry.ts publish --name violation_classifier --version v2 --from-builtin v1 [--notes "..."]
+ *   npx tsx scripts/prompt-registry.ts publish --name violation_classifier --version v2 --template prompt.txt \
+ *       [--codes AB003,AB004] [--guidance guidance.json] [--notes "..."] [--activate]
+ *   npx tsx scripts/prompt-registry.ts activate --name violation_classifier --version v1
+ *
+ * `publish` never overwrites an existing version; versions are immutable so every
+ * classification run can be traced back to the exact prompt text.
+ * Running servers pick up an activation within about a minute.
+ *
+ * Requires SUPABASE env vars in .env.local
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { loadEnv } from "./lib/load-env";
+
+type Args = {
+  command: string;
+  name: string;
+  version?: string;
+  fromBuiltin?: string;
+  template?: string;
+  codes?: string[];
+  guidance?: string;
+  notes?: string;
+  activate: boolean;
+};
+
+const USAGE = "Usage: npx tsx scripts/prompt-registry.ts <list|show|publish|activate> [--name NAME] [--version VERSION] ...";
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const out: Args = { command: args[0] || "", name: "violation_classifier", activate: false };
+
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === "--name" && args[i + 1]) out.name = args[++i];
+    else if (args[i] === "--version" && args[i + 1]) out.version = args[++i];
+    else if (args[i] === "--from-builtin" && args[i + 1]) out.fromBuiltin = args[++i];
+    else if (args[i] === "--template" && args[i + 1]) out.template = args[++i];
+    else if (args[i] === "--codes" && args[i + 1]) out.codes = args[++i].split(",").map((c) => c.trim()).filter(Boolean);
+    else if (args[i] === "--guidance" && args[i + 1]) out.guidance = args[++i];
+    else if (args[i] === "--notes" && args[i + 1]) out.notes = args[++i];
+    else if (args[i] === "--activate") out.activate = true;
+  }
+
+  if (!["list", "show", "publish", "activate"].includes(out.command)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  return out;
+}
+
+async function main() {
+  loadEnv();
+  const args = parseArgs();
+  // Imported after loadEnv so the app's env module sees .env.local
+  const { getBuiltinPrompt, renderPrompt, BUILTIN_PROMPTS } = await import("../src/server/ai/prompts");
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+    console.error("Make sure .env.local exists in the web/ directory, or run this script from web/.");
+    process.exit(1);
+  }
+  const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+  if (args.command === "list") {
+    const { data, error } = await supabase
+      .from("prompt_templates")
+      .select("name, version, codes, is_active, created_at, activated_at, notes")
+      .eq("name", args.name)
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Failed to list prompt versions:", error.message);
+      process.exit(1);
+    }
+    console.log(`\n=== ${args.name} ===`);
+    for (const b of BUILTIN_PROMPTS.filter((p) => p.name === args.name)) {
+      console.log(`  builtin  ${b.version.padEnd(12)} ${b.codes.join(",")}`);
+    }
+    const rows = data || [];
+    for (const r of rows) {
+      const flag = r.is_active ? "ACTIVE " : "       ";
+      console.log(`  ${flag}  ${String(r.version).padEnd(12)} ${(r.codes || []).join(",")}  ${r.created_at}${r.notes ? `  ${r.notes}` : ""}`);
+    }
+    if (!rows.some((r) => r.is_active)) console.log("\nNo database version is active; the newest builtin is in use.");
+    return;
+  }
+
+  if (args.command === "show") {
+    let template = args.version ? null : getBuiltinPrompt(args.name);
+    if (args.version) {
+      const { data } = await supabase
+        .from("prompt_templates")
+        .select("name, version, codes, guidance, template")
+        .eq("name", args.name)
+        .eq("version", args.version)
+        .maybeSingle();
+      template = data ?? getBuiltinPrompt(args.name, args.version);
+    }
+    if (!template) {
+      console.error(`Prompt ${args.name}@${args.version} not found.`);
+      process.exit(1);
+    }
+    console.log(renderPrompt(template));
+    return;
+  }
+
+  if (!args.version) {
+    console.error(`--version is required for ${args.command}.`);
+    process.exit(1);
+  }
+
+  if (args.command === "publish") {
+    let row;
+    if (args.fromBuiltin) {
+      const builtin = getBuiltinPrompt(args.name, args.fromBuiltin);
+      if (!builtin) {
+        console.error(`No builtin ${args.name}@${args.fromBuiltin}.`);
+        process.exit(1);
+      }
+      row = { template: builtin.template, codes: args.codes || builtin.codes, guidance: builtin.guidance };
+    } else if (args.template) {
+      const base = getBuiltinPrompt(args.name);
+      row = {
+        template: readFileSync(resolve(process.cwd(), args.template), "utf-8"),
+        codes: args.codes || base?.codes || [],
+        guidance: args.guidance
+          ? (JSON.parse(readFileSync(resolve(process.cwd(), args.guidance), "utf-8")) as Record<string, string>)
+          : base?.guidance || {},
+      };
+    } else {
+      console.error("publish needs --from-builtin VERSION or --template FILE.");
+      process.exit(1);
+    }
+
+    const { error } = await supabase.from("prompt_templates").insert({
+      name: args.name,
+      version: args.version,
+      ...row,
+      notes: args.notes || null,
+    });
+    if (error) {
+      console.error("Failed to publish prompt version:", error.message);
+      process.exit(1);
+    }
+    console.log(`Published ${args.name}@${args.version} (${row.codes.join(",")}).`);
+    if (!args.activate) return;
+  }
+
+  const { error } = await supabase.rpc("activate_prompt_version", {
+    name_param: args.name,
+    version_param: args.version,
+  });
+  if (error) {
+    console.error("Failed to activate prompt version:", error.message);
+    process.exit(1);
+  }
+  console.log(`Activated ${args.name}@${args.version}.`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
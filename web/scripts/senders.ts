@@ -0,0 +1,180 @@
+/**
+ * Manage canonical sender entities (senders / sender_aliases tables).
+ *
+ * Usage (run from the web/ directory):
+ *   npx tsx scripts/senders.ts list [--q dccc]
+ *   npx tsx scripts/senders.ts show --id <sender id>
+ *   npx tsx scripts/senders.ts merge --from <sender id> --into <sender id>
+ *   npx tsx scripts/senders.ts split --id <sender id> --aliases <alias id,alias id> --name "New Sender Name"
+ *   npx tsx scripts/senders.ts rename --id <sender id> --name "Display Name"
+ *   npx tsx scripts/senders.ts alias --id <sender id> --kind short_code --value 30644
+ *   npx tsx scripts/senders.ts backfill [--limit 500]   (batch size)
+ *
+ * `merge` moves every alias and case of --from to --into and keeps --from as a
+ * pointer, so ids already handed out still resolve. `split` is the reverse for a
+ * wrong grouping: the listed aliases, and the cases that matched them, move to a
+ * new entity. `backfill` links cases extracted before the registry existed.
+ *
+ * Requires SUPABASE env vars in .env.local
+ */
+
+import { loadEnv } from "./lib/load-env";
+
+type Args = {
+  command: string;
+  id?: string;
+  from?: string;
+  into?: string;
+  name?: string;
+  aliases?: string[];
+  kind?: string;
+  value?: string;
+  q?: string;
+  limit: number;
+};
+
+const COMMANDS = ["list", "show", "merge", "split", "rename", "alias", "backfill"];
+const USAGE = `Usage: npx tsx scripts/senders.ts <${COMMANDS.join("|")}> [--id ID] [--from ID --into ID] [--name NAME] ...`;
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const out: Args = { command: args[0] || "", limit: 500 };
+
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === "--id" && args[i + 1]) out.id = args[++i];
+    else if (args[i] === "--from" && args[i + 1]) out.from = args[++i];
+    else if (args[i] === "--into" && args[i + 1]) out.into = args[++i];
+    else if (args[i] === "--name" && args[i + 1]) out.name = args[++i];
+    else if (args[i] === "--aliases" && args[i + 1]) out.aliases = args[++i].split(",").map((a) => a.trim()).filter(Boolean);
+    else if (args[i] === "--kind" && args[i + 1]) out.kind = args[++i];
+    else if (args[i] === "--value" && args[i + 1]) out.value = args[++i];
+    else if (args[i] === "--q" && args[i + 1]) out.q = args[++i];
+    else if (args[i] === "--limit" && args[i + 1]) out.limit = Math.max(1, Number(args[++i]) || 500);
+  }
+
+  if (!COMMANDS.includes(out.command)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  return out;
+}
+
+function required<T>(value: T | undefined, flag: string, command: string): T {
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+    console.error(`${flag} is required for ${command}.`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main() {
+  loadEnv();
+  const args = parseArgs();
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+    console.error("Make sure .env.local exists in the web/ directory, or run this script from web/.");
+    process.exit(1);
+  }
+  // Imported after loadEnv so the app's env module sees .env.local
+  const registry = await import("../src/server/senders/registry");
+  const { getSupabaseServer } = await import("../src/lib/supabase-server");
+
+  if (args.command === "list") {
+    const rows = await registry.searchSenderEntities(args.q || "", args.limit);
+    for (const r of rows) {
+      console.log(`  ${r.id}  ${String(r.sender_type || "-").padEnd(9)} ${String(r.cases).padStart(5)} cases  ${r.name}`);
+    }
+    console.log(`\n${rows.length} sender(s).`);
+    return;
+  }
+
+  if (args.command === "show") {
+    const id = required(args.id, "--id", "show");
+    const entity = await registry.getSenderEntity(id);
+    if (!entity) {
+      console.error(`Sender ${id} not found.`);
+      process.exit(1);
+    }
+    if (entity.id !== id) console.log(`(${id} was merged into ${entity.id})`);
+    console.log(`\n=== ${entity.name} ===\n  id: ${entity.id}\n  type: ${entity.sender_type || "-"}\n  created: ${entity.created_at}\n\nAliases:`);
+    for (const a of entity.aliases) console.log(`  ${a.id}  ${a.kind.padEnd(12)} ${a.value}${a.source === "admin" ? "  (admin)" : ""}`);
+    return;
+  }
+
+  if (args.command === "merge") {
+    const from = required(args.from, "--from", "merge");
+    const into = required(args.into, "--into", "merge");
+    await registry.mergeSenders(from, into);
+    console.log(`Merged ${from} into ${into}.`);
+    return;
+  }
+
+  if (args.command === "split") {
+    const id = required(args.id, "--id", "split");
+    const aliases = required(args.aliases, "--aliases", "split");
+    const name = required(args.name, "--name", "split");
+    const newId = await registry.splitSender(id, aliases, name);
+    console.log(`Split ${aliases.length} alias(es) of ${id} into ${newId} (${name}).`);
+    return;
+  }
+
+  if (args.command === "rename") {
+    const id = required(args.id, "--id", "rename");
+    const name = required(args.name, "--name", "rename");
+    await registry.renameSender(id, name);
+    console.log(`Renamed ${id} to ${name}.`);
+    return;
+  }
+
+  if (args.command === "alias") {
+    const id = required(args.id, "--id", "alias");
+    const kind = required(args.kind, "--kind", "alias");
+    const value = required(args.value, "--value", "alias");
+    if (!(registry.SENDER_ALIAS_KINDS as string[]).includes(kind)) {
+      console.error(`--kind must be one of: ${registry.SENDER_ALIAS_KINDS.join(", ")}`);
+      process.exit(1);
+    }
+    await registry.addSenderAlias(id, kind as (typeof registry.SENDER_ALIAS_KINDS)[number], value);
+    console.log(`Added ${kind} ${value} to ${id}.`);
+    return;
+  }
+
+  // backfill: cases that match nothing (no name, unknown sender_id) stay unlinked, so page by created_at
+  const supabase = getSupabaseServer();
+  let cursor = "1970-01-01T00:00:00Z";
+  let scanned = 0;
+  let linked = 0;
+  for (;;) {
+    const { data, error } = await supabase
+      .from("submissions")
+      .select("id, created_at, sender_name, sender_id, sender_type")
+      .is("sender_entity_id", null)
+      .or("sender_name.not.is.null,sender_id.not.is.null")
+      .gt("created_at", cursor)
+      .order("created_at", { ascending: true })
+      .limit(args.limit);
+    if (error) {
+      console.error("Failed to load cases:", error.message);
+      process.exit(1);
+    }
+    const rows = data || [];
+    for (const row of rows) {
+      const entityId = await registry.resolveSenderEntity(String(row.id), {
+        senderName: (row.sender_name as string | null) ?? null,
+        senderId: (row.sender_id as string | null) ?? null,
+        senderType: (row.sender_type as "org" | "pac" | "candidate" | "unknown" | null) ?? null,
+      });
+      if (entityId) linked += 1;
+    }
+    scanned += rows.length;
+    if (rows.length < args.limit) break;
+    cursor = String(rows[rows.length - 1].created_at);
+    console.log(`  ${scanned} scanned, ${linked} linked`);
+  }
+  console.log(`Linked ${linked} of ${scanned} case(s).`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Fill the LSH band columns (simhash_band0..3, sql/2026-11-07_add_simhash_bands.sql)
+ * for submissions stored before the band index existed.
+ *
+ * Usage (run from the web/ directory):
+ *   npx tsx scripts/simhash-bands.ts backfill [--all] [--limit 500]   (batch size)
+ *
+ * Near-duplicate lookup only sees rows with bands, so run this once after applying
+ * the migration. Bands are derived from the stored simhash64; rows without one are
+ * skipped. --all rewrites every row (after changing the band layout in dedupe.ts).
+ *
+ * Requires SUPABASE env vars in .env.local
+ */
+
+import { loadEnv } from "./lib/load-env";
+
+type Args = {
+  command: string;
+  all: boolean;
+  limit: number;
+};
+
+const COMMANDS = ["backfill"];
+const USAGE = `Usage: npx tsx scripts/simhash-bands.ts <${COMMANDS.join("|")}> [--all] [--limit N]`;
+
+function parseArgs(): Args {
+  const args = process.argv.slice(2);
+  const out: Args = { command: args[0] || "", all: false, limit: 500 };
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === "--all") out.all = true;
+    else if (args[i] === "--limit" && args[i + 1]) out.limit = Math.max(1, Number(args[++i]) || 500);
+  }
+  if (!COMMANDS.includes(out.command)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  return out;
+}
+
+async function main() {
+  loadEnv();
+  const args = parseArgs();
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+    console.error("Make sure .env.local exists in the web/ directory, or run this script from web/.");
+    process.exit(1);
+  }
+  // Imported after loadEnv so the app's env module sees .env.local
+  const { simhashBands } = await import("../src/server/ingest/dedupe");
+  const { getSupabaseServer } = await import("../src/lib/supabase-server");
+
+  // Page by id: updated rows drop out of the "no bands" filter, the cursor keeps failures from looping
+  const supabase = getSupabaseServer();
+  let cursor = "00000000-0000-0000-0000-000000000000";
+  let scanned = 0;
+  let updated = 0;
+  let failed = 0;
+  for (;;) {
+    let builder = supabase
+      .from("submissions")
+      .select("id, simhash64")
+      .not("simhash64", "is", null)
+      .gt("id", cursor)
+      .order("id", { ascending: true })
+      .limit(args.limit);
+    if (!args.all) builder = builder.is("simhash_band0", null);
+    const { data, error } = await builder;
+    if (error) {
+      console.error("Failed to load submissions:", error.message);
+      process.exit(1);
+    }
+    const rows = (data || []) as Array<{ id: string; simhash64: string | number }>;
+    for (const row of rows) {
+      const [b0, b1, b2, b3] = simhashBands(BigInt(row.simhash64));
+      const { error: updateError } = await supabase
+        .from("submissions")
+        .update({ simhash_band0: b0, simhash_band1: b1, simhash_band2: b2, simhash_band3: b3 })
+        .eq("id", row.id);
+      if (updateError) {
+        failed += 1;
+        console.warn(`  ${row.id}: ${updateError.message}`);
+      } else {
+        updated += 1;
+      }
+    }
+    scanned += rows.length;
+    if (rows.length < args.limit) break;
+    cursor = String(rows[rows.length - 1].id);
+    console.log(`  ${scanned} scanned, ${updated} updated`);
+  }
+  console.log(`Backfilled bands for ${updated} of ${scanned} submission(s)${failed ? `, ${failed} failed` : ""}.`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
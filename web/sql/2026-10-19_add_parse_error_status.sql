@@ -0,0 +1,15 @@
+-- Distinct terminal status for classifier output that fails schema validation
+-- Previously these cases were written as 'done' with zero violations and looked clean
+
+alter table submissions drop constraint if exists submissions_processing_status_check;
+alter table submissions
+  add constraint submissions_processing_status_check
+  check (processing_status in ('queued','ocr','classified','done','error','parse_error'));
+
+-- Validation issues from the last failed classification attempt (cleared on success)
+alter table submissions add column if not exists classification_error text;
+
+-- Find cases to re-run: select id from submissions where processing_status = 'parse_error'
+create index if not exists submissions_parse_error_idx
+  on submissions(created_at)
+  where processing_status = 'parse_error';
@@ -0,0 +1,37 @@
+-- Classification run history
+-- Every runClassification attempt is recorded here (success, LLM failure or parse failure).
+-- The violations table keeps the rows of the current run only (linked via run_id);
+-- earlier runs keep their full parsed output in parsed_output, so nothing the model said is lost.
+
+create table if not exists classification_runs (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  created_at timestamptz default now(),
+  trigger text not null check (trigger in ('ingest','comment','landing_page','batch','manual')),
+  status text not null check (status in ('success','llm_failed','parse_error')),
+  provider text,
+  model text,
+  prompt_version text,
+  input_hash text,             -- hash of the exact messages sent (images hashed by content)
+  raw_output text,             -- first model response, verbatim
+  repair_output text,          -- response to the repair pass, if one was needed
+  parsed_output jsonb,         -- validated { violations, summary, overall_confidence }
+  violation_codes text[] default '{}',
+  error text,
+  latency_ms int
+);
+
+create index if not exists classification_runs_submission_idx
+  on classification_runs(submission_id, created_at desc);
+
+alter table violations
+  add column if not exists run_id uuid references classification_runs(id) on delete set null;
+create index if not exists violations_run_idx on violations(run_id);
+
+alter table submissions
+  add column if not exists current_classification_run_id uuid references classification_runs(id) on delete set null;
+
+-- Raw model output may quote unredacted text; keep it server-side only
+alter table public.classification_runs enable row level security;
+revoke all on public.classification_runs from anon;
+revoke all on public.classification_runs from authenticated;
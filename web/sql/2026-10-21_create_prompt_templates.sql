@@ -0,0 +1,43 @@
+-- Versioned prompt registry
+-- Each row is one immutable version of a named prompt template (see src/server/ai/prompts.ts).
+-- At most one version per name is active; when none is, the newest built-in template is used.
+-- Roll forward/back with scripts/prompt-registry.ts or: select activate_prompt_version('violation_classifier', 'v1');
+
+create table if not exists prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  version text not null,
+  template text not null,
+  codes text[] not null default '{}',  -- violation codes evaluated by this version
+  guidance jsonb not null default '{}'::jsonb,  -- per-code rules, keyed by code
+  notes text,
+  is_active boolean not null default false,
+  created_at timestamptz default now(),
+  activated_at timestamptz,
+  unique (name, version)
+);
+
+create unique index if not exists prompt_templates_one_active_idx
+  on prompt_templates(name) where is_active;
+
+-- Atomically switch the active version for a prompt name
+create or replace function activate_prompt_version(name_param text, version_param text)
+returns void as $$
+begin
+  if not exists (select 1 from prompt_templates where name = name_param and version = version_param) then
+    raise exception 'prompt version %@% not found', name_param, version_param;
+  end if;
+  update prompt_templates set is_active = false where name = name_param and is_active;
+  update prompt_templates
+    set is_active = true, activated_at = now()
+    where name = name_param and version = version_param;
+end;
+$$ language plpgsql;
+
+-- Prompt version (name@version) that produced the current classification
+alter table submissions add column if not exists ai_prompt_version text;
+
+alter table public.prompt_templates enable row level security;
+revoke all on public.prompt_templates from anon;
+revoke all on public.prompt_templates from authenticated;
+revoke execute on function activate_prompt_version(text, text) from anon, authenticated;
@@ -0,0 +1,55 @@
+-- Full AUP coverage for the classifier (prompt violation_classifier@v2)
+-- 1. landing_text: visible text of the contribution form, captured with the landing screenshot,
+--    so AB005 (Branding/Form Clarity) and AB006 (PAC Disclosure Clarity) can be judged on the form itself.
+-- 2. AB001 review flag: AB001 (Misrepresentation/Impersonation) must be reported by the impacted party and
+--    confirmed cases are hidden (see 2025-11-07_hide_ab001_violations.sql). Model findings are parked on the
+--    submission as 'pending' instead of being written to violations, until a reviewer resolves them.
+
+alter table submissions add column if not exists landing_text text;
+
+alter table submissions add column if not exists ab001_review_status text
+  check (ab001_review_status in ('pending','confirmed','dismissed'));
+alter table submissions add column if not exists ab001_candidate jsonb; -- { run_id, title, rationale, severity, confidence, evidence_spans }
+
+create index if not exists submissions_ab001_pending_idx
+  on submissions(created_at desc) where ab001_review_status = 'pending';
+
+-- Resolve a pending AB001 flag.
+-- confirm = true: insert the AB001 violation and hide the case, matching the existing AB001 policy.
+-- confirm = false: dismiss; later reclassifications will not raise the flag again.
+create or replace function resolve_ab001_review(submission_id_param uuid, confirm boolean)
+returns void as $$
+declare
+  candidate jsonb;
+begin
+  select ab001_candidate into candidate
+  from submissions
+  where id = submission_id_param and ab001_review_status = 'pending';
+
+  if candidate is null then
+    raise exception 'no pending AB001 review for submission %', submission_id_param;
+  end if;
+
+  if confirm then
+    insert into violations (submission_id, run_id, code, title, description, evidence_spans, severity, confidence)
+    values (
+      submission_id_param,
+      nullif(candidate->>'run_id', '')::uuid,
+      'AB001',
+      coalesce(candidate->>'title', 'Misrepresentation/Impersonation'),
+      coalesce(candidate->>'rationale', ''),
+      coalesce(candidate->'evidence_spans', '[]'::jsonb),
+      coalesce((candidate->>'severity')::int, 3),
+      coalesce((candidate->>'confidence')::numeric, 0.5)
+    );
+    update submissions set ab001_review_status = 'confirmed', public = false where id = submission_id_param;
+  else
+    update submissions set ab001_review_status = 'dismissed' where id = submission_id_param;
+  end if;
+end;
+$$ language plpgsql;
+
+revoke execute on function resolve_ab001_review(uuid, boolean) from anon, authenticated;
+
+-- Pending queue:
+-- select id, sender_name, ab001_candidate->>'rationale' from submissions where ab001_review_status = 'pending' order by created_at desc;
@@ -0,0 +1,42 @@
+-- Deterministic violation rules (see src/server/ai/rules.ts)
+-- Rules are regexes or whitespace-tolerant phrases tied to one AUP code, each with a weight (0-1).
+-- Edit rows directly to tune them; running servers pick up changes within ~60s.
+-- Rules only hint the classifier and add exact evidence spans. When a rule scores a code as
+-- likely and the classifier does not flag it, the disagreement is stored for human review.
+
+create table if not exists violation_rules (
+  id text primary key,                 -- stable slug, recorded in classification_runs.rule_candidates
+  code text not null,
+  name text not null,
+  kind text not null default 'regex' check (kind in ('regex','phrase')),
+  pattern text not null,
+  flags text default 'i',              -- JS regex flags for kind = 'regex'
+  weight numeric(3,2) not null default 0.5 check (weight >= 0 and weight <= 1),
+  enabled boolean not null default true,
+  notes text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+insert into violation_rules (id, code, name, kind, pattern, flags, weight) values
+  ('ab008-percent-match', 'AB008', 'Percent match offer', 'regex', '\b\d{2,4}\s?%[\s-]*match(ed|ing)?\b', 'i', 0.9),
+  ('ab008-multiplier-match', 'AB008', 'Multiplier match offer', 'regex', '\b(double|triple|quadruple|quintuple|[2-9]x|[2-9]-to-1)[\s-]+match(ed|ing)?\b', 'i', 0.8),
+  ('ab008-gifts-matched', 'AB008', 'Gifts will be matched', 'regex', '\b(gifts?|donations?|contributions?)\s+(will\s+be\s+|are\s+(being\s+)?)?matched\b', 'i', 0.6),
+  ('ab007-membership-lapsed', 'AB007', 'Democratic membership lapsed/renew', 'regex', '\bdemocratic\s+(party\s+)?membership[\s\S]{0,60}?\b(lapsed|expired|expiring|expires|renew(al)?|cancell?ed|deactivated|inactive)\b', 'i', 0.85),
+  ('ab007-voting-record', 'AB007', 'Fake voting record', 'regex', '\byour\s+(democratic\s+|official\s+)?(voting|voter|donor)\s+record\b', 'i', 0.6),
+  ('ab009-actblue-go-away', 'AB009', 'ActBlue may go away', 'regex', '\bactblue\b[\s\S]{0,40}?\b(may|could|might|will|is\s+about\s+to)\s+(go\s+away|shut\s+down|disappear|be\s+shut\s+down|be\s+banned|go\s+dark)\b', 'i', 0.9),
+  ('ab009-from-actblue', 'AB009', 'Message presented as from ActBlue', 'regex', '\b(new\s+)?actblue\s+(update|alert|notice|notification|security\s+alert)\b', 'i', 0.5),
+  ('ab002-straight-to', 'AB002', 'Donation sent straight to a person', 'regex', '\b(send|rush|give)\b[^.!?\n]{0,30}\b(straight|directly)\s+to\s+(him|her|them)\b', 'i', 0.6)
+on conflict (id) do nothing;
+
+-- Rule matches evaluated for each run (code, combined score, hits with spans)
+alter table classification_runs add column if not exists rule_candidates jsonb;
+
+-- { rule_only: [{code, score, quotes}], llm_only: [code] } when rules and the classifier disagree, else null
+alter table submissions add column if not exists rule_disagreement jsonb;
+create index if not exists submissions_rule_disagreement_idx
+  on submissions(created_at desc) where rule_disagreement is not null;
+
+alter table public.violation_rules enable row level security;
+revoke all on public.violation_rules from anon;
+revoke all on public.violation_rules from authenticated;
@@ -0,0 +1,20 @@
+-- Consensus classification (server/ai/consensus.ts)
+-- Several models (or samples of one model) classify the same case; findings are merged per code by vote.
+-- A code flagged by at most half of the voters is kept but marked contested, and is left out of
+-- ActBlue reports and hidden on the case page by default. Single-model runs leave these columns null.
+
+alter table violations add column if not exists consensus_votes int;   -- voters that flagged this code
+alter table violations add column if not exists consensus_total int;   -- voters asked (failed voters count as no)
+alter table violations add column if not exists agreement numeric;     -- consensus_votes / consensus_total
+alter table violations add column if not exists contested boolean
+  generated always as (consensus_total is not null and consensus_votes * 2 <= consensus_total) stored;
+
+alter table classification_runs add column if not exists mode text not null default 'single'
+  check (mode in ('single','consensus'));
+alter table classification_runs add column if not exists consensus jsonb; -- { voters, valid, votes: { code: { votes, total, agreement, contested } } }
+
+-- Reports re-run classification in consensus mode first
+alter table classification_runs drop constraint if exists classification_runs_trigger_check;
+alter table classification_runs
+  add constraint classification_runs_trigger_check
+  check (trigger in ('ingest','comment','landing_page','batch','manual','report'));
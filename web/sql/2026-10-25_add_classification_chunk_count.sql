@@ -0,0 +1,3 @@
+-- Long messages are classified in token-budgeted chunks (server/ai/chunking.ts) instead of being truncated.
+-- Number of chunks each run sent per voter; 1 for messages that fit in a single call.
+alter table classification_runs add column if not exists chunk_count int not null default 1;
@@ -0,0 +1,107 @@
+-- Durable job queue for the processing pipeline (see src/server/jobs/)
+-- Each pipeline step (OCR, classify, sender, PII redaction, landing screenshot, preview email) is a job row.
+-- Workers claim jobs with a lease; a job whose worker dies is picked up again once the lease expires.
+-- Failed jobs are retried with exponential backoff until max_attempts, then parked as 'dead' for inspection.
+
+create table if not exists jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null check (type in ('ocr','classify','sender','redact_pii','screenshot','preview_email')),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  payload jsonb not null default '{}'::jsonb,
+  dedupe_key text,                     -- at most one pending job per key; defaults to '<type>:<submission_id>'
+  status text not null default 'pending' check (status in ('pending','running','succeeded','dead')),
+  attempts int not null default 0,
+  max_attempts int not null default 5,
+  run_at timestamptz not null default now(),
+  locked_by text,
+  locked_until timestamptz,
+  last_error text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  finished_at timestamptz
+);
+
+create index if not exists jobs_ready_idx on jobs(run_at) where status = 'pending';
+create index if not exists jobs_lease_idx on jobs(locked_until) where status = 'running';
+create index if not exists jobs_submission_idx on jobs(submission_id, created_at desc);
+create unique index if not exists jobs_pending_dedupe_idx on jobs(dedupe_key) where status = 'pending';
+
+-- Enqueue a job. If a pending job with the same dedupe key exists, merge the payload into it
+-- and keep the earlier run_at instead of adding a second row.
+create or replace function enqueue_job(
+  type_param text,
+  submission_id_param uuid,
+  payload_param jsonb default '{}'::jsonb,
+  dedupe_key_param text default null,
+  run_at_param timestamptz default now(),
+  max_attempts_param int default 5
+)
+returns uuid as $$
+declare
+  job_id uuid;
+begin
+  insert into jobs (type, submission_id, payload, dedupe_key, run_at, max_attempts)
+  values (type_param, submission_id_param, coalesce(payload_param, '{}'::jsonb), dedupe_key_param, run_at_param, max_attempts_param)
+  on conflict (dedupe_key) where status = 'pending'
+  do update set
+    payload = jobs.payload || excluded.payload,
+    run_at = least(jobs.run_at, excluded.run_at),
+    updated_at = now()
+  returning id into job_id;
+  return job_id;
+end;
+$$ language plpgsql;
+
+-- Claim up to limit_param ready jobs for one worker: pending jobs that are due, plus running jobs
+-- whose lease expired. Expired jobs that already used all attempts are moved to 'dead' first.
+-- Optional filters restrict the claim to one submission and/or a set of job types.
+create or replace function claim_jobs(
+  worker_param text,
+  limit_param int default 10,
+  lease_seconds_param int default 300,
+  submission_id_param uuid default null,
+  types_param text[] default null
+)
+returns setof jobs as $$
+begin
+  update jobs
+  set status = 'dead',
+      last_error = coalesce(last_error, 'lease expired'),
+      locked_by = null,
+      locked_until = null,
+      finished_at = now(),
+      updated_at = now()
+  where status = 'running'
+    and locked_until < now()
+    and attempts >= max_attempts;
+
+  return query
+  update jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = worker_param,
+      locked_until = now() + make_interval(secs => lease_seconds_param),
+      updated_at = now()
+  where j.id in (
+    select id from jobs
+    where ((status = 'pending' and run_at <= now()) or (status = 'running' and locked_until < now()))
+      and (submission_id_param is null or submission_id = submission_id_param)
+      and (types_param is null or type = any(types_param))
+    order by run_at
+    limit limit_param
+    for update skip locked
+  )
+  returning j.*;
+end;
+$$ language plpgsql;
+
+alter table public.jobs enable row level security;
+revoke all on public.jobs from anon;
+revoke all on public.jobs from authenticated;
+revoke execute on function enqueue_job(text, uuid, jsonb, text, timestamptz, int) from anon, authenticated;
+revoke execute on function claim_jobs(text, int, int, uuid, text[]) from anon, authenticated;
+
+-- Dead letters:
+-- select id, type, submission_id, attempts, last_error, finished_at from jobs where status = 'dead' order by finished_at desc;
+-- Retry a dead job:
+-- update jobs set status = 'pending', attempts = 0, run_at = now(), last_error = null, finished_at = null where id = '<job id>';
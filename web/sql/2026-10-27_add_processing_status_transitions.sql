@@ -0,0 +1,57 @@
+-- processing_status state machine (see src/server/jobs/status.ts) and stuck-case sweeper (src/server/jobs/sweeper.ts)
+-- 1. processing_status_at: when the submission entered its current status
+-- 2. submission_status_events: one row per transition, with the reason that caused it
+-- 3. sweep_attempts: how often the sweeper re-enqueued the case since it last reached 'done'
+-- 4. pipeline_health: admin view with stuck/error counts
+
+alter table submissions add column if not exists processing_status_at timestamptz;
+update submissions set processing_status_at = created_at where processing_status_at is null;
+alter table submissions alter column processing_status_at set default now();
+alter table submissions add column if not exists sweep_attempts int not null default 0;
+
+create index if not exists submissions_in_progress_idx
+  on submissions(processing_status_at) where processing_status in ('queued','ocr','classified');
+
+create table if not exists submission_status_events (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  reason text,                         -- e.g. 'classify:ingest', 'comment', 'job_dead:ocr', 'sweeper:stuck'
+  created_at timestamptz default now()
+);
+create index if not exists submission_status_events_submission_idx
+  on submission_status_events(submission_id, created_at);
+
+-- Sweeper re-runs classification with its own trigger
+alter table classification_runs drop constraint if exists classification_runs_trigger_check;
+alter table classification_runs
+  add constraint classification_runs_trigger_check
+  check (trigger in ('ingest','comment','landing_page','batch','manual','report','sweeper'));
+
+-- A case is stuck after 15 minutes in an in-progress status (STUCK_AFTER_MINUTES in sweeper.ts)
+create or replace view pipeline_health as
+select
+  count(*) filter (where processing_status = 'queued' and processing_status_at < now() - interval '15 minutes') as stuck_queued,
+  count(*) filter (where processing_status = 'ocr' and processing_status_at < now() - interval '15 minutes') as stuck_ocr,
+  count(*) filter (where processing_status = 'classified' and processing_status_at < now() - interval '15 minutes') as stuck_classified,
+  count(*) filter (where processing_status = 'error') as error,
+  count(*) filter (where processing_status = 'parse_error') as parse_error,
+  (select count(*) from jobs where status = 'dead') as dead_jobs,
+  (select count(*) from jobs where status = 'pending' and run_at <= now()) as due_jobs
+from submissions;
+
+alter table public.submission_status_events enable row level security;
+revoke all on public.submission_status_events from anon;
+revoke all on public.submission_status_events from authenticated;
+revoke all on public.pipeline_health from anon;
+revoke all on public.pipeline_health from authenticated;
+
+-- Admin view:
+-- select * from pipeline_health;
+-- Stuck cases:
+-- select id, processing_status, processing_status_at, sweep_attempts from submissions
+--   where processing_status in ('queued','ocr','classified') and processing_status_at < now() - interval '15 minutes'
+--   order by processing_status_at;
+-- History of one case:
+-- select from_status, to_status, reason, created_at from submission_status_events where submission_id = '<id>' order by created_at;
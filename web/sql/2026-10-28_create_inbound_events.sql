@@ -0,0 +1,30 @@
+-- Idempotent webhook ingestion (see src/server/ingest/save.ts, src/server/ingest/inbound-events.ts)
+-- Mailgun and Twilio retry webhooks. Each submission now records the provider's message ID
+-- (Mailgun Message-Id, Twilio MessageSid); a retry with the same ID returns the original case.
+-- inbound_events logs every webhook delivery and what happened to it.
+
+alter table submissions add column if not exists provider text check (provider in ('mailgun','twilio'));
+alter table submissions add column if not exists provider_message_id text;
+create unique index if not exists submissions_provider_message_id_idx
+  on submissions(provider, provider_message_id) where provider_message_id is not null;
+
+create table if not exists inbound_events (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null check (provider in ('mailgun','twilio')),
+  provider_message_id text,
+  submission_id uuid references submissions(id) on delete set null,
+  outcome text not null check (outcome in ('created','duplicate_message','duplicate_content','suppressed','rejected','failed')),
+  detail jsonb,                        -- e.g. { reason } for rejected, { error } for failed
+  created_at timestamptz default now()
+);
+create index if not exists inbound_events_message_idx on inbound_events(provider, provider_message_id, created_at desc);
+create index if not exists inbound_events_created_idx on inbound_events(created_at desc);
+
+alter table public.inbound_events enable row level security;
+revoke all on public.inbound_events from anon;
+revoke all on public.inbound_events from authenticated;
+
+-- Deliveries of one message:
+-- select outcome, submission_id, detail, created_at from inbound_events where provider_message_id = '<id>' order by created_at;
+-- Retry volume per day:
+-- select date_trunc('day', created_at) as day, outcome, count(*) from inbound_events group by 1, 2 order by 1 desc;
@@ -0,0 +1,10 @@
+-- Raw .eml uploads (see src/server/ingest/eml.ts, /api/upload-eml)
+-- Uploaded messages keep their real headers: the Message-ID goes into provider_message_id with
+-- provider 'eml' (uploading the same file twice returns the first case), and List-Unsubscribe is stored.
+
+alter table submissions drop constraint if exists submissions_provider_check;
+alter table submissions add constraint submissions_provider_check check (provider in ('mailgun','twilio','eml'));
+alter table submissions add column if not exists email_list_unsubscribe text;
+
+-- Cases created from uploaded .eml files:
+-- select id, email_from, email_sent_at, provider_message_id from submissions where provider = 'eml' order by created_at desc;
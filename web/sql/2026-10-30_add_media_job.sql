@@ -0,0 +1,13 @@
+-- MMS media job (see src/server/ingest/media.ts)
+-- Twilio media links expire and need the account credentials, so a 'media' job copies each attachment into
+-- storage (<bucket>/<submissionId>/media/), rewrites its media_urls entry to supabase:// (the Twilio URL moves
+-- to sourceUrl) and stores the OCR text of images on the entry (ocrText). Classification waits for it.
+
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check
+  check (type in ('ocr','classify','sender','redact_pii','screenshot','preview_email','media'));
+
+-- Attachments still pointing at the provider (media job pending or dead):
+-- select id, created_at, media_urls from submissions
+-- where exists (select 1 from jsonb_array_elements(media_urls) m where m->>'url' not like 'supabase://%' and m->>'error' is null)
+-- order by created_at desc;
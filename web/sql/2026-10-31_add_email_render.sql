@@ -0,0 +1,16 @@
+-- Email images and rendering (see src/app/api/render-email, src/server/ingest/media.ts)
+-- Mailgun attachments and CID inline images are stored under <bucket>/<submissionId>/email/ and linked from
+-- media_urls (inline images carry contentId); the media job OCRs them. An 'email_render' job renders the sanitized
+-- email_body to a PNG in the screenshots bucket, which the classifier gets as a vision input.
+
+alter table submissions add column if not exists email_screenshot_url text;
+alter table submissions add column if not exists email_rendered_at timestamptz;
+
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check
+  check (type in ('ocr','classify','sender','redact_pii','screenshot','preview_email','media','email_render'));
+
+-- Email cases with HTML that were never rendered (render job dead or not configured):
+-- select id, created_at from submissions
+-- where message_type = 'email' and email_body is not null and email_screenshot_url is null
+-- order by created_at desc;
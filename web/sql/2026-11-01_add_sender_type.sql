@@ -0,0 +1,445 @@
+-- Sender type, confidence and notes from the sender extraction (see src/server/ai/sender.ts)
+-- runSenderExtraction already asked the model for sender_type/confidence/notes but only kept sender_name.
+-- Every extracted field is now stored on the submission; submission_sender_events keeps the previous
+-- values whenever a re-run changes one. get_stats gains a sender_types filter and a sender_type_split
+-- (PAC vs candidate vs org), with cases never typed counted as 'unknown'.
+
+alter table submissions add column if not exists sender_type text
+  check (sender_type in ('org','pac','candidate','unknown'));
+alter table submissions add column if not exists sender_confidence numeric(3,2);
+alter table submissions add column if not exists sender_notes text;
+alter table submissions add column if not exists sender_extracted_at timestamptz;
+
+create index if not exists submissions_sender_type_idx on submissions(sender_type);
+
+create table if not exists submission_sender_events (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  field text not null check (field in ('sender_name','sender_type','sender_confidence','sender_notes')),
+  old_value text,
+  new_value text,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists submission_sender_events_submission_idx
+  on submission_sender_events(submission_id, created_at);
+
+alter table public.submission_sender_events enable row level security;
+revoke all on public.submission_sender_events from anon;
+revoke all on public.submission_sender_events from authenticated;
+
+-- The new parameter changes the signature; drop the old one so callers are not ambiguous
+drop function if exists get_stats(timestamptz, timestamptz, text[], text[], boolean[], text[], text[]);
+
+create or replace function get_stats(
+  start_date timestamptz default null,
+  end_date timestamptz default now(),
+  sender_names text[] default null,
+  violation_codes text[] default null,
+  violation_permitted_flags boolean[] default null,
+  sources text[] default null,
+  message_types text[] default null,
+  sender_types text[] default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  result json;
+  total_captures int;
+  captures_with_violations int;
+  total_reports int;
+  user_upload_count int;
+  honeytrap_count int;
+  day_count int;
+  filter_enabled boolean := sender_names is not null and array_length(sender_names, 1) is not null;
+  violation_filter_enabled boolean := violation_codes is not null and array_length(violation_codes, 1) is not null;
+  source_filter_enabled boolean := sources is not null and array_length(sources, 1) is not null;
+  type_filter_enabled boolean := message_types is not null and array_length(message_types, 1) is not null;
+  sender_type_filter_enabled boolean := sender_types is not null and array_length(sender_types, 1) is not null;
+begin
+  if start_date is null then
+    select coalesce(min(created_at), now() - interval '1 year') into start_date from submissions;
+  end if;
+
+  select count(*) into total_captures
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  select count(distinct submission_id) into captures_with_violations
+  from violations v
+  join submissions s on v.submission_id = s.id
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    -- Only exclude verified violations when NOT filtering by violations
+    and (violation_filter_enabled or v.actblue_verified = false)
+    and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+    and (not violation_filter_enabled or (
+      v.code = any(violation_codes)
+      and (
+        case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+             when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+             else v.actblue_verified = false
+        end
+      )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  select count(*) into total_reports
+  from reports r
+  join submissions s on s.id = r.case_id
+  where r.created_at >= start_date and r.created_at <= end_date
+    and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  -- UPDATED SOURCE SPLIT - respects new filters
+  select 
+    count(*) filter (where (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)) as user_uploads,
+    count(*) filter (where (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)) as honeytraps
+  into user_upload_count, honeytrap_count
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  select greatest(1, extract(days from end_date - start_date)::int) into day_count;
+
+  result := json_build_object(
+    'period', json_build_object('start', start_date, 'end', end_date, 'days', day_count),
+    'kpis', json_build_object(
+      'total_captures', total_captures,
+      'captures_with_violations', captures_with_violations,
+      'total_reports', total_reports,
+      'user_uploads', user_upload_count,
+      'honeytraps', honeytrap_count
+    ),
+    'captures_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', created_at at time zone 'America/New_York')
+                      else date_trunc('week', created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'violations_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', s.created_at at time zone 'America/New_York')
+                      else date_trunc('week', s.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(distinct s.id) as count
+        from submissions s
+        join violations v on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'reports_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', r.created_at at time zone 'America/New_York')
+                      else date_trunc('week', r.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from reports r
+        join submissions s on s.id = r.case_id
+        where r.created_at >= start_date and r.created_at <= end_date
+          and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'top_senders', (
+      select json_agg(json_build_object('sender', sender_name_val, 'total_captures', capture_count, 'captures_with_violations', violation_count, 'is_repeat_offender', violation_count >= 3) order by capture_count desc)
+      from (
+        select coalesce(sender_name, sender_id, 'Unknown') as sender_name_val,
+               count(distinct s.id) as capture_count,
+               count(distinct case 
+                 -- Only count unverified violations, even when filtering
+                 when v.actblue_verified = false then v.submission_id
+                 else null
+               end) as violation_count
+        from submissions s
+        left join violations v on v.submission_id = s.id
+          -- When no violation filter: only join unverified violations
+          -- When violation filter enabled: filter by the selected violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v2
+            where v2.submission_id = s.id
+              and v2.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v2.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v2.code)] = true then v2.actblue_verified = true
+                     else v2.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by sender_name_val
+        having count(*) >= 1
+        order by capture_count desc
+      ) senders
+    ),
+    'violation_mix', (
+      select json_agg(json_build_object('code', violation_code, 'count', violation_count, 'percentage', round((violation_count::numeric / nullif(total_violations, 0) * 100)::numeric, 1)) order by violation_count desc)
+      from (
+        select v.code as violation_code,
+               count(*) as violation_count,
+               sum(count(*)) over () as total_violations
+        from violations v
+        join submissions s on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by v.code
+        order by violation_count desc
+      ) violation_stats
+    ),
+    'sender_type_split', (
+      select json_agg(json_build_object('sender_type', sender_type_val, 'total_captures', capture_count, 'captures_with_violations', violation_count) order by capture_count desc)
+      from (
+        select coalesce(s.sender_type, 'unknown') as sender_type_val,
+               count(*) as capture_count,
+               count(*) filter (where exists (select 1 from violations v where v.submission_id = s.id and v.actblue_verified = false)) as violation_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or coalesce(s.sender_name, s.sender_id, 'Unknown') = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by coalesce(s.sender_type, 'unknown')
+      ) sender_type_stats
+    ),
+    'source_split', json_build_array(
+      json_build_object('source', 'user_upload', 'count', user_upload_count, 'percentage', round((user_upload_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1)),
+      json_build_object('source', 'honeytrap', 'count', honeytrap_count, 'percentage', round((honeytrap_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1))
+    )
+  );
+
+  return result;
+end;
+$$;
+
+-- Sender extraction history for a case:
+-- select field, old_value, new_value, model, created_at from submission_sender_events
+-- where submission_id = '<id>' order by created_at;
+
+-- Public cases extracted before this migration (re-run /api/sender to fill in the type):
+-- select id, sender_name from submissions
+-- where public = true and sender_name is not null and sender_type is null
+-- order by created_at desc;
@@ -0,0 +1,1060 @@
+-- Canonical sender registry (see src/server/senders/registry.ts, scripts/senders.ts)
+-- sender_name is free text from the model, so "DCCC", "Democratic Congressional Campaign Committee (DCCC)" and
+-- "DCCC - Democratic Congressional..." used to be three senders. A senders row is one committee/organization;
+-- sender_aliases maps every name, phone number, short code and email domain seen for it to the row, and
+-- submissions.sender_entity_id links each case to its sender. Sender extraction resolves the extracted name and
+-- the raw sender_id through resolve_sender_entity(); admins merge and split entities with merge_senders() and
+-- split_sender(). The stats RPCs group and filter by sender_display_name(), the entity name when there is one.
+
+create table if not exists senders (
+  id uuid primary key default gen_random_uuid(),
+  name text not null, -- display name, editable
+  sender_type text check (sender_type in ('org','pac','candidate','unknown')),
+  merged_into_id uuid references senders(id) on delete set null, -- set by merge_senders(); the row is kept so old ids still resolve
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists sender_aliases (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references senders(id) on delete cascade,
+  kind text not null check (kind in ('name','phone','short_code','email_domain')),
+  value text not null, -- as first seen
+  normalized text not null, -- sender_alias_key(kind, value)
+  source text not null default 'extraction' check (source in ('extraction','admin')),
+  created_at timestamptz not null default now(),
+  unique (kind, normalized)
+);
+
+create index if not exists sender_aliases_entity_idx on sender_aliases(entity_id);
+
+alter table submissions add column if not exists sender_entity_id uuid references senders(id) on delete set null;
+create index if not exists submissions_sender_entity_idx on submissions(sender_entity_id);
+
+alter table public.senders enable row level security;
+revoke all on public.senders from anon;
+revoke all on public.senders from authenticated;
+alter table public.sender_aliases enable row level security;
+revoke all on public.sender_aliases from anon;
+revoke all on public.sender_aliases from authenticated;
+
+-- Which kind of alias a raw sender_id is: email address -> its domain (free mail excluded, the domain says
+-- nothing about the sender), 5-6 digits -> SMS short code, 10-11 digits -> phone number
+create or replace function sender_id_kind(raw text)
+returns text as $$
+declare
+  digits text;
+begin
+  if raw is null or btrim(raw) = '' then return null; end if;
+  if position('@' in raw) > 0 then
+    if lower(split_part(raw, '@', 2)) in ('gmail.com','yahoo.com','hotmail.com','outlook.com','aol.com','icloud.com','me.com','msn.com','live.com','protonmail.com','proton.me') then
+      return null;
+    end if;
+    return 'email_domain';
+  end if;
+  digits := regexp_replace(raw, '\D', '', 'g');
+  if length(digits) between 5 and 6 then return 'short_code'; end if;
+  if length(digits) between 10 and 11 then return 'phone'; end if;
+  return null;
+end;
+$$ language plpgsql immutable;
+
+create or replace function sender_alias_key(alias_kind text, raw text)
+returns text as $$
+  select nullif(case alias_kind
+    when 'name' then normalize_sender_name(raw)
+    when 'phone' then right(regexp_replace(raw, '\D', '', 'g'), 10)
+    when 'short_code' then regexp_replace(raw, '\D', '', 'g')
+    when 'email_domain' then lower(btrim(regexp_replace(raw, '^.*@', '')))
+  end, '')
+$$ language sql immutable;
+
+-- Display name used for grouping: the entity name, else the raw extracted name or sender_id
+create or replace function sender_display_name(entity_id uuid, raw_name text, raw_sender_id text)
+returns text as $$
+  select coalesce((select e.name from senders e where e.id = entity_id), raw_name, raw_sender_id, 'Unknown')
+$$ language sql stable;
+
+-- Resolve an extracted name and raw sender_id to a sender entity, creating one (with its aliases) for a new name.
+-- The name wins over the sender_id: a shared short code must not pull every committee into one entity.
+-- Returns null when there is neither a name nor a known sender_id.
+create or replace function resolve_sender_entity(raw_name text, raw_sender_id text, type_hint text default null)
+returns uuid as $$
+declare
+  name_key text := sender_alias_key('name', raw_name);
+  id_kind text := sender_id_kind(raw_sender_id);
+  id_key text := case when id_kind is not null then sender_alias_key(id_kind, raw_sender_id) end;
+  entity uuid;
+  created uuid;
+begin
+  if name_key is not null then
+    select a.entity_id into entity from sender_aliases a where a.kind = 'name' and a.normalized = name_key;
+  end if;
+  if entity is null and id_key is not null then
+    select a.entity_id into entity from sender_aliases a where a.kind = id_kind and a.normalized = id_key;
+  end if;
+  if entity is null then
+    if name_key is null then return null; end if;
+    insert into senders (name, sender_type) values (btrim(raw_name), type_hint) returning id into created;
+    insert into sender_aliases (entity_id, kind, value, normalized)
+      values (created, 'name', btrim(raw_name), name_key)
+      on conflict (kind, normalized) do nothing;
+    select a.entity_id into entity from sender_aliases a where a.kind = 'name' and a.normalized = name_key;
+    -- Lost a race with a concurrent extraction of the same name
+    if entity <> created then delete from senders where id = created; end if;
+  elsif name_key is not null then
+    insert into sender_aliases (entity_id, kind, value, normalized)
+      values (entity, 'name', btrim(raw_name), name_key)
+      on conflict (kind, normalized) do nothing;
+  end if;
+  if id_key is not null then
+    insert into sender_aliases (entity_id, kind, value, normalized)
+      values (entity, id_kind, btrim(raw_sender_id), id_key)
+      on conflict (kind, normalized) do nothing;
+  end if;
+  update senders set sender_type = type_hint, updated_at = now()
+    where id = entity and sender_type is null and type_hint is not null and type_hint <> 'unknown';
+  return entity;
+end;
+$$ language plpgsql;
+
+-- Fold one entity into another: aliases and cases move, the old row points at the survivor
+create or replace function merge_senders(from_id uuid, into_id uuid)
+returns void as $$
+begin
+  if from_id = into_id then
+    raise exception 'cannot merge a sender into itself';
+  end if;
+  if not exists (select 1 from senders where id = into_id and merged_into_id is null) then
+    raise exception 'sender % not found or already merged', into_id;
+  end if;
+  if not exists (select 1 from senders where id = from_id and merged_into_id is null) then
+    raise exception 'sender % not found or already merged', from_id;
+  end if;
+  update sender_aliases set entity_id = into_id where entity_id = from_id;
+  update submissions set sender_entity_id = into_id where sender_entity_id = from_id;
+  update senders set merged_into_id = into_id, updated_at = now() where id = from_id or merged_into_id = from_id;
+  update senders set updated_at = now() where id = into_id;
+end;
+$$ language plpgsql;
+
+-- Undo a wrong grouping: move the given aliases to a new entity and re-link the cases that matched them
+-- (by name, or by sender_id when their name is not an alias of the old entity). Returns the new entity id.
+create or replace function split_sender(from_id uuid, alias_ids uuid[], new_name text)
+returns uuid as $$
+declare
+  new_id uuid;
+begin
+  if not exists (select 1 from sender_aliases where entity_id = from_id and id = any(alias_ids)) then
+    raise exception 'no aliases of sender % given', from_id;
+  end if;
+  insert into senders (name, sender_type)
+    select btrim(new_name), sender_type from senders where id = from_id
+    returning id into new_id;
+  update sender_aliases set entity_id = new_id where entity_id = from_id and id = any(alias_ids);
+  update submissions s set sender_entity_id = new_id
+  where s.sender_entity_id = from_id
+    and (
+      exists (select 1 from sender_aliases a where a.entity_id = new_id and a.kind = 'name' and a.normalized = sender_alias_key('name', s.sender_name))
+      or (
+        not exists (select 1 from sender_aliases a where a.entity_id = from_id and a.kind = 'name' and a.normalized = sender_alias_key('name', s.sender_name))
+        and exists (select 1 from sender_aliases a where a.entity_id = new_id and a.kind = sender_id_kind(s.sender_id) and a.normalized = sender_alias_key(a.kind, s.sender_id))
+      )
+    );
+  update senders set updated_at = now() where id = from_id;
+  return new_id;
+end;
+$$ language plpgsql;
+
+revoke execute on function resolve_sender_entity(text, text, text) from anon, authenticated;
+revoke execute on function merge_senders(uuid, uuid) from anon, authenticated;
+revoke execute on function split_sender(uuid, uuid[], text) from anon, authenticated;
+
+-- Stats group and filter by entity (same signatures, bodies unchanged apart from the sender expression)
+
+create or replace function get_stats(
+  start_date timestamptz default null,
+  end_date timestamptz default now(),
+  sender_names text[] default null,
+  violation_codes text[] default null,
+  violation_permitted_flags boolean[] default null,
+  sources text[] default null,
+  message_types text[] default null,
+  sender_types text[] default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  result json;
+  total_captures int;
+  captures_with_violations int;
+  total_reports int;
+  user_upload_count int;
+  honeytrap_count int;
+  day_count int;
+  filter_enabled boolean := sender_names is not null and array_length(sender_names, 1) is not null;
+  violation_filter_enabled boolean := violation_codes is not null and array_length(violation_codes, 1) is not null;
+  source_filter_enabled boolean := sources is not null and array_length(sources, 1) is not null;
+  type_filter_enabled boolean := message_types is not null and array_length(message_types, 1) is not null;
+  sender_type_filter_enabled boolean := sender_types is not null and array_length(sender_types, 1) is not null;
+begin
+  if start_date is null then
+    select coalesce(min(created_at), now() - interval '1 year') into start_date from submissions;
+  end if;
+
+  select count(*) into total_captures
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  select count(distinct submission_id) into captures_with_violations
+  from violations v
+  join submissions s on v.submission_id = s.id
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    -- Only exclude verified violations when NOT filtering by violations
+    and (violation_filter_enabled or v.actblue_verified = false)
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or (
+      v.code = any(violation_codes)
+      and (
+        case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+             when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+             else v.actblue_verified = false
+        end
+      )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  select count(*) into total_reports
+  from reports r
+  join submissions s on s.id = r.case_id
+  where r.created_at >= start_date and r.created_at <= end_date
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  -- UPDATED SOURCE SPLIT - respects new filters
+  select 
+    count(*) filter (where (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)) as user_uploads,
+    count(*) filter (where (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)) as honeytraps
+  into user_upload_count, honeytrap_count
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types));
+
+  select greatest(1, extract(days from end_date - start_date)::int) into day_count;
+
+  result := json_build_object(
+    'period', json_build_object('start', start_date, 'end', end_date, 'days', day_count),
+    'kpis', json_build_object(
+      'total_captures', total_captures,
+      'captures_with_violations', captures_with_violations,
+      'total_reports', total_reports,
+      'user_uploads', user_upload_count,
+      'honeytraps', honeytrap_count
+    ),
+    'captures_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', created_at at time zone 'America/New_York')
+                      else date_trunc('week', created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'violations_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', s.created_at at time zone 'America/New_York')
+                      else date_trunc('week', s.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(distinct s.id) as count
+        from submissions s
+        join violations v on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'reports_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', r.created_at at time zone 'America/New_York')
+                      else date_trunc('week', r.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from reports r
+        join submissions s on s.id = r.case_id
+        where r.created_at >= start_date and r.created_at <= end_date
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'top_senders', (
+      select json_agg(json_build_object('sender', sender_name_val, 'total_captures', capture_count, 'captures_with_violations', violation_count, 'is_repeat_offender', violation_count >= 3) order by capture_count desc)
+      from (
+        select sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) as sender_name_val,
+               count(distinct s.id) as capture_count,
+               count(distinct case 
+                 -- Only count unverified violations, even when filtering
+                 when v.actblue_verified = false then v.submission_id
+                 else null
+               end) as violation_count
+        from submissions s
+        left join violations v on v.submission_id = s.id
+          -- When no violation filter: only join unverified violations
+          -- When violation filter enabled: filter by the selected violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v2
+            where v2.submission_id = s.id
+              and v2.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v2.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v2.code)] = true then v2.actblue_verified = true
+                     else v2.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by sender_name_val
+        having count(*) >= 1
+        order by capture_count desc
+      ) senders
+    ),
+    'violation_mix', (
+      select json_agg(json_build_object('code', violation_code, 'count', violation_count, 'percentage', round((violation_count::numeric / nullif(total_violations, 0) * 100)::numeric, 1)) order by violation_count desc)
+      from (
+        select v.code as violation_code,
+               count(*) as violation_count,
+               sum(count(*)) over () as total_violations
+        from violations v
+        join submissions s on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by v.code
+        order by violation_count desc
+      ) violation_stats
+    ),
+    'sender_type_split', (
+      select json_agg(json_build_object('sender_type', sender_type_val, 'total_captures', capture_count, 'captures_with_violations', violation_count) order by capture_count desc)
+      from (
+        select coalesce(s.sender_type, 'unknown') as sender_type_val,
+               count(*) as capture_count,
+               count(*) filter (where exists (select 1 from violations v where v.submission_id = s.id and v.actblue_verified = false)) as violation_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+        group by coalesce(s.sender_type, 'unknown')
+      ) sender_type_stats
+    ),
+    'source_split', json_build_array(
+      json_build_object('source', 'user_upload', 'count', user_upload_count, 'percentage', round((user_upload_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1)),
+      json_build_object('source', 'honeytrap', 'count', honeytrap_count, 'percentage', round((honeytrap_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1))
+    )
+  );
+
+  return result;
+end;
+$$;
+
+create or replace function get_advanced_stats(
+  start_date timestamptz default null,
+  end_date timestamptz default now(),
+  sender_names text[] default null,
+  violation_codes text[] default null,
+  violation_permitted_flags boolean[] default null,
+  sources text[] default null,
+  message_types text[] default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  result json;
+  day_count int;
+  filter_enabled boolean := sender_names is not null and array_length(sender_names, 1) is not null;
+  violation_filter_enabled boolean := violation_codes is not null and array_length(violation_codes, 1) is not null;
+  source_filter_enabled boolean := sources is not null and array_length(sources, 1) is not null;
+  type_filter_enabled boolean := message_types is not null and array_length(message_types, 1) is not null;
+begin
+  if start_date is null then
+    select coalesce(min(created_at), now() - interval '1 year') into start_date from submissions;
+  end if;
+
+  select greatest(1, extract(days from end_date - start_date)::int) into day_count;
+
+  result := json_build_object(
+    -- Enhanced sender stats with violation rate, top code, first/last seen
+    'sender_stats', (
+      select coalesce(json_agg(row_to_json(t) order by t.captures_with_violations desc, t.total_captures desc), '[]'::json)
+      from (
+        select
+          sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) as sender,
+          count(distinct s.id) as total_captures,
+          count(distinct case when v.id is not null and v.actblue_verified = false then s.id end) as captures_with_violations,
+          round(
+            count(distinct case when v.id is not null and v.actblue_verified = false then s.id end)::numeric
+            / nullif(count(distinct s.id), 0) * 100, 1
+          ) as violation_rate,
+          (
+            select v2.code from violations v2
+            where v2.submission_id = any(array_agg(distinct s.id))
+              and v2.actblue_verified = false
+            group by v2.code
+            order by count(*) desc
+            limit 1
+          ) as top_violation_code,
+          min(s.created_at)::date as first_seen,
+          max(s.created_at)::date as last_seen,
+          count(distinct case when v.id is not null and v.actblue_verified = false then s.id end) >= 3 as is_repeat_offender
+        from submissions s
+        left join violations v on v.submission_id = s.id
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v2
+            where v2.submission_id = s.id
+              and v2.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v2.code)] is null then v2.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v2.code)] = true then v2.actblue_verified = true
+                     else v2.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+        group by sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id)
+        having count(distinct s.id) >= 1
+        order by count(distinct case when v.id is not null and v.actblue_verified = false then s.id end) desc, count(distinct s.id) desc
+      ) t
+    ),
+
+    -- Top domains extracted from links JSONB (only from submissions with violations)
+    'top_domains', (
+      select coalesce(json_agg(json_build_object('domain', domain_val, 'count', cnt) order by cnt desc), '[]'::json)
+      from (
+        select
+          coalesce(
+            elem->>'domain',
+            substring(elem->>'url' from '://([^/]+)')
+          ) as domain_val,
+          count(*) as cnt
+        from submissions s,
+             jsonb_array_elements(case when jsonb_typeof(s.links) = 'array' and jsonb_array_length(s.links) > 0 then s.links else '[]'::jsonb end) as elem
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.actblue_verified = false
+          )
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+        group by domain_val
+        having coalesce(elem->>'domain', substring(elem->>'url' from '://([^/]+)')) is not null
+        order by cnt desc
+        limit 15
+      ) domains
+    ),
+
+    -- Top ActBlue URLs (specific contribution pages)
+    'top_actblue_urls', (
+      select coalesce(json_agg(json_build_object('url', url_val, 'count', cnt) order by cnt desc), '[]'::json)
+      from (
+        select
+          elem->>'url' as url_val,
+          count(*) as cnt
+        from submissions s,
+             jsonb_array_elements(case when jsonb_typeof(s.links) = 'array' and jsonb_array_length(s.links) > 0 then s.links else '[]'::jsonb end) as elem
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (
+            coalesce(elem->>'domain', substring(elem->>'url' from '://([^/]+)')) ilike '%actblue%'
+          )
+          and exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.actblue_verified = false
+          )
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not source_filter_enabled or (
+            case
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+        group by url_val
+        order by cnt desc
+        limit 10
+      ) urls
+    ),
+
+    -- Message type by time bucket (for stacked area chart)
+    'message_type_by_bucket', (
+      select coalesce(json_agg(json_build_object(
+        'bucket', bucket_key,
+        'sms', sms_count,
+        'email', email_count,
+        'unknown', unknown_count
+      ) order by bucket_key), '[]'::json)
+      from (
+        select
+          to_char(
+            case when day_count <= 45 then date_trunc('day', s.created_at at time zone 'America/New_York')
+                 else date_trunc('week', s.created_at at time zone 'America/New_York') end,
+            'YYYY-MM-DD'
+          ) as bucket_key,
+          count(*) filter (where s.message_type::text = 'sms') as sms_count,
+          count(*) filter (where s.message_type::text = 'email') as email_count,
+          count(*) filter (where s.message_type::text = 'unknown') as unknown_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+        group by bucket_key
+        order by bucket_key
+      ) type_buckets
+    ),
+
+    -- Source split by time bucket (user_upload vs honeytrap over time)
+    'source_by_bucket', (
+      select coalesce(json_agg(json_build_object(
+        'bucket', bucket_key,
+        'user_upload', user_upload_count,
+        'honeytrap', honeytrap_count
+      ) order by bucket_key), '[]'::json)
+      from (
+        select
+          to_char(
+            case when day_count <= 45 then date_trunc('day', s.created_at at time zone 'America/New_York')
+                 else date_trunc('week', s.created_at at time zone 'America/New_York') end,
+            'YYYY-MM-DD'
+          ) as bucket_key,
+          count(*) filter (where (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)) as user_upload_count,
+          count(*) filter (where (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)) as honeytrap_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+        group by bucket_key
+        order by bucket_key
+      ) source_buckets
+    ),
+
+    -- Violation trends by code over time
+    'violations_by_code_by_bucket', (
+      select coalesce(json_agg(json_build_object(
+        'bucket', bucket_key,
+        'code', violation_code,
+        'count', cnt
+      ) order by bucket_key, violation_code), '[]'::json)
+      from (
+        select
+          to_char(
+            case when day_count <= 45 then date_trunc('day', s.created_at at time zone 'America/New_York')
+                 else date_trunc('week', s.created_at at time zone 'America/New_York') end,
+            'YYYY-MM-DD'
+          ) as bucket_key,
+          v.code as violation_code,
+          count(*) as cnt
+        from violations v
+        join submissions s on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+        group by bucket_key, v.code
+        order by bucket_key, v.code
+      ) code_buckets
+    )
+  );
+
+  return result;
+end;
+$$;
+
+create or replace function get_homepage_stats(
+  recent_limit int default 5,
+  offenders_limit int default 10,
+  offenders_days int default null,  -- null = lifetime, otherwise last N days
+  reports_limit int default 5
+)
+returns json
+language plpgsql
+stable
+as $$
+declare
+  result json;
+begin
+  result := json_build_object(
+    'recent_cases', (
+      select json_agg(
+        json_build_object(
+          'id', id,
+          'created_at', created_at,
+          'sender_id', sender_id,
+          'sender_name', sender_name,
+          'raw_text', raw_text,
+          'message_type', message_type,
+          'forwarder_email', forwarder_email,
+          'image_url', image_url,
+          'violations', violations
+        ) order by created_at desc
+      )
+      from (
+        select 
+          s.id,
+          s.created_at,
+          s.sender_id,
+          s.sender_name,
+          s.raw_text,
+          s.message_type,
+          s.forwarder_email,
+          s.image_url,
+          json_agg(
+            json_build_object('code', v.code, 'title', v.title, 'actblue_verified', v.actblue_verified)
+            order by v.severity desc, v.confidence desc
+          ) filter (where v.code is not null) as violations
+        from submissions s
+        join violations v on v.submission_id = s.id
+        where s.public = true
+        group by s.id
+        order by s.created_at desc
+        limit recent_limit
+      ) recent
+    ),
+    'worst_offenders', (
+      select json_agg(
+        json_build_object(
+          'sender_name', sender_name,
+          'violation_count', violation_count,
+          'latest_violation_at', latest_violation_at
+        ) order by violation_count desc, latest_violation_at desc
+      )
+      from (
+        with violation_cases as (
+          select distinct 
+            s.id,
+            sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) as sender,
+            s.created_at
+          from submissions s
+          join violations v on v.submission_id = s.id
+          where s.public = true
+            and v.actblue_verified = false
+            and (offenders_days is null or s.created_at >= now() - (offenders_days || ' days')::interval)
+        )
+        select 
+          sender as sender_name,
+          count(*) as violation_count,
+          max(created_at) as latest_violation_at
+        from violation_cases
+        group by sender
+        order by violation_count desc, latest_violation_at desc
+        limit offenders_limit
+      ) offenders
+    ),
+    'recent_reports', (
+      select json_agg(
+        json_build_object(
+          'report', json_build_object(
+            'id', r.id,
+            'case_id', r.case_id,
+            'to_email', r.to_email,
+            'cc_email', r.cc_email,
+            'subject', r.subject,
+            'body', r.body,
+            'screenshot_url', r.screenshot_url,
+            'landing_url', r.landing_url,
+            'status', r.status,
+            'created_at', r.created_at
+          ),
+          'case', json_build_object(
+            'id', s.id,
+            'sender_name', s.sender_name,
+            'sender_id', s.sender_id,
+            'raw_text', s.raw_text,
+            'image_url', s.image_url,
+            'created_at', s.created_at,
+            'message_type', s.message_type,
+            'email_body', s.email_body
+          ),
+          'verdict', case 
+            when rv.id is not null then json_build_object(
+              'id', rv.id,
+              'verdict', rv.verdict,
+              'explanation', rv.explanation,
+              'determined_by', rv.determined_by,
+              'created_at', rv.created_at,
+              'updated_at', rv.updated_at
+            )
+            else null
+          end,
+          'violations', coalesce(
+            (
+              select json_agg(
+                json_build_object('code', v.code, 'title', v.title)
+                order by v.severity desc, v.confidence desc
+              )
+              from violations v
+              where v.submission_id = s.id
+            ),
+            '[]'::json
+          )
+        ) order by r.created_at desc
+      )
+      from (
+        select r.*
+        from reports r
+        join submissions s on s.id = r.case_id
+        where s.public = true
+        order by r.created_at desc
+        limit reports_limit
+      ) r
+      join submissions s on s.id = r.case_id
+      left join report_verdicts rv on rv.case_id = r.case_id
+    ),
+    'platform_status', (
+      select json_build_object(
+        'actblue_reporting_status', ps.actblue_reporting_status,
+        'bot_network_sender_count', (
+          select count(distinct sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id))
+          from submissions s
+          where s.created_at >= now() - interval '30 days'
+            and s.public = true
+        )
+      )
+      from platform_status ps
+      where ps.id = 'default'
+    )
+  );
+  
+  return result;
+end;
+$$;
+
+-- Backfill existing cases (also: npx tsx scripts/senders.ts backfill):
+-- update submissions set sender_entity_id = resolve_sender_entity(sender_name, sender_id, sender_type)
+-- where sender_entity_id is null and (sender_name is not null or sender_id is not null);
+
+-- Entities with the most aliases (merge candidates show up as near-duplicate names):
+-- select e.id, e.name, count(a.id) as aliases, array_agg(a.value order by a.created_at) as seen_as
+-- from senders e left join sender_aliases a on a.entity_id = e.id
+-- where e.merged_into_id is null
+-- group by e.id order by e.name;
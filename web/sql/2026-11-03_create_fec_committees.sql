@@ -0,0 +1,78 @@
+-- FEC committee and candidate master data (see src/server/senders/fec.ts, scripts/import-fec.ts)
+-- Loaded from the FEC bulk files (cm.txt committee master, cn.txt candidate master) with
+-- npx tsx scripts/import-fec.ts; re-importing a newer file updates rows in place. Cases are linked to a
+-- committee by fuzzy-matching the "Paid for by" disclaimer and the extracted sender_name
+-- (match_fec_committees); the classifier gets the committee type for AB004/AB006.
+
+create extension if not exists pg_trgm;
+
+create table if not exists fec_committees (
+  cmte_id text primary key, -- e.g. C00000935
+  name text not null,
+  normalized_name text generated always as (normalize_sender_name(name)) stored,
+  treasurer_name text,
+  committee_type text, -- CMTE_TP: H, S, P (candidate), N, Q (PAC), O (super PAC), V, W (hybrid), X, Y, Z (party), ...
+  designation text, -- CMTE_DSGN: A, B, D (leadership PAC), J (joint fundraiser), P (principal campaign committee), U
+  party text,
+  org_type text,
+  connected_org text,
+  candidate_id text, -- CAND_ID for candidate committees
+  city text,
+  state text,
+  filing_frequency text,
+  cycle int, -- election cycle of the file the row came from
+  imported_at timestamptz not null default now()
+);
+
+create index if not exists fec_committees_name_trgm_idx on fec_committees using gin (normalized_name gin_trgm_ops);
+create index if not exists fec_committees_candidate_idx on fec_committees(candidate_id);
+
+create table if not exists fec_candidates (
+  cand_id text primary key, -- e.g. H8VA07094
+  name text not null,
+  party text,
+  election_year int,
+  office text, -- H, S, P
+  office_state text,
+  office_district text,
+  incumbent_challenger text, -- I, C, O
+  status text,
+  principal_committee_id text,
+  cycle int,
+  imported_at timestamptz not null default now()
+);
+
+alter table submissions add column if not exists fec_committee_id text references fec_committees(cmte_id) on delete set null;
+alter table submissions add column if not exists fec_match_score numeric(3,2); -- trigram similarity of the matched name
+alter table submissions add column if not exists fec_match_source text
+  check (fec_match_source in ('disclaimer','sender_name','admin'));
+alter table submissions add column if not exists fec_matched_at timestamptz; -- last match attempt, also when nothing matched
+
+create index if not exists submissions_fec_committee_idx on submissions(fec_committee_id);
+
+-- Committees whose normalized name is most similar to the query
+create or replace function match_fec_committees(query text, max_results int default 5)
+returns table (cmte_id text, name text, committee_type text, designation text, treasurer_name text, score real) as $$
+  select c.cmte_id, c.name, c.committee_type, c.designation, c.treasurer_name,
+         similarity(c.normalized_name, normalize_sender_name(query)) as score
+  from fec_committees c
+  where c.normalized_name % normalize_sender_name(query)
+  order by score desc, c.cycle desc nulls last
+  limit max_results
+$$ language sql stable;
+
+-- Public FEC data, but only the service role loads and reads it
+alter table public.fec_committees enable row level security;
+revoke all on public.fec_committees from anon;
+revoke all on public.fec_committees from authenticated;
+alter table public.fec_candidates enable row level security;
+revoke all on public.fec_candidates from anon;
+revoke all on public.fec_candidates from authenticated;
+
+-- Link a case by hand when the name match is wrong or missing (kept by later re-matches):
+-- update submissions set fec_committee_id = 'C00000935', fec_match_score = null, fec_match_source = 'admin', fec_matched_at = now()
+-- where id = '<case id>';
+
+-- Linked cases by committee type:
+-- select c.committee_type, count(*) from submissions s join fec_committees c on c.cmte_id = s.fec_committee_id
+-- where s.public = true group by 1 order by 2 desc;
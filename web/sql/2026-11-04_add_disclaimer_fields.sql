@@ -0,0 +1,482 @@
+-- "Paid for by" disclaimers parsed from the message text and OCR (see src/server/senders/disclaimer.ts)
+-- cleanTextForAI keeps the disclaimer line; the sender job now parses it into the paid-for-by entity,
+-- the "not authorized by any candidate" clause (or who authorized it) and the committee address, and
+-- compares the entity with the extracted sender_name: match, mismatch, missing (no disclaimer found)
+-- or unverified (no sender to compare with). get_stats gains a disclaimer_statuses filter and a
+-- disclaimer_split, with cases never checked counted as 'unchecked'.
+
+alter table submissions add column if not exists disclaimer_paid_for_by text;
+alter table submissions add column if not exists disclaimer_authorization text
+  check (disclaimer_authorization in ('not_authorized','authorized'));
+alter table submissions add column if not exists disclaimer_authorized_by text;
+alter table submissions add column if not exists disclaimer_address text;
+alter table submissions add column if not exists disclaimer_text text; -- the disclaimer as found, up to the address
+alter table submissions add column if not exists disclaimer_source text
+  check (disclaimer_source in ('text','ocr'));
+alter table submissions add column if not exists disclaimer_status text
+  check (disclaimer_status in ('match','mismatch','missing','unverified'));
+alter table submissions add column if not exists disclaimer_checked_at timestamptz;
+
+create index if not exists submissions_disclaimer_status_idx on submissions(disclaimer_status);
+
+-- The new parameter changes the signature; drop the old one so callers are not ambiguous
+drop function if exists get_stats(timestamptz, timestamptz, text[], text[], boolean[], text[], text[], text[]);
+
+create or replace function get_stats(
+  start_date timestamptz default null,
+  end_date timestamptz default now(),
+  sender_names text[] default null,
+  violation_codes text[] default null,
+  violation_permitted_flags boolean[] default null,
+  sources text[] default null,
+  message_types text[] default null,
+  sender_types text[] default null,
+  disclaimer_statuses text[] default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  result json;
+  total_captures int;
+  captures_with_violations int;
+  total_reports int;
+  user_upload_count int;
+  honeytrap_count int;
+  day_count int;
+  filter_enabled boolean := sender_names is not null and array_length(sender_names, 1) is not null;
+  violation_filter_enabled boolean := violation_codes is not null and array_length(violation_codes, 1) is not null;
+  source_filter_enabled boolean := sources is not null and array_length(sources, 1) is not null;
+  type_filter_enabled boolean := message_types is not null and array_length(message_types, 1) is not null;
+  sender_type_filter_enabled boolean := sender_types is not null and array_length(sender_types, 1) is not null;
+  disclaimer_filter_enabled boolean := disclaimer_statuses is not null and array_length(disclaimer_statuses, 1) is not null;
+begin
+  if start_date is null then
+    select coalesce(min(created_at), now() - interval '1 year') into start_date from submissions;
+  end if;
+
+  select count(*) into total_captures
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  select count(distinct submission_id) into captures_with_violations
+  from violations v
+  join submissions s on v.submission_id = s.id
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    -- Only exclude verified violations when NOT filtering by violations
+    and (violation_filter_enabled or v.actblue_verified = false)
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or (
+      v.code = any(violation_codes)
+      and (
+        case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+             when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+             else v.actblue_verified = false
+        end
+      )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  select count(*) into total_reports
+  from reports r
+  join submissions s on s.id = r.case_id
+  where r.created_at >= start_date and r.created_at <= end_date
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  -- UPDATED SOURCE SPLIT - respects new filters
+  select 
+    count(*) filter (where (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)) as user_uploads,
+    count(*) filter (where (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)) as honeytraps
+  into user_upload_count, honeytrap_count
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  select greatest(1, extract(days from end_date - start_date)::int) into day_count;
+
+  result := json_build_object(
+    'period', json_build_object('start', start_date, 'end', end_date, 'days', day_count),
+    'kpis', json_build_object(
+      'total_captures', total_captures,
+      'captures_with_violations', captures_with_violations,
+      'total_reports', total_reports,
+      'user_uploads', user_upload_count,
+      'honeytraps', honeytrap_count
+    ),
+    'captures_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', created_at at time zone 'America/New_York')
+                      else date_trunc('week', created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'violations_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', s.created_at at time zone 'America/New_York')
+                      else date_trunc('week', s.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(distinct s.id) as count
+        from submissions s
+        join violations v on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'reports_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', r.created_at at time zone 'America/New_York')
+                      else date_trunc('week', r.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from reports r
+        join submissions s on s.id = r.case_id
+        where r.created_at >= start_date and r.created_at <= end_date
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'top_senders', (
+      select json_agg(json_build_object('sender', sender_name_val, 'total_captures', capture_count, 'captures_with_violations', violation_count, 'is_repeat_offender', violation_count >= 3) order by capture_count desc)
+      from (
+        select sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) as sender_name_val,
+               count(distinct s.id) as capture_count,
+               count(distinct case 
+                 -- Only count unverified violations, even when filtering
+                 when v.actblue_verified = false then v.submission_id
+                 else null
+               end) as violation_count
+        from submissions s
+        left join violations v on v.submission_id = s.id
+          -- When no violation filter: only join unverified violations
+          -- When violation filter enabled: filter by the selected violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v2
+            where v2.submission_id = s.id
+              and v2.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v2.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v2.code)] = true then v2.actblue_verified = true
+                     else v2.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by sender_name_val
+        having count(*) >= 1
+        order by capture_count desc
+      ) senders
+    ),
+    'violation_mix', (
+      select json_agg(json_build_object('code', violation_code, 'count', violation_count, 'percentage', round((violation_count::numeric / nullif(total_violations, 0) * 100)::numeric, 1)) order by violation_count desc)
+      from (
+        select v.code as violation_code,
+               count(*) as violation_count,
+               sum(count(*)) over () as total_violations
+        from violations v
+        join submissions s on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by v.code
+        order by violation_count desc
+      ) violation_stats
+    ),
+    'sender_type_split', (
+      select json_agg(json_build_object('sender_type', sender_type_val, 'total_captures', capture_count, 'captures_with_violations', violation_count) order by capture_count desc)
+      from (
+        select coalesce(s.sender_type, 'unknown') as sender_type_val,
+               count(*) as capture_count,
+               count(*) filter (where exists (select 1 from violations v where v.submission_id = s.id and v.actblue_verified = false)) as violation_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by coalesce(s.sender_type, 'unknown')
+      ) sender_type_stats
+    ),
+    'disclaimer_split', (
+      select json_agg(json_build_object('disclaimer_status', disclaimer_status_val, 'total_captures', capture_count, 'captures_with_violations', violation_count) order by capture_count desc)
+      from (
+        select coalesce(s.disclaimer_status, 'unchecked') as disclaimer_status_val,
+               count(*) as capture_count,
+               count(*) filter (where exists (select 1 from violations v where v.submission_id = s.id and v.actblue_verified = false)) as violation_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by coalesce(s.disclaimer_status, 'unchecked')
+      ) disclaimer_stats
+    ),
+    'source_split', json_build_array(
+      json_build_object('source', 'user_upload', 'count', user_upload_count, 'percentage', round((user_upload_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1)),
+      json_build_object('source', 'honeytrap', 'count', honeytrap_count, 'percentage', round((honeytrap_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1))
+    )
+  );
+
+  return result;
+end;
+$$;
+
+-- Cases whose disclaimer names someone other than the sender:
+-- select id, sender_name, disclaimer_paid_for_by, disclaimer_text from submissions
+-- where public = true and disclaimer_status = 'mismatch' order by created_at desc;
+
+-- Fundraising cases without a disclaimer, by sender:
+-- select sender_name, count(*) from submissions
+-- where public = true and is_fundraising = true and disclaimer_status = 'missing'
+-- group by 1 order by 2 desc;
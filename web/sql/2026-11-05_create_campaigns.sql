@@ -0,0 +1,124 @@
+-- Message campaigns: clusters of near-duplicate submissions (see src/server/campaigns/cluster.ts)
+-- findDuplicateCase only drops an incoming copy of one earlier case. Campaigns group every case whose
+-- simhash64 is within CAMPAIGN_SIMHASH_DISTANCE of a case already in the campaign (single link), so
+-- the same copy reused by different PACs, or re-sent weeks later, ends up in one campaign. A variant
+-- is one distinct normalized_hash within a campaign. received_by records which honeytrap got a case
+-- (a label, never the address) so the campaign page can show who got each variant.
+
+create table if not exists campaigns (
+  id uuid primary key default gen_random_uuid(),
+  representative_submission_id uuid references submissions(id) on delete set null, -- earliest public case
+  merged_into_id uuid references campaigns(id) on delete set null, -- set when merged into another campaign
+  first_seen_at timestamptz,
+  last_seen_at timestamptz,
+  variant_count int not null default 0, -- distinct normalized_hash among public cases
+  case_count int not null default 0,
+  sender_count int not null default 0,
+  received_by_count int not null default 0, -- distinct honeytraps
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists campaigns_last_seen_idx on campaigns(last_seen_at desc);
+
+alter table submissions add column if not exists received_by text; -- honeytrap label, e.g. 'email-2', 'sms-4821'; null for user uploads
+alter table submissions add column if not exists campaign_id uuid references campaigns(id) on delete set null;
+alter table submissions add column if not exists campaign_distance smallint; -- simhash distance to the case it joined through
+alter table submissions add column if not exists campaign_primary boolean not null default false; -- latest public case, for collapsed lists
+
+create index if not exists submissions_campaign_idx on submissions(campaign_id);
+create index if not exists submissions_normalized_hash_idx on submissions(normalized_hash);
+create index if not exists submissions_campaign_primary_idx on submissions(campaign_id) where campaign_primary;
+
+-- Recompute a campaign's counts, representative and primary case from its public cases
+create or replace function refresh_campaign(target uuid)
+returns void as $$
+begin
+  update campaigns c set
+    first_seen_at = agg.first_seen_at,
+    last_seen_at = agg.last_seen_at,
+    variant_count = agg.variant_count,
+    case_count = agg.case_count,
+    sender_count = agg.sender_count,
+    received_by_count = agg.received_by_count,
+    representative_submission_id = agg.representative,
+    updated_at = now()
+  from (
+    select min(s.sort_date) as first_seen_at,
+           max(s.sort_date) as last_seen_at,
+           count(distinct s.normalized_hash)::int as variant_count,
+           count(*)::int as case_count,
+           count(distinct sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id))::int as sender_count,
+           count(distinct s.received_by)::int as received_by_count,
+           (array_agg(s.id order by s.sort_date))[1] as representative
+    from submissions s
+    where s.campaign_id = target and s.public = true
+  ) agg
+  where c.id = target;
+
+  update submissions set campaign_primary = false where campaign_id = target and campaign_primary;
+  update submissions set campaign_primary = true
+    where id = (select id from submissions where campaign_id = target and public = true order by sort_date desc limit 1);
+end;
+$$ language plpgsql;
+
+-- Move every case of from_id to into_id; from_id keeps a pointer so links to it still resolve
+create or replace function merge_campaigns(from_id uuid, into_id uuid)
+returns void as $$
+begin
+  if from_id = into_id then
+    return;
+  end if;
+  update submissions set campaign_id = into_id, campaign_primary = false where campaign_id = from_id;
+  update campaigns set merged_into_id = into_id where merged_into_id = from_id;
+  update campaigns set merged_into_id = into_id, representative_submission_id = null,
+    variant_count = 0, case_count = 0, sender_count = 0, received_by_count = 0, updated_at = now()
+    where id = from_id;
+  perform refresh_campaign(into_id);
+end;
+$$ language plpgsql;
+
+-- One row per variant (distinct normalized text) of a campaign, earliest first
+create or replace function campaign_variants(target uuid)
+returns table (
+  normalized_hash text,
+  first_seen_at timestamptz,
+  last_seen_at timestamptz,
+  case_count int,
+  senders text[],
+  received_by text[],
+  message_types text[],
+  example_submission_id uuid,
+  distance smallint
+) as $$
+  select s.normalized_hash,
+         min(s.sort_date),
+         max(s.sort_date),
+         count(*)::int,
+         coalesce(array_agg(distinct sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id))
+           filter (where sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) is not null), '{}'),
+         coalesce(array_agg(distinct s.received_by) filter (where s.received_by is not null), '{}'),
+         array_agg(distinct s.message_type::text),
+         (array_agg(s.id order by s.sort_date))[1],
+         min(s.campaign_distance)::smallint
+  from submissions s
+  where s.campaign_id = target and s.public = true
+  group by s.normalized_hash
+  order by min(s.sort_date)
+$$ language sql stable;
+
+-- Internal: the API reads campaigns with the service role
+alter table public.campaigns enable row level security;
+revoke all on public.campaigns from anon;
+revoke all on public.campaigns from authenticated;
+revoke execute on function refresh_campaign(uuid) from anon, authenticated;
+revoke execute on function merge_campaigns(uuid, uuid) from anon, authenticated;
+
+-- Largest campaigns in the last 30 days:
+-- select id, case_count, variant_count, sender_count, first_seen_at from campaigns
+-- where merged_into_id is null and last_seen_at > now() - interval '30 days'
+-- order by case_count desc limit 20;
+
+-- Copy reused by more than one sender:
+-- select c.id, v.senders from campaigns c, campaign_variants(c.id) v
+-- where c.sender_count > 1 and cardinality(v.senders) > 0 order by c.sender_count desc;
@@ -0,0 +1,595 @@
+-- Sightings: every later arrival of a message we already have a case for (see src/server/ingest/sightings.ts)
+-- findDuplicateCase used to drop a repeat send outright, so a text blasted to every honeytrap ten times
+-- counted the same as one sent once. Each duplicate now records a sighting against the canonical case:
+-- when it arrived, the channel, the honeytrap label (never the address), the sending number or address
+-- and how close the text was (exact or near, with the simhash distance). Webhook retries of a message
+-- we already stored (same provider message ID) are not sightings; the unique index below also keeps a
+-- retried duplicate from being counted twice. get_stats gains total_sends and sends_by_bucket: cases
+-- plus their sightings in the period.
+
+create table if not exists sightings (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade, -- the canonical case
+  seen_at timestamptz not null default now(), -- when we received it
+  sent_at timestamptz, -- Date header, when known (emails)
+  channel text not null check (channel in ('sms','email','unknown')),
+  received_by text, -- honeytrap label, e.g. 'email-2', 'sms-4821'; null for user uploads
+  sender_id text, -- sending phone number, short code or From address
+  match text not null check (match in ('exact','near')),
+  distance smallint not null default 0, -- simhash distance to the canonical case
+  provider text, -- 'mailgun' | 'twilio' | 'eml'
+  provider_message_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sightings_submission_idx on sightings(submission_id, seen_at desc);
+create index if not exists sightings_seen_at_idx on sightings(seen_at desc);
+create unique index if not exists sightings_provider_message_id_idx
+  on sightings(provider, provider_message_id) where provider_message_id is not null;
+
+-- Internal: the case API reads sightings with the service role
+alter table public.sightings enable row level security;
+revoke all on public.sightings from anon;
+revoke all on public.sightings from authenticated;
+
+-- Same signature as 2026-11-04; the sightings count and the sends series are new outputs
+create or replace function get_stats(
+  start_date timestamptz default null,
+  end_date timestamptz default now(),
+  sender_names text[] default null,
+  violation_codes text[] default null,
+  violation_permitted_flags boolean[] default null,
+  sources text[] default null,
+  message_types text[] default null,
+  sender_types text[] default null,
+  disclaimer_statuses text[] default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  result json;
+  total_captures int;
+  total_sightings int;
+  captures_with_violations int;
+  total_reports int;
+  user_upload_count int;
+  honeytrap_count int;
+  day_count int;
+  filter_enabled boolean := sender_names is not null and array_length(sender_names, 1) is not null;
+  violation_filter_enabled boolean := violation_codes is not null and array_length(violation_codes, 1) is not null;
+  source_filter_enabled boolean := sources is not null and array_length(sources, 1) is not null;
+  type_filter_enabled boolean := message_types is not null and array_length(message_types, 1) is not null;
+  sender_type_filter_enabled boolean := sender_types is not null and array_length(sender_types, 1) is not null;
+  disclaimer_filter_enabled boolean := disclaimer_statuses is not null and array_length(disclaimer_statuses, 1) is not null;
+begin
+  if start_date is null then
+    select coalesce(min(created_at), now() - interval '1 year') into start_date from submissions;
+  end if;
+
+  select count(*) into total_captures
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  -- Later sends of those cases (sightings) that arrived in the period
+  select count(*) into total_sightings
+  from sightings g
+  join submissions s on s.id = g.submission_id
+  where g.seen_at >= start_date and g.seen_at <= end_date
+    and s.public = true
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  select count(distinct submission_id) into captures_with_violations
+  from violations v
+  join submissions s on v.submission_id = s.id
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    -- Only exclude verified violations when NOT filtering by violations
+    and (violation_filter_enabled or v.actblue_verified = false)
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or (
+      v.code = any(violation_codes)
+      and (
+        case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+             when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+             else v.actblue_verified = false
+        end
+      )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  select count(*) into total_reports
+  from reports r
+  join submissions s on s.id = r.case_id
+  where r.created_at >= start_date and r.created_at <= end_date
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  -- UPDATED SOURCE SPLIT - respects new filters
+  select 
+    count(*) filter (where (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)) as user_uploads,
+    count(*) filter (where (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)) as honeytraps
+  into user_upload_count, honeytrap_count
+  from submissions s
+  where s.created_at >= start_date and s.created_at <= end_date
+    and s.public = true
+    and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+    and (not violation_filter_enabled or exists (
+      select 1 from violations v
+      where v.submission_id = s.id
+        and v.code = any(violation_codes)
+        and (
+          case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+               when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+               else v.actblue_verified = false
+          end
+        )
+    ))
+    and (not source_filter_enabled or (
+      case 
+        when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+        when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+        when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+        else false
+      end
+    ))
+    and (not type_filter_enabled or s.message_type::text = any(message_types))
+    and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+    and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses));
+
+  select greatest(1, extract(days from end_date - start_date)::int) into day_count;
+
+  result := json_build_object(
+    'period', json_build_object('start', start_date, 'end', end_date, 'days', day_count),
+    'kpis', json_build_object(
+      'total_captures', total_captures,
+      'total_sends', total_captures + total_sightings,
+      'captures_with_violations', captures_with_violations,
+      'total_reports', total_reports,
+      'user_uploads', user_upload_count,
+      'honeytraps', honeytrap_count
+    ),
+    'captures_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', created_at at time zone 'America/New_York')
+                      else date_trunc('week', created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'sends_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', sent.sent_time at time zone 'America/New_York')
+                      else date_trunc('week', sent.sent_time at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from (
+          select s.created_at as sent_time
+          from submissions s
+          where s.created_at >= start_date and s.created_at <= end_date
+            and s.public = true
+            and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+            and (not violation_filter_enabled or exists (
+              select 1 from violations v
+              where v.submission_id = s.id
+                and v.code = any(violation_codes)
+                and (
+                  case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                       when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                       else v.actblue_verified = false
+                  end
+                )
+            ))
+            and (not source_filter_enabled or (
+              case 
+                when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+                when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+                when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+                else false
+              end
+            ))
+            and (not type_filter_enabled or s.message_type::text = any(message_types))
+            and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+            and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+          union all
+          select g.seen_at as sent_time
+          from sightings g
+          join submissions s on s.id = g.submission_id
+          where g.seen_at >= start_date and g.seen_at <= end_date
+            and s.public = true
+            and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+            and (not violation_filter_enabled or exists (
+              select 1 from violations v
+              where v.submission_id = s.id
+                and v.code = any(violation_codes)
+                and (
+                  case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                       when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                       else v.actblue_verified = false
+                  end
+                )
+            ))
+            and (not source_filter_enabled or (
+              case 
+                when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+                when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+                when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+                else false
+              end
+            ))
+            and (not type_filter_enabled or s.message_type::text = any(message_types))
+            and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+            and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        ) sent
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'violations_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', s.created_at at time zone 'America/New_York')
+                      else date_trunc('week', s.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(distinct s.id) as count
+        from submissions s
+        join violations v on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'reports_by_bucket', (
+      select json_agg(json_build_object('bucket', bucket_key, 'count', count) order by bucket_key)
+      from (
+        select to_char(
+                 case when day_count <= 45 then date_trunc('day', r.created_at at time zone 'America/New_York')
+                      else date_trunc('week', r.created_at at time zone 'America/New_York') end,
+                 'YYYY-MM-DD'
+               ) as bucket_key,
+               count(*) as count
+        from reports r
+        join submissions s on s.id = r.case_id
+        where r.created_at >= start_date and r.created_at <= end_date
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by bucket_key
+        order by bucket_key
+      ) buckets
+    ),
+    'top_senders', (
+      select json_agg(json_build_object('sender', sender_name_val, 'total_captures', capture_count, 'captures_with_violations', violation_count, 'is_repeat_offender', violation_count >= 3) order by capture_count desc)
+      from (
+        select sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) as sender_name_val,
+               count(distinct s.id) as capture_count,
+               count(distinct case 
+                 -- Only count unverified violations, even when filtering
+                 when v.actblue_verified = false then v.submission_id
+                 else null
+               end) as violation_count
+        from submissions s
+        left join violations v on v.submission_id = s.id
+          -- When no violation filter: only join unverified violations
+          -- When violation filter enabled: filter by the selected violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v2
+            where v2.submission_id = s.id
+              and v2.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v2.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v2.code)] = true then v2.actblue_verified = true
+                     else v2.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by sender_name_val
+        having count(*) >= 1
+        order by capture_count desc
+      ) senders
+    ),
+    'violation_mix', (
+      select json_agg(json_build_object('code', violation_code, 'count', violation_count, 'percentage', round((violation_count::numeric / nullif(total_violations, 0) * 100)::numeric, 1)) order by violation_count desc)
+      from (
+        select v.code as violation_code,
+               count(*) as violation_count,
+               sum(count(*)) over () as total_violations
+        from violations v
+        join submissions s on v.submission_id = s.id
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          -- Only exclude verified violations when NOT filtering by violations
+          and (violation_filter_enabled or v.actblue_verified = false)
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or (
+            v.code = any(violation_codes)
+            and (
+              case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                   when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                   else v.actblue_verified = false
+              end
+            )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by v.code
+        order by violation_count desc
+      ) violation_stats
+    ),
+    'sender_type_split', (
+      select json_agg(json_build_object('sender_type', sender_type_val, 'total_captures', capture_count, 'captures_with_violations', violation_count) order by capture_count desc)
+      from (
+        select coalesce(s.sender_type, 'unknown') as sender_type_val,
+               count(*) as capture_count,
+               count(*) filter (where exists (select 1 from violations v where v.submission_id = s.id and v.actblue_verified = false)) as violation_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by coalesce(s.sender_type, 'unknown')
+      ) sender_type_stats
+    ),
+    'disclaimer_split', (
+      select json_agg(json_build_object('disclaimer_status', disclaimer_status_val, 'total_captures', capture_count, 'captures_with_violations', violation_count) order by capture_count desc)
+      from (
+        select coalesce(s.disclaimer_status, 'unchecked') as disclaimer_status_val,
+               count(*) as capture_count,
+               count(*) filter (where exists (select 1 from violations v where v.submission_id = s.id and v.actblue_verified = false)) as violation_count
+        from submissions s
+        where s.created_at >= start_date and s.created_at <= end_date
+          and s.public = true
+          and (not filter_enabled or sender_display_name(s.sender_entity_id, s.sender_name, s.sender_id) = any(sender_names))
+          and (not violation_filter_enabled or exists (
+            select 1 from violations v
+            where v.submission_id = s.id
+              and v.code = any(violation_codes)
+              and (
+                case when violation_permitted_flags[array_position(violation_codes, v.code)] is null then v.actblue_verified = false
+                     when violation_permitted_flags[array_position(violation_codes, v.code)] = true then v.actblue_verified = true
+                     else v.actblue_verified = false
+                end
+              )
+          ))
+          and (not source_filter_enabled or (
+            case 
+              when 'user_upload' = any(sources) and 'honeytrap' = any(sources) then true
+              when 'user_upload' = any(sources) then (s.message_type::text = 'unknown') or (s.message_type::text = 'email' and s.forwarder_email is not null)
+              when 'honeytrap' = any(sources) then (s.message_type::text = 'sms') or (s.message_type::text = 'email' and s.forwarder_email is null)
+              else false
+            end
+          ))
+          and (not type_filter_enabled or s.message_type::text = any(message_types))
+          and (not sender_type_filter_enabled or coalesce(s.sender_type, 'unknown') = any(sender_types))
+          and (not disclaimer_filter_enabled or coalesce(s.disclaimer_status, 'unchecked') = any(disclaimer_statuses))
+        group by coalesce(s.disclaimer_status, 'unchecked')
+      ) disclaimer_stats
+    ),
+    'source_split', json_build_array(
+      json_build_object('source', 'user_upload', 'count', user_upload_count, 'percentage', round((user_upload_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1)),
+      json_build_object('source', 'honeytrap', 'count', honeytrap_count, 'percentage', round((honeytrap_count::numeric / nullif(total_captures, 0) * 100)::numeric, 1))
+    )
+  );
+
+  return result;
+end;
+$$;
+
+-- Most re-sent cases in the last 30 days:
+-- select submission_id, count(*) as sends, count(distinct received_by) as honeytraps from sightings
+-- where seen_at > now() - interval '30 days' group by 1 order by 2 desc limit 20;
+
+-- Timeline of one case:
+-- select seen_at, channel, received_by, sender_id, match, distance from sightings
+-- where submission_id = '<case id>' order by seen_at;
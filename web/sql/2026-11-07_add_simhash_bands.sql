@@ -0,0 +1,24 @@
+-- LSH band index for near-duplicate lookup (see findSimhashNeighbors in src/server/ingest/dedupe.ts)
+-- The old prefilter scanned a +/-2^24 window around the signed simhash64, which only reaches
+-- neighbors whose high bits match: two texts a few bits apart in the top half were never compared.
+-- The simhash is now split into four 16-bit bands (band0 = low bits), each indexed; candidates are
+-- the rows sharing any band with the query, or one bit away from it when the distance allows, and
+-- are then checked by Hamming distance in the app. Thresholds up to 7 bits miss no neighbor.
+-- New rows get their bands from buildDedupeFields(); fill existing rows with
+--   npx tsx scripts/simhash-bands.ts backfill
+
+alter table submissions add column if not exists simhash_band0 int; -- bits 0-15 of simhash64, 0..65535
+alter table submissions add column if not exists simhash_band1 int; -- bits 16-31
+alter table submissions add column if not exists simhash_band2 int; -- bits 32-47
+alter table submissions add column if not exists simhash_band3 int; -- bits 48-63
+
+create index if not exists submissions_simhash_band0_idx on submissions(simhash_band0);
+create index if not exists submissions_simhash_band1_idx on submissions(simhash_band1);
+create index if not exists submissions_simhash_band2_idx on submissions(simhash_band2);
+create index if not exists submissions_simhash_band3_idx on submissions(simhash_band3);
+
+-- Rows still waiting for the backfill:
+-- select count(*) from submissions where simhash64 is not null and simhash_band0 is null;
+
+-- Largest buckets (a band value shared by many unrelated texts makes lookups slower):
+-- select simhash_band0, count(*) from submissions group by 1 order by 2 desc limit 10;
@@ -0,0 +1,22 @@
+-- Review outcome for rule/classifier disagreements (submissions.rule_disagreement, 2026-10-23_create_violation_rules.sql)
+-- Reviewers resolve a disagreement on /admin/review:
+--   model_correct: the rules over-fired, the classifier was right not to flag the code (rule tuning)
+--   rule_correct:  the classifier missed a violation the rules caught (prompt / evaluation work)
+-- A re-classification keeps the verdict while the rule-only codes stay the same, and clears it otherwise
+-- so the case comes back to the queue.
+
+alter table submissions add column if not exists rule_disagreement_resolution text
+  check (rule_disagreement_resolution in ('model_correct','rule_correct'));
+alter table submissions add column if not exists rule_disagreement_reviewed_at timestamptz;
+
+create index if not exists submissions_rule_disagreement_open_idx
+  on submissions(created_at desc) where rule_disagreement is not null and rule_disagreement_reviewed_at is null;
+
+-- Open queue:
+-- select id, sender_name, rule_disagreement from submissions
+-- where rule_disagreement is not null and rule_disagreement_reviewed_at is null order by created_at desc;
+
+-- Verdicts per code (which rules over-fire):
+-- select r->>'code' as code, rule_disagreement_resolution, count(*)
+-- from submissions, jsonb_array_elements(rule_disagreement->'rule_only') r
+-- where rule_disagreement_reviewed_at is not null group by 1, 2 order by 1, 2;
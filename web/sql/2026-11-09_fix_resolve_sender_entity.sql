@@ -0,0 +1,46 @@
+-- resolve_sender_entity (2026-11-02_create_senders.sql) fell back to the sender_id alias when the extracted
+-- name was unseen, so a new committee texting from a shared short code or sending domain was filed under
+-- whichever entity first used that identifier. The sender_id alias now only resolves cases without a name;
+-- an unseen name always creates its own entity. An identifier already owned by another entity stays with
+-- that entity (on conflict do nothing); admins move it with split_sender() / merge_senders().
+
+create or replace function resolve_sender_entity(raw_name text, raw_sender_id text, type_hint text default null)
+returns uuid as $$
+declare
+  name_key text := sender_alias_key('name', raw_name);
+  id_kind text := sender_id_kind(raw_sender_id);
+  id_key text := case when id_kind is not null then sender_alias_key(id_kind, raw_sender_id) end;
+  entity uuid;
+  created uuid;
+begin
+  if name_key is not null then
+    select a.entity_id into entity from sender_aliases a where a.kind = 'name' and a.normalized = name_key;
+  elsif id_key is not null then
+    select a.entity_id into entity from sender_aliases a where a.kind = id_kind and a.normalized = id_key;
+  end if;
+  if entity is null then
+    if name_key is null then return null; end if;
+    insert into senders (name, sender_type) values (btrim(raw_name), type_hint) returning id into created;
+    insert into sender_aliases (entity_id, kind, value, normalized)
+      values (created, 'name', btrim(raw_name), name_key)
+      on conflict (kind, normalized) do nothing;
+    select a.entity_id into entity from sender_aliases a where a.kind = 'name' and a.normalized = name_key;
+    -- Lost a race with a concurrent extraction of the same name
+    if entity <> created then delete from senders where id = created; end if;
+  end if;
+  if id_key is not null then
+    insert into sender_aliases (entity_id, kind, value, normalized)
+      values (entity, id_kind, btrim(raw_sender_id), id_key)
+      on conflict (kind, normalized) do nothing;
+  end if;
+  update senders set sender_type = type_hint, updated_at = now()
+    where id = entity and sender_type is null and type_hint is not null and type_hint <> 'unknown';
+  return entity;
+end;
+$$ language plpgsql;
+
+-- Entities that share an identifier with cases filed under another entity (candidates for split_sender):
+-- select a.normalized, a.kind, a.entity_id as owner, s.sender_entity_id, count(*)
+-- from submissions s join sender_aliases a on a.kind in ('phone','short_code','email_domain') and a.value = s.sender_id
+-- where s.sender_entity_id is not null and s.sender_entity_id <> a.entity_id
+-- group by 1, 2, 3, 4 order by 5 desc;
@@ -0,0 +1,52 @@
+-- Campaigns compare against their seed, and can be split (see src/server/campaigns/cluster.ts)
+-- Single link (2026-11-05_create_campaigns.sql) let a chain of cases, each within
+-- CAMPAIGN_SIMHASH_DISTANCE of the last, pull unrelated appeals into one campaign. A campaign now
+-- keeps the simhash of its first case (seed_simhash64): a case joins through a near match only when it
+-- is within the distance of the seed, and two campaigns a case links are only merged when their seeds
+-- are. Identical text (same normalized_hash) still always joins.
+-- split_campaign() moves variants out of a campaign that grew wrong; split_from_id keeps later
+-- clustering from merging the two halves back together.
+
+alter table campaigns add column if not exists seed_simhash64 bigint; -- simhash64 of the first case (signed, like submissions.simhash64)
+alter table campaigns add column if not exists split_from_id uuid references campaigns(id) on delete set null;
+
+-- Existing campaigns: seed from their earliest case with a simhash
+update campaigns c set seed_simhash64 = (
+  select s.simhash64 from submissions s
+  where s.campaign_id = c.id and s.simhash64 is not null
+  order by s.sort_date asc limit 1
+)
+where c.seed_simhash64 is null and c.merged_into_id is null;
+
+-- Move the cases of the given variants (normalized_hash) to a new campaign seeded by the earliest of them
+create or replace function split_campaign(from_id uuid, variant_hashes text[])
+returns uuid as $$
+declare
+  new_id uuid;
+  seed bigint;
+begin
+  if not exists (select 1 from submissions where campaign_id = from_id and normalized_hash = any(variant_hashes)) then
+    raise exception 'no variants of campaign % given', from_id;
+  end if;
+  if not exists (select 1 from submissions where campaign_id = from_id and not (normalized_hash = any(variant_hashes))) then
+    raise exception 'cannot split every variant out of campaign %', from_id;
+  end if;
+  select s.simhash64 into seed from submissions s
+    where s.campaign_id = from_id and s.normalized_hash = any(variant_hashes) and s.simhash64 is not null
+    order by s.sort_date asc limit 1;
+  insert into campaigns (seed_simhash64, split_from_id) values (seed, from_id) returning id into new_id;
+  -- campaign_distance becomes the Hamming distance to the new seed
+  update submissions set campaign_id = new_id, campaign_primary = false,
+    campaign_distance = case when seed is not null and simhash64 is not null
+      then length(replace((simhash64 # seed)::bit(64)::text, '0', '')) end
+    where campaign_id = from_id and normalized_hash = any(variant_hashes);
+  perform refresh_campaign(from_id);
+  perform refresh_campaign(new_id);
+  return new_id;
+end;
+$$ language plpgsql;
+
+revoke execute on function split_campaign(uuid, text[]) from anon, authenticated;
+
+-- Campaigns whose cases are far from the seed (candidates for split_campaign):
+-- select s.campaign_id, max(s.campaign_distance) from submissions s group by 1 order by 2 desc limit 20;
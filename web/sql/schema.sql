@@ -3,6 +3,66 @@ create type message_type as enum ('sms','email','unknown');
 create type redact_level as enum ('default','strict');
 
 -- Tables
+create table if not exists senders (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  sender_type text check (sender_type in ('org','pac','candidate','unknown')),
+  merged_into_id uuid references senders(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists campaigns (
+  id uuid primary key default gen_random_uuid(),
+  representative_submission_id uuid, -- references submissions(id), added after that table exists
+  merged_into_id uuid references campaigns(id) on delete set null,
+  seed_simhash64 bigint,
+  split_from_id uuid references campaigns(id) on delete set null,
+  first_seen_at timestamptz,
+  last_seen_at timestamptz,
+  variant_count int not null default 0,
+  case_count int not null default 0,
+  sender_count int not null default 0,
+  received_by_count int not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists fec_committees (
+  cmte_id text primary key,
+  name text not null,
+  normalized_name text generated always as (normalize_sender_name(name)) stored,
+  treasurer_name text,
+  committee_type text,
+  designation text,
+  party text,
+  org_type text,
+  connected_org text,
+  candidate_id text,
+  city text,
+  state text,
+  filing_frequency text,
+  cycle int,
+  imported_at timestamptz not null default now()
+);
+create index if not exists fec_committees_name_trgm_idx on fec_committees using gin (normalized_name gin_trgm_ops);
+create index if not exists fec_committees_candidate_idx on fec_committees(candidate_id);
+
+create table if not exists fec_candidates (
+  cand_id text primary key,
+  name text not null,
+  party text,
+  election_year int,
+  office text,
+  office_state text,
+  office_district text,
+  incumbent_challenger text,
+  status text,
+  principal_committee_id text,
+  cycle int,
+  imported_at timestamptz not null default now()
+);
+
 create table if not exists submissions (
   id uuid primary key default gen_random_uuid(),
   created_at timestamptz default now(),
@@ -10,16 +70,40 @@ create table if not exists submissions (
   image_url text not null,
   message_type message_type default 'unknown',
   raw_text text,
-  processing_status text default 'queued' check (processing_status in ('queued','ocr','classified','done','error')),
+  processing_status text default 'queued' check (processing_status in ('queued','ocr','classified','done','error','parse_error')),
+  processing_status_at timestamptz default now(),
+  sweep_attempts int not null default 0,
   ocr_method text,
   ocr_confidence numeric,
   ocr_ms int,
   classifier_ms int,
   sender_id text,
   sender_name text,
+  sender_type text check (sender_type in ('org','pac','candidate','unknown')),
+  sender_confidence numeric(3,2),
+  sender_notes text,
+  sender_extracted_at timestamptz,
+  sender_entity_id uuid references senders(id) on delete set null,
+  fec_committee_id text references fec_committees(cmte_id) on delete set null,
+  fec_match_score numeric(3,2),
+  fec_match_source text check (fec_match_source in ('disclaimer','sender_name','admin')),
+  fec_matched_at timestamptz,
+  disclaimer_paid_for_by text,
+  disclaimer_authorization text check (disclaimer_authorization in ('not_authorized','authorized')),
+  disclaimer_authorized_by text,
+  disclaimer_address text,
+  disclaimer_text text,
+  disclaimer_source text check (disclaimer_source in ('text','ocr')),
+  disclaimer_status text check (disclaimer_status in ('match','mismatch','missing','unverified')),
+  disclaimer_checked_at timestamptz,
+  received_by text,
+  campaign_id uuid references campaigns(id) on delete set null,
+  campaign_distance smallint,
+  campaign_primary boolean not null default false,
   links jsonb default '[]'::jsonb,
   redact_level redact_level default 'default',
   ai_version text,
+  ai_prompt_version text,
   ai_confidence numeric,
   email_subject text,
   email_body text,
@@ -31,10 +115,21 @@ create table if not exists submissions (
   landing_screenshot_url text,
   landing_rendered_at timestamptz,
   landing_render_status text check (landing_render_status in ('pending','success','failed')),
+  landing_text text,
   ai_summary text,
+  classification_error text,
+  ab001_review_status text check (ab001_review_status in ('pending','confirmed','dismissed')),
+  ab001_candidate jsonb,
+  rule_disagreement jsonb,
+  rule_disagreement_resolution text check (rule_disagreement_resolution in ('model_correct','rule_correct')),
+  rule_disagreement_reviewed_at timestamptz,
   normalized_text text,
   normalized_hash text,
   simhash64 bigint,
+  simhash_band0 int,
+  simhash_band1 int,
+  simhash_band2 int,
+  simhash_band3 int,
   forwarder_email text,
   submission_token text,
   token_used_at timestamptz,
@@ -42,11 +137,25 @@ create table if not exists submissions (
   preview_email_status text,
   media_urls jsonb default '[]'::jsonb,
   email_sent_at timestamptz,
-  sort_date timestamptz generated always as (coalesce(email_sent_at, created_at)) stored
+  provider text check (provider in ('mailgun','twilio','eml')),
+  email_list_unsubscribe text,
+  email_screenshot_url text,
+  email_rendered_at timestamptz,
+  provider_message_id text,
+  sort_date timestamptz generated always as (coalesce(email_sent_at, created_at)) stored,
+  current_classification_run_id uuid -- references classification_runs(id), added after that table exists
 );
 create index if not exists submissions_sender_idx on submissions(sender_id);
 create index if not exists submissions_created_idx on submissions(created_at);
 create index if not exists submissions_sort_date_idx on submissions(sort_date desc);
+create index if not exists submissions_campaign_idx on submissions(campaign_id);
+create index if not exists submissions_normalized_hash_idx on submissions(normalized_hash);
+create index if not exists submissions_simhash_band0_idx on submissions(simhash_band0);
+create index if not exists submissions_simhash_band1_idx on submissions(simhash_band1);
+create index if not exists submissions_simhash_band2_idx on submissions(simhash_band2);
+create index if not exists submissions_simhash_band3_idx on submissions(simhash_band3);
+create unique index if not exists submissions_provider_message_id_idx
+  on submissions(provider, provider_message_id) where provider_message_id is not null;
 
 create table if not exists violations (
   id uuid primary key default gen_random_uuid(),
@@ -57,8 +166,151 @@ create table if not exists violations (
   evidence_spans jsonb,
   severity int not null,
   confidence numeric not null,
-  actblue_verified boolean default false
+  actblue_verified boolean default false,
+  run_id uuid, -- references classification_runs(id)
+  consensus_votes int,
+  consensus_total int,
+  agreement numeric,
+  contested boolean generated always as (consensus_total is not null and consensus_votes * 2 <= consensus_total) stored
+);
+
+create table if not exists classification_runs (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  created_at timestamptz default now(),
+  trigger text not null check (trigger in ('ingest','comment','landing_page','batch','manual','report','sweeper')),
+  status text not null check (status in ('success','llm_failed','parse_error')),
+  mode text not null default 'single' check (mode in ('single','consensus')),
+  provider text,
+  model text,
+  prompt_version text,
+  input_hash text,
+  raw_output text,
+  repair_output text,
+  parsed_output jsonb,
+  rule_candidates jsonb,
+  consensus jsonb,
+  chunk_count int not null default 1,
+  violation_codes text[] default '{}',
+  error text,
+  latency_ms int
+);
+create index if not exists classification_runs_submission_idx on classification_runs(submission_id, created_at desc);
+
+create table if not exists prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  version text not null,
+  template text not null,
+  codes text[] not null default '{}',
+  guidance jsonb not null default '{}'::jsonb,
+  notes text,
+  is_active boolean not null default false,
+  created_at timestamptz default now(),
+  activated_at timestamptz,
+  unique (name, version)
+);
+create unique index if not exists prompt_templates_one_active_idx on prompt_templates(name) where is_active;
+
+create table if not exists violation_rules (
+  id text primary key,
+  code text not null,
+  name text not null,
+  kind text not null default 'regex' check (kind in ('regex','phrase')),
+  pattern text not null,
+  flags text default 'i',
+  weight numeric(3,2) not null default 0.5 check (weight >= 0 and weight <= 1),
+  enabled boolean not null default true,
+  notes text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null check (type in ('ocr','classify','sender','redact_pii','screenshot','preview_email','media','email_render')),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  payload jsonb not null default '{}'::jsonb,
+  dedupe_key text,
+  status text not null default 'pending' check (status in ('pending','running','succeeded','dead')),
+  attempts int not null default 0,
+  max_attempts int not null default 5,
+  run_at timestamptz not null default now(),
+  locked_by text,
+  locked_until timestamptz,
+  last_error text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  finished_at timestamptz
+);
+create index if not exists jobs_ready_idx on jobs(run_at) where status = 'pending';
+create index if not exists jobs_lease_idx on jobs(locked_until) where status = 'running';
+create index if not exists jobs_submission_idx on jobs(submission_id, created_at desc);
+create unique index if not exists jobs_pending_dedupe_idx on jobs(dedupe_key) where status = 'pending';
+
+create table if not exists submission_status_events (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  reason text,
+  created_at timestamptz default now()
+);
+create index if not exists submission_status_events_submission_idx on submission_status_events(submission_id, created_at);
+
+create table if not exists submission_sender_events (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  field text not null check (field in ('sender_name','sender_type','sender_confidence','sender_notes')),
+  old_value text,
+  new_value text,
+  model text,
+  created_at timestamptz not null default now()
+);
+create index if not exists submission_sender_events_submission_idx on submission_sender_events(submission_id, created_at);
+
+create table if not exists sender_aliases (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references senders(id) on delete cascade,
+  kind text not null check (kind in ('name','phone','short_code','email_domain')),
+  value text not null,
+  normalized text not null,
+  source text not null default 'extraction' check (source in ('extraction','admin')),
+  created_at timestamptz not null default now(),
+  unique (kind, normalized)
+);
+create index if not exists sender_aliases_entity_idx on sender_aliases(entity_id);
+
+create table if not exists inbound_events (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null check (provider in ('mailgun','twilio')),
+  provider_message_id text,
+  submission_id uuid references submissions(id) on delete set null,
+  outcome text not null check (outcome in ('created','duplicate_message','duplicate_content','suppressed','rejected','failed')),
+  detail jsonb,
+  created_at timestamptz default now()
+);
+create index if not exists inbound_events_message_idx on inbound_events(provider, provider_message_id, created_at desc);
+create index if not exists inbound_events_created_idx on inbound_events(created_at desc);
+
+create table if not exists sightings (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references submissions(id) on delete cascade,
+  seen_at timestamptz not null default now(),
+  sent_at timestamptz,
+  channel text not null check (channel in ('sms','email','unknown')),
+  received_by text,
+  sender_id text,
+  match text not null check (match in ('exact','near')),
+  distance smallint not null default 0,
+  provider text,
+  provider_message_id text,
+  created_at timestamptz not null default now()
 );
+create index if not exists sightings_submission_idx on sightings(submission_id, seen_at desc);
+create index if not exists sightings_seen_at_idx on sightings(seen_at desc);
+create unique index if not exists sightings_provider_message_id_idx
+  on sightings(provider, provider_message_id) where provider_message_id is not null;
 
 create table if not exists comments (
   id uuid primary key default gen_random_uuid(),
@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+
+// Operator pages, behind HTTP Basic auth in middleware (ADMIN_PASSWORD)
+export const metadata: Metadata = {
+  title: "Admin",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
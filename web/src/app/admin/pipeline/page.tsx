@@ -0,0 +1,131 @@
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+import Link from "next/link";
+import LocalTime from "@/components/LocalTime";
+import { getPipelineHealth, listDeadJobs, listPipelineCases, STUCK_AFTER_MINUTES, type PipelineCase } from "@/server/jobs/sweeper";
+
+function CaseTable({ rows, empty }: { rows: PipelineCase[]; empty: string }) {
+  if (rows.length === 0) return <p className="text-sm text-slate-600">{empty}</p>;
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+            <th className="py-2 pr-4 font-medium">Case</th>
+            <th className="py-2 pr-4 font-medium">Status</th>
+            <th className="py-2 pr-4 font-medium">Since</th>
+            <th className="py-2 pr-4 font-medium">Reason</th>
+            <th className="py-2 pr-4 font-medium">Sweeps</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.id} className="border-b border-slate-100 align-top">
+              <td className="py-2 pr-4">
+                <Link href={`/cases/${r.id}`} className="font-mono text-sky-700 hover:underline">
+                  {r.id.slice(0, 8)}
+                </Link>
+                {r.sender_name && <div className="text-xs text-slate-600">{r.sender_name}</div>}
+              </td>
+              <td className="py-2 pr-4 font-mono text-xs">{r.processing_status}</td>
+              <td className="py-2 pr-4 text-xs">{r.processing_status_at ? <LocalTime iso={r.processing_status_at} /> : "—"}</td>
+              <td className="py-2 pr-4 font-mono text-xs text-slate-700">{r.reason || "—"}</td>
+              <td className="py-2 pr-4 text-xs">{r.sweep_attempts ?? 0}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function PipelinePage() {
+  const [health, failed, stuck, deadJobs] = await Promise.all([
+    getPipelineHealth(),
+    listPipelineCases("failed"),
+    listPipelineCases("stuck"),
+    listDeadJobs(),
+  ]);
+
+  const stats: Array<{ label: string; value: number | undefined }> = [
+    { label: "Stuck in queued", value: health?.stuck_queued },
+    { label: "Stuck in ocr", value: health?.stuck_ocr },
+    { label: "Stuck in classified", value: health?.stuck_classified },
+    { label: "Error", value: health?.error },
+    { label: "Parse error", value: health?.parse_error },
+    { label: "Dead jobs", value: health?.dead_jobs },
+    { label: "Due jobs", value: health?.due_jobs },
+  ];
+
+  return (
+    <main className="mx-auto max-w-7xl p-6 md:p-8 space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Pipeline health</h1>
+        <p className="text-sm text-slate-600">
+          Cases count as stuck after {STUCK_AFTER_MINUTES} minutes in an in-progress status. The sweeper re-enqueues them, then marks them error.
+          {" "}
+          <Link href="/admin/review" className="text-sky-700 hover:underline">Review queue</Link>
+        </p>
+      </div>
+
+      {health ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+          {stats.map((s) => (
+            <div key={s.label} className="rounded-2xl bg-slate-50 border border-slate-100 p-4">
+              <div className="text-2xl font-semibold text-slate-900">{s.value ?? 0}</div>
+              <div className="text-xs text-slate-600">{s.label}</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-red-700">The pipeline_health view could not be read.</p>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-xl font-semibold text-slate-900">Failed cases</h2>
+        <CaseTable rows={failed} empty="No cases in error or parse_error." />
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-xl font-semibold text-slate-900">Stuck cases</h2>
+        <CaseTable rows={stuck} empty="No stuck cases." />
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-xl font-semibold text-slate-900">Dead jobs</h2>
+        {deadJobs.length === 0 ? (
+          <p className="text-sm text-slate-600">No dead jobs.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Case</th>
+                  <th className="py-2 pr-4 font-medium">Attempts</th>
+                  <th className="py-2 pr-4 font-medium">Finished</th>
+                  <th className="py-2 pr-4 font-medium">Last error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deadJobs.map((j) => (
+                  <tr key={j.id} className="border-b border-slate-100 align-top">
+                    <td className="py-2 pr-4 font-mono text-xs">{j.type}</td>
+                    <td className="py-2 pr-4">
+                      <Link href={`/cases/${j.submission_id}`} className="font-mono text-sky-700 hover:underline">
+                        {j.submission_id.slice(0, 8)}
+                      </Link>
+                    </td>
+                    <td className="py-2 pr-4 text-xs">{j.attempts}</td>
+                    <td className="py-2 pr-4 text-xs">{j.finished_at ? <LocalTime iso={j.finished_at} /> : "—"}</td>
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-700 break-all">{(j.last_error || "").slice(0, 300) || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
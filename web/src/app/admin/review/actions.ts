@@ -0,0 +1,21 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { resolveAb001Review, resolveRuleDisagreement } from "@/server/review/queue";
+
+// Form actions of /admin/review; they post to the page path, so middleware's admin auth covers them
+
+export async function resolveAb001Action(formData: FormData) {
+  const submissionId = String(formData.get("submissionId") || "");
+  if (!submissionId) return;
+  await resolveAb001Review(submissionId, formData.get("decision") === "confirm");
+  revalidatePath("/admin/review");
+}
+
+export async function resolveRuleDisagreementAction(formData: FormData) {
+  const submissionId = String(formData.get("submissionId") || "");
+  const decision = formData.get("decision");
+  if (!submissionId || (decision !== "model_correct" && decision !== "rule_correct")) return;
+  await resolveRuleDisagreement(submissionId, decision);
+  revalidatePath("/admin/review");
+}
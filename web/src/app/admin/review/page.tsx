@@ -0,0 +1,138 @@
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+import Link from "next/link";
+import LocalTime from "@/components/LocalTime";
+import { listOpenRuleDisagreements, listPendingAb001 } from "@/server/review/queue";
+import { resolveAb001Action, resolveRuleDisagreementAction } from "./actions";
+
+const EXCERPT_CHARS = 400;
+
+function excerpt(text: string | null): string {
+  const t = (text || "").replace(/\s+/g, " ").trim();
+  return t.length > EXCERPT_CHARS ? `${t.slice(0, EXCERPT_CHARS)}…` : t;
+}
+
+export default async function ReviewPage() {
+  const [ab001, disagreements] = await Promise.all([listPendingAb001(), listOpenRuleDisagreements()]);
+
+  return (
+    <main className="mx-auto max-w-5xl p-6 md:p-8 space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Review queue</h1>
+        <p className="text-sm text-slate-600">
+          Findings the classifier may not publish on its own. <Link href="/admin/pipeline" className="text-sky-700 hover:underline">Pipeline health</Link>
+        </p>
+      </div>
+
+      <section className="space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold text-slate-900">AB001 Misrepresentation/Impersonation ({ab001.count})</h2>
+          <p className="text-sm text-slate-600">
+            Confirming adds the AB001 violation and hides the case, as AB001 cases are reported by the impacted party.
+            Dismissing keeps later classifications from raising the flag again.
+          </p>
+        </div>
+        {ab001.items.length === 0 && <p className="text-sm text-slate-600">No pending AB001 findings.</p>}
+        {ab001.items.map((item) => (
+          <div key={item.id} className="rounded-2xl border border-slate-200 bg-white p-5 space-y-3">
+            <div className="flex items-center gap-2 flex-wrap text-xs text-slate-700">
+              <Link href={`/cases/${item.id}`} className="font-mono text-sky-700 hover:underline">
+                {item.id.slice(0, 8)}
+              </Link>
+              <span className="font-medium text-slate-900">{item.sender_name || "Unknown sender"}</span>
+              {item.created_at && <LocalTime iso={item.created_at} />}
+              {item.ab001_candidate?.confidence != null && (
+                <span className="text-slate-500">confidence {Number(item.ab001_candidate.confidence).toFixed(2)}</span>
+              )}
+            </div>
+            {item.ab001_candidate?.rationale && <p className="text-sm text-slate-800">{item.ab001_candidate.rationale}</p>}
+            {(item.ab001_candidate?.evidence_spans || []).filter((s) => s?.quote).map((s, i) => (
+              <blockquote key={i} className="border-l-2 border-amber-400 pl-3 text-sm text-slate-700 italic">
+                {s.quote}
+              </blockquote>
+            ))}
+            <p className="text-xs text-slate-500 whitespace-pre-line">{excerpt(item.raw_text)}</p>
+            <form action={resolveAb001Action} className="flex gap-2">
+              <input type="hidden" name="submissionId" value={item.id} />
+              <button
+                type="submit"
+                name="decision"
+                value="confirm"
+                className="rounded-md bg-slate-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-slate-800"
+              >
+                Confirm and hide case
+              </button>
+              <button
+                type="submit"
+                name="decision"
+                value="dismiss"
+                className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-800 hover:bg-slate-50"
+              >
+                Dismiss
+              </button>
+            </form>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold text-slate-900">Rule disagreements ({disagreements.count})</h2>
+          <p className="text-sm text-slate-600">
+            Rules matched a code the classifier did not flag. The verdict is kept for rule tuning and classifier evaluation;
+            a re-classification that disagrees on other codes puts the case back here.
+          </p>
+        </div>
+        {disagreements.items.length === 0 && <p className="text-sm text-slate-600">No open disagreements.</p>}
+        {disagreements.items.map((item) => (
+          <div key={item.id} className="rounded-2xl border border-slate-200 bg-white p-5 space-y-3">
+            <div className="flex items-center gap-2 flex-wrap text-xs text-slate-700">
+              <Link href={`/cases/${item.id}`} className="font-mono text-sky-700 hover:underline">
+                {item.id.slice(0, 8)}
+              </Link>
+              <span className="font-medium text-slate-900">{item.sender_name || "Unknown sender"}</span>
+              {item.created_at && <LocalTime iso={item.created_at} />}
+            </div>
+            {(item.rule_disagreement.rule_only || []).map((r) => (
+              <div key={r.code} className="space-y-1">
+                <div className="text-sm text-slate-900">
+                  <span className="font-mono font-semibold">{r.code}</span> rule score {Number(r.score).toFixed(2)}, not flagged by the classifier
+                </div>
+                {(r.quotes || []).map((q, i) => (
+                  <blockquote key={i} className="border-l-2 border-amber-400 pl-3 text-sm text-slate-700 italic">
+                    {q}
+                  </blockquote>
+                ))}
+              </div>
+            ))}
+            {(item.rule_disagreement.llm_only || []).length > 0 && (
+              <div className="text-xs text-slate-600">
+                Flagged by the classifier without a rule match: {item.rule_disagreement.llm_only.join(", ")}
+              </div>
+            )}
+            <p className="text-xs text-slate-500 whitespace-pre-line">{excerpt(item.raw_text)}</p>
+            <form action={resolveRuleDisagreementAction} className="flex gap-2">
+              <input type="hidden" name="submissionId" value={item.id} />
+              <button
+                type="submit"
+                name="decision"
+                value="model_correct"
+                className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-800 hover:bg-slate-50"
+              >
+                Classifier was right
+              </button>
+              <button
+                type="submit"
+                name="decision"
+                value="rule_correct"
+                className="rounded-md border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-800 hover:bg-slate-50"
+              >
+                Rule was right
+              </button>
+            </form>
+          </div>
+        ))}
+      </section>
+    </main>
+  );
+}
@@ -17,12 +17,15 @@ const ENDPOINTS = [
       { name: "sender_name", type: "string", desc: "Filter by sender name (partial match)" },
       { name: "sender_id", type: "string", desc: "Filter by sender ID (partial match)" },
       { name: "message_type", type: "string", desc: "Filter by type: sms, email, unknown" },
+      { name: "sender_type", type: "string", desc: "Filter by sender type: org, pac, candidate, unknown" },
+      { name: "sender_entity_id", type: "string", desc: "Filter by canonical sender (all names, numbers and domains it uses)" },
+      { name: "disclaimer", type: "string", desc: "Filter by \"Paid for by\" check: match, mismatch, missing, unverified" },
       { name: "date_from", type: "ISO 8601", desc: "Start date filter (inclusive)" },
       { name: "date_to", type: "ISO 8601", desc: "End date filter (inclusive)" },
       { name: "has_violations", type: "boolean", desc: "Filter to only submissions with/without violations" },
       { name: "q", type: "string", desc: "Search sender name, sender ID, or message text" },
     ],
-    fields: "id, created_at, email_sent_at, sort_date, sender_id, sender_name, message_type, raw_text, ai_summary, email_subject, email_body, links, media_urls, is_fundraising, landing_url, image_url, landing_screenshot_url",
+    fields: "id, created_at, email_sent_at, sort_date, sender_id, sender_name, sender_type, sender_confidence, sender_notes, sender_entity_id, fec_committee_id, fec_match_score, fec_committee, disclaimer_paid_for_by, disclaimer_authorization, disclaimer_address, disclaimer_status, campaign_id, message_type, raw_text, ai_summary, email_subject, email_body, links, media_urls, is_fundraising, landing_url, image_url, landing_screenshot_url",
   },
   {
     method: "GET",
@@ -77,8 +80,10 @@ const ENDPOINTS = [
       { name: "range", type: "string", desc: "Time range: 7, 30, 90, or lifetime (default 30)" },
       { name: "sender", type: "string", desc: "Filter by sender name. Repeat for multiple." },
       { name: "violation", type: "string", desc: "Filter by violation code. Repeat for multiple." },
+      { name: "sender_type", type: "string", desc: "Filter by sender type (org, pac, candidate, unknown). Repeat for multiple." },
+      { name: "disclaimer", type: "string", desc: "Filter by disclaimer check (match, mismatch, missing, unverified, unchecked). Repeat for multiple." },
     ],
-    fields: "Aggregate KPIs, time-series data, violation breakdowns",
+    fields: "Aggregate KPIs (including total_sends, which counts repeat sends), time-series data, violation breakdowns, sender type split, disclaimer split",
   },
 ];
 
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCampaign } from "@/server/campaigns/cluster";
+
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return NextResponse.json({ error: "invalid_id" }, { status: 400 });
+  try {
+    const result = await getCampaign(id);
+    if (!result) return NextResponse.json({ error: "not_found" }, { status: 404 });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("/api/campaigns/[id] error", err);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+}
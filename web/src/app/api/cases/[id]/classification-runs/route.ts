@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServer } from "@/lib/supabase-server";
+
+type RunRow = {
+  id: string;
+  created_at: string | null;
+  trigger: string;
+  status: string;
+  model: string | null;
+  prompt_version: string | null;
+  latency_ms: number | null;
+  violation_codes: string[] | null;
+};
+
+/**
+ * Classification history for a case, newest first.
+ * Each successful run carries the codes that appeared/disappeared relative to the
+ * previous successful run. Raw model output stays server-side.
+ */
+export async function GET(_req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  try {
+    const supabase = getSupabaseServer();
+    const { data: sub } = await supabase
+      .from("submissions")
+      .select("current_classification_run_id")
+      .eq("id", id)
+      .limit(1)
+      .maybeSingle();
+    const currentRunId = (sub as { current_classification_run_id?: string | null } | null)?.current_classification_run_id ?? null;
+
+    const { data, error } = await supabase
+      .from("classification_runs")
+      .select("id, created_at, trigger, status, model, prompt_version, latency_ms, violation_codes")
+      .eq("submission_id", id)
+      .order("created_at", { ascending: true })
+      .limit(50);
+    if (error) throw error;
+
+    let previousCodes: string[] | null = null;
+    const runs = ((data || []) as RunRow[]).map((r) => {
+      const codes = r.violation_codes || [];
+      let added: string[] = [];
+      let removed: string[] = [];
+      if (r.status === "success") {
+        if (previousCodes) {
+          added = codes.filter((c) => !previousCodes!.includes(c));
+          removed = previousCodes.filter((c) => !codes.includes(c));
+        }
+        previousCodes = codes;
+      }
+      return { ...r, violation_codes: codes, is_current: r.id === currentRunId, added, removed };
+    });
+
+    return NextResponse.json({ runs: runs.reverse() });
+  } catch (err) {
+    console.error("/api/cases/[id]/classification-runs error", err);
+    return NextResponse.json({ runs: [] }, { status: 500 });
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServer } from "@/lib/supabase-server";
 import { runClassification } from "@/server/ai/classify";
+import { setProcessingStatus } from "@/server/jobs/status";
+import { getLLMProvider } from "@/server/ai/llm";
 
 export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
   if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
     return NextResponse.json({ error: "service_key_missing" }, { status: 400 });
   }
-  if (!process.env.OPENAI_API_KEY) {
-    return NextResponse.json({ error: "openai_key_missing" }, { status: 400 });
+  if (!getLLMProvider().configured) {
+    return NextResponse.json({ error: "llm_not_configured" }, { status: 400 });
   }
 
   const { id } = await context.params;
@@ -32,21 +34,24 @@ export async function POST(req: NextRequest, context: { params: Promise<{ id: st
   if (insErr) return NextResponse.json({ error: "insert_failed" }, { status: 500 });
 
   // mark in-progress so UI polls
-  await supabase.from("submissions").update({ processing_status: "classified" }).eq("id", id);
+  await setProcessingStatus(id, "classified", { reason: "comment" });
 
   // audit now
   await supabase.from("audit_log").insert({ action: "reclassify", actor: "anonymous", submission_id: id, payload: { via: "comment", length: content.length } });
 
   // Run reclassification and propagate terminal status to avoid stuck states
   try {
-    const result = await runClassification(id, { includeExistingComments: true, replaceExisting: true });
+    const result = await runClassification(id, { includeExistingComments: true, replaceExisting: true, trigger: "comment" });
     if (!result.ok) {
-      await supabase.from("submissions").update({ processing_status: "error" }).eq("id", id);
+      // parse_failed already recorded its own terminal status
+      if (result.error !== "parse_failed") {
+        await setProcessingStatus(id, "error", { reason: `comment:${result.error}` });
+      }
       return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
     }
     return NextResponse.json({ ok: true, violations: result.violations, ms: result.ms });
   } catch {
-    await supabase.from("submissions").update({ processing_status: "error" }).eq("id", id);
+    await setProcessingStatus(id, "error", { reason: "comment:exception" });
     return NextResponse.json({ ok: false, error: "reclassify_failed" }, { status: 500 });
   }
 }
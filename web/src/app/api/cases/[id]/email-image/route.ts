@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+export const runtime = "nodejs";
+import sharp from "sharp";
+import { getSupabaseServer } from "@/lib/supabase-server";
+
+function parseSupabaseUrl(u: string | null | undefined) {
+  if (!u || !u.startsWith("supabase://")) return null;
+  const rest = u.replace("supabase://", "");
+  const [bucket, ...pathParts] = rest.split("/");
+  const path = pathParts.join("/");
+  return { bucket, path };
+}
+
+/**
+ * The case's rendered email (email_screenshot_url) as a PNG, under a URL that does
+ * not expire, for reports, preview emails and link previews.
+ *   (default) full-height render
+ *   ?variant=preview  top of the email, 600px wide, for inline display in emails
+ *   ?variant=og       1200x630 crop of the top, for og:image / twitter:image
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const variant = req.nextUrl.searchParams.get("variant") || "full";
+  try {
+    const supabase = getSupabaseServer();
+    const { data: items, error } = await supabase.from("submissions").select("email_screenshot_url").eq("id", id).limit(1);
+    if (error) throw error;
+    const parsed = parseSupabaseUrl(items?.[0]?.email_screenshot_url as string | undefined);
+    if (!parsed) return NextResponse.json({ error: "not_found" }, { status: 404 });
+
+    const { data: file, error: dlErr } = await supabase.storage.from(parsed.bucket).download(parsed.path);
+    if (dlErr || !file) throw dlErr || new Error("empty");
+    let png: Buffer = Buffer.from(await file.arrayBuffer());
+    if (variant === "preview") {
+      png = await sharp(png).resize({ width: 600 }).png().toBuffer();
+      const { height = 0 } = await sharp(png).metadata();
+      if (height > 900) png = await sharp(png).extract({ left: 0, top: 0, width: 600, height: 900 }).png().toBuffer();
+    } else if (variant === "og") {
+      png = await sharp(png).resize({ width: 1200, height: 630, fit: "cover", position: "top" }).png().toBuffer();
+    }
+
+    return new NextResponse(new Uint8Array(png), {
+      status: 200,
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "public, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "unavailable" }, { status: 500 });
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServer } from "@/lib/supabase-server";
+import { resolveMediaUrls } from "@/lib/api-utils";
+import { getFecCommittees } from "@/server/senders/fec";
+import { getCampaigns } from "@/server/campaigns/cluster";
+import { getSightings } from "@/server/ingest/sightings";
 
 type ViolationRow = {
   severity?: number | string | null;
@@ -22,6 +26,16 @@ export async function GET(
     if (error) throw error;
     const item = items?.[0] || null;
     if (!item) return NextResponse.json({ item: null, violations: [] }, { status: 404 });
+    // Attachments copied into storage by the media job are shown through signed URLs
+    if (Array.isArray(item.media_urls) && item.media_urls.length > 0) {
+      item.media_urls = await resolveMediaUrls(supabase, item.media_urls);
+    }
+    // Registered committee the case was matched to, shown on the case page
+    item.fec_committee = item.fec_committee_id ? (await getFecCommittees([item.fec_committee_id])).get(item.fec_committee_id) ?? null : null;
+    // Other sends of the same message, linked from the case page
+    item.campaign = item.campaign_id ? (await getCampaigns([item.campaign_id])).get(item.campaign_id) ?? null : null;
+    // Later arrivals of this message that were not stored as cases
+    item.sightings = await getSightings(id);
 
     const { data: vios, error: vErr } = await supabase
       .from("violations")
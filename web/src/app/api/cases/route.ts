@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServer } from "@/lib/supabase-server";
+import { SENDER_TYPES, type SenderType } from "@/server/ai/sender";
+import { senderEntityIdsByName, senderEntityNames } from "@/server/senders/registry";
+import { getCampaigns } from "@/server/campaigns/cluster";
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -29,6 +32,13 @@ export async function GET(req: NextRequest) {
   const multiTypes = searchParams.getAll("types");
   const singleTypes = (searchParams.get("types") || "").split(",").map((s) => s.trim()).filter(Boolean);
   const types = Array.from(new Set([...(multiTypes || []), ...(singleTypes || [])])).filter(Boolean);
+  // Support filtering by sender type from the sender extraction (org, pac, candidate, unknown)
+  const multiSenderTypes = searchParams.getAll("sender_types");
+  const singleSenderTypes = (searchParams.get("sender_types") || "").split(",").map((s) => s.trim()).filter(Boolean);
+  const senderTypes = Array.from(new Set([...(multiSenderTypes || []), ...(singleSenderTypes || [])]))
+    .filter((t): t is SenderType => (SENDER_TYPES as string[]).includes(t));
+  // collapse=campaign lists one case (the latest) per message campaign
+  const collapseCampaigns = searchParams.get("collapse") === "campaign";
 
   try {
     const supabase = getSupabaseServer();
@@ -38,6 +48,9 @@ export async function GET(req: NextRequest) {
       email_sent_at: string | null;
       sender_id: string | null;
       sender_name: string | null;
+      sender_type: string | null;
+      sender_entity_id: string | null;
+      campaign_id: string | null;
       raw_text: string | null;
       message_type: string | null;
       forwarder_email: string | null;
@@ -45,6 +58,9 @@ export async function GET(req: NextRequest) {
     };
     const sanitizedQuery = q.length > 0 ? q.replace(/[%]/g, "").replace(/,/g, " ") : null;
     const sendersFilter = senders.length > 0 ? senders.map((s) => JSON.stringify(s)).join(",") : null;
+    // Sender names from the stats pages are entity names; match every case of those entities, and
+    // cases not linked to an entity by their raw name
+    const senderEntityIds = await senderEntityIdsByName(senders);
 
     const applyCommonFilters = <T extends {
       eq: (column: string, value: unknown) => T;
@@ -56,7 +72,8 @@ export async function GET(req: NextRequest) {
         next = next.or(`sender_name.ilike.%${sanitizedQuery}%,sender_id.ilike.%${sanitizedQuery}%`);
       }
       if (sendersFilter) {
-        next = next.or(`sender_name.in.(${sendersFilter}),sender_id.in.(${sendersFilter})`);
+        const unlinked = `and(sender_entity_id.is.null,sender_name.in.(${sendersFilter})),and(sender_entity_id.is.null,sender_id.in.(${sendersFilter}))`;
+        next = next.or(senderEntityIds.length > 0 ? `sender_entity_id.in.(${senderEntityIds.join(",")}),${unlinked}` : unlinked);
       }
       // Apply source filtering
       if (sources.length > 0) {
@@ -78,6 +95,16 @@ export async function GET(req: NextRequest) {
       if (types.length > 0) {
         next = next.in("message_type", types);
       }
+
+      // Cases extracted before sender types were stored have no type; count them as unknown
+      if (senderTypes.length > 0) {
+        next = senderTypes.includes("unknown")
+          ? next.or(`sender_type.in.(${senderTypes.join(",")}),sender_type.is.null`)
+          : next.in("sender_type", senderTypes);
+      }
+      if (collapseCampaigns) {
+        next = next.or("campaign_id.is.null,campaign_primary.eq.true");
+      }
       return next;
     };
 
@@ -86,6 +113,11 @@ export async function GET(req: NextRequest) {
       createdAt: string;
       senderId: string | null;
       senderName: string | null;
+      senderType: string | null;
+      senderEntityId: string | null;
+      senderEntityName?: string | null;
+      campaignId: string | null;
+      campaignCaseCount?: number | null;
       rawText: string | null;
       messageType: string | null;
       forwarderEmail: string | null;
@@ -176,7 +208,7 @@ export async function GET(req: NextRequest) {
           const chunkIds = ids.slice(i, i + chunkSize);
           let chunkBuilder = supabase
             .from("submissions")
-            .select("id, created_at, email_sent_at, sender_id, sender_name, raw_text, message_type, forwarder_email, image_url");
+            .select("id, created_at, email_sent_at, sender_id, sender_name, sender_type, sender_entity_id, campaign_id, raw_text, message_type, forwarder_email, image_url");
           chunkBuilder = applyCommonFilters(chunkBuilder).in("id", chunkIds);
           const { data: chunkData, error: chunkError } = await chunkBuilder;
           if (chunkError) {
@@ -201,6 +233,9 @@ export async function GET(req: NextRequest) {
           emailSentAt: r.email_sent_at,
           senderId: r.sender_id,
           senderName: r.sender_name,
+          senderType: r.sender_type,
+          senderEntityId: r.sender_entity_id,
+          campaignId: r.campaign_id,
           rawText: r.raw_text,
           messageType: r.message_type,
           forwarderEmail: r.forwarder_email,
@@ -213,7 +248,7 @@ export async function GET(req: NextRequest) {
     } else {
       let builder = supabase
         .from("submissions")
-        .select("id, created_at, email_sent_at, sender_id, sender_name, raw_text, message_type, forwarder_email, image_url", { count: "exact" });
+        .select("id, created_at, email_sent_at, sender_id, sender_name, sender_type, sender_entity_id, campaign_id, raw_text, message_type, forwarder_email, image_url", { count: "exact" });
       builder = applyCommonFilters(builder).order("sort_date", { ascending: false });
 
     const { data, error, count } = await builder.range(offset, offset + limit - 1);
@@ -228,6 +263,9 @@ export async function GET(req: NextRequest) {
       emailSentAt: r.email_sent_at,
       senderId: r.sender_id,
       senderName: r.sender_name,
+      senderType: r.sender_type,
+      senderEntityId: r.sender_entity_id,
+      campaignId: r.campaign_id,
       rawText: r.raw_text,
       messageType: r.message_type,
       forwarderEmail: r.forwarder_email,
@@ -236,6 +274,11 @@ export async function GET(req: NextRequest) {
       total = typeof count === "number" ? count : items.length + offset;
     }
 
+    const entityNames = await senderEntityNames(items.map((i) => i.senderEntityId));
+    items = items.map((i) => ({ ...i, senderEntityName: i.senderEntityId ? entityNames.get(i.senderEntityId) ?? null : null }));
+    const campaigns = await getCampaigns(items.map((i) => i.campaignId));
+    items = items.map((i) => ({ ...i, campaignCaseCount: i.campaignId ? campaigns.get(i.campaignId)?.case_count ?? null : null }));
+
     // Optionally include top violations (deduped by code, max 3 per case)
     if (include.includes("top_violations") && items.length > 0) {
       try {
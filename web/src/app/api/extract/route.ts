@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServer } from "@/lib/supabase-server";
+import { completeChat, getLLMProvider } from "@/server/ai/llm";
 
 export async function POST(req: NextRequest) {
   if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
@@ -10,9 +11,7 @@ export async function POST(req: NextRequest) {
   const submissionId: string | undefined = body?.submissionId;
   const dataUrl: string | undefined = body?.dataUrl; // data:image/...;base64,xxxx
   if (!submissionId || !dataUrl) return NextResponse.json({ error: "missing_args" }, { status: 400 });
-  const apiKey = process.env.OPENAI_API_KEY;
-  const model = process.env.OPENAI_MODEL_VISION || "gpt-4o-mini";
-  if (!apiKey) return NextResponse.json({ error: "openai_key_missing" }, { status: 400 });
+  if (!getLLMProvider().configured) return NextResponse.json({ error: "llm_not_configured" }, { status: 400 });
 
   const [, base64] = dataUrl.split(",");
   const imageMediaType = (dataUrl.match(/^data:(.*?);base64,/)?.[1]) || "image/png";
@@ -20,36 +19,24 @@ export async function POST(req: NextRequest) {
 
   const prompt = "You are an OCR assistant. Extract plain text from this screenshot. Return only the text, no explanations.";
 
-  let rawText = "";
-  try {
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
+  const completion = await completeChat({
+    purpose: "ocr",
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: prompt },
+          { type: "image_url", image_url: { url: `data:${imageMediaType};base64,${imageB64}` } },
+        ],
       },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              { type: "image_url", image_url: { url: `data:${imageMediaType};base64,${imageB64}` } },
-            ],
-          },
-        ]
-      }),
-    });
-    const json = await resp.json();
-    if (!resp.ok) {
-      console.error("openai_error", json);
-      return NextResponse.json({ error: "openai_failed", detail: json }, { status: 502 });
-    }
-    rawText = json?.choices?.[0]?.message?.content || "";
-  } catch {
-    return NextResponse.json({ error: "openai_failed" }, { status: 500 });
+    ],
+  });
+  if (!completion.ok) {
+    console.error("llm_error", completion);
+    const status = completion.error === "http_error" ? 502 : 500;
+    return NextResponse.json({ error: "llm_failed", detail: completion.detail }, { status });
   }
+  const rawText = completion.content;
 
   const { error: updErr } = await supabase.from("submissions").update({ raw_text: rawText }).eq("id", submissionId);
   if (updErr) {
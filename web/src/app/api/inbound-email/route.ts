@@ -1,15 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { randomBytes } from "crypto";
-import { ingestTextSubmission, triggerPipelines } from "@/server/ingest/save";
+import { ingestTextSubmission, triggerMediaPipeline, triggerPipelines } from "@/server/ingest/save";
 import { cleanTextForAI } from "@/server/ingest/text-cleaner";
 import { sanitizeEmailHtml } from "@/server/ingest/html-sanitizer";
-import { env } from "@/lib/env";
-
-// Known non-ActBlue fundraisers — emails from these domains are skipped at ingest.
-const SKIP_SENDER_DOMAINS: string[] = [
-  "bounce.alerts.savethechildren.org",
-  "savethechildren.org",
-];
+import { verifyMailgunRequest, type MailgunSignatureFields } from "@/server/ingest/webhook-signature";
+import { ingestOutcome, mailgunMessageId, recordInboundEvent } from "@/server/ingest/inbound-events";
+import { honeytrapConfigured, honeytrapEmails, honeytrapLabel, isSuppressedSender, redactHoneytrap } from "@/server/ingest/honeytrap";
+import { storeMessageParts } from "@/server/ingest/media";
+import type { MimePart } from "@/server/ingest/mime";
 
 // Mailgun sends POST with application/x-www-form-urlencoded by default
 export async function POST(req: NextRequest) {
@@ -20,10 +18,14 @@ export async function POST(req: NextRequest) {
     
     const contentType = req.headers.get("content-type") || "";
     let sender = "";
+    let recipient = ""; // the inbox Mailgun delivered to (a honeytrap for bot-captured mail)
     let subject = "";
     let bodyPlain = "";
     let bodyHtml = "";
     let messageHeaders = ""; // Mailgun provides original email headers as JSON array
+    let signatureFields: MailgunSignatureFields = {};
+    let messageIdField = ""; // Mailgun's Message-Id; retries of the same delivery reuse it
+    let parts: MimePart[] = []; // attachments and inline images (multipart payloads only)
 
     // Parse Mailgun webhook payload
     if (contentType.includes("application/x-www-form-urlencoded")) {
@@ -31,36 +33,61 @@ export async function POST(req: NextRequest) {
       const rawBody = await req.text();
       const params = new URLSearchParams(rawBody);
       sender = params.get("sender") || params.get("from") || params.get("From") || "";
+      recipient = params.get("recipient") || "";
       subject = params.get("subject") || params.get("Subject") || "";
       bodyPlain = params.get("body-plain") || params.get("stripped-text") || params.get("text") || "";
       bodyHtml = params.get("body-html") || params.get("stripped-html") || params.get("html") || "";
       messageHeaders = params.get("message-headers") || "";
+      messageIdField = params.get("Message-Id") || "";
+      signatureFields = { timestamp: params.get("timestamp"), token: params.get("token"), signature: params.get("signature") };
     } else if (contentType.includes("multipart/form-data")) {
       // Use formData for multipart (handles binary attachments correctly)
       const form = await req.formData();
       sender = String(form.get("sender") || form.get("from") || form.get("From") || "");
+      recipient = String(form.get("recipient") || "");
       subject = String(form.get("subject") || form.get("Subject") || "");
       bodyPlain = String(form.get("body-plain") || form.get("stripped-text") || form.get("text") || "");
       bodyHtml = String(form.get("body-html") || form.get("stripped-html") || form.get("html") || "");
       messageHeaders = String(form.get("message-headers") || "");
+      messageIdField = String(form.get("Message-Id") || "");
+      signatureFields = { timestamp: form.get("timestamp")?.toString(), token: form.get("token")?.toString(), signature: form.get("signature")?.toString() };
+      parts = await mailgunParts(form);
     } else if (contentType.includes("application/json")) {
       const json = (await req.json().catch(() => ({}))) as Record<string, unknown>;
       sender = String(json?.sender || json?.from || json?.From || "");
+      recipient = String(json?.recipient || "");
       subject = String(json?.subject || json?.Subject || "");
       bodyPlain = String(json?.["body-plain"] || json?.["stripped-text"] || json?.text || "");
       bodyHtml = String(json?.["body-html"] || json?.["stripped-html"] || json?.html || "");
       messageHeaders = String(json?.["message-headers"] || "");
+      messageIdField = String(json?.["Message-Id"] || "");
+      // Event webhooks nest the fields under `signature`; route forwards send them top-level
+      const sig = (typeof json?.signature === "object" && json.signature ? json.signature : json) as Record<string, unknown>;
+      signatureFields = { timestamp: sig?.timestamp?.toString(), token: sig?.token?.toString(), signature: sig?.signature?.toString() };
     } else {
       // Best-effort: try reading as text and parsing as URLSearchParams
       const rawBody = await req.text();
       const params = new URLSearchParams(rawBody);
       sender = params.get("sender") || params.get("from") || params.get("From") || "";
+      recipient = params.get("recipient") || "";
       subject = params.get("subject") || params.get("Subject") || "";
       bodyPlain = params.get("body-plain") || params.get("stripped-text") || params.get("text") || "";
       bodyHtml = params.get("body-html") || params.get("stripped-html") || params.get("html") || "";
       messageHeaders = params.get("message-headers") || "";
+      messageIdField = params.get("Message-Id") || "";
+      signatureFields = { timestamp: params.get("timestamp"), token: params.get("token"), signature: params.get("signature") };
     }
 
+    const messageId = mailgunMessageId(messageIdField, messageHeaders);
+
+    const verification = verifyMailgunRequest(signatureFields);
+    if (!verification.ok) {
+      console.warn("/api/inbound-email:unauthorized", { reason: verification.reason });
+      await recordInboundEvent({ provider: "mailgun", providerMessageId: messageId, outcome: "rejected", detail: { reason: verification.reason } });
+      return NextResponse.json({ error: "unauthorized", reason: verification.reason }, { status: 401 });
+    }
+    if (verification.bypassed) console.warn("/api/inbound-email:signature_bypassed");
+
     // Store envelope sender (forwarder's email) for reply feature
     const envelopeSender = sender;
 
@@ -96,36 +123,10 @@ export async function POST(req: NextRequest) {
       .replace(/^[\s>]*-+\s*Forwarded message\s*-+\s*$/gim, "");
     
     // Redact honeytrap email addresses and unique tracking IDs from environment variables
-    const honeytrapEmails = env.HONEYTRAP_EMAILS 
-      ? env.HONEYTRAP_EMAILS.split(',').map(e => e.trim()).filter(e => e.length > 0)
-      : [];
-    
-    const honeytrapIds = env.HONEYTRAP_IDS
-      ? env.HONEYTRAP_IDS.split(',').map(e => e.trim()).filter(e => e.length > 0)
-      : [];
-    
-    if (honeytrapEmails.length === 0 && honeytrapIds.length === 0) {
+    if (!honeytrapConfigured()) {
       console.warn("/api/inbound-email:warning HONEYTRAP_EMAILS/IDS not configured - skipping honeytrap redaction");
     }
     
-    const redactHoneytrap = (text: string) => {
-      let result = text;
-      
-      // Redact email addresses
-      for (const email of honeytrapEmails) {
-        const escaped = email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        result = result.replace(new RegExp(escaped, 'gi'), '*******@*******.com');
-      }
-      
-      // Redact tracking IDs
-      for (const id of honeytrapIds) {
-        const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        result = result.replace(new RegExp(escaped, 'gi'), '########');
-      }
-      
-      return result;
-    };
-    
     rawText = redactHoneytrap(rawText);
     subject = redactHoneytrap(subject);
     
@@ -167,14 +168,8 @@ export async function POST(req: NextRequest) {
 
     // Skip ingest for known non-ActBlue senders and any addresses in INGEST_SUPPRESS_LIST
     const senderEmail = (detectedSender || sender || "").toLowerCase();
-    const senderDomain = senderEmail.split("@")[1] ?? "";
-    const suppressList = env.INGEST_SUPPRESS_LIST
-      ? env.INGEST_SUPPRESS_LIST.split(",").map(s => s.trim().toLowerCase()).filter(Boolean)
-      : [];
-    const shouldSkip =
-      SKIP_SENDER_DOMAINS.some(d => senderDomain === d || senderEmail === d) ||
-      suppressList.some(entry => senderEmail === entry || senderDomain === entry);
-    if (shouldSkip) {
+    if (isSuppressedSender(senderEmail)) {
+      await recordInboundEvent({ provider: "mailgun", providerMessageId: messageId, outcome: "suppressed", detail: { sender: senderEmail } });
       return NextResponse.json({ ok: true }, { status: 200 });
     }
 
@@ -195,7 +190,7 @@ export async function POST(req: NextRequest) {
     if (isForwarded) {
       const parsedEnvelope = parseEmailAddress(envelopeSender) || envelopeSender || null;
       if (parsedEnvelope) {
-        const isHoneytrapForwarder = honeytrapEmails.some(email => 
+        const isHoneytrapForwarder = honeytrapEmails().some(email => 
           parsedEnvelope.toLowerCase().includes(email.toLowerCase())
         );
         // Only set forwarderEmail if NOT from a honeytrap - this keeps bot emails marked as bot-captured
@@ -220,8 +215,24 @@ export async function POST(req: NextRequest) {
       forwarderEmail: forwarderEmail, // Only set if forwarded by a real user (not a honeytrap bot)
       submissionToken: submissionToken, // Secure token for email submission
       emailSentAt: originalEmailDate || null, // Original email send date (if extractable)
+      provider: "mailgun",
+      providerMessageId: messageId,
+      receivedBy: forwarderEmail ? null : honeytrapLabel("email", recipient),
+    });
+    await recordInboundEvent({
+      provider: "mailgun",
+      providerMessageId: messageId,
+      submissionId: result.id || null,
+      outcome: ingestOutcome(result),
+      detail: result.ok || result.error === "duplicate" ? null : { error: result.error || null },
     });
     
+    // Image-heavy emails carry their claims in graphics; keep the images for OCR and the classifier
+    let storedParts = 0;
+    if (result.ok && result.id && parts.length > 0) {
+      storedParts = await storeMessageParts(result.id, parts, "email");
+    }
+
     console.log("/api/inbound-email:ingested", {
       ok: result.ok,
       id: result.id || null,
@@ -232,12 +243,15 @@ export async function POST(req: NextRequest) {
       cleanedLen: cleanedText ? cleanedText.length : 0,
       isFundraising: result.isFundraising ?? null,
       heuristic: result.heuristic || null,
+      attachments: parts.length,
+      storedParts,
     });
     
     if (!result.ok) {
       if (result.error === "duplicate") {
         console.log("/api/inbound-email:duplicate", { 
           existingId: result.id || null, 
+          of: result.duplicateOf || null,
           from: detectedSender || null 
         });
         return NextResponse.json({ ok: true, duplicate: true, id: result.id }, { status: 200 });
@@ -256,49 +270,32 @@ export async function POST(req: NextRequest) {
         timestamp: new Date().toISOString()
       });
       
-      // Always trigger classify and sender immediately
+      // Queue classify, sender extraction and PII redaction (run inline), plus the landing page
+      // screenshot when an ActBlue URL was found (runs after the response, then re-classifies).
+      // With HTML or stored images, classification waits for the email render and the image OCR.
       const pipelinesStart = Date.now();
-      await triggerPipelines(result.id);
+      await triggerPipelines(result.id, {
+        landingUrl: result.landingUrl,
+        hasMedia: storedParts > 0,
+        renderEmail: Boolean(sanitizedHtml),
+      });
       const pipelinesElapsed = Date.now() - pipelinesStart;
       console.log("/api/inbound-email:pipelines_completed", { 
         submissionId: result.id,
         elapsedMs: pipelinesElapsed
       });
-      
-      // If ActBlue landing URL detected, trigger screenshot (which will re-classify with landing context)
-      if (result.landingUrl) {
-        const base = process.env.NEXT_PUBLIC_SITE_URL || "";
-        console.log("/api/inbound-email:triggering_screenshot", {
-          submissionId: result.id,
-          url: result.landingUrl
-        });
-        void fetch(`${base}/api/screenshot-actblue`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ caseId: result.id, url: result.landingUrl }),
-        }).then(async (r) => {
-          const text = await r.text().catch(() => "");
-          console.log("/api/inbound-email:screenshot_triggered", { 
-            status: r.status, 
-            caseId: result.id,
-            url: result.landingUrl,
-            response: text?.slice(0, 200) 
-          });
-        }).catch((e) => {
-          console.error("/api/inbound-email:screenshot_error", { 
-            submissionId: result.id,
-            error: String(e)
-          });
-        });
-      }
     } else {
       console.log("/api/inbound-email:skipped_triggers_non_fundraising", { 
         submissionId: result.id,
         isFundraising: result.isFundraising
       });
       
-      // Send notice email to forwarder for non-fundraising submissions
-      if (result.id && isForwarded && envelopeSender) {
+      const wantsNotice = Boolean(result.id && isForwarded && envelopeSender);
+      if (result.id && storedParts > 0) {
+        // The images may still show it is fundraising; the media job sends the notice if not
+        await triggerMediaPipeline(result.id, { nonFundraisingNotice: wantsNotice });
+      } else if (wantsNotice) {
+        // Send notice email to forwarder for non-fundraising submissions
         console.log("/api/inbound-email:triggering_non_fundraising_notice", {
           submissionId: result.id,
           forwarder: parseEmailAddress(envelopeSender) || envelopeSender
@@ -333,6 +330,31 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Mailgun posts attachments as attachment-1..N file fields and maps inline images
+ * to them with content-id-map ({"<cid>": "attachment-1"}).
+ */
+async function mailgunParts(form: FormData): Promise<MimePart[]> {
+  let cidMap: Record<string, string> = {};
+  try {
+    cidMap = JSON.parse(String(form.get("content-id-map") || "{}"));
+  } catch {}
+  const cidByField = new Map(Object.entries(cidMap).map(([cid, field]) => [field, cid.replace(/^<|>$/g, "")]));
+  const parts: MimePart[] = [];
+  for (const [field, value] of form.entries()) {
+    if (!/^attachment-\d+$/.test(field) || typeof value === "string") continue;
+    const contentId = cidByField.get(field) || null;
+    parts.push({
+      contentType: (value.type || "application/octet-stream").split(";")[0].trim().toLowerCase(),
+      filename: value.name || null,
+      contentId,
+      disposition: contentId ? "inline" : "attachment",
+      content: Buffer.from(await value.arrayBuffer()),
+    });
+  }
+  return parts;
+}
+
 // Strip HTML tags to get plain text
 function stripHtml(html: string): string {
   return html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
@@ -406,11 +428,7 @@ function validateAndCleanFromLine(fromLine: string): string | null {
   }
   
   // Check if this is a honeytrap email
-  const honeytrapEmails = env.HONEYTRAP_EMAILS 
-    ? env.HONEYTRAP_EMAILS.split(',').map(e => e.trim().toLowerCase()).filter(e => e.length > 0)
-    : [];
-  
-  const isHoneytrap = honeytrapEmails.some(email => cleaned.toLowerCase().includes(email));
+  const isHoneytrap = honeytrapEmails().some(email => cleaned.toLowerCase().includes(email.toLowerCase()));
   
   if (isHoneytrap) {
     return null;
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ingestTextSubmission, triggerPipelines } from "@/server/ingest/save";
+import { ingestTextSubmission, triggerMediaPipeline, triggerPipelines } from "@/server/ingest/save";
 import { repairMojibake, cleanTextForAI, normalizePunctuation } from "@/server/ingest/text-cleaner";
+import { verifyTwilioRequest } from "@/server/ingest/webhook-signature";
+import { ingestOutcome, recordInboundEvent } from "@/server/ingest/inbound-events";
+import { honeytrapLabel } from "@/server/ingest/honeytrap";
 
 // Twilio will POST with application/x-www-form-urlencoded by default
 export async function POST(req: NextRequest) {
@@ -13,14 +16,36 @@ export async function POST(req: NextRequest) {
     const contentType = req.headers.get("content-type") || "";
     let bodyText = "";
     let fromNumber = "";
+    let toNumber = ""; // our honeytrap number
     const mediaUrls: Array<{ url: string; contentType?: string }> = [];
 
+    // Read raw body as UTF-8 once: the signature covers the exact parameters Twilio sent
+    const rawBody = await req.text();
+    const isJson = contentType.includes("application/json");
+    let json: Record<string, unknown> = {};
+    if (isJson) {
+      try {
+        json = JSON.parse(rawBody) as Record<string, unknown>;
+      } catch {}
+    }
+    const formParams = isJson ? null : new URLSearchParams(rawBody);
+    // Twilio retries reuse the MessageSid; ingestion is idempotent on it
+    const messageSid =
+      (formParams ? formParams.get("MessageSid") || formParams.get("SmsMessageSid") : String(json?.MessageSid || json?.SmsMessageSid || "")) || null;
+
+    const verification = verifyTwilioRequest(req, formParams ? Object.fromEntries(formParams) : {}, rawBody);
+    if (!verification.ok) {
+      console.warn("/api/inbound-sms:unauthorized", { reason: verification.reason });
+      await recordInboundEvent({ provider: "twilio", providerMessageId: messageSid, outcome: "rejected", detail: { reason: verification.reason } });
+      return xmlResponse(`<Response></Response>`, 401);
+    }
+    if (verification.bypassed) console.warn("/api/inbound-sms:signature_bypassed");
+
     if (contentType.includes("application/x-www-form-urlencoded")) {
-      // Read raw body as UTF-8 and manually parse to ensure proper encoding
-      const rawBody = await req.text();
-      const params = new URLSearchParams(rawBody);
+      const params = formParams!;
       bodyText = params.get("Body") || "";
       fromNumber = params.get("From") || "";
+      toNumber = params.get("To") || "";
       
       // Parse media attachments (MMS)
       const numMedia = parseInt(params.get("NumMedia") || "0", 10);
@@ -34,10 +59,10 @@ export async function POST(req: NextRequest) {
           });
         }
       }
-    } else if (contentType.includes("application/json")) {
-      const json = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    } else if (isJson) {
       bodyText = String(json?.Body || json?.body || "");
       fromNumber = String(json?.From || json?.from || "");
+      toNumber = String(json?.To || json?.to || "");
       
       // Parse media attachments (MMS)
       const numMedia = parseInt(String(json?.NumMedia || "0"), 10);
@@ -52,11 +77,11 @@ export async function POST(req: NextRequest) {
         }
       }
     } else {
-      // Best-effort: try reading as text and parsing as URLSearchParams
-      const rawBody = await req.text();
-      const params = new URLSearchParams(rawBody);
+      // Best-effort: try parsing as URLSearchParams
+      const params = formParams!;
       bodyText = params.get("Body") || "";
       fromNumber = params.get("From") || "";
+      toNumber = params.get("To") || "";
       
       // Parse media attachments (MMS)
       const numMedia = parseInt(params.get("NumMedia") || "0", 10);
@@ -92,6 +117,16 @@ export async function POST(req: NextRequest) {
       messageType: "sms",
       imageUrlPlaceholder: "sms://no-image",
       mediaUrls: mediaUrls.length > 0 ? mediaUrls : undefined,
+      provider: "twilio",
+      providerMessageId: messageSid,
+      receivedBy: honeytrapLabel("sms", toNumber),
+    });
+    await recordInboundEvent({
+      provider: "twilio",
+      providerMessageId: messageSid,
+      submissionId: result.id || null,
+      outcome: ingestOutcome(result),
+      detail: result.ok || result.error === "duplicate" ? null : { error: result.error || null },
     });
     console.log("/api/inbound-sms:ingested", {
       ok: result.ok,
@@ -105,7 +140,7 @@ export async function POST(req: NextRequest) {
     });
     if (!result.ok) {
       if (result.error === "duplicate") {
-        console.log("/api/inbound-sms:duplicate", { existingId: result.id || null, from: fromNumber || null });
+        console.log("/api/inbound-sms:duplicate", { existingId: result.id || null, of: result.duplicateOf || null, from: fromNumber || null });
         return xmlResponse(`<Response></Response>`, 200);
       }
       if (!result.id) {
@@ -122,31 +157,19 @@ export async function POST(req: NextRequest) {
         hasLandingUrl: !!result.landingUrl
       });
       
-      // Run pipelines synchronously like email does
+      // Run pipelines synchronously like email does; the screenshot and MMS media jobs run after the response
       const pipelinesStart = Date.now();
-      await triggerPipelines(result.id);
+      await triggerPipelines(result.id, { landingUrl: result.landingUrl, hasMedia: mediaUrls.length > 0 });
       const pipelinesElapsed = Date.now() - pipelinesStart;
       
       console.log("/api/inbound-sms:pipelines_completed", { 
         submissionId: result.id,
         elapsedMs: pipelinesElapsed
       });
-      
-      // If landing URL detected, trigger screenshot
-      if (result.landingUrl) {
-        const base = process.env.NEXT_PUBLIC_SITE_URL 
-          || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : null)
-          || "http://localhost:3000";
-        
-        // Fire-and-forget for screenshot (can take 15+ seconds)
-        fetch(`${base}/api/screenshot-actblue`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ caseId: result.id, url: result.landingUrl }),
-        }).catch((e) => {
-          console.error("/api/inbound-sms:screenshot_error", { submissionId: result.id, error: String(e) });
-        });
-      }
+    } else if (result.ok && result.id && mediaUrls.length > 0) {
+      // Graphic-only texts look non-fundraising until their images are OCR'd
+      console.log("/api/inbound-sms:media_only_pipeline", { submissionId: result.id, numMedia: mediaUrls.length });
+      await triggerMediaPipeline(result.id);
     } else {
       console.log("/api/inbound-sms:skipped_triggers_non_fundraising", { submissionId: result.id });
     }
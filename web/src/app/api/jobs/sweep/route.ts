@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+export const runtime = "nodejs";
+import { requireCronAuth } from "@/lib/cron-auth";
+import { getPipelineHealth, sweepStuckCases } from "@/server/jobs/sweeper";
+
+/**
+ * Stuck-case sweeper. Vercel Cron calls this every 5 minutes (vercel.json).
+ * Re-enqueues or errors stuck cases and returns the pipeline_health counts.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+async function handle(req: NextRequest) {
+  const denied = requireCronAuth(req);
+  if (denied) return denied;
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "service_key_missing" }, { status: 400 });
+  }
+
+  const sweep = await sweepStuckCases();
+  const health = await getPipelineHealth();
+  return NextResponse.json({ ok: true, sweep, health });
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+export const runtime = "nodejs";
+export const maxDuration = 300;
+import { requireCronAuth } from "@/lib/cron-auth";
+import { JOB_TYPES, type JobType } from "@/server/jobs/queue";
+import { runJobs } from "@/server/jobs/worker";
+
+/**
+ * Job queue worker. Vercel Cron calls this every minute (vercel.json); it drains
+ * due jobs and retries until shortly before the function time limit.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+async function handle(req: NextRequest) {
+  const denied = requireCronAuth(req);
+  if (denied) return denied;
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: "service_key_missing" }, { status: 400 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const types = (params.get("types") || "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t): t is JobType => JOB_TYPES.includes(t as JobType));
+
+  const summary = await runJobs({
+    submissionId: params.get("submissionId") || undefined,
+    types: types.length > 0 ? types : undefined,
+    deadlineMs: 240_000,
+  });
+  return NextResponse.json({ ok: true, ...summary });
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -13,26 +13,8 @@ export async function POST(req: NextRequest) {
     
     console.log("/api/process-job:start", { submissionId, hasLandingUrl: !!landingUrl });
     
-    // Run pipelines (classify + sender extraction)
-    await triggerPipelines(submissionId);
-    
-    // If landing URL provided, trigger screenshot
-    if (landingUrl) {
-      const base = process.env.NEXT_PUBLIC_SITE_URL 
-        || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : null)
-        || "http://localhost:3000";
-      
-      try {
-        await fetch(`${base}/api/screenshot-actblue`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ caseId: submissionId, url: landingUrl }),
-        });
-        console.log("/api/process-job:screenshot_triggered", { submissionId });
-      } catch (e) {
-        console.error("/api/process-job:screenshot_error", { submissionId, error: String(e) });
-      }
-    }
+    // Queue and run pipelines (classify, sender extraction, PII redaction, landing screenshot)
+    await triggerPipelines(submissionId, { landingUrl });
     
     console.log("/api/process-job:complete", { submissionId });
     return NextResponse.json({ ok: true, submissionId });
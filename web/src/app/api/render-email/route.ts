@@ -0,0 +1,143 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { env } from "@/lib/env";
+import { requireCronAuth } from "@/lib/cron-auth";
+import { launchBrowser } from "@/server/render/browser";
+import { isPublicUrl } from "@/server/render/network";
+import type { MediaEntry } from "@/server/ingest/media";
+
+// Email templates are laid out for ~600px; the extra width keeps centered layouts from wrapping
+const RENDER_WIDTH = 800;
+const MAX_RENDER_HEIGHT = 12000;
+const RENDER_TIMEOUT_MS = 20000;
+// Remote content the email may load; scripts, frames, navigations, media and XHR are blocked
+const ALLOWED_RESOURCE_TYPES = ["image", "stylesheet", "font"];
+
+type Body = { submissionId?: string; force?: boolean };
+
+function parseSupabaseUrl(u?: string | null) {
+  if (!u || !u.startsWith("supabase://")) return null;
+  const rest = u.replace("supabase://", "");
+  const [bucket, ...pathParts] = rest.split("/");
+  return { bucket, path: pathParts.join("/") };
+}
+
+/**
+ * Elements that load or navigate to another document. The sanitizer keeps them for
+ * display, but the renderer only ever shows the email itself.
+ */
+function stripEmbeddedDocuments(html: string): string {
+  return html
+    .replace(/<(iframe|frame|frameset|object|embed|portal)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<\/?(iframe|frame|frameset|object|embed|portal|base)\b[^>]*>/gi, "")
+    .replace(/<meta\b[^>]*http-equiv\s*=\s*["']?refresh[^>]*>/gi, "");
+}
+
+/** Inline images are referenced as cid:<id>; swap in the stored parts as data URLs. */
+async function inlineCidImages(supabase: ReturnType<typeof getSupabaseServer>, html: string, media: MediaEntry[]): Promise<string> {
+  let out = html;
+  for (const entry of media) {
+    if (!entry.contentId || !entry.contentType?.startsWith("image/") || !out.includes(`cid:${entry.contentId}`)) continue;
+    const ref = parseSupabaseUrl(entry.url);
+    if (!ref) continue;
+    const { data: file } = await supabase.storage.from(ref.bucket).download(ref.path);
+    if (!file) continue;
+    const dataUrl = `data:${entry.contentType};base64,${Buffer.from(await file.arrayBuffer()).toString("base64")}`;
+    out = out.split(`cid:${entry.contentId}`).join(dataUrl);
+  }
+  return out;
+}
+
+/**
+ * Render a case's sanitized email HTML to a PNG (stored as email_screenshot_url)
+ * so the classifier sees the banner graphics the text version leaves out.
+ * Skips cases that already have a render unless `force` is set.
+ */
+export async function POST(req: NextRequest) {
+  // Only the job queue renders (it sends the internal secret); each call launches Chrome
+  const denied = requireCronAuth(req);
+  if (denied) return denied;
+  const json = (await req.json().catch(() => null)) as Body | null;
+  const submissionId = String(json?.submissionId || "").trim();
+  if (!submissionId) return NextResponse.json({ error: "missing_args" }, { status: 400 });
+
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id, email_body, media_urls, email_screenshot_url")
+    .eq("id", submissionId)
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: "load_failed" }, { status: 500 });
+  if (!data) return NextResponse.json({ error: "not_found" }, { status: 404 });
+  const sub = data as { email_body?: string | null; media_urls?: MediaEntry[] | null; email_screenshot_url?: string | null };
+  if (!sub.email_body) return NextResponse.json({ error: "no_email_html" }, { status: 400 });
+  if (sub.email_screenshot_url && !json?.force) return NextResponse.json({ ok: true, skipped: "already_rendered" });
+
+  const html = stripEmbeddedDocuments(await inlineCidImages(supabase, sub.email_body, Array.isArray(sub.media_urls) ? sub.media_urls : []));
+
+  let browser: any = null;
+  async function render(): Promise<Buffer> {
+    browser = await launchBrowser();
+    const page = await browser.newPage();
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    const hostCache = new Map<string, boolean>();
+    page.on("request", async (request: any) => {
+      // The main frame holds the setContent document; any other document (frame, redirect, refresh) is refused
+      const url = String(request.url());
+      if (request.resourceType() === "document") {
+        if (request.frame() === page.mainFrame() && (url === "about:blank" || url.startsWith("data:"))) request.continue();
+        else request.abort();
+        return;
+      }
+      const allowed = ALLOWED_RESOURCE_TYPES.includes(request.resourceType()) && (await isPublicUrl(url, hostCache));
+      if (allowed) request.continue();
+      else request.abort();
+    });
+    await page.setViewport({ width: RENDER_WIDTH, height: 1200, deviceScaleFactor: 1 });
+    try {
+      await page.setContent(html, { waitUntil: "networkidle2", timeout: RENDER_TIMEOUT_MS - 5000 });
+    } catch {
+      // Slow image hosts: screenshot whatever loaded
+    }
+    const height = (await page.evaluate(() => document.documentElement.scrollHeight || document.body?.scrollHeight || 0)) as number;
+    await page.setViewport({ width: RENDER_WIDTH, height: Math.min(Math.max(height, 400), MAX_RENDER_HEIGHT), deviceScaleFactor: 1 });
+    return (await page.screenshot({ type: "png" })) as Buffer;
+  }
+
+  let png: Buffer;
+  try {
+    png = (await Promise.race([
+      render(),
+      new Promise<never>((_, reject) => setTimeout(() => reject(new Error("timeout")), RENDER_TIMEOUT_MS)),
+    ])) as Buffer;
+  } catch (e) {
+    console.warn("/api/render-email:render_failed", { submissionId, error: String(e) });
+    return NextResponse.json({ ok: false, error: "render_failed" }, { status: 502 });
+  } finally {
+    try { if (browser) await browser.close(); } catch {}
+  }
+
+  const bucket = env.SUPABASE_BUCKET_SCREENSHOTS || "screenshots";
+  const objectPath = `${submissionId}-email.png`;
+  const { error: upErr } = await supabase.storage
+    .from(bucket)
+    .upload(objectPath, png, { contentType: "image/png", upsert: true, cacheControl: "3600" });
+  if (upErr) {
+    console.warn("/api/render-email:upload_failed", { submissionId, error: upErr.message });
+    return NextResponse.json({ ok: false, error: "upload_failed" }, { status: 500 });
+  }
+
+  const screenshotUrl = `supabase://${bucket}/${objectPath}`;
+  const { error: updErr } = await supabase
+    .from("submissions")
+    .update({ email_screenshot_url: screenshotUrl, email_rendered_at: new Date().toISOString() })
+    .eq("id", submissionId);
+  if (updErr) return NextResponse.json({ ok: false, error: "db_update_failed" }, { status: 500 });
+
+  console.log("/api/render-email:rendered", { submissionId, bytes: png.length });
+  return NextResponse.json({ ok: true, screenshotUrl });
+}
@@ -4,6 +4,9 @@ import { Resend } from "resend";
 import { randomBytes } from "crypto";
 import { env } from "@/lib/env";
 import { getSupabaseServer } from "@/lib/supabase-server";
+import { runClassification } from "@/server/ai/classify";
+import { getLLMProvider } from "@/server/ai/llm";
+import { caseAttachments, emailImageUrl } from "@/server/email/evidence";
 
 function parseSupabaseUrl(u: string | null | undefined) {
   if (!u || !u.startsWith("supabase://")) return null;
@@ -39,12 +42,12 @@ export async function POST(req: NextRequest) {
   // Fetch case
   const { data: rows, error: err } = await supabase
     .from("submissions")
-    .select("id, sender_name, sender_id, raw_text, email_subject, email_body, ai_summary, image_url, landing_url, landing_screenshot_url, message_type, created_at, email_sent_at")
+    .select("id, sender_name, sender_id, raw_text, email_subject, email_body, ai_summary, image_url, email_screenshot_url, landing_url, landing_screenshot_url, message_type, created_at, email_sent_at, current_classification_run_id")
     .eq("id", caseId)
     .limit(1);
   if (err) return NextResponse.json({ error: "case_load_failed" }, { status: 500 });
   const sub = rows?.[0] as
-    | { id: string; sender_name?: string | null; sender_id?: string | null; raw_text?: string | null; email_body?: string | null; landing_url?: string | null; landing_screenshot_url?: string | null; image_url?: string | null; message_type?: string | null; created_at?: string | null; email_sent_at?: string | null }
+    | { id: string; sender_name?: string | null; sender_id?: string | null; raw_text?: string | null; email_body?: string | null; landing_url?: string | null; landing_screenshot_url?: string | null; image_url?: string | null; email_screenshot_url?: string | null; message_type?: string | null; created_at?: string | null; email_sent_at?: string | null; current_classification_run_id?: string | null }
     | undefined;
   if (!sub) return NextResponse.json({ error: "not_found" }, { status: 404 });
 
@@ -63,7 +66,12 @@ export async function POST(req: NextRequest) {
   let evidenceLabel = "Screenshot";
   let evidenceLinkText = "View Screenshot";
 
-  if (isEmailSubmission) {
+  if (isEmailSubmission && sub.email_screenshot_url) {
+    // Rendered email: the screenshot is the evidence, the HTML stays attached
+    evidenceUrl = emailImageUrl(sub.id);
+    evidenceLabel = "Email Screenshot";
+    evidenceLinkText = "A screenshot of the email I received is linked here";
+  } else if (isEmailSubmission) {
     // Email submission: link to email HTML viewer
     evidenceUrl = `${env.NEXT_PUBLIC_SITE_URL}/api/cases/${sub.id}/email-html`;
     evidenceLabel = "Email HTML";
@@ -83,17 +91,42 @@ export async function POST(req: NextRequest) {
     evidenceUrl = screenshotUrl;
   }
 
+  // Reports go out on consensus findings: re-classify in consensus mode unless the current run already was one.
+  // A failed re-run leaves the case untouched and the existing violations are reported as before.
+  if (!violationsOverride && env.CLASSIFY_CONSENSUS_ON_REPORT === "true" && getLLMProvider().configured) {
+    let currentMode: string | null = null;
+    if (sub.current_classification_run_id) {
+      const { data: run } = await supabase
+        .from("classification_runs")
+        .select("mode")
+        .eq("id", sub.current_classification_run_id)
+        .maybeSingle();
+      currentMode = (run as { mode?: string } | null)?.mode ?? null;
+    }
+    if (currentMode !== "consensus") {
+      const result = await runClassification(sub.id, { includeExistingComments: true, replaceExisting: true, trigger: "report", consensus: true, keepStatusOnFailure: true });
+      if (result.ok) {
+        console.log("/api/report-violation:consensus_done", { caseId: sub.id, violations: result.violations, contested: result.contested, ms: result.ms });
+      } else {
+        console.error("/api/report-violation:consensus_failed", { caseId: sub.id, error: result.error });
+      }
+    }
+  }
+
   // Load violations for this case
   const { data: vioRows } = await supabase
     .from("violations")
-    .select("code, title, description, severity, confidence, actblue_verified")
+    .select("code, title, description, severity, confidence, actblue_verified, contested")
     .eq("submission_id", sub.id)
     .order("severity", { ascending: false });
   const allViolations = Array.isArray(vioRows) ? vioRows : [];
-  const filteredViolations = (violationsOverride ? allViolations : allViolations.filter(
+  const withoutVerified = (violationsOverride ? allViolations : allViolations.filter(
     (v) => !(v.code === "AB008" && v.actblue_verified === true)
   ));
-  const removedVerifiedAb008 = allViolations.length - filteredViolations.length;
+  const removedVerifiedAb008 = allViolations.length - withoutVerified.length;
+  // Contested findings (most consensus voters disagreed) are not reported
+  const filteredViolations = violationsOverride ? withoutVerified : withoutVerified.filter((v) => v.contested !== true);
+  const removedContested = withoutVerified.length - filteredViolations.length;
   const violationsList = filteredViolations;
 
   // No summary in email/report body per product decision
@@ -135,6 +168,9 @@ export async function POST(req: NextRequest) {
     if (!violationsOverride && removedVerifiedAb008 > 0) {
       vioText += `\nNote: ActBlue-verified matching program items (AB008) were excluded and will not be reported.`;
     }
+    if (!violationsOverride && removedContested > 0) {
+      vioText += `\nNote: ${removedContested} finding(s) without model consensus were excluded and will not be reported.`;
+    }
   }
   sections.push(`Violations\n----------\n${vioText}`);
   sections.push(`Landing page URL\n-----------------\n${landingUrl}`);
@@ -170,7 +206,12 @@ export async function POST(req: NextRequest) {
           ActBlue-verified matching program items (AB008) were excluded and will not be reported.
         </p>`
       : "";
-    return `${base}${note}`;
+    const contestedNote = (!violationsOverride && removedContested > 0)
+      ? `<p style="margin:8px 0 0 0;color:#92400e;font-size:13px;background:#fef3c7;border:1px solid #fde68a;padding:10px;border-radius:8px">
+          ${removedContested} finding(s) without model consensus were excluded and will not be reported.
+        </p>`
+      : "";
+    return `${base}${note}${contestedNote}`;
   })();
   const html = `<!doctype html>
 <html>
@@ -273,14 +314,7 @@ export async function POST(req: NextRequest) {
   });
 
   // Build attachments for email
-  const attachments: Array<{ filename: string; content: string; type?: string }> = [];
-  if (sub.email_body) {
-    const base64 = Buffer.from(String(sub.email_body), "utf8").toString("base64");
-    attachments.push({ filename: "original_email.html", content: base64, type: "text/html" });
-  } else if (sub.raw_text) {
-    const base64 = Buffer.from(String(sub.raw_text), "utf8").toString("base64");
-    attachments.push({ filename: "original_text.txt", content: base64, type: "text/plain" });
-  }
+  const attachments = await caseAttachments(supabase, sub);
 
   const fromEmail = "reports@abjail.org"; // under verified domain
 
@@ -1,20 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
 export const runtime = "nodejs";
 import { randomUUID } from "crypto";
-import { existsSync } from "fs";
 import { getSupabaseServer } from "@/lib/supabase-server";
 import { env } from "@/lib/env";
-
-// Lazy import puppeteer deps to avoid edge bundling issues when route is untouched
-async function getChromium() {
-  const mod = await import("@sparticuz/chromium");
-  return (mod as any).default ?? mod;
-}
-async function getPuppeteerCore() {
-  const mod = await import("puppeteer-core");
-  return (mod as any).default ?? mod;
-}
+import { enqueueJob } from "@/server/jobs/queue";
+import { runJobs } from "@/server/jobs/worker";
+import { launchBrowser } from "@/server/render/browser";
 
 function isValidActBlueUrl(input: string): boolean {
   try {
@@ -27,23 +19,10 @@ function isValidActBlueUrl(input: string): boolean {
   }
 }
 
-function resolveLocalChromePath(): string | null {
-  const envPath = process.env.CHROME_PATH;
-  if (envPath && typeof envPath === "string") return envPath;
-  // Common macOS locations
-  const candidates = [
-    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-    "/Applications/Chromium.app/Contents/MacOS/Chromium",
-    "/Applications/Google Chrome Canary.app/Contents/MacOS/Google Chrome Canary",
-  ];
-  for (const p of candidates) {
-    if (existsSync(p)) return p;
-  }
-  return null;
-}
-
 type Body = { caseId?: string; url?: string };
 
+const MAX_LANDING_TEXT_CHARS = 8000;
+
 export async function POST(req: NextRequest) {
   if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
     return NextResponse.json({ error: "service_key_missing" }, { status: 400 });
@@ -71,38 +50,10 @@ export async function POST(req: NextRequest) {
   // Attempt screenshot with hard 15s timeout (launch + navigate + capture)
   const timeoutMs = 15000;
   let screenshotBuf: Buffer | null = null;
+  let landingText: string | null = null;
   let browser: any = null;
   async function takeShot(): Promise<Buffer> {
-    const chromium: any = await getChromium();
-    const puppeteer: any = await getPuppeteerCore();
-    let executablePath: string | null = null;
-    try {
-      executablePath = await chromium.executablePath();
-    } catch {}
-    if (!executablePath) executablePath = resolveLocalChromePath();
-    const args: string[] = Array.isArray(chromium.args) ? chromium.args.slice() : [];
-    // Harden for local/docker/vercel
-    for (const a of ["--no-sandbox","--disable-setuid-sandbox","--disable-dev-shm-usage","--disable-gpu","--hide-scrollbars","--ignore-certificate-errors","--window-size=1280,2000"]) {
-      if (!args.includes(a)) args.push(a);
-    }
-    try {
-      browser = await puppeteer.launch({
-        args,
-        defaultViewport: chromium.defaultViewport || { width: 1280, height: 1200 },
-        executablePath: executablePath || undefined,
-        headless: (chromium.headless as boolean) ?? true,
-      });
-    } catch {
-      // Retry using system Chrome if the downloaded chromium path is not executable
-      const localExe = resolveLocalChromePath();
-      if (!localExe) throw new Error("No Chrome executable found");
-      browser = await puppeteer.launch({
-        args,
-        defaultViewport: { width: 1280, height: 1200 },
-        executablePath: localExe,
-        headless: true,
-      });
-    }
+    browser = await launchBrowser();
     const page = await browser.newPage();
     page.setDefaultNavigationTimeout(timeoutMs);
     try {
@@ -127,6 +78,11 @@ export async function POST(req: NextRequest) {
         } catch { return true; }
       }, { timeout: 6000 });
     } catch {}
+    // Visible form text lets the classifier judge form branding/PAC disclosure (AB005/AB006)
+    try {
+      const txt = (await page.evaluate(() => document.body?.innerText || "")) as string;
+      landingText = txt.replace(/\n{3,}/g, "\n\n").trim().slice(0, MAX_LANDING_TEXT_CHARS) || null;
+    } catch {}
     step = "screenshot";
     const buf = (await page.screenshot({ fullPage: true, type: "png" })) as Buffer;
     return buf;
@@ -173,6 +129,7 @@ export async function POST(req: NextRequest) {
       .update({
         landing_url: url,
         landing_screenshot_url: publicUrl,
+        landing_text: landingText,
         landing_rendered_at: new Date().toISOString(),
         landing_render_status: "success",
       })
@@ -184,25 +141,10 @@ export async function POST(req: NextRequest) {
       await supabase.from("comments").insert({ submission_id: caseId, content: comment, kind: "landing_page" });
     } catch {}
 
-    // Fire-and-forget classify with existing comments included
-    try {
-      const base = env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
-      void fetch(`${base}/api/classify`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ submissionId: caseId, includeExistingComments: true }),
-      }).catch(() => undefined);
-    } catch {}
-
-    // Fire-and-forget sender re-extraction with landing page screenshot
-    try {
-      const base = env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
-      void fetch(`${base}/api/sender`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ submissionId: caseId }),
-      }).catch(() => undefined);
-    } catch {}
+    // Re-classify with the landing page context and re-extract the sender from the screenshot
+    await enqueueJob("classify", caseId, { trigger: "landing_page", includeExistingComments: true });
+    await enqueueJob("sender", caseId);
+    after(() => runJobs({ submissionId: caseId, types: ["classify", "sender", "preview_email"] }).then(() => undefined));
 
     return NextResponse.json({ ok: true, screenshotUrl: publicUrl });
   } catch {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { Resend } from "resend";
 import { env } from "@/lib/env";
 import { getSupabaseServer } from "@/lib/supabase-server";
+import { emailImageUrl } from "@/server/email/evidence";
 
 function parseSupabaseUrl(u: string | null | undefined) {
   if (!u || !u.startsWith("supabase://")) return null;
@@ -37,7 +38,7 @@ export async function POST(req: NextRequest) {
   console.log("/api/send-case-preview:fetching_submission", { submissionId });
   const { data: rows, error: err } = await supabase
     .from("submissions")
-    .select("id, sender_name, sender_id, forwarder_email, submission_token, preview_email_sent_at, image_url, landing_url, message_type, email_body")
+    .select("id, sender_name, sender_id, forwarder_email, submission_token, preview_email_sent_at, image_url, landing_url, message_type, email_body, email_screenshot_url")
     .eq("id", submissionId)
     .limit(1);
 
@@ -47,7 +48,7 @@ export async function POST(req: NextRequest) {
   }
 
   const sub = rows?.[0] as
-    | { id: string; sender_name?: string | null; sender_id?: string | null; forwarder_email?: string | null; submission_token?: string | null; preview_email_sent_at?: string | null; image_url?: string | null; landing_url?: string | null; message_type?: string | null; email_body?: string | null }
+    | { id: string; sender_name?: string | null; sender_id?: string | null; forwarder_email?: string | null; submission_token?: string | null; preview_email_sent_at?: string | null; image_url?: string | null; landing_url?: string | null; message_type?: string | null; email_body?: string | null; email_screenshot_url?: string | null }
     | undefined;
 
   console.log("/api/send-case-preview:submission_loaded", { 
@@ -99,8 +100,15 @@ export async function POST(req: NextRequest) {
   let evidenceUrl: string | null = null;
   let evidenceLabel = "Screenshot";
   let evidenceLinkText = "View Screenshot";
-
-  if (isEmailSubmission) {
+  // Rendered email shown inline (top of the message); the link opens the full render
+  let evidencePreviewUrl: string | null = null;
+
+  if (isEmailSubmission && sub.email_screenshot_url) {
+    evidenceUrl = emailImageUrl(sub.id);
+    evidencePreviewUrl = emailImageUrl(sub.id, "preview");
+    evidenceLabel = "The Email You Forwarded";
+    evidenceLinkText = "View the full email";
+  } else if (isEmailSubmission) {
     // Email submission: link to email HTML viewer
     evidenceUrl = `${env.NEXT_PUBLIC_SITE_URL}/api/cases/${sub.id}/email-html`;
     evidenceLabel = "Email HTML";
@@ -200,6 +208,7 @@ export async function POST(req: NextRequest) {
       ${evidenceUrl ? `
       <div style="margin-bottom:24px">
         <h2 style="margin:0 0 8px 0;font-size:14px;font-weight:600;color:#64748b;text-transform:uppercase;letter-spacing:0.5px">${evidenceLabel}</h2>
+        ${evidencePreviewUrl ? `<a href="${esc(evidenceUrl)}"><img src="${esc(evidencePreviewUrl)}" alt="Screenshot of the forwarded email" width="552" style="display:block;width:100%;max-width:552px;height:auto;border:1px solid #e2e8f0;border-radius:8px;margin:0 0 8px 0"></a>` : ""}
         <p style="margin:0;font-size:14px"><a href="${esc(evidenceUrl)}" style="color:#3b82f6;text-decoration:underline">${esc(evidenceLinkText)}</a></p>
       </div>
       ` : ""}
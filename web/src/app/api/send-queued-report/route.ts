@@ -3,6 +3,7 @@ export const runtime = "nodejs";
 import { Resend } from "resend";
 import { env } from "@/lib/env";
 import { getSupabaseServer } from "@/lib/supabase-server";
+import { caseAttachments } from "@/server/email/evidence";
 
 export async function GET(req: NextRequest) {
   const startTime = Date.now();
@@ -91,21 +92,14 @@ export async function GET(req: NextRequest) {
   // Fetch case for attachments
   const { data: subRows } = await supabase
     .from("submissions")
-    .select("id, email_body, raw_text")
+    .select("id, email_body, raw_text, email_screenshot_url")
     .eq("id", report.case_id)
     .limit(1);
   
-  const sub = subRows?.[0] as { id: string; email_body?: string | null; raw_text?: string | null } | undefined;
+  const sub = subRows?.[0] as { id: string; email_body?: string | null; raw_text?: string | null; email_screenshot_url?: string | null } | undefined;
 
   // Build attachments
-  const attachments: Array<{ filename: string; content: string; type?: string }> = [];
-  if (sub?.email_body) {
-    const base64 = Buffer.from(String(sub.email_body), "utf8").toString("base64");
-    attachments.push({ filename: "original_email.html", content: base64, type: "text/html" });
-  } else if (sub?.raw_text) {
-    const base64 = Buffer.from(String(sub.raw_text), "utf8").toString("base64");
-    attachments.push({ filename: "original_text.txt", content: base64, type: "text/plain" });
-  }
+  const attachments = sub ? await caseAttachments(supabase, sub) : [];
 
   // Send the email
   const fromEmail = "reports@abjail.org";
@@ -38,6 +38,10 @@ export async function GET(req: NextRequest) {
   // Format: "sms", "email", "unknown"
   const typesRaw = searchParams.getAll("type");
   const types = Array.from(new Set(typesRaw.filter(Boolean)));
+  const senderTypesRaw = searchParams.getAll("sender_type");
+  const senderTypes = Array.from(new Set(senderTypesRaw.filter(Boolean)));
+  // Disclaimer check result: "match", "mismatch", "missing", "unverified", "unchecked"
+  const disclaimerStatuses = Array.from(new Set(searchParams.getAll("disclaimer").filter(Boolean)));
 
   try {
     const supabase = getSupabaseServer();
@@ -70,6 +74,8 @@ export async function GET(req: NextRequest) {
       violation_permitted_flags: violationPermittedFlags.length > 0 ? violationPermittedFlags : null,
       sources: sources.length > 0 ? sources : null,
       message_types: types.length > 0 ? types : null,
+      sender_types: senderTypes.length > 0 ? senderTypes : null,
+      disclaimer_statuses: disclaimerStatuses.length > 0 ? disclaimerStatuses : null,
     });
 
     if (error) {
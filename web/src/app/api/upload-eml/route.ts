@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+export const runtime = "nodejs";
+export const maxDuration = 120;
+import { ingestEml, MAX_EML_BYTES, MAX_EML_REQUEST_BYTES } from "@/server/ingest/eml";
+import { triggerPipelines } from "@/server/ingest/save";
+
+/** The request body, or null once it grows past `limit` (chunked bodies carry no Content-Length). */
+async function readBodyCapped(req: NextRequest, limit: number): Promise<Buffer | null> {
+  if (!req.body) return Buffer.alloc(0);
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Accepts a raw .eml file as multipart/form-data (field "file") or as a message/rfc822 body
+export async function POST(req: NextRequest) {
+  try {
+    // Refuse oversized uploads before reading them into memory
+    const declared = Number(req.headers.get("content-length") || 0);
+    if (declared > MAX_EML_REQUEST_BYTES) return NextResponse.json({ error: "too_large" }, { status: 413 });
+    const contentType = req.headers.get("content-type") || "";
+    let raw: Buffer | null = null;
+    if (contentType.includes("multipart/form-data")) {
+      const form = await req.formData();
+      const file = form.get("file");
+      if (file && typeof file !== "string") {
+        if (file.size > MAX_EML_BYTES) return NextResponse.json({ error: "too_large" }, { status: 413 });
+        raw = Buffer.from(await file.arrayBuffer());
+      }
+    } else {
+      raw = await readBodyCapped(req, MAX_EML_BYTES);
+      if (!raw) return NextResponse.json({ error: "too_large" }, { status: 413 });
+    }
+    if (!raw || raw.length === 0) return NextResponse.json({ error: "missing_file" }, { status: 400 });
+    if (raw.length > MAX_EML_BYTES) return NextResponse.json({ error: "too_large" }, { status: 413 });
+
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      console.error("/api/upload-eml:error service_key_missing");
+      return NextResponse.json({ error: "service_key_missing" }, { status: 400 });
+    }
+
+    const result = await ingestEml(raw);
+    console.log("/api/upload-eml:ingested", {
+      ok: result.ok,
+      id: result.id || null,
+      bytes: raw.length,
+      isFundraising: result.isFundraising ?? null,
+    });
+    if (!result.ok) {
+      if (result.error === "empty_message") return NextResponse.json({ error: "empty_message" }, { status: 422 });
+      if (result.error === "duplicate" && result.id) {
+        return NextResponse.json({ ok: true, duplicate: true, id: result.id }, { status: 200 });
+      }
+      console.error("/api/upload-eml:ingest_failed", result);
+      return NextResponse.json({ error: "ingest_failed" }, { status: 500 });
+    }
+
+    if (result.isFundraising && result.id) {
+      await triggerPipelines(result.id, {
+        landingUrl: result.landingUrl,
+        hasMedia: (result.storedParts ?? 0) > 0,
+        renderEmail: Boolean(result.hasHtml),
+      });
+    }
+    return NextResponse.json({ ok: true, id: result.id }, { status: 200 });
+  } catch (e) {
+    console.error("/api/upload-eml:exception", e);
+    return NextResponse.json({ error: "exception" }, { status: 500 });
+  }
+}
@@ -3,6 +3,9 @@ import { z } from "zod";
 import { env } from "@/lib/env";
 import { randomUUID } from "crypto";
 import { getSupabaseServer } from "@/lib/supabase-server";
+import { enqueueJob } from "@/server/jobs/queue";
+
+const OCR_BACKSTOP_DELAY_SECONDS = 180;
 
 const BodySchema = z.object({
   filename: z.string(),
@@ -68,6 +71,8 @@ export async function POST(req: NextRequest) {
     });
     if (error) throw error;
     insertOk = true;
+    // Backstop: the browser calls /api/ocr right after uploading; if it never does, the worker OCRs the file
+    await enqueueJob("ocr", submissionId, {}, { delaySeconds: OCR_BACKSTOP_DELAY_SECONDS });
   } catch (e) {
     insertError = e instanceof Error ? e.message : String(e);
     console.error("insert submission failed", e);
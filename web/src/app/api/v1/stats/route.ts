@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseAdmin } from "@/lib/supabase-server";
 import { authenticateApiKey, isAuthError } from "@/lib/api-auth";
 import { apiError, parseArrayParam } from "@/lib/api-utils";
+import { DISCLAIMER_STATUSES, type DisclaimerStatus } from "@/server/senders/disclaimer";
 
 export async function GET(req: NextRequest) {
   const auth = await authenticateApiKey(req);
@@ -16,6 +17,13 @@ export async function GET(req: NextRequest) {
 
   const senderNames = parseArrayParam(searchParams, "sender");
   const violationCodes = parseArrayParam(searchParams, "violation");
+  const senderTypes = parseArrayParam(searchParams, "sender_type");
+  const disclaimerStatuses = parseArrayParam(searchParams, "disclaimer");
+  const validDisclaimer = [...DISCLAIMER_STATUSES, "unchecked"];
+  const invalidDisclaimer = disclaimerStatuses.find((d) => !validDisclaimer.includes(d as DisclaimerStatus));
+  if (invalidDisclaimer) {
+    return apiError("invalid_param", `disclaimer must be one of: ${validDisclaimer.join(", ")}`, 400);
+  }
 
   try {
     const supabase = getSupabaseAdmin();
@@ -37,6 +45,8 @@ export async function GET(req: NextRequest) {
       violation_permitted_flags: null,
       sources: null,
       message_types: null,
+      sender_types: senderTypes.length > 0 ? senderTypes : null,
+      disclaimer_statuses: disclaimerStatuses.length > 0 ? disclaimerStatuses : null,
     });
 
     if (error) {
@@ -1,7 +1,8 @@
 import { NextRequest } from "next/server";
 import { getSupabaseAdmin } from "@/lib/supabase-server";
 import { authenticateApiKey, isAuthError } from "@/lib/api-auth";
-import { singleResponse, apiError, resolveImageUrl } from "@/lib/api-utils";
+import { singleResponse, apiError, resolveImageUrl, resolveMediaUrls } from "@/lib/api-utils";
+import { getFecCommittees } from "@/server/senders/fec";
 
 const SELECTED_FIELDS = [
   "id",
@@ -10,6 +11,17 @@ const SELECTED_FIELDS = [
   "sort_date",
   "sender_id",
   "sender_name",
+  "sender_type",
+  "sender_entity_id",
+  "sender_confidence",
+  "sender_notes",
+  "fec_committee_id",
+  "fec_match_score",
+  "disclaimer_paid_for_by",
+  "disclaimer_authorization",
+  "disclaimer_address",
+  "disclaimer_status",
+  "campaign_id",
   "message_type",
   "raw_text",
   "ai_summary",
@@ -57,6 +69,9 @@ export async function GET(
       supabase,
       row.landing_screenshot_url as string | null
     );
+    row.media_urls = await resolveMediaUrls(supabase, row.media_urls);
+    const fecId = (row.fec_committee_id as string | null) ?? null;
+    row.fec_committee = fecId ? (await getFecCommittees([fecId])).get(fecId) ?? null : null;
 
     // Fetch related violations
     const { data: violations } = await supabase
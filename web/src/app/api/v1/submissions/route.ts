@@ -7,6 +7,9 @@ import {
   apiError,
   resolveImageUrls,
 } from "@/lib/api-utils";
+import { SENDER_TYPES } from "@/server/ai/sender";
+import { getFecCommittees } from "@/server/senders/fec";
+import { DISCLAIMER_STATUSES } from "@/server/senders/disclaimer";
 
 const SELECTED_FIELDS = [
   "id",
@@ -15,6 +18,17 @@ const SELECTED_FIELDS = [
   "sort_date",
   "sender_id",
   "sender_name",
+  "sender_type",
+  "sender_entity_id",
+  "sender_confidence",
+  "sender_notes",
+  "fec_committee_id",
+  "fec_match_score",
+  "disclaimer_paid_for_by",
+  "disclaimer_authorization",
+  "disclaimer_address",
+  "disclaimer_status",
+  "campaign_id",
   "message_type",
   "raw_text",
   "ai_summary",
@@ -38,6 +52,9 @@ export async function GET(req: NextRequest) {
   const senderName = searchParams.get("sender_name");
   const senderId = searchParams.get("sender_id");
   const messageType = searchParams.get("message_type");
+  const senderType = searchParams.get("sender_type");
+  const senderEntityId = searchParams.get("sender_entity_id");
+  const disclaimer = searchParams.get("disclaimer");
   const dateFrom = searchParams.get("date_from");
   const dateTo = searchParams.get("date_to");
   const hasViolations = searchParams.get("has_violations");
@@ -69,6 +86,23 @@ export async function GET(req: NextRequest) {
     if (senderName) builder = builder.ilike("sender_name", `%${sanitizeLike(senderName)}%`);
     if (senderId) builder = builder.ilike("sender_id", `%${sanitizeLike(senderId)}%`);
     if (messageType) builder = builder.eq("message_type", messageType);
+    if (senderEntityId) {
+      if (!/^[0-9a-f-]{36}$/i.test(senderEntityId)) return apiError("invalid_param", "sender_entity_id must be a UUID.", 400);
+      builder = builder.eq("sender_entity_id", senderEntityId);
+    }
+    if (senderType) {
+      if (!(SENDER_TYPES as string[]).includes(senderType)) {
+        return apiError("invalid_param", `sender_type must be one of: ${SENDER_TYPES.join(", ")}`, 400);
+      }
+      // Cases without an extracted type count as unknown
+      builder = senderType === "unknown" ? builder.or("sender_type.eq.unknown,sender_type.is.null") : builder.eq("sender_type", senderType);
+    }
+    if (disclaimer) {
+      if (!(DISCLAIMER_STATUSES as string[]).includes(disclaimer)) {
+        return apiError("invalid_param", `disclaimer must be one of: ${DISCLAIMER_STATUSES.join(", ")}`, 400);
+      }
+      builder = builder.eq("disclaimer_status", disclaimer);
+    }
     if (dateFrom) builder = builder.gte("sort_date", dateFrom);
     if (dateTo) builder = builder.lte("sort_date", dateTo);
     if (q) {
@@ -103,9 +137,15 @@ export async function GET(req: NextRequest) {
 
     await resolveImageUrls(
       supabase,
-      rows as unknown as Array<{ image_url?: string | null; landing_screenshot_url?: string | null }>
+      rows as unknown as Array<{ image_url?: string | null; landing_screenshot_url?: string | null; media_urls?: unknown }>
     );
 
+    // Registered committee the case was matched to (name, type, treasurer)
+    const committees = await getFecCommittees(rows.map((r) => r.fec_committee_id as string | null));
+    for (const row of rows) {
+      row.fec_committee = row.fec_committee_id ? committees.get(row.fec_committee_id as string) ?? null : null;
+    }
+
     const total = typeof count === "number" ? count : rows.length + offset;
     return paginatedResponse(rows, total, { limit, offset });
   } catch (err) {
@@ -0,0 +1,142 @@
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+import type { Metadata } from "next";
+import Link from "next/link";
+import { headers } from "next/headers";
+import { Breadcrumb } from "@/components/breadcrumb";
+import LocalTime from "@/components/LocalTime";
+import Footer from "@/components/Footer";
+import type { Campaign, CampaignVariant } from "@/server/campaigns/cluster";
+
+type CampaignData = { campaign: Campaign; variants: CampaignVariant[] };
+
+const EXCERPT_CHARS = 400;
+
+function excerpt(text: string | null): string {
+  const t = (text || "").replace(/\s+/g, " ").trim();
+  return t.length > EXCERPT_CHARS ? `${t.slice(0, EXCERPT_CHARS)}…` : t;
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const { id } = await params;
+  const title = `Campaign ${id.slice(0, 8)}`;
+  const description = "Every variant of a fundraising message, with the senders and dates it was seen";
+  return {
+    title,
+    description,
+    alternates: { canonical: `/campaigns/${id}` },
+    openGraph: { title, description, type: "website", url: `/campaigns/${id}`, images: ["/opengraph-image.png"] },
+    twitter: { card: "summary_large_image", title, description, images: ["/twitter-image.png"] },
+  };
+}
+
+export default async function CampaignPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const hdrs = await headers();
+  const host = hdrs.get("x-forwarded-host") || hdrs.get("host") || "localhost:3000";
+  const proto = hdrs.get("x-forwarded-proto") || (host.startsWith("localhost") ? "http" : "https");
+  const res = await fetch(`${proto}://${host}/api/campaigns/${id}`, { cache: "no-store" });
+  if (!res.ok) {
+    return <main className="mx-auto max-w-5xl p-6">Not found</main>;
+  }
+  const { campaign, variants } = (await res.json()) as CampaignData;
+
+  const stats: Array<{ label: string; value: number }> = [
+    { label: "Cases", value: campaign.case_count },
+    { label: "Variants", value: campaign.variant_count },
+    { label: "Senders", value: campaign.sender_count },
+    { label: "Honeytraps", value: campaign.received_by_count },
+  ];
+
+  return (
+    <div className="flex flex-col min-h-screen" data-theme="v2">
+      <main
+        className="flex-1 bg-white"
+        style={{
+          background:
+            "radial-gradient(80% 80% at 15% -10%, rgba(4, 156, 219, 0.22), transparent 65%)," +
+            "radial-gradient(80% 80% at 92% 0%, rgba(198, 96, 44, 0.20), transparent 65%)," +
+            "linear-gradient(to bottom, #eef7ff 0%, #ffffff 45%, #fff2e9 100%)",
+        }}
+      >
+        <div className="mx-auto max-w-7xl p-6 md:p-8 space-y-8">
+          <Breadcrumb
+            items={[
+              { label: "Home", href: "/" },
+              { label: "Cases", href: "/cases" },
+              { label: "Campaign" },
+            ]}
+            className="mb-4"
+          />
+
+          <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl shadow-black/5 p-8 md:p-10 space-y-6">
+            <div className="space-y-2">
+              <h1 className="text-3xl md:text-4xl font-bold text-slate-900 tracking-tight">Message campaign</h1>
+              <p className="text-sm text-slate-600">
+                Near-identical messages grouped together, including copy reused by different senders.
+                {campaign.first_seen_at && (
+                  <> First seen <LocalTime iso={campaign.first_seen_at} /></>
+                )}
+                {campaign.last_seen_at && campaign.last_seen_at !== campaign.first_seen_at && (
+                  <>, last seen <LocalTime iso={campaign.last_seen_at} /></>
+                )}
+                .
+              </p>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map((s) => (
+                <div key={s.label} className="rounded-2xl bg-slate-50 border border-slate-100 p-4">
+                  <div className="text-2xl font-semibold text-slate-900">{s.value}</div>
+                  <div className="text-xs text-slate-600">{s.label}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold text-slate-900">Variants</h2>
+            {variants.length === 0 && <p className="text-sm text-slate-600">No public cases in this campaign.</p>}
+            {variants.map((v, i) => (
+              <div key={v.normalized_hash} className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl shadow-black/5 p-6 space-y-3">
+                <div className="flex items-center gap-2 flex-wrap text-xs text-slate-700">
+                  <span className="font-semibold text-slate-900">Variant {i + 1}</span>
+                  <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300">
+                    <span className="mr-1">First seen</span>
+                    <LocalTime iso={v.first_seen_at} />
+                  </span>
+                  <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300">
+                    {v.case_count} {v.case_count === 1 ? "case" : "cases"}
+                  </span>
+                  {v.message_types.map((t) => (
+                    <span key={t} className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300">
+                      {t === "sms" ? "SMS" : t === "email" ? "Email" : t}
+                    </span>
+                  ))}
+                  {v.distance != null && v.distance > 0 && (
+                    <span className="text-slate-500" title="Simhash distance to the campaign's first case">distance {v.distance}</span>
+                  )}
+                </div>
+                {v.example?.email_subject && <p className="text-sm text-slate-600 italic">{v.example.email_subject}</p>}
+                <p className="text-sm text-slate-800 whitespace-pre-line">{excerpt(v.example?.raw_text ?? null)}</p>
+                <div className="text-xs text-slate-600 space-y-1">
+                  <div>
+                    <span className="font-medium text-slate-800">Senders:</span> {v.senders.length > 0 ? v.senders.join(", ") : "Unknown"}
+                  </div>
+                  {v.received_by.length > 0 && (
+                    <div>
+                      <span className="font-medium text-slate-800">Honeytraps:</span> {v.received_by.join(", ")}
+                    </div>
+                  )}
+                </div>
+                <Link href={`/cases/${v.example_submission_id}`} className="text-sm font-medium text-sky-700 hover:underline">
+                  View case
+                </Link>
+              </div>
+            ))}
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -79,8 +79,36 @@ type Violation = {
   severity?: number | null;
   confidence?: string | number | null;
   actblue_verified?: boolean | null;
+  evidence_spans?: Array<{ text: string; start: number; end: number }> | null;
+  consensus_votes?: number | null;
+  consensus_total?: number | null;
+  contested?: boolean | null; // consensus runs: at most half of the models flagged this code
 };
 
+/** A resolved evidence span tagged with the violation code(s) it supports */
+type EvidenceHighlight = { code: string; text: string; start: number; end: number };
+
+type EvidenceSpan = NonNullable<Violation["evidence_spans"]>[number];
+
+/** Spans with offsets and text; rows from older runs can hold partial or empty entries */
+function validSpans(spans: Violation["evidence_spans"]): EvidenceSpan[] {
+  return (Array.isArray(spans) ? spans : []).filter(
+    (s): s is EvidenceSpan => !!s && typeof s.start === "number" && typeof s.end === "number" && typeof s.text === "string"
+  );
+}
+
+function toHighlights(violations: Array<Violation>): EvidenceHighlight[] {
+  const out: EvidenceHighlight[] = [];
+  for (const v of violations) {
+    if (v.code === "AB008" && v.actblue_verified === true) continue;
+    if (v.contested === true) continue;
+    for (const s of validSpans(v.evidence_spans)) {
+      out.push({ code: v.code, text: s.text, start: s.start, end: s.end });
+    }
+  }
+  return out;
+}
+
 type LiveViolationsProps = {
   id: string;
   initialViolations: Array<Violation>;
@@ -93,6 +121,7 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
   const [status, setStatus] = useState<string | null | undefined>(initialStatus);
   const [overallConfidence, setOverallConfidence] = useState<number | null>(initialAiConfidence == null ? null : Number(initialAiConfidence));
   const [expandedViolations, setExpandedViolations] = useState<Set<string>>(new Set());
+  const [showContested, setShowContested] = useState(false);
   const intervalRef = useRef<number | null>(null);
   const timeoutRef = useRef<number | null>(null);
 
@@ -122,10 +151,11 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
         const item = data.item as { processing_status?: string | null; ai_confidence?: number | string | null };
         const vios = (data.violations ?? []) as Array<Violation>;
         setViolations(vios);
+        window.dispatchEvent(new CustomEvent("violations-updated", { detail: { id, highlights: toHighlights(vios) } }));
         setStatus(item?.processing_status ?? null);
         const oc = item?.ai_confidence;
         setOverallConfidence(oc == null ? null : Number(oc));
-        if (item?.processing_status === "done") {
+        if (item?.processing_status === "done" || item?.processing_status === "parse_error") {
           stopPolling();
         }
       } catch {}
@@ -148,6 +178,14 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
     return () => window.removeEventListener("reclassify-started", onReclassify as EventListener);
   }, [id, startPolling]);
 
+  if (status === "parse_error") {
+    return (
+      <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-900">
+        The AI review for this case returned an invalid result and has been flagged for a re-run. Violations are not shown until it completes.
+      </div>
+    );
+  }
+
   if (status !== "done") {
     return (
       <div className="space-y-4">
@@ -157,6 +195,10 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
     );
   }
 
+  // Consensus findings are shown by default; contested ones (no model majority) only on request
+  const contestedCount = violations.filter((v) => v.contested === true).length;
+  const visibleViolations = showContested ? violations : violations.filter((v) => v.contested !== true);
+
   return (
     <div className="space-y-4">
       {overallConfidence != null && (
@@ -165,18 +207,20 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
         </div>
       )}
 
-      {violations.length === 0 ? (
+      {visibleViolations.length === 0 ? (
         <div className="p-4 bg-slate-50 rounded-xl text-center">
           <div className="text-2xl mb-2">✅</div>
           <p className="text-slate-600">No violations detected</p>
         </div>
       ) : (
         <div className="space-y-3">
-          {violations.map((v) => {
+          {visibleViolations.map((v) => {
             const confidenceNum = v.confidence == null ? null : Number(v.confidence);
             const severityNum = v.severity == null ? null : Number(v.severity);
             const isVerified = v.actblue_verified === true;
             const isExpanded = expandedViolations.has(v.id);
+            const isContested = v.contested === true;
+            const hasVotes = v.consensus_votes != null && v.consensus_total != null;
             
             // Color coding based on severity
             const severityColors = {
@@ -243,12 +287,17 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
             
             // Otherwise show as normal violation
             return (
-              <div key={v.id} className={`p-4 rounded-xl border-l-4 ${colorClass}`}>
+              <div key={v.id} className={`p-4 rounded-xl border-l-4 ${isContested ? "bg-slate-50 border-l-slate-300 text-slate-700 border border-dashed border-slate-300" : colorClass}`}>
                 <div className="flex items-start justify-between mb-2">
                   <div className="flex items-start gap-3 flex-wrap min-w-0">
                     <span className="inline-flex items-center bg-white/60 text-current text-xs font-bold px-2 py-1 rounded-md shrink-0">
                       {v.code}
                     </span>
+                    {isContested && (
+                      <span className="inline-flex items-center bg-slate-200 text-slate-700 text-xs font-bold px-2 py-1 rounded-md shrink-0">
+                        Contested
+                      </span>
+                    )}
                     <h3 className="font-semibold leading-snug break-words max-w-full min-w-0">
                       {v.title}
                     </h3>
@@ -262,6 +311,12 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
                       <span className="font-semibold">{(confidenceNum * 100).toFixed(0)}%</span>
                     </div>
                   )}
+                  {hasVotes && (
+                    <div className="flex items-center gap-1" title="Models that flagged this code in the consensus review">
+                      <span className="font-semibold">{v.consensus_votes}/{v.consensus_total}</span>
+                      <span>models agree</span>
+                    </div>
+                  )}
                 </div>
                 
                 {v.description && (
@@ -269,11 +324,37 @@ export function LiveViolations({ id, initialViolations, initialStatus, initialAi
                     {v.description}
                   </p>
                 )}
+
+                {validSpans(v.evidence_spans).length > 0 && (
+                  <div className="mt-3 space-y-1">
+                    {validSpans(v.evidence_spans).map((span) => (
+                      <button
+                        key={`${span.start}-${span.end}`}
+                        type="button"
+                        onClick={() => window.dispatchEvent(new CustomEvent("evidence-focus", { detail: { id, start: span.start, end: span.end } }))}
+                        className="block w-full text-left text-xs italic opacity-80 hover:opacity-100 border-l-2 border-current pl-2"
+                        title="Show in message"
+                      >
+                        &ldquo;{span.text}&rdquo;
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
       )}
+
+      {contestedCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowContested((prev) => !prev)}
+          className="text-xs text-slate-600 hover:text-slate-900 underline font-semibold"
+        >
+          {showContested ? "Hide" : "Show"} {contestedCount} contested {contestedCount === 1 ? "finding" : "findings"} (most models disagreed)
+        </button>
+      )}
     </div>
   );
 }
@@ -408,6 +489,133 @@ export function LiveSummary({ id, initialSummary, initialStatus }: LiveSummaryPr
 
 type Report = { id: string; subject: string; body: string; created_at?: string | null; status?: string | null };
 type ReportReply = { id: string; report_id: string | null; from_email: string | null; body_text: string | null; created_at?: string | null };
+type ClassificationRun = {
+  id: string;
+  created_at: string | null;
+  trigger: string;
+  status: string;
+  model: string | null;
+  prompt_version: string | null;
+  latency_ms: number | null;
+  violation_codes: string[];
+  is_current: boolean;
+  added: string[];
+  removed: string[];
+};
+
+const TRIGGER_LABELS: Record<string, string> = {
+  ingest: "Initial review",
+  comment: "Comment",
+  landing_page: "Landing page",
+  batch: "Batch re-run",
+  manual: "Manual re-run",
+};
+
+export function ClassificationHistory({ id }: { id: string }) {
+  const [runs, setRuns] = useState<Array<ClassificationRun>>([]);
+  const [open, setOpen] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/cases/${id}/classification-runs`, { cache: "no-store" });
+      if (!res.ok) return 0;
+      const data = await res.json();
+      const list = (data.runs || []) as Array<ClassificationRun>;
+      setRuns(list);
+      return list.length;
+    } catch {
+      return 0;
+    }
+  }, [id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // After a reclassification starts, poll until the new run shows up (max 2 minutes)
+  useEffect(() => {
+    let interval: number | null = null;
+    let timeout: number | null = null;
+    const stop = () => {
+      if (interval != null) window.clearInterval(interval);
+      if (timeout != null) window.clearTimeout(timeout);
+      interval = null;
+      timeout = null;
+    };
+    const onReclassify = (e: Event) => {
+      const detail = (e as CustomEvent).detail as { id?: string } | undefined;
+      if (!detail || detail.id !== id) return;
+      stop();
+      const before = runs.length;
+      timeout = window.setTimeout(stop, 120000);
+      interval = window.setInterval(async () => {
+        const count = await load();
+        if (count > before) stop();
+      }, 3000);
+    };
+    window.addEventListener("reclassify-started", onReclassify as EventListener);
+    return () => {
+      stop();
+      window.removeEventListener("reclassify-started", onReclassify as EventListener);
+    };
+  }, [id, load, runs.length]);
+
+  if (runs.length < 2) return null;
+
+  return (
+    <div className="mt-4 border-t border-slate-100 pt-3">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="text-xs font-medium text-slate-600 hover:text-slate-900"
+      >
+        {open ? "Hide" : "Show"} review history ({runs.length} runs)
+      </button>
+      {open && (
+        <ol className="mt-3 space-y-2">
+          {runs.map((r) => (
+            <li key={r.id} className={`rounded-lg border px-3 py-2 text-xs ${r.is_current ? "border-slate-300 bg-slate-50" : "border-slate-100"}`}>
+              <div className="flex flex-wrap items-center gap-2 text-slate-600">
+                <span className="font-medium text-slate-900">{TRIGGER_LABELS[r.trigger] || r.trigger}</span>
+                {r.created_at && <LocalTime iso={r.created_at} />}
+                {r.model && <span className="font-mono text-[11px]">{r.model}</span>}
+                {r.is_current && (
+                  <span className="rounded bg-slate-200 px-1.5 py-0.5 text-[10px] font-semibold text-slate-700">Current</span>
+                )}
+                {r.status !== "success" && (
+                  <span className="rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-semibold text-amber-800">
+                    {r.status === "parse_error" ? "Invalid output" : "Failed"}
+                  </span>
+                )}
+              </div>
+              {r.status === "success" && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {r.violation_codes.length === 0 && r.removed.length === 0 && (
+                    <span className="text-slate-500">No violations</span>
+                  )}
+                  {r.violation_codes.map((code) => (
+                    <span
+                      key={code}
+                      className={`rounded px-1.5 py-0.5 font-mono text-[11px] ${r.added.includes(code) ? "bg-green-100 text-green-800" : "bg-slate-100 text-slate-700"}`}
+                    >
+                      {r.added.includes(code) ? "+" : ""}{code}
+                    </span>
+                  ))}
+                  {r.removed.map((code) => (
+                    <span key={code} className="rounded bg-red-50 px-1.5 py-0.5 font-mono text-[11px] text-red-700 line-through">
+                      {code}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 type ReportThreadProps = {
   id: string;
   verdict?: Verdict | null;
@@ -1451,8 +1659,125 @@ export function EvidenceViewer({ src, alt = "Evidence screenshot", mime = null }
   );
 }
 
+/**
+ * Plain text with evidence spans highlighted. Offsets refer to the stored raw_text, so
+ * display cleaning runs per segment to keep highlights aligned. Spans whose text no
+ * longer matches (e.g. raw_text was redacted after classification) are re-found by text.
+ */
+function HighlightedText({ text, highlights, className }: { text: string; highlights: EvidenceHighlight[]; className: string }) {
+  const clean = (t: string) => normalizePunctuation(repairMojibake(t));
+  const ranges: Array<{ start: number; end: number; codes: string[] }> = [];
+  for (const h of highlights) {
+    let start = h.start;
+    let end = h.end;
+    if (text.slice(start, end) !== h.text) {
+      const idx = h.text ? text.indexOf(h.text) : -1;
+      if (idx < 0) continue;
+      start = idx;
+      end = idx + h.text.length;
+    }
+    ranges.push({ start, end, codes: [h.code] });
+  }
+  ranges.sort((a, b) => a.start - b.start);
+  // Merge overlaps so each character is wrapped at most once
+  const merged: typeof ranges = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r.start < last.end) {
+      last.end = Math.max(last.end, r.end);
+      for (const c of r.codes) if (!last.codes.includes(c)) last.codes.push(c);
+    } else {
+      merged.push({ ...r, codes: [...r.codes] });
+    }
+  }
+
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  for (const r of merged) {
+    if (r.start > pos) parts.push(clean(text.slice(pos, r.start)));
+    parts.push(
+      <mark key={r.start} data-evidence-start={r.start} title={r.codes.join(", ")} className="bg-amber-200/80 text-inherit rounded-sm px-0.5">
+        {clean(text.slice(r.start, r.end))}
+      </mark>
+    );
+    pos = r.end;
+  }
+  if (pos < text.length) parts.push(clean(text.slice(pos)));
+  return <pre className={className}>{parts}</pre>;
+}
+
+/** Wrap occurrences of evidence quotes in <mark> inside the rendered email HTML. */
+function highlightEmailDocument(doc: Document, highlights: EvidenceHighlight[]) {
+  // Undo previous highlights so re-classification doesn't stack marks
+  doc.querySelectorAll("mark[data-evidence]").forEach((m) => {
+    const parent = m.parentNode;
+    if (!parent) return;
+    while (m.firstChild) parent.insertBefore(m.firstChild, m);
+    parent.removeChild(m);
+    parent.normalize();
+  });
+  if (!doc.body || highlights.length === 0) return;
+
+  // Flatten text nodes into one whitespace-collapsed string with a map back to (node, offset)
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  const positions: Array<{ node: Text; offset: number }> = [];
+  let flat = "";
+  let lastSpace = true;
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    const node = n as Text;
+    const parentTag = node.parentElement?.tagName;
+    if (parentTag === "STYLE" || parentTag === "SCRIPT") continue;
+    const value = node.data;
+    for (let i = 0; i < value.length; i++) {
+      const isSpace = /\s/.test(value[i]);
+      if (isSpace && lastSpace) continue;
+      // One output char per source char keeps positions[] aligned with flat
+      const ch = isSpace ? " " : normalizePunctuation(value[i]).toLowerCase().charAt(0);
+      if (!ch) continue;
+      flat += ch;
+      positions.push({ node, offset: i });
+      lastSpace = isSpace;
+    }
+  }
+
+  // Locate every quote first, then wrap from the end of the document backwards so that
+  // splitting a text node never invalidates offsets that are still to be wrapped
+  const found: Array<{ start: number; end: number; code: string }> = [];
+  for (const h of highlights) {
+    const needle = normalizePunctuation(h.text).replace(/\s+/g, " ").trim().toLowerCase();
+    if (needle.length < 4) continue;
+    const idx = flat.indexOf(needle);
+    if (idx < 0 || found.some((f) => idx < f.end && idx + needle.length > f.start)) continue;
+    found.push({ start: idx, end: idx + needle.length, code: h.code });
+  }
+
+  const segments: Array<{ node: Text; start: number; end: number; code: string }> = [];
+  for (const f of found.sort((a, b) => a.start - b.start)) {
+    for (let i = f.start; i < f.end; i++) {
+      const p = positions[i];
+      const seg = segments[segments.length - 1];
+      // Same node: extend (also covers whitespace that was collapsed out of flat)
+      if (seg && seg.node === p.node && seg.code === f.code) seg.end = p.offset + 1;
+      else segments.push({ node: p.node, start: p.offset, end: p.offset + 1, code: f.code });
+    }
+  }
+
+  const style = "background:#fde68a;border-radius:2px;color:inherit";
+  for (const seg of segments.reverse()) {
+    const range = doc.createRange();
+    range.setStart(seg.node, seg.start);
+    range.setEnd(seg.node, seg.end);
+    const mark = doc.createElement("mark");
+    mark.setAttribute("data-evidence", seg.code);
+    mark.setAttribute("title", seg.code);
+    mark.setAttribute("style", style);
+    try { range.surroundContents(mark); } catch {}
+  }
+}
+
 type EvidenceTabsProps = {
   caseId: string;
+  initialViolations?: Array<Violation>;
   messageType: string | null | undefined;
   rawText: string | null | undefined;
   emailBody?: string | null | undefined;
@@ -1463,7 +1788,7 @@ type EvidenceTabsProps = {
   landingStatus?: string | null | undefined;
 };
 
-export function EvidenceTabs({ caseId, messageType, rawText, emailBody, screenshotUrl, screenshotMime = null, landingImageUrl, landingLink, landingStatus }: EvidenceTabsProps) {
+export function EvidenceTabs({ caseId, initialViolations = [], messageType, rawText, emailBody, screenshotUrl, screenshotMime = null, landingImageUrl, landingLink, landingStatus }: EvidenceTabsProps) {
   // Note: Email redaction is now handled server-side during ingestion.
   // The data we receive here is already redacted, so no client-side redaction is needed.
 
@@ -1476,6 +1801,45 @@ export function EvidenceTabs({ caseId, messageType, rawText, emailBody, screensh
   const [lpLink, setLpLink] = useState<string | null>(landingLink || null);
   const [lpLoading, setLpLoading] = useState<boolean>(!landingImageUrl && (landingStatus === "pending" || landingStatus === "success"));
   const router = useRouter();
+  const [highlights, setHighlights] = useState<EvidenceHighlight[]>(() => toHighlights(initialViolations));
+  const [focusStart, setFocusStart] = useState<number | null>(null);
+  const emailFrameRef = useRef<HTMLIFrameElement | null>(null);
+  const plainTextRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const onUpdated = (e: Event) => {
+      const detail = (e as CustomEvent).detail as { id?: string; highlights?: EvidenceHighlight[] } | undefined;
+      if (!detail || detail.id !== caseId) return;
+      setHighlights(detail.highlights || []);
+    };
+    const onFocus = (e: Event) => {
+      const detail = (e as CustomEvent).detail as { id?: string; start?: number } | undefined;
+      if (!detail || detail.id !== caseId || typeof detail.start !== "number") return;
+      if (rawText) setTab("plaintext");
+      setFocusStart(detail.start);
+    };
+    window.addEventListener("violations-updated", onUpdated as EventListener);
+    window.addEventListener("evidence-focus", onFocus as EventListener);
+    return () => {
+      window.removeEventListener("violations-updated", onUpdated as EventListener);
+      window.removeEventListener("evidence-focus", onFocus as EventListener);
+    };
+  }, [caseId, rawText]);
+
+  // Scroll the focused evidence into view once the plain text tab has rendered
+  useEffect(() => {
+    if (focusStart == null || tab !== "plaintext") return;
+    const mark = plainTextRef.current?.querySelector(`mark[data-evidence-start="${focusStart}"]`);
+    mark?.scrollIntoView({ block: "center", behavior: "smooth" });
+    setFocusStart(null);
+  }, [focusStart, tab]);
+
+  // Re-apply email highlights when violations change after the iframe has loaded
+  useEffect(() => {
+    const doc = emailFrameRef.current?.contentDocument;
+    if (doc?.body) highlightEmailDocument(doc, highlights);
+  }, [highlights]);
+
   useEffect(() => {
     if (!landingImageUrl) {
       setLpLoading(true);
@@ -1587,6 +1951,11 @@ export function EvidenceTabs({ caseId, messageType, rawText, emailBody, screensh
               {emailBody ? (
                 <div className="w-full h-[500px] overflow-auto bg-slate-50">
                   <iframe
+                    ref={emailFrameRef}
+                    onLoad={(e) => {
+                      const doc = e.currentTarget.contentDocument;
+                      if (doc) highlightEmailDocument(doc, highlights);
+                    }}
                     srcDoc={`<style>body { margin: 20px !important; padding: 20px !important; box-sizing: border-box !important; }</style>${emailBody}`}
                     title="Email preview"
                     className="w-full border-0"
@@ -1596,7 +1965,7 @@ export function EvidenceTabs({ caseId, messageType, rawText, emailBody, screensh
                 </div>
               ) : rawText ? (
                 <div className="p-4">
-                  <pre className="whitespace-pre-wrap break-words text-sm text-slate-900 max-h-96 overflow-auto">{normalizePunctuation(repairMojibake(rawText))}</pre>
+                  <HighlightedText text={rawText} highlights={highlights} className="whitespace-pre-wrap break-words text-sm text-slate-900 max-h-96 overflow-auto" />
                 </div>
               ) : (
                 <div className="p-4 text-slate-600 text-sm">No primary evidence available.</div>
@@ -1606,9 +1975,9 @@ export function EvidenceTabs({ caseId, messageType, rawText, emailBody, screensh
         </div>
       ) : tab === "plaintext" ? (
         <div key="plaintext-tab">
-          <div className="rounded-2xl bg-slate-50 border border-slate-100 p-4">
+          <div ref={plainTextRef} className="rounded-2xl bg-slate-50 border border-slate-100 p-4">
             {rawText ? (
-              <pre className="whitespace-pre-wrap break-words text-sm text-slate-900 max-h-96 overflow-auto font-mono">{normalizePunctuation(repairMojibake(rawText))}</pre>
+              <HighlightedText text={rawText} highlights={highlights} className="whitespace-pre-wrap break-words text-sm text-slate-900 max-h-96 overflow-auto font-mono" />
             ) : (
               <div className="text-slate-600 text-sm">No plain text available.</div>
             )}
@@ -4,17 +4,34 @@ export const fetchCache = "force-no-store";
 import type { Metadata } from "next";
 import { Breadcrumb } from "@/components/breadcrumb";
 import { headers } from "next/headers";
-import { LiveViolations, LiveSender, LiveSummary, RequestDeletionButton, CommentsSection, EvidenceTabs, ReportingCard, ReportThread, CaseVerdict } from "./client";
+import { LiveViolations, LiveSender, LiveSummary, RequestDeletionButton, CommentsSection, EvidenceTabs, ReportingCard, ReportThread, CaseVerdict, ClassificationHistory } from "./client";
 import { env } from "@/lib/env";
 import LocalTime from "@/components/LocalTime";
 import Footer from "@/components/Footer";
 import { getSupabaseServer } from "@/lib/supabase-server";
 import { isBotSubmitted } from "@/lib/badge-helpers";
+import type { Sighting } from "@/server/ingest/sightings";
 type CaseItem = {
   id: string;
   image_url: string;
   sender_id: string | null;
   sender_name: string | null;
+  sender_type?: "org" | "pac" | "candidate" | "unknown" | null;
+  sender_confidence?: number | string | null;
+  sender_notes?: string | null;
+  fec_committee?: {
+    cmte_id: string;
+    name: string;
+    committee_type_label: string | null;
+    designation_label: string | null;
+    treasurer_name: string | null;
+    url: string;
+  } | null;
+  campaign?: { id: string; case_count: number; variant_count: number; sender_count: number } | null;
+  sightings?: { count: number; items: Sighting[] };
+  disclaimer_paid_for_by?: string | null;
+  disclaimer_text?: string | null;
+  disclaimer_status?: "match" | "mismatch" | "missing" | "unverified" | null;
   raw_text: string | null;
   email_body?: string | null;
   email_subject?: string | null;
@@ -36,6 +53,10 @@ type Violation = {
   severity?: number | null;
   confidence?: string | number | null;
   actblue_verified?: boolean | null;
+  evidence_spans?: Array<{ text: string; start: number; end: number }> | null;
+  consensus_votes?: number | null;
+  consensus_total?: number | null;
+  contested?: boolean | null;
 };
 
 
@@ -64,10 +85,10 @@ export async function generateMetadata({ params }: { params: Promise<{ id: strin
   try {
     // Query Supabase directly to avoid depending on internal API/host headers during metadata fetch
     const supabase = getSupabaseServer();
-    type Row = { id: string; created_at: string | null; sender_id: string | null; sender_name: string | null };
+    type Row = { id: string; created_at: string | null; sender_id: string | null; sender_name: string | null; email_screenshot_url?: string | null };
     const { data: rows } = await supabase
       .from("submissions")
-      .select("id, created_at, sender_id, sender_name, public")
+      .select("id, created_at, sender_id, sender_name, email_screenshot_url, public")
       .eq("id", id)
       .eq("public", true)
       .limit(1);
@@ -110,7 +131,7 @@ export async function generateMetadata({ params }: { params: Promise<{ id: strin
 
     const { data: vioRows } = await supabase
       .from("violations")
-      .select("id")
+      .select("id, contested")
       .eq("submission_id", id);
 
     const senderName = item.sender_name || item.sender_id || "Unknown Sender";
@@ -125,12 +146,14 @@ export async function generateMetadata({ params }: { params: Promise<{ id: strin
         })
       : "Date Unknown";
 
-    const violationCount = Array.isArray(vioRows) ? vioRows.length : 0;
+    const violationCount = Array.isArray(vioRows) ? vioRows.filter((v) => v.contested !== true).length : 0;
     const violationText = violationCount === 1 ? "violation" : "violations";
 
     const title = `${senderName} - Case ${id.slice(0, 8)}`;
     const description = `Submitted ${createdAt} • ${violationCount} ${violationText} detected`;
     const urlPath = `/cases/${id}`;
+    // Email cases preview with the top of the rendered email
+    const emailImage = item.email_screenshot_url ? `/api/cases/${id}/email-image?variant=og` : null;
     return {
       title,
       description,
@@ -140,13 +163,13 @@ export async function generateMetadata({ params }: { params: Promise<{ id: strin
         description,
         type: "website",
         url: urlPath,
-        images: ["/opengraph-image.png"],
+        images: [emailImage || "/opengraph-image.png"],
       },
       twitter: {
         card: "summary_large_image",
         title,
         description,
-        images: ["/twitter-image.png"],
+        images: [emailImage || "/twitter-image.png"],
       },
     };
   } catch {
@@ -197,6 +220,7 @@ export default async function CaseDetailPage({
   const emailSentAtIso = item.email_sent_at ?? null;
   const isPublic = (item as unknown as { public?: boolean }).public !== false;
   const topViolation = [...(data.violations || [])]
+    .filter((v) => v.contested !== true)
     .sort((a, b) => (Number(b.severity || 0) - Number(a.severity || 0)) || (Number(b.confidence || 0) - Number(a.confidence || 0)))[0];
   const summaryInitial = topViolation?.description || null;
   
@@ -273,6 +297,63 @@ export default async function CaseDetailPage({
                     {item.message_type?.toLowerCase() === 'mms' && 'MMS'}
                   </span>
                 )}
+                {item?.sender_type && item.sender_type !== 'unknown' && (
+                  <span
+                    className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300"
+                    title={item.sender_notes || undefined}
+                  >
+                    {item.sender_type === 'pac' && 'PAC'}
+                    {item.sender_type === 'candidate' && 'Candidate'}
+                    {item.sender_type === 'org' && 'Organization'}
+                    {item.sender_confidence != null && (
+                      <span className="ml-1 text-slate-500">{Math.round(Number(item.sender_confidence) * 100)}%</span>
+                    )}
+                  </span>
+                )}
+                {item?.fec_committee && (
+                  <a
+                    href={item.fec_committee.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300 hover:bg-slate-200"
+                    title={[
+                      item.fec_committee.name,
+                      item.fec_committee.designation_label,
+                      item.fec_committee.treasurer_name ? `Treasurer: ${item.fec_committee.treasurer_name}` : null,
+                    ].filter(Boolean).join(" · ")}
+                  >
+                    FEC {item.fec_committee.cmte_id}
+                    {item.fec_committee.committee_type_label && (
+                      <span className="ml-1 text-slate-500">{item.fec_committee.committee_type_label}</span>
+                    )}
+                  </a>
+                )}
+                {item?.campaign && item.campaign.case_count > 1 && (
+                  <a
+                    href={`/campaigns/${item.campaign.id}`}
+                    className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300 hover:bg-slate-200"
+                    title={`${item.campaign.variant_count} variant(s) from ${item.campaign.sender_count} sender(s)`}
+                  >
+                    Campaign · {item.campaign.case_count} cases
+                  </a>
+                )}
+                {item?.sightings && item.sightings.count > 0 && (
+                  <a
+                    href="#sightings"
+                    className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300 hover:bg-slate-200"
+                    title={`Received ${item.sightings.count} more time(s) after this case`}
+                  >
+                    Sent {item.sightings.count + 1} times
+                  </a>
+                )}
+                {(item?.disclaimer_status === 'mismatch' || item?.disclaimer_status === 'missing') && (
+                  <span
+                    className="inline-flex items-center rounded-full bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-800 border border-amber-300"
+                    title={item.disclaimer_text || undefined}
+                  >
+                    {item.disclaimer_status === 'missing' ? 'No "Paid for by"' : `Paid for by ${item.disclaimer_paid_for_by}`}
+                  </span>
+                )}
                 <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300">
                   {isBotSubmitted({
                     messageType: item?.message_type,
@@ -323,6 +404,7 @@ export default async function CaseDetailPage({
               
               <EvidenceTabs
                 caseId={id}
+                initialViolations={data.violations}
                 messageType={item.message_type}
                 rawText={item.raw_text}
                 emailBody={item.email_body || null}
@@ -347,7 +429,36 @@ export default async function CaseDetailPage({
             <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl shadow-black/5 p-6">
               <h2 className="text-xl font-semibold text-slate-900 mb-4">Policy Violations</h2>
               <LiveViolations id={id} initialViolations={data.violations} initialStatus={item.processing_status ?? null} initialAiConfidence={item.ai_confidence ?? null} />
+              <ClassificationHistory id={id} />
             </div>
+
+            {/* Sightings: later sends of this message */}
+            {item.sightings && item.sightings.count > 0 && (
+              <div id="sightings" className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl shadow-black/5 p-6">
+                <h2 className="text-xl font-semibold text-slate-900 mb-1">Sightings</h2>
+                <p className="text-sm text-slate-600 mb-4">
+                  Received {item.sightings.count} more {item.sightings.count === 1 ? "time" : "times"} after this case was created.
+                </p>
+                <ol className="space-y-2 text-xs text-slate-700">
+                  {item.sightings.items.map((s) => (
+                    <li key={s.id} className="flex items-center gap-2 flex-wrap">
+                      <LocalTime iso={s.sent_at || s.seen_at} />
+                      <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-800 border border-slate-300">
+                        {s.channel === "sms" ? "SMS" : s.channel === "email" ? "Email" : "Screenshot"}
+                      </span>
+                      <span>{s.received_by || "User submitted"}</span>
+                      {s.sender_id && <span className="text-slate-500">from {s.sender_id}</span>}
+                      {s.match === "near" && (
+                        <span className="text-slate-500" title="Simhash distance to this case">near match, distance {s.distance}</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+                {item.sightings.count > item.sightings.items.length && (
+                  <p className="mt-3 text-xs text-slate-500">Showing the latest {item.sightings.items.length}.</p>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
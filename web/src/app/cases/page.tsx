@@ -23,6 +23,7 @@ type SubmissionRow = {
   forwarderEmail?: string | null;
   imageUrl?: string | null;
   hasReport?: boolean;
+  campaignCaseCount?: number | null;
 };
 
 function formatWhen(iso: string): string {
@@ -111,7 +112,7 @@ function derivePreview(text?: string | null): string {
   return `${firstSentence.slice(0, MAX_LEN - 1)}…`;
 }
 
-async function loadCases(page = 1, limit = 20, q = "", codes: string[] = [], senders: string[] = [], sources: string[] = [], types: string[] = [], base = ""): Promise<{ items: SubmissionRow[]; page: number; limit: number; total: number; hasMore: boolean; offset: number; }>
+async function loadCases(page = 1, limit = 20, q = "", codes: string[] = [], senders: string[] = [], sources: string[] = [], types: string[] = [], base = "", collapse = false): Promise<{ items: SubmissionRow[]; page: number; limit: number; total: number; hasMore: boolean; offset: number; }>
 {
   try {
     const usp = new URLSearchParams();
@@ -135,6 +136,7 @@ async function loadCases(page = 1, limit = 20, q = "", codes: string[] = [], sen
       // Send as comma-separated list for brevity
       usp.set("types", types.join(","));
     }
+    if (collapse) usp.set("collapse", "campaign");
     const res = await fetch(`${base}/api/cases?${usp.toString()}`, { cache: "no-store" });
     if (!res.ok) return { items: [], page, limit, total: 0, hasMore: false, offset: 0 };
     const data = await res.json();
@@ -148,6 +150,7 @@ async function loadCases(page = 1, limit = 20, q = "", codes: string[] = [], sen
       senderId?: string | null;
       sender_name?: string | null;
       senderName?: string | null;
+      senderEntityName?: string | null;
       raw_text?: string | null;
       rawText?: string | null;
       issues?: Array<{ code: string; title: string }>;
@@ -158,13 +161,14 @@ async function loadCases(page = 1, limit = 20, q = "", codes: string[] = [], sen
       image_url?: string | null;
       imageUrl?: string | null;
       hasReport?: boolean;
+      campaignCaseCount?: number | null;
     }>;
     const withIssues = rows.map((r) => ({
       id: r.id,
       createdAt: (r.created_at || r.createdAt || new Date(0).toISOString()) as string,
       emailSentAt: r.email_sent_at || r.emailSentAt || null,
       senderId: r.sender_id || r.senderId || null,
-      senderName: r.sender_name || r.senderName || null,
+      senderName: r.senderEntityName || r.sender_name || r.senderName || null,
       rawText: r.raw_text || r.rawText || null,
       issues: Array.isArray(r.issues)
         ? r.issues.filter((v) => typeof v.code === "string" && v.code.trim()).slice(0, 3)
@@ -173,6 +177,7 @@ async function loadCases(page = 1, limit = 20, q = "", codes: string[] = [], sen
       forwarderEmail: r.forwarder_email || r.forwarderEmail || null,
       imageUrl: r.image_url || r.imageUrl || null,
       hasReport: r.hasReport || false,
+      campaignCaseCount: r.campaignCaseCount ?? null,
     }));
     return {
       items: withIssues,
@@ -229,10 +234,13 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
     const v = t.toLowerCase();
     return v === "email" || v === "sms";
   });
+  // group=campaign shows one case per message campaign
+  const groupParam = Array.isArray(sp["group"]) ? sp["group"][0] : sp["group"];
+  const collapse = groupParam === "campaign";
   const page = Number(pageParam) || 1;
   const pageSize = Number(limitParam) || 20;
   const q = (qParam || "").toString();
-  const { items, total, limit, hasMore } = await loadCases(page, pageSize, q, selectedCodes, selectedSenders, selectedSources, selectedTypes, base);
+  const { items, total, limit, hasMore } = await loadCases(page, pageSize, q, selectedCodes, selectedSenders, selectedSources, selectedTypes, base, collapse);
   const activeFilterCount =
     (q ? 1 : 0) +
     selectedSenders.length +
@@ -265,8 +273,14 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
                   Browse all submitted fundraising messages and detected violations.
                 </p>
               </div>
-              <div className="text-sm text-muted-foreground tabular-nums">
-                {total} total cases
+              <div className="flex flex-col items-start md:items-end gap-1 text-sm text-muted-foreground tabular-nums">
+                <span>{total} {collapse ? "campaigns and single cases" : "total cases"}</span>
+                <Link
+                  href={`/cases?page=1&limit=${pageSize}${q ? `&q=${encodeURIComponent(q)}` : ""}${selectedSenders.length > 0 ? `&senders=${selectedSenders.join(",")}` : ""}${selectedCodes.length > 0 ? `&codes=${selectedCodes.join(",")}` : ""}${selectedSources.length > 0 ? `&sources=${selectedSources.join(",")}` : ""}${selectedTypes.length > 0 ? `&types=${selectedTypes.join(",")}` : ""}${collapse ? "" : "&group=campaign"}`}
+                  className="text-primary hover:underline"
+                >
+                  {collapse ? "Show every case" : "Group by campaign"}
+                </Link>
               </div>
             </div>
 
@@ -304,6 +318,7 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
                       <input type="hidden" name="page" value="1" />
                       <input type="hidden" name="limit" value={String(pageSize)} />
                       {q && <input type="hidden" name="q" value={q} />}
+                      {collapse && <input type="hidden" name="group" value="campaign" />}
                       {selectedSenders.map((sender) => (
                         <input key={`m-sender-${sender}`} type="hidden" name="senders" value={sender} />
                       ))}
@@ -388,6 +403,7 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
                       <input type="hidden" name="page" value="1" />
                       <input type="hidden" name="limit" value={String(pageSize)} />
                       {q && <input type="hidden" name="q" value={q} />}
+                      {collapse && <input type="hidden" name="group" value="campaign" />}
                       {selectedSenders.map((sender) => (
                         <input key={`type-sender-${sender}`} type="hidden" name="senders" value={sender} />
                       ))}
@@ -452,6 +468,7 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
                       <input type="hidden" name="page" value="1" />
                       <input type="hidden" name="limit" value={String(pageSize)} />
                       {q && <input type="hidden" name="q" value={q} />}
+                      {collapse && <input type="hidden" name="group" value="campaign" />}
                       {selectedSenders.map((sender) => (
                         <input key={`sender-${sender}`} type="hidden" name="senders" value={sender} />
                       ))}
@@ -625,6 +642,11 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
                                   <span className="hidden md:inline-flex items-center rounded-full bg-secondary px-2.5 py-1 text-[11px] font-medium text-secondary-foreground border border-border">
                                     {isBot ? 'Bot Captured' : 'User Submitted'}
                                   </span>
+                                  {collapse && it.campaignCaseCount != null && it.campaignCaseCount > 1 && (
+                                    <span className="inline-flex items-center rounded-full bg-secondary px-2.5 py-1 text-[11px] font-medium text-secondary-foreground border border-border">
+                                      {it.campaignCaseCount} sends in campaign
+                                    </span>
+                                  )}
                                   {it.hasReport && (
                                     <span className="hidden md:inline-flex items-center rounded-full bg-primary/10 px-2.5 py-1 text-[11px] font-medium text-primary border border-primary/30">
                                       Reported to ActBlue
@@ -667,6 +689,7 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
                     codes={selectedCodes}
                     sources={selectedSources}
                     types={selectedTypes}
+                    collapse={collapse}
                   />
                 </div>
               </>
@@ -680,7 +703,7 @@ export default async function CasesPage({ searchParams }: { searchParams?: Promi
   );
 }
 
-function PaginationControls({ total, pageSize, currentPage, hasMore, q, senders, codes, sources, types }: { total: number; pageSize: number; currentPage: number; hasMore: boolean; q?: string; senders?: string[]; codes?: string[]; sources?: string[]; types?: string[] }) {
+function PaginationControls({ total, pageSize, currentPage, hasMore, q, senders, codes, sources, types, collapse }: { total: number; pageSize: number; currentPage: number; hasMore: boolean; q?: string; senders?: string[]; codes?: string[]; sources?: string[]; types?: string[]; collapse?: boolean }) {
   const base = "/cases";
   const prevPage = Math.max(1, currentPage - 1);
   const nextPage = currentPage + 1;
@@ -695,6 +718,7 @@ function PaginationControls({ total, pageSize, currentPage, hasMore, q, senders,
     if (codes && codes.length > 0) params.set("codes", codes.join(","));
     if (sources && sources.length > 0) params.set("sources", sources.join(","));
     if (types && types.length > 0) params.set("types", types.join(","));
+    if (collapse) params.set("group", "campaign");
     return `${base}?${params.toString()}`;
   };
   
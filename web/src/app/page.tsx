@@ -80,6 +80,20 @@ export default function Home() {
     setStatus("");
     setStepIndex(0);
     try {
+      if (isEmlFile(file)) {
+        // Raw emails are parsed server-side; no storage upload or OCR step
+        const form = new FormData();
+        form.append("file", file);
+        const resp = await fetch("/api/upload-eml", { method: "POST", body: form });
+        const j = (await resp.json().catch(() => null)) as { id?: string; duplicate?: boolean; error?: string } | null;
+        if (resp.status === 413) throw new Error("That email file is too large (max 4MB)");
+        if (!resp.ok || !j?.id) throw new Error(j?.error === "empty_message" ? "That email file has no readable body" : `/api/upload-eml failed ${resp.status}`);
+        setStepIndex(2);
+        if (j.duplicate) setStatus("We already have this case. Opening the original...");
+        window.location.href = `/cases/${j.id}`;
+        return;
+      }
+
       const create = await fetch("/api/upload", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -549,7 +563,7 @@ export default function Home() {
                             Secure Upload
                           </span>
                           <span className="hidden sm:block w-px h-3 bg-border" />
-                          <span>PNG, JPG, PDF up to 10MB</span>
+                          <span>PNG, JPG, PDF up to 10MB, EML up to 4MB</span>
                           <span className="hidden sm:block w-px h-3 bg-border" />
                           <span>Anonymous Submission</span>
                         </div>
@@ -690,7 +704,7 @@ export default function Home() {
             </div>
           </section>
 
-          <input ref={inputRef} type="file" accept="image/*,.pdf" className="hidden" onChange={onInputChange} />
+          <input ref={inputRef} type="file" accept="image/*,.pdf,.eml,message/rfc822" className="hidden" onChange={onInputChange} />
 
           {/* Recent Cases & Leaderboard */}
           <RecentActivitySection />
@@ -709,6 +723,10 @@ export default function Home() {
   );
 }
 
+function isEmlFile(file: File): boolean {
+  return file.type === "message/rfc822" || file.name.toLowerCase().endsWith(".eml");
+}
+
 function readAsDataUrl(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -108,7 +108,9 @@ export function KpiCards({
         {
           label: "Total Captures",
           value: kpis.total_captures.toLocaleString(),
-          description: `${kpis.user_uploads.toLocaleString()} user / ${kpis.honeytraps.toLocaleString()} bot`,
+          description: kpis.total_sends > kpis.total_captures
+            ? `${kpis.user_uploads.toLocaleString()} user / ${kpis.honeytraps.toLocaleString()} bot · ${kpis.total_sends.toLocaleString()} sends`
+            : `${kpis.user_uploads.toLocaleString()} user / ${kpis.honeytraps.toLocaleString()} bot`,
           sparkData: captures_by_bucket,
           sparkColor: CHART_COLORS.captures,
         },
@@ -18,12 +18,14 @@ export type StatsData = {
   period: { start: string; end: string; days: number };
   kpis: {
     total_captures: number;
+    total_sends: number; // captures plus their sightings (repeat sends) in the period
     captures_with_violations: number;
     total_reports: number;
     user_uploads: number;
     honeytraps: number;
   };
   captures_by_bucket: Array<{ bucket: string; count: number }> | null;
+  sends_by_bucket: Array<{ bucket: string; count: number }> | null;
   violations_by_bucket: Array<{ bucket: string; count: number }> | null;
   reports_by_bucket: Array<{ bucket: string; count: number }> | null;
   top_senders: Array<{
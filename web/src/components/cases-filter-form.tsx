@@ -2,7 +2,7 @@
 
 import { VIOLATION_POLICIES } from "@/lib/violation-policies";
 
-const DISPLAYED_VIOLATION_CODES = ["AB001", "AB003", "AB004", "AB007", "AB008", "AB009"];
+const DISPLAYED_VIOLATION_CODES = ["AB001", "AB002", "AB003", "AB004", "AB005", "AB006", "AB007", "AB008", "AB009"];
 
 const VIOLATION_OPTIONS = VIOLATION_POLICIES.filter((v: { code: string; title: string; policy: string }) =>
   DISPLAYED_VIOLATION_CODES.includes(v.code)
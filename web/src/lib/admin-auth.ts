@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { env } from "@/lib/env";
+
+/**
+ * HTTP Basic auth for the operator pages under /admin, checked in middleware.
+ * Any username is accepted; the password must equal ADMIN_PASSWORD.
+ * Returns an error response for unauthorized requests, or null to proceed.
+ */
+export function requireAdminAuth(headers: Headers): NextResponse | null {
+  if (!env.ADMIN_PASSWORD) {
+    return NextResponse.json({ error: "admin_password_missing" }, { status: 503 });
+  }
+  const header = headers.get("authorization") || "";
+  let password = "";
+  if (header.startsWith("Basic ")) {
+    try {
+      const decoded = atob(header.slice(6).trim());
+      password = decoded.slice(decoded.indexOf(":") + 1);
+    } catch {
+      password = "";
+    }
+  }
+  if (password !== env.ADMIN_PASSWORD) {
+    return new NextResponse("Unauthorized", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Basic realm="AB Jail admin", charset="UTF-8"' },
+    });
+  }
+  return null;
+}
@@ -81,16 +81,44 @@ export async function resolveImageUrl(
   }
 }
 
+type MediaUrlEntry = { url: string | null; contentType?: string; sourceUrl?: string; [key: string]: unknown };
+
+/**
+ * Signs stored message attachments (media_urls entries copied into storage).
+ * Provider URLs are passed through; the provider source URL is dropped.
+ */
+export async function resolveMediaUrls(
+  supabase: SupabaseClient,
+  media: unknown
+): Promise<MediaUrlEntry[]> {
+  if (!Array.isArray(media)) return [];
+  return Promise.all(
+    (media as MediaUrlEntry[]).map(async (m) => {
+      const entry = { ...m };
+      delete entry.sourceUrl;
+      if (entry.url?.startsWith("supabase://")) entry.url = await resolveImageUrl(supabase, entry.url);
+      return entry;
+    })
+  );
+}
+
 /**
  * Resolve multiple image URLs in parallel for a batch of records.
  */
 export async function resolveImageUrls(
   supabase: SupabaseClient,
-  records: Array<{ image_url?: string | null; landing_screenshot_url?: string | null }>
+  records: Array<{ image_url?: string | null; landing_screenshot_url?: string | null; media_urls?: unknown }>
 ): Promise<void> {
   const promises: Promise<void>[] = [];
 
   for (const record of records) {
+    if (Array.isArray(record.media_urls) && record.media_urls.length > 0) {
+      promises.push(
+        resolveMediaUrls(supabase, record.media_urls).then((media) => {
+          record.media_urls = media;
+        })
+      );
+    }
     if (record.image_url) {
       promises.push(
         resolveImageUrl(supabase, record.image_url).then((url) => {
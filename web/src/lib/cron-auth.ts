@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/env";
+
+/**
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`.
+ * Returns an error response for unauthorized calls, or null to proceed.
+ */
+export function requireCronAuth(req: NextRequest): NextResponse | null {
+  if (!env.CRON_SECRET) {
+    return NextResponse.json({ error: "cron_secret_missing" }, { status: 503 });
+  }
+  if (req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  return null;
+}
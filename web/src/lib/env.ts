@@ -17,6 +17,24 @@ const EnvSchema = z.object({
   OPENAI_MODEL_VISION: z.string().default("gpt-4o-mini"),
   OCRSPACE_API_KEY: z.string().optional(),
 
+  // LLM provider selection (see server/ai/llm.ts)
+  LLM_PROVIDER: z.enum(["openai", "anthropic", "local", "fixture"]).default("openai"),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  ANTHROPIC_MODEL: z.string().default("claude-sonnet-4-5"),
+  LLM_LOCAL_BASE_URL: z.string().url().default("http://localhost:11434/v1"),
+  LLM_LOCAL_MODEL: z.string().optional(),
+  LLM_LOCAL_API_KEY: z.string().optional(),
+  LLM_FIXTURE_DIR: z.string().default("fixtures/llm"),
+  // When set, fixture misses are forwarded to this provider and recorded
+  LLM_FIXTURE_RECORD: z.enum(["openai", "anthropic", "local"]).optional(),
+
+  // Consensus classification (server/ai/consensus.ts): "model" or "provider:model", comma-separated.
+  // Empty = CLASSIFY_CONSENSUS_SAMPLES samples of the default model.
+  CLASSIFY_CONSENSUS_VOTERS: z.string().optional(),
+  CLASSIFY_CONSENSUS_SAMPLES: z.coerce.number().int().default(3),
+  // Re-run classification in consensus mode before a case is reported to ActBlue
+  CLASSIFY_CONSENSUS_ON_REPORT: z.enum(["true", "false"]).default("true"),
+
   RESEND_API_KEY: z.string().optional(),
   REPORT_EMAIL_TO: z.string().email().optional(),
   REPORT_EMAIL_FROM: z.string().email().optional(),
@@ -35,6 +53,19 @@ const EnvSchema = z.object({
 
   // Dedupe tuning
   DEDUP_SIMHASH_DISTANCE: z.coerce.number().default(4),
+  // Campaign clustering joins looser matches than duplicate detection (reused copy with another sender)
+  CAMPAIGN_SIMHASH_DISTANCE: z.coerce.number().default(10),
+
+  // Webhook signature verification (server/ingest/webhook-signature.ts)
+  TWILIO_AUTH_TOKEN: z.string().optional(),
+  MAILGUN_WEBHOOK_SIGNING_KEY: z.string().optional(),
+  // Skip verification for local testing; ignored when NODE_ENV=production
+  WEBHOOK_SIGNATURE_BYPASS: z.enum(["true", "false"]).default("false"),
+
+  // Bearer token Vercel Cron sends to /api/jobs/worker and /api/jobs/sweep
+  CRON_SECRET: z.string().optional(),
+  // HTTP Basic password for /admin pages (src/lib/admin-auth.ts)
+  ADMIN_PASSWORD: z.string().optional(),
 });
 
 export type AppEnv = z.infer<typeof EnvSchema>;
@@ -62,6 +93,19 @@ export const env: AppEnv = EnvSchema.parse({
   // Accept both OCRSPACE_API_KEY and OCRspace_API_KEY (user typo tolerance)
   OCRSPACE_API_KEY: process.env.OCRSPACE_API_KEY ?? process.env["OCRspace_API_KEY"],
 
+  LLM_PROVIDER: process.env.LLM_PROVIDER || undefined,
+  ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+  ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || undefined,
+  LLM_LOCAL_BASE_URL: process.env.LLM_LOCAL_BASE_URL || undefined,
+  LLM_LOCAL_MODEL: process.env.LLM_LOCAL_MODEL,
+  LLM_LOCAL_API_KEY: process.env.LLM_LOCAL_API_KEY,
+  LLM_FIXTURE_DIR: process.env.LLM_FIXTURE_DIR || undefined,
+  LLM_FIXTURE_RECORD: process.env.LLM_FIXTURE_RECORD || undefined,
+
+  CLASSIFY_CONSENSUS_VOTERS: process.env.CLASSIFY_CONSENSUS_VOTERS,
+  CLASSIFY_CONSENSUS_SAMPLES: process.env.CLASSIFY_CONSENSUS_SAMPLES || undefined,
+  CLASSIFY_CONSENSUS_ON_REPORT: process.env.CLASSIFY_CONSENSUS_ON_REPORT || undefined,
+
   RESEND_API_KEY: process.env.RESEND_API_KEY,
   // Accept both new and legacy names
   REPORT_EMAIL_TO: process.env.REPORT_EMAIL_TO || process.env.REPORT_TO_EMAIL,
@@ -75,5 +119,13 @@ export const env: AppEnv = EnvSchema.parse({
   INGEST_SUPPRESS_LIST: process.env.INGEST_SUPPRESS_LIST,
 
   DEDUP_SIMHASH_DISTANCE: process.env.DEDUP_SIMHASH_DISTANCE,
+  CAMPAIGN_SIMHASH_DISTANCE: process.env.CAMPAIGN_SIMHASH_DISTANCE,
+
+  TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
+  MAILGUN_WEBHOOK_SIGNING_KEY: process.env.MAILGUN_WEBHOOK_SIGNING_KEY,
+  WEBHOOK_SIGNATURE_BYPASS: process.env.WEBHOOK_SIGNATURE_BYPASS || undefined,
+
+  CRON_SECRET: process.env.CRON_SECRET,
+  ADMIN_PASSWORD: process.env.ADMIN_PASSWORD,
 });
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { requireAdminAuth } from "@/lib/admin-auth";
 
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
@@ -55,9 +56,14 @@ export function middleware(req: NextRequest) {
     return NextResponse.next();
   }
 
+  // Operator pages; their server actions post to the same paths
+  if (pathname === "/admin" || pathname.startsWith("/admin/")) {
+    return requireAdminAuth(req.headers) ?? NextResponse.next();
+  }
+
   return NextResponse.next();
 }
 
 export const config = {
-  matcher: ["/api/v1/:path*", "/api/api-key-request"],
+  matcher: ["/api/v1/:path*", "/api/api-key-request", "/admin", "/admin/:path*"],
 };
@@ -0,0 +1,149 @@
+/**
+ * Split long messages into token-budgeted chunks for the model.
+ *
+ * A message is divided into a body and a footer (the "Paid for by" disclaimer
+ * and whatever follows it, or the closing lines if there is none). The body is
+ * packed into chunks along paragraph boundaries; every chunk is sent together
+ * with the header (From/Subject) and the footer, so sender and disclosure
+ * context is never lost. Offsets always refer to the original text.
+ */
+
+import { AI_CHUNK_TOKEN_BUDGET, AI_MAX_CHUNKS, CHARS_PER_TOKEN, estimateTokens } from "./constants";
+
+export type TextRegion = { start: number; end: number };
+
+export type TextChunk = TextRegion & { index: number; text: string };
+
+export type ChunkPlan = {
+  /** Body chunks in reading order; a single chunk holds the whole text when it fits */
+  chunks: TextChunk[];
+  /** Repeated with every chunk; null when the text fits in one chunk */
+  footer: TextChunk | null;
+  /** Body range skipped because the message exceeded AI_MAX_CHUNKS */
+  omitted: TextRegion | null;
+};
+
+const FOOTER_MAX_CHARS = 1_500;
+const FOOTER_FALLBACK_CHARS = 600;
+const DISCLAIMER_RE = /\b(paid\s+for\s+by|authorized\s+by|not\s+authorized\s+by)\b/gi;
+
+/** Start of the footer: the line holding the last disclaimer in the second half, else the closing paragraph(s). */
+function findFooterStart(text: string): number {
+  let last = -1;
+  for (const m of text.matchAll(DISCLAIMER_RE)) {
+    if (m.index != null && m.index >= text.length / 2) last = m.index;
+  }
+  if (last >= 0) {
+    const lineStart = text.lastIndexOf("\n", last) + 1;
+    return Math.max(lineStart, text.length - FOOTER_MAX_CHARS);
+  }
+  const floor = text.length - FOOTER_FALLBACK_CHARS;
+  const paragraph = text.indexOf("\n\n", floor);
+  return paragraph >= 0 && paragraph < text.length - 1 ? paragraph + 2 : Math.max(floor, 0);
+}
+
+/** Paragraph ranges of text[start, end), split on blank lines. */
+function paragraphs(text: string, start: number, end: number): TextRegion[] {
+  const out: TextRegion[] = [];
+  const re = /\n[ \t]*\n\s*/g;
+  re.lastIndex = start;
+  let from = start;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) && m.index < end) {
+    if (m.index > from) out.push({ start: from, end: m.index });
+    from = m.index + m[0].length;
+  }
+  if (from < end) out.push({ start: from, end });
+  return out;
+}
+
+/** Cut an oversized range at the last sentence end, line break or space before the limit. */
+function splitLong(text: string, region: TextRegion, maxChars: number): TextRegion[] {
+  const out: TextRegion[] = [];
+  let from = region.start;
+  while (region.end - from > maxChars) {
+    const window = text.slice(from, from + maxChars);
+    const cut = Math.max(window.lastIndexOf(". "), window.lastIndexOf("! "), window.lastIndexOf("? "), window.lastIndexOf("\n"));
+    const at = cut > maxChars / 2 ? cut + 1 : window.lastIndexOf(" ") > maxChars / 2 ? window.lastIndexOf(" ") : maxChars;
+    out.push({ start: from, end: from + at });
+    from += at;
+  }
+  out.push({ start: from, end: region.end });
+  return out;
+}
+
+/**
+ * Plan chunks for `text`. `header` (From/Subject lines) counts against each
+ * chunk's budget because it is repeated in every call.
+ */
+export function planChunks(text: string, header = "", budgetTokens = AI_CHUNK_TOKEN_BUDGET): ChunkPlan {
+  if (estimateTokens(header) + estimateTokens(text) <= budgetTokens) {
+    return { chunks: [{ index: 0, start: 0, end: text.length, text }], footer: null, omitted: null };
+  }
+
+  const footerStart = findFooterStart(text);
+  const footer: TextChunk = { index: -1, start: footerStart, end: text.length, text: text.slice(footerStart) };
+  // Leave room for the part notice and omission markers
+  const maxChars = Math.max(budgetTokens * CHARS_PER_TOKEN - header.length - footer.text.length - 200, 1_000);
+
+  const pieces = paragraphs(text, 0, footerStart).flatMap((p) => splitLong(text, p, maxChars));
+  const ranges: TextRegion[] = [];
+  for (const p of pieces) {
+    const cur = ranges[ranges.length - 1];
+    if (cur && p.end - cur.start <= maxChars) cur.end = p.end;
+    else ranges.push({ ...p });
+  }
+
+  let omitted: TextRegion | null = null;
+  if (ranges.length > AI_MAX_CHUNKS) {
+    const lastRange = ranges[ranges.length - 1];
+    const kept = ranges.slice(0, AI_MAX_CHUNKS - 1);
+    omitted = { start: kept[kept.length - 1].end, end: lastRange.start };
+    ranges.splice(0, ranges.length, ...kept, lastRange);
+  }
+
+  return {
+    chunks: ranges.map((r, index) => ({ index, start: r.start, end: r.end, text: text.slice(r.start, r.end) })),
+    footer,
+    omitted,
+  };
+}
+
+/** Regions of the original text the model sees for a chunk (body, then footer). */
+export function chunkRegions(plan: ChunkPlan, chunk: TextChunk): TextRegion[] {
+  return plan.footer ? [chunk, plan.footer] : [chunk];
+}
+
+/** Message text for one chunk: header, position notice, chunk body and footer. */
+export function renderChunk(plan: ChunkPlan, chunk: TextChunk, header = ""): string {
+  if (!plan.footer) return `${header}${chunk.text.trim() || "(none)"}`;
+  const total = plan.chunks.length;
+  const parts: string[] = [
+    `[Part ${chunk.index + 1} of ${total} of a long message. The header and the closing/disclaimer section are repeated with every part.]`,
+  ];
+  if (header) parts.push(header.trimEnd());
+  if (chunk.index > 0) parts.push("[... earlier text omitted ...]");
+  if (plan.omitted && chunk.index === total - 1) {
+    parts.push(`[... ${plan.omitted.end - plan.omitted.start} characters not reviewed ...]`);
+  }
+  parts.push(chunk.text.trim());
+  if (chunk.index < total - 1) parts.push("[... later text omitted ...]");
+  parts.push(`[Closing/disclaimer section]\n${plan.footer.text.trim()}`);
+  return parts.join("\n\n");
+}
+
+/**
+ * Single-call view of a long message: as much of the opening as fits, then the
+ * footer. For tasks that need the sender context rather than every sentence.
+ */
+export function condenseForAI(text: string, budgetTokens = AI_CHUNK_TOKEN_BUDGET): string {
+  if (estimateTokens(text) <= budgetTokens) return text;
+  const footerStart = findFooterStart(text);
+  const footer = text.slice(footerStart).trim();
+  const headChars = Math.max(budgetTokens * CHARS_PER_TOKEN - footer.length - 100, 1_000);
+  let head = text.slice(0, Math.min(headChars, footerStart));
+  if (head.length < footerStart && /\s/.test(head)) head = head.slice(0, head.search(/\s\S*$/));
+  head = head.trimEnd();
+  const skipped = footerStart - head.length;
+  return skipped > 0 ? `${head}\n\n[... ${skipped} characters omitted ...]\n\n${footer}` : `${head}\n\n${footer}`;
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { parseJsonContent } from "./llm";
+
+/**
+ * Output contract for the violation classifier.
+ *
+ * The model is asked for `{ violations, summary, overall_confidence }`; this
+ * module validates every field so a misbehaving model can never produce a
+ * "done" case with silently dropped violations.
+ */
+
+export function buildClassifierOutputSchema(allowedCodes: readonly string[]) {
+  const violation = z.object({
+    code: z.string().refine((c) => allowedCodes.includes(c), (c) => ({
+      message: `Unknown violation code "${c}". Allowed: ${allowedCodes.join(", ")}`,
+    })),
+    title: z.string().trim().min(1),
+    rationale: z.string(),
+    // Verbatim quotes from the message; resolved to raw_text offsets by server/ai/evidence.ts
+    evidence_quotes: z.array(z.string()).default([]),
+    // Legacy (prompt v1/v2): integer indices with no defined meaning, accepted but not stored
+    evidence_span_indices: z.array(z.number().int().nonnegative()).default([]),
+    severity: z.number().int().min(1).max(5),
+    confidence: z.number().min(0).max(1),
+  });
+
+  return z.object({
+    violations: z.array(violation),
+    summary: z.string(),
+    overall_confidence: z.number().min(0).max(1),
+  });
+}
+
+export type ClassifierOutput = z.infer<ReturnType<typeof buildClassifierOutputSchema>>;
+export type ClassifierViolation = ClassifierOutput["violations"][number];
+
+export type ClassifierParseResult =
+  | { ok: true; data: ClassifierOutput }
+  | { ok: false; reason: "invalid_json" | "schema_mismatch"; issues: string[] };
+
+/** Parse and validate raw model output. Issues are phrased so they can be fed back to the model. */
+export function parseClassifierOutput(content: string, allowedCodes: readonly string[]): ClassifierParseResult {
+  let json: unknown;
+  try {
+    json = parseJsonContent(content);
+  } catch (e) {
+    return { ok: false, reason: "invalid_json", issues: [`Response is not valid JSON: ${String(e)}`] };
+  }
+  const result = buildClassifierOutputSchema(allowedCodes).safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    return { ok: false, reason: "schema_mismatch", issues };
+  }
+  return { ok: true, data: result.data };
+}
+
+/** Follow-up instruction for the single repair pass. */
+export function buildRepairPrompt(issues: string[]): string {
+  const list = issues.slice(0, 20).map((i) => `- ${i}`).join("\n");
+  return `Your previous response did not match the required output schema:\n${list}\n\nReturn the corrected result as STRICT JSON only (no commentary or markdown) with exactly these top-level keys: violations, summary, overall_confidence. Each violation needs code, title, rationale, evidence_quotes (array of exact quotes from the message text), severity (integer 1–5) and confidence (number 0–1).`;
+}
@@ -1,6 +1,23 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { getSupabaseServer } from "@/lib/supabase-server";
-import { truncateForAI } from "./constants";
+import { chunkRegions, planChunks, renderChunk, type TextRegion } from "./chunking";
+import { getLLMProvider, hashLLMMessages, type LLMContentPart, type LLMMessage, type LLMResult } from "./llm";
+import { buildRepairPrompt, parseClassifierOutput, type ClassifierOutput, type ClassifierViolation } from "./classification-schema";
+import { getActivePrompt, VIOLATION_CLASSIFIER } from "./prompts";
+import { resolveEvidenceSpansInRegions, type EvidenceSpan } from "./evidence";
+import { buildRuleHints, candidatesInRegions, compareWithLLM, evaluateRules, getActiveRules, ruleDisagreementKey, type RuleCandidate, type RuleDisagreement } from "./rules";
+import { mergeConsensus, resolveConsensusVoters, type CodeVotes, type ConsensusVoter } from "./consensus";
+import { setProcessingStatus } from "@/server/jobs/status";
+import { mediaOcrText, type MediaEntry } from "@/server/ingest/media";
+import { fecCommitteeContext, getFecCommittees, linkFecCommittee } from "@/server/senders/fec";
+import { disclaimerContext, disclaimerStatus, extractDisclaimer } from "@/server/senders/disclaimer";
+
+// Codes a human must confirm before they become violations. AB001 (impersonation) can only be
+// reported by the impacted party and confirmed cases are hidden (see 2025-11-07_hide_ab001_violations.sql),
+// so model findings are parked on the submission as a review flag instead.
+const REVIEW_GATED_CODES = new Set(["AB001"]);
+/** Message attachments (MMS images, email images) sent to the model, in order */
+const MAX_MEDIA_IMAGES = 4;
 
 function parseSupabaseUrl(u?: string | null) {
   if (!u || !u.startsWith("supabase://")) return null;
@@ -9,12 +26,162 @@ function parseSupabaseUrl(u?: string | null) {
   return { bucket, path: pathParts.join("/") };
 }
 
+export type ClassificationTrigger = "ingest" | "comment" | "landing_page" | "batch" | "manual" | "report" | "sweeper";
+export const CLASSIFICATION_TRIGGERS: ClassificationTrigger[] = ["ingest", "comment", "landing_page", "batch", "manual", "report", "sweeper"];
+
 export type RunClassificationOptions = {
   includeExistingComments?: boolean;
   extraComments?: string[];
-  replaceExisting?: boolean;
+  replaceExisting?: boolean; // Drop violations from earlier runs once the new run is stored (history stays in classification_runs)
+  trigger?: ClassificationTrigger;
+  consensus?: boolean; // Classify with every consensus voter (server/ai/consensus.ts) and merge by vote
+  keepStatusOnFailure?: boolean; // A failed run is recorded but leaves processing_status and the stored findings as they were
 };
 
+type RunRecord = {
+  submission_id: string;
+  trigger: ClassificationTrigger;
+  status: "success" | "llm_failed" | "parse_error";
+  provider: string;
+  model: string;
+  prompt_version: string;
+  input_hash: string;
+  raw_output?: string | null;
+  repair_output?: string | null;
+  parsed_output?: ClassifierOutput | null;
+  rule_candidates?: RuleCandidate[];
+  mode: "single" | "consensus";
+  consensus?: { voters: string[]; valid: number; votes: Record<string, CodeVotes> } | null;
+  chunk_count: number;
+  violation_codes?: string[];
+  error?: string | null;
+  latency_ms: number;
+};
+
+/** Insert a classification_runs row. History is best-effort: failures are logged, never fatal. */
+async function recordRun(supabase: ReturnType<typeof getSupabaseServer>, run: RunRecord): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("classification_runs")
+    .insert(run)
+    .select("id")
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.warn("runClassification:record_run_failed", { submissionId: run.submission_id, error: error.message });
+    return null;
+  }
+  return ((data as any)?.id as string | undefined) ?? null;
+}
+
+type SampleResult =
+  | { ok: true; voter: string; model: string; output: ClassifierOutput; raw: string; repair: string | null }
+  | { ok: false; voter: string; model: string; error: "llm_failed"; llm: Extract<LLMResult, { ok: false }> }
+  | { ok: false; voter: string; model: string; error: "parse_error"; issues: string[]; raw: string; repair: string | null };
+
+/** One completion plus schema validation, with a single repair attempt on invalid output. */
+async function classifySample(
+  voter: ConsensusVoter,
+  messages: LLMMessage[],
+  allowedCodes: readonly string[],
+  submissionId: string
+): Promise<SampleResult> {
+  const completion = await voter.provider.complete({ purpose: "classify", messages, model: voter.model, lowEffort: true });
+  const model = completion.model;
+  if (!completion.ok) return { ok: false, voter: voter.label, model, error: "llm_failed", llm: completion };
+
+  let validated = parseClassifierOutput(completion.content, allowedCodes);
+  let repairOutput: string | null = null;
+  if (!validated.ok) {
+    console.warn("runClassification:invalid_output", { submissionId, voter: voter.label, reason: validated.reason, issues: validated.issues });
+    const repair = await voter.provider.complete({
+      purpose: "classify",
+      messages: [
+        ...messages,
+        { role: "assistant", content: completion.content },
+        { role: "user", content: buildRepairPrompt(validated.issues) },
+      ],
+      model: voter.model,
+      lowEffort: true,
+    });
+    if (repair.ok) {
+      repairOutput = repair.content;
+      validated = parseClassifierOutput(repair.content, allowedCodes);
+    }
+    if (!validated.ok) {
+      return { ok: false, voter: voter.label, model, error: "parse_error", issues: validated.issues, raw: completion.content, repair: repairOutput };
+    }
+  }
+  return { ok: true, voter: voter.label, model, output: validated.data, raw: completion.content, repair: repairOutput };
+}
+
+type ChunkInput = { messages: LLMMessage[]; regions: TextRegion[] };
+
+type VoterResult =
+  | (Extract<SampleResult, { ok: true }> & { spans: Map<string, EvidenceSpan[]> })
+  | Extract<SampleResult, { ok: false }>;
+
+/**
+ * Classify every chunk of a message with one voter and merge the chunk outputs.
+ * Evidence quotes are resolved within the regions each call saw, so offsets land on the right
+ * occurrence in the full text. A failed chunk fails the voter: a partial read could miss violations.
+ */
+async function classifyChunks(
+  voter: ConsensusVoter,
+  chunks: ChunkInput[],
+  allowedCodes: readonly string[],
+  source: string | null | undefined,
+  submissionId: string
+): Promise<VoterResult> {
+  const results = await Promise.all(chunks.map((c) => classifySample(voter, c.messages, allowedCodes, submissionId)));
+  const failures = results.filter((r): r is Extract<SampleResult, { ok: false }> => !r.ok);
+  if (failures.length > 0) return failures.find((r) => r.error === "parse_error") ?? failures[0];
+  const ok = results as Array<Extract<SampleResult, { ok: true }>>;
+
+  // Quotes -> exact offsets in raw_text; quotes that only match the From/Subject header or nothing are dropped
+  const spans = new Map<string, EvidenceSpan[]>();
+  ok.forEach((r, i) => {
+    for (const v of r.output.violations) {
+      const found = resolveEvidenceSpansInRegions(source, chunks[i].regions, v.evidence_quotes);
+      const list = spans.get(v.code) ?? [];
+      for (const s of found.spans) {
+        if (!list.some((x) => x.start === s.start && x.end === s.end)) list.push(s);
+      }
+      spans.set(v.code, list);
+      if (found.unresolved.length > 0) {
+        console.log("runClassification:unresolved_evidence", { submissionId, voter: voter.label, code: v.code, count: found.unresolved.length });
+      }
+    }
+  });
+  if (ok.length === 1) return { ...ok[0], spans };
+
+  const repairs = ok.map((r) => r.repair);
+  return {
+    ok: true,
+    voter: voter.label,
+    model: ok[0].model,
+    output: {
+      violations: ok.flatMap((r) => r.output.violations),
+      summary: ok.map((r) => r.output.summary.trim()).filter(Boolean).join(" "),
+      overall_confidence: ok.reduce((sum, r) => sum + r.output.overall_confidence, 0) / ok.length,
+    },
+    raw: JSON.stringify(ok.map((r) => r.raw)),
+    repair: repairs.some((x) => x != null) ? JSON.stringify(repairs) : null,
+    spans,
+  };
+}
+
+/** Rationales of one code from several findings: non-empty parts, each once, joined with "; " */
+function joinRationales(...parts: Array<string | null | undefined>): string {
+  const out: string[] = [];
+  for (const p of parts) {
+    for (const piece of (p || "").split("; ")) {
+      const t = piece.trim();
+      if (t && !out.includes(t)) out.push(t);
+    }
+  }
+  return out.join("; ");
+}
+
 export async function runClassification(submissionId: string, opts: RunClassificationOptions = {}) {
   const supabase = getSupabaseServer();
   const start = Date.now();
@@ -22,13 +189,31 @@ export async function runClassification(submissionId: string, opts: RunClassific
   // Load submission
   const { data: items, error } = await supabase
     .from("submissions")
-    .select("id, image_url, raw_text, landing_url, landing_screenshot_url, email_from, email_subject")
+    .select("id, image_url, raw_text, media_urls, email_screenshot_url, landing_url, landing_screenshot_url, landing_text, email_from, email_subject, ab001_review_status, rule_disagreement, rule_disagreement_reviewed_at, sender_name, fec_committee_id, fec_match_score, fec_matched_at")
     .eq("id", submissionId)
     .limit(1);
   if (error || !items?.[0]) {
     return { ok: false, status: 404, error: "not_found" as const };
   }
-  const sub = items[0] as { id: string; image_url?: string | null; raw_text?: string | null; landing_url?: string | null; landing_screenshot_url?: string | null; email_from?: string | null; email_subject?: string | null };
+  const sub = items[0] as {
+    id: string;
+    image_url?: string | null;
+    raw_text?: string | null;
+    media_urls?: MediaEntry[] | null;
+    email_screenshot_url?: string | null;
+    landing_url?: string | null;
+    landing_screenshot_url?: string | null;
+    landing_text?: string | null;
+    email_from?: string | null;
+    email_subject?: string | null;
+    ab001_review_status?: "pending" | "confirmed" | "dismissed" | null;
+    rule_disagreement?: RuleDisagreement | null;
+    rule_disagreement_reviewed_at?: string | null;
+    sender_name?: string | null;
+    fec_committee_id?: string | null;
+    fec_match_score?: number | string | null;
+    fec_matched_at?: string | null;
+  };
 
   // Prepare signed image URL if applicable (and only if extension is supported by OpenAI image_url)
   let signedUrl: string | null = null;
@@ -72,33 +257,55 @@ export async function runClassification(submissionId: string, opts: RunClassific
   }
 
   // Build messages (shared across initial and reclassify)
-  const system = `Role: Political Fundraising Compliance Assistant\n\nInstructions:\n- Accept OCR text and an optional screenshot image of the message. Use BOTH sources: read the text carefully and visually inspect the image when present.\n- Evaluate only for the provided 5 internal violation codes:\n  AB003: Missing Full Entity Name\n  AB004: Entity Clarity (Org vs Candidate)\n  AB007: False/Unsubstantiated Claims\n  AB008: Unverified Matching Program\n  AB009: Improper Use of ActBlue Name.\n\n- Output STRICT JSON with these top-level keys, in order:\n  1. violations (array)\n  2. summary (string)\n  3. overall_confidence (float, 0–1 inclusive)\n- Each violation is returned as a single object with these keys: code (string), title (string), rationale (string), evidence_span_indices (array of integers), severity (int 1–5), confidence (float 0–1 inclusive).\n- Emit at most one violation object per code; if multiple findings, merge rationales and union indices for that code.\n\nSpecific rules and disambiguation:\n- AB003 (Missing Full Entity Name): Only flag when NO full entity name appears anywhere in the message itself, not considering any landing page images. If any full entity name is present (e.g., \"Let America Vote\"), DO NOT return AB003. Do not flag commonly accepted committee abbreviations such as DNC, DCCC, DLCC, or DSCC.\n- AB004 (Entity Clarity – Org vs Candidate): Flag when the message is ambiguous about whether donations go to a candidate or an organization/PAC. Do NOT flag joint or split fundraisers where the message names both the candidate and PAC and makes it reasonably clear that donations support both.\n- AB007 (False/Unsubstantiated Claims):\n  - Flag only for bullshit gimmicks that trick donors, like fake voting records or insinuating expiration of non-existent memberships/subscriptions. Flag "Democratic Membership" + donation ask (e.g., "Democratic Membership LAPSED—chip in $15 to renew")—this falsely implies donating renews official party membership. Do NOT flag candidate/committee supporter labels (e.g., "Team Pelosi Membership"). Do NOT flag political rhetoric or news claims.\n\n- AB008 (Unverified Matching Program):\n  - Use when the message advertises a matching program (e.g., \"500% match\").\n  - Rationale text should clearly state that political committees almost never run genuine donor matching programs, and that such claims are highly improbable and misleading to donors.\n  - Do NOT say \"unsupported\" or \"not documented,\" since we cannot know whether documentation exists.\n  - Use direct phrasing such as:\n    \"This solicitation advertises a '500%-MATCH.' Political committees almost never run genuine donor matching programs, making this claim highly improbable and misleading to donors.\"\n- AB009 (Improper Use of ActBlue Name):\n  - Flag when the message uses ActBlue's name inappropriately or in a disparaging manner.\n  - Examples include: suggesting ActBlue \"may go away at any minute,\" falsely implying security or technical problems with ActBlue's platform, misrepresenting communications as being from ActBlue (e.g., sender name like \"NEW ActBlue Update\" when actually from a different entity), or undermining donor trust in ActBlue.\n  - Do NOT flag legitimate mentions of ActBlue (e.g., \"Donate via ActBlue\") or factual references to the platform (e.g., \"Republicans Subpoenaed ActBlue \").\n- AB007, AB008, AB009: Merge contributing lines into one object per code.\n\n- All confidence values must be floats (0–1).\n- evidence_span_indices must point to text spans; if the evidence is image-only, use an empty array and explain in the rationale (e.g., \"image shows unaffiliated candidates\").\n- If the message is malformed or incomplete, return: {\"violations\": [], \"summary\": \"Input message is malformed or incomplete.\", \"overall_confidence\": 0.1}\n- If no policy violations are found, return: {\"violations\": [], \"summary\": \"No clear violations.\", \"overall_confidence\": 0.3}\n\nOutput Format:\n- Output JSON only—no commentary or markdown.\n- Structure: { \"violations\": [ ... ], \"summary\": \"...\", \"overall_confidence\": ... }\n- Maintain the exact specified ordering of top-level keys and the strict schema.`;
+  // Active prompt version; its code list is also the set of codes accepted from the model
+  const prompt = await getActivePrompt(VIOLATION_CLASSIFIER);
 
-  type Message = { role: "system" | "user"; content: any };
-  
-  // Build the initial message text with raw From line, subject, and body
-  let messageText = "";
+  // Raw From line and subject; repeated with every chunk of a long message
+  let header = "";
   if (sub.email_from) {
-    messageText += `From: ${sub.email_from}\n`;
+    header += `From: ${sub.email_from}\n`;
   }
   if (sub.email_subject) {
-    messageText += `Subject: ${sub.email_subject}\n`;
+    header += `Subject: ${sub.email_subject}\n`;
   }
   if (sub.email_from || sub.email_subject) {
-    messageText += `\n`;
-  }
-  messageText += String(sub.raw_text || "").trim() || "(none)";
-  
-  // Apply character limit to prevent abuse (rarely triggered in normal usage)
-  messageText = truncateForAI(messageText);
-  
-  const messages: Message[] = [
-    { role: "system", content: system },
-    { role: "user", content: [ { type: "text", text: messageText } ] },
-  ];
+    header += `\n`;
+  }
+
+  // Long messages are classified in token-budgeted chunks, each with the header and footer
+  const plan = planChunks(sub.raw_text || "", header);
+
+  // Images and landing page context go with the first chunk only
+  const userContent: LLMContentPart[] = [];
+  const followUps: LLMMessage[] = [];
   if (signedUrl) {
     const dataUrl = await toDataUrlFromUrl(signedUrl);
-    (messages[1].content as Array<{ type: string; image_url?: any; text?: string }>).push({ type: "image_url", image_url: { url: dataUrl || signedUrl } });
+    userContent.push({ type: "image_url", image_url: { url: dataUrl || signedUrl } });
+  }
+  // Rendered email HTML (/api/render-email): banner graphics and layout the plain text leaves out
+  const emailShot = parseSupabaseUrl(sub.email_screenshot_url);
+  if (emailShot) {
+    const { data: signed } = await supabase.storage.from(emailShot.bucket).createSignedUrl(emailShot.path, 3600);
+    if (signed?.signedUrl) {
+      const dataUrl = await toDataUrlFromUrl(signed.signedUrl);
+      userContent.push({ type: "text", text: "Screenshot of the email as rendered:" });
+      userContent.push({ type: "image_url", image_url: { url: dataUrl || signed.signedUrl } });
+    }
+  }
+  // Attachments copied into storage by the media job; their OCR text matters when the message is only a graphic
+  const mediaImages = (sub.media_urls || [])
+    .filter((m) => parseSupabaseUrl(m.url) && /^image\/(png|jpe?g|gif|webp)$/.test(m.contentType || ""))
+    .slice(0, MAX_MEDIA_IMAGES);
+  for (const media of mediaImages) {
+    const ref = parseSupabaseUrl(media.url)!;
+    const { data: signed } = await supabase.storage.from(ref.bucket).createSignedUrl(ref.path, 3600);
+    if (!signed?.signedUrl) continue;
+    const dataUrl = await toDataUrlFromUrl(signed.signedUrl);
+    userContent.push({ type: "image_url", image_url: { url: dataUrl || signed.signedUrl } });
+  }
+  const attachmentText = mediaOcrText(sub.media_urls);
+  if (attachmentText) {
+    userContent.push({ type: "text", text: `Image text (OCR of the message's images and attachments):\n${attachmentText}` });
   }
   if (landingSignedUrl) {
     // Strip query params from landing_url when showing context
@@ -110,12 +317,36 @@ export async function runClassification(submissionId: string, opts: RunClassific
       }
     } catch {}
     if (landingBase) {
-      (messages[1].content as Array<{ type: string; image_url?: any; text?: string }>)
-        .push({ type: "text", text: `Landing page URL: ${landingBase}` });
+      userContent.push({ type: "text", text: `Landing page URL: ${landingBase}` });
     }
     const dataUrl = await toDataUrlFromUrl(landingSignedUrl);
-    (messages[1].content as Array<{ type: string; image_url?: any; text?: string }>)
-      .push({ type: "image_url", image_url: { url: dataUrl || landingSignedUrl } });
+    userContent.push({ type: "image_url", image_url: { url: dataUrl || landingSignedUrl } });
+  }
+  if (sub.landing_text) {
+    userContent.push({ type: "text", text: `Landing page text (contribution form):\n${sub.landing_text}` });
+  }
+  // Parsed "Paid for by" line and whether it names the sender, for AB003/AB004. Only computed
+  // here: the sender job stores it (disclaimer_* columns) once its sender_name is known
+  const disclaimer = extractDisclaimer(sub.raw_text, attachmentText);
+  userContent.push({
+    type: "text",
+    text: disclaimerContext({ ...disclaimer, status: disclaimerStatus(disclaimer, sub.sender_name ?? null) }, sub.sender_name ?? null),
+  });
+  // Registered committee type (PAC, super PAC, candidate committee) for AB004/AB006; the sender job
+  // may not have run yet, so match on the disclaimer here when the case was never matched
+  let fecCommitteeId = sub.fec_committee_id ?? null;
+  let fecScore = sub.fec_match_score == null ? null : Number(sub.fec_match_score);
+  if (!fecCommitteeId && !sub.fec_matched_at) {
+    const match = await linkFecCommittee(submissionId);
+    fecCommitteeId = match?.cmteId ?? null;
+    fecScore = match?.score ?? null;
+  }
+  const fecCommittee = fecCommitteeId ? (await getFecCommittees([fecCommitteeId])).get(fecCommitteeId) : null;
+  if (fecCommittee) {
+    userContent.push({
+      type: "text",
+      text: `FEC registration of the sender (name match, similarity ${fecScore ?? "n/a"}; verify against the disclaimer): ${fecCommitteeContext(fecCommittee)}`,
+    });
   }
 
   // Gather reviewer comments as additional context when requested
@@ -142,77 +373,226 @@ export async function runClassification(submissionId: string, opts: RunClassific
     if (commentsList.length > 0) {
       const preface = "Additional reviewer comments and landing page context that should be considered:";
       const bulletList = commentsList.map((c) => `- ${c}`).join("\n");
-      messages.push({ role: "user", content: [ { type: "text", text: `${preface}\n${bulletList}` } ] });
+      followUps.push({ role: "user", content: [ { type: "text", text: `${preface}\n${bulletList}` } ] });
     }
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  const model = process.env.OPENAI_MODEL_VISION || "gpt-4o-mini";
-  if (!apiKey) return { ok: false, status: 400, error: "openai_key_missing" as const };
+  // Deterministic rules run first; their matches go to the model as hints
+  const rules = await getActiveRules();
+  const ruleCandidates = evaluateRules(sub.raw_text, rules);
 
-  let parsedOut: Record<string, unknown> = {};
-  try {
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
-      body: JSON.stringify({ model, messages, reasoning_effort: "low", verbosity: "low" }),
-    });
-    const json = await resp.json();
-    if (!resp.ok) {
+  const chunks: ChunkInput[] = plan.chunks.map((chunk) => {
+    const regions = chunkRegions(plan, chunk);
+    const messages: LLMMessage[] = [
+      { role: "system", content: prompt.system },
+      { role: "user", content: [ { type: "text", text: renderChunk(plan, chunk, header) }, ...(chunk.index === 0 ? userContent : []) ] },
+      ...followUps,
+    ];
+    // Each chunk only hears about rule matches it can see
+    const ruleHints = buildRuleHints(plan.chunks.length > 1 ? candidatesInRegions(ruleCandidates, regions) : ruleCandidates);
+    if (ruleHints) {
+      messages.push({ role: "user", content: [ { type: "text", text: ruleHints } ] });
+    }
+    return { messages, regions };
+  });
+  if (plan.chunks.length > 1) {
+    console.log("runClassification:chunked", { submissionId, chunks: plan.chunks.length, chars: (sub.raw_text || "").length, omitted: plan.omitted });
+  }
+
+  const llm = getLLMProvider();
+  if (!llm.configured) return { ok: false, status: 400, error: "llm_not_configured" as const };
+
+  const trigger = opts.trigger ?? "ingest";
+  const mode: RunRecord["mode"] = opts.consensus ? "consensus" : "single";
+  const voters: ConsensusVoter[] = opts.consensus ? resolveConsensusVoters() : [{ provider: llm, label: llm.name }];
+  const runBase = {
+    submission_id: submissionId,
+    trigger,
+    mode,
+    provider: Array.from(new Set(voters.map((v) => v.provider.name))).join(","),
+    prompt_version: prompt.id,
+    input_hash: hashLLMMessages(chunks.flatMap((c) => c.messages)),
+    rule_candidates: ruleCandidates,
+    chunk_count: chunks.length,
+  };
+
+  const samples = await Promise.all(voters.map((v) => classifyChunks(v, chunks, prompt.codes, sub.raw_text, submissionId)));
+  const valid = samples.filter((r): r is Extract<VoterResult, { ok: true }> => r.ok);
+  const model = Array.from(new Set(samples.map((r) => r.model))).join(",");
+  // Single runs keep the raw model text (a JSON array per chunk for long messages); consensus runs store every sample
+  const rawOutput = (r: VoterResult) => (r.ok || r.error === "parse_error" ? r.raw : null);
+  const repairOutput = (r: VoterResult) => (r.ok || r.error === "parse_error" ? r.repair : null);
+  const sampleLog = () =>
+    JSON.stringify(samples.map((r) => ({ voter: r.voter, model: r.model, ok: r.ok, error: r.ok ? null : r.error, raw: rawOutput(r), repair: repairOutput(r) })));
+
+  if (valid.length === 0) {
+    // Parse failures win over transport failures: the model answered, just not usably
+    const failures = samples.filter((r): r is Extract<VoterResult, { ok: false }> => !r.ok);
+    const failed = failures.find((r) => r.error === "parse_error") ?? failures[0];
+    if (failed.error === "llm_failed") {
+      await recordRun(supabase, {
+        ...runBase,
+        status: "llm_failed",
+        model,
+        raw_output: mode === "consensus" ? sampleLog() : null,
+        error: failed.llm.error,
+        latency_ms: Date.now() - start,
+      });
       // ensure terminal error state to avoid stuck status
-      await supabase.from("submissions").update({ processing_status: "error" }).eq("id", submissionId);
-      return { ok: false, status: 502, error: "openai_failed" as const, detail: json };
+      if (!opts.keepStatusOnFailure) await setProcessingStatus(submissionId, "error", { reason: "classify:llm_failed" });
+      const status = failed.llm.error === "http_error" ? 502 : 500;
+      return { ok: false, status, error: "llm_failed" as const, detail: failed.llm.detail };
     }
-    const content = (json as any)?.choices?.[0]?.message?.content?.trim() || "{}";
-    try {
-      parsedOut = JSON.parse(content);
-    } catch {
-      parsedOut = { violations: [], summary: "Parse failed", overall_confidence: 0 } as any;
+
+    // Distinct terminal status so these cases can be found and re-run instead of looking clean
+    const issues = failed.issues;
+    await recordRun(supabase, {
+      ...runBase,
+      status: "parse_error",
+      model,
+      raw_output: mode === "consensus" ? sampleLog() : failed.raw,
+      repair_output: mode === "consensus" ? null : failed.repair,
+      error: issues.join("\n").slice(0, 2000),
+      latency_ms: Date.now() - start,
+    });
+    if (!opts.keepStatusOnFailure) {
+      await setProcessingStatus(submissionId, "parse_error", {
+        reason: "classify:parse_failed",
+        fields: {
+          classifier_ms: Date.now() - start,
+          ai_version: model,
+          ai_prompt_version: prompt.id,
+          classification_error: issues.join("\n").slice(0, 2000),
+        },
+      });
     }
-  } catch {
-    // ensure terminal error state to avoid stuck status
-    await supabase.from("submissions").update({ processing_status: "error" }).eq("id", submissionId);
-    return { ok: false, status: 500, error: "openai_failed" as const };
+    console.error("runClassification:parse_failed", { submissionId, issues });
+    return { ok: false, status: 502, error: "parse_failed" as const, detail: issues };
   }
 
-  const violations = Array.isArray((parsedOut as any).violations) ? (parsedOut as any).violations as Array<any> : [];
+  let parsedOut: ClassifierOutput = valid[0].output;
+  let votes: Record<string, CodeVotes> | null = null;
+  if (mode === "consensus") {
+    // Voters that failed count toward the total, so a finding needs a majority of everyone asked
+    const merged = mergeConsensus(valid.map((r) => r.output), voters.length);
+    parsedOut = merged.output;
+    votes = merged.votes;
+    console.log("runClassification:consensus", { submissionId, voters: voters.length, valid: valid.length, votes });
+  }
+  const isContested = (code: string) => !!votes?.[code]?.contested;
 
   // Deduplicate by code and build rows
-  const byCode = new Map<string, any>();
-  for (const raw of violations) {
-    const code = String((raw as any).code ?? "UNKNOWN");
-    const title = String((raw as any).title ?? "Unspecified violation");
-    const rationale = String((raw as any).rationale ?? "");
-    const confidence = Number((raw as any).confidence ?? (parsedOut as any).overall_confidence ?? 0.5);
-    const severity = Math.max(1, Math.min(5, Number((raw as any).severity ?? 1)));
-    const evidence_spans = Array.isArray((raw as any).evidence_span_indices) ? (raw as any).evidence_span_indices : (raw as any).evidence_spans;
-    const existing = byCode.get(code);
-    if (!existing || confidence > existing.confidence) {
-      byCode.set(code, { code, title, rationale, confidence, severity, evidence_spans: Array.isArray(evidence_spans) ? evidence_spans.slice(0) : [] });
+  type MergedViolation = Pick<ClassifierViolation, "code" | "title" | "rationale" | "confidence" | "severity">;
+  const byCode = new Map<string, MergedViolation>();
+  for (const v of parsedOut.violations) {
+    const existing = byCode.get(v.code);
+    if (!existing || v.confidence > existing.confidence) {
+      byCode.set(v.code, {
+        code: v.code,
+        title: v.title,
+        rationale: joinRationales(v.rationale, existing?.rationale),
+        confidence: v.confidence,
+        severity: v.severity,
+      });
     } else {
-      if (rationale) existing.rationale = existing.rationale ? `${existing.rationale}; ${rationale}` : rationale;
-      if (Array.isArray(evidence_spans)) existing.evidence_spans = [...(existing.evidence_spans || []), ...evidence_spans];
+      existing.rationale = joinRationales(existing.rationale, v.rationale);
     }
   }
 
+  // Evidence offsets resolved per chunk (and per voter), merged for each code
+  const spansByCode = new Map<string, EvidenceSpan[]>();
+  for (const code of byCode.keys()) {
+    const spans: EvidenceSpan[] = [];
+    for (const r of valid) {
+      for (const s of r.spans.get(code) || []) {
+        if (!spans.some((x) => x.start === s.start && x.end === s.end)) spans.push(s);
+      }
+    }
+    spansByCode.set(code, spans.sort((a, b) => a.start - b.start || a.end - b.end));
+  }
+  // Rule matches for a code the model confirmed are exact evidence too
+  for (const c of ruleCandidates) {
+    const spans = spansByCode.get(c.code);
+    if (!spans) continue;
+    for (const h of c.hits) {
+      if (!spans.some((s) => s.start === h.span.start && s.end === h.span.end)) spans.push(h.span);
+    }
+    spans.sort((a, b) => a.start - b.start || a.end - b.end);
+  }
+
+  // Rules that fired on a code the model did not flag (or the voters did not agree on) go to human review
+  const agreedCodes = Array.from(byCode.keys()).filter((code) => !isContested(code));
+  const ruleDisagreement = compareWithLLM(ruleCandidates, agreedCodes, rules);
+  if (ruleDisagreement) {
+    console.log("runClassification:rule_disagreement", { submissionId, ...ruleDisagreement });
+  }
+  // A reviewer's verdict holds while the rules keep disagreeing on the same codes; anything else goes back to the queue
+  const keepDisagreementReview =
+    Boolean(sub.rule_disagreement_reviewed_at) && ruleDisagreement != null && ruleDisagreementKey(ruleDisagreement) === ruleDisagreementKey(sub.rule_disagreement);
+
+  const runId = await recordRun(supabase, {
+    ...runBase,
+    status: "success",
+    model,
+    raw_output: mode === "consensus" ? sampleLog() : rawOutput(valid[0]),
+    repair_output: mode === "consensus" ? null : repairOutput(valid[0]),
+    parsed_output: parsedOut,
+    consensus: votes ? { voters: voters.map((v) => v.label), valid: valid.length, votes } : null,
+    violation_codes: Array.from(byCode.keys()).sort(),
+    latency_ms: Date.now() - start,
+  });
+
+  // Hold review-gated findings back from the violations table
+  const held = Array.from(byCode.values()).filter((v) => REVIEW_GATED_CODES.has(v.code));
+  const published = Array.from(byCode.values()).filter((v) => !REVIEW_GATED_CODES.has(v.code));
+  let reviewUpdate: Record<string, unknown> = {};
+  const reviewDecided = sub.ab001_review_status === "confirmed" || sub.ab001_review_status === "dismissed";
+  if (!reviewDecided) {
+    // A contested impersonation finding is not strong enough to raise the flag
+    const ab001 = held.find((v) => v.code === "AB001" && !isContested(v.code));
+    reviewUpdate = ab001
+      ? {
+          ab001_review_status: "pending",
+          ab001_candidate: {
+            run_id: runId,
+            title: ab001.title,
+            rationale: ab001.rationale,
+            severity: ab001.severity,
+            confidence: ab001.confidence,
+            evidence_spans: spansByCode.get("AB001") || [],
+          },
+        }
+      : { ab001_review_status: null, ab001_candidate: null };
+  }
+
+  // Rows from earlier runs, removed after the new run's rows are in place.
+  // Review-gated rows only exist once a human confirmed them, so they are kept.
+  let staleViolationIds: string[] = [];
   if (opts.replaceExisting) {
-    await supabase.from("violations").delete().eq("submission_id", submissionId);
+    const { data: existingRows } = await supabase.from("violations").select("id, code").eq("submission_id", submissionId);
+    staleViolationIds = (existingRows || [])
+      .filter((r: any) => !REVIEW_GATED_CODES.has(String(r.code)))
+      .map((r: any) => String(r.id));
   }
 
-  if (byCode.size > 0) {
-    const rows = Array.from(byCode.values()).map((v) => ({
+  if (published.length > 0) {
+    const rows = published.map((v) => ({
       submission_id: submissionId,
+      run_id: runId,
       code: v.code,
       title: v.title,
       description: v.rationale,
-      evidence_spans: v.evidence_spans ?? null,
+      evidence_spans: spansByCode.get(v.code) || [],
       severity: v.severity,
       confidence: v.confidence,
+      consensus_votes: votes?.[v.code]?.votes ?? null,
+      consensus_total: votes?.[v.code]?.total ?? null,
+      agreement: votes?.[v.code]?.agreement ?? null,
     }));
     const { error: vioErr } = await supabase.from("violations").insert(rows);
     if (vioErr) {
-      // If insertion fails after deletion, we at least mark error status
-      await supabase.from("submissions").update({ processing_status: "error" }).eq("id", submissionId);
+      // Previous run's violations are still in place; mark error so the case is retried
+      if (!opts.keepStatusOnFailure) await setProcessingStatus(submissionId, "error", { reason: "classify:insert_failed" });
       return { ok: false, status: 500, error: "insert_failed" as const };
     }
 
@@ -223,23 +603,30 @@ export async function runClassification(submissionId: string, opts: RunClassific
       // Log but don't fail classification if exemption check fails
       console.warn("Failed to check exemptions:", exemptionErr);
     }
-  } else if (opts.replaceExisting) {
-    // Ensure we reflect no violations after replacement
+  }
+
+  // Insert-then-delete so a failed insert never leaves the case without violations
+  if (opts.replaceExisting && staleViolationIds.length > 0) {
+    await supabase.from("violations").delete().in("id", staleViolationIds);
   }
 
   const ms = Date.now() - start;
-  await supabase
-    .from("submissions")
-    .update({
-      processing_status: "done",
+  await setProcessingStatus(submissionId, "done", {
+    reason: `classify:${opts.trigger ?? "ingest"}`,
+    fields: {
       classifier_ms: ms,
       ai_version: model,
-      ai_confidence: (parsedOut as any).overall_confidence ?? null,
-      ai_summary: typeof (parsedOut as any).summary === "string" ? (parsedOut as any).summary : null,
-    })
-    .eq("id", submissionId);
+      ai_prompt_version: prompt.id,
+      ai_confidence: parsedOut.overall_confidence,
+      ai_summary: parsedOut.summary,
+      classification_error: null,
+      rule_disagreement: ruleDisagreement,
+      ...(keepDisagreementReview ? {} : { rule_disagreement_resolution: null, rule_disagreement_reviewed_at: null }),
+      ...reviewUpdate,
+      ...(runId ? { current_classification_run_id: runId } : {}),
+    },
+  });
 
-  return { ok: true as const, status: 200, violations: byCode.size, ms };
+  const contested = published.filter((v) => isContested(v.code)).length;
+  return { ok: true as const, status: 200, mode, violations: published.length, contested, heldForReview: held.length, ms, runId };
 }
-
-
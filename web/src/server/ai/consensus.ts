@@ -0,0 +1,117 @@
+import { env } from "@/lib/env";
+import { createProvider, getLLMProvider, type LLMProvider, type LLMProviderName } from "./llm";
+import type { ClassifierOutput, ClassifierViolation } from "./classification-schema";
+
+/**
+ * Consensus classification: the same input is classified by several voters
+ * (different models, or repeated samples of one model) and merged per code.
+ *
+ * A code is a consensus finding when a strict majority of the voters
+ * flag it; codes flagged by fewer voters are kept but marked contested.
+ */
+
+export type ConsensusVoter = { provider: LLMProvider; model?: string; label: string };
+
+export type CodeVotes = { votes: number; total: number; agreement: number; contested: boolean };
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "anthropic", "local", "fixture"];
+
+/**
+ * Voters from CLASSIFY_CONSENSUS_VOTERS ("model" or "provider:model", comma-separated),
+ * otherwise CLASSIFY_CONSENSUS_SAMPLES repeated samples of the default provider/model.
+ */
+export function resolveConsensusVoters(): ConsensusVoter[] {
+  const spec = (env.CLASSIFY_CONSENSUS_VOTERS || "").split(",").map((s) => s.trim()).filter(Boolean);
+  const providers = new Map<LLMProviderName, LLMProvider>();
+  const providerFor = (name: LLMProviderName) => {
+    if (name === getLLMProvider().name) return getLLMProvider();
+    if (!providers.has(name)) providers.set(name, createProvider(name));
+    return providers.get(name)!;
+  };
+
+  const voters: ConsensusVoter[] = [];
+  for (const entry of spec) {
+    const idx = entry.indexOf(":");
+    const prefix = idx > 0 ? entry.slice(0, idx) : "";
+    if (PROVIDER_NAMES.includes(prefix as LLMProviderName)) {
+      const provider = providerFor(prefix as LLMProviderName);
+      const model = entry.slice(idx + 1) || undefined;
+      if (provider.configured) voters.push({ provider, model, label: `${provider.name}:${model || provider.defaultModel("classify")}` });
+      else console.warn("consensus:voter_not_configured", { voter: entry, provider: provider.name });
+    } else {
+      const provider = getLLMProvider();
+      voters.push({ provider, model: entry, label: `${provider.name}:${entry}` });
+    }
+  }
+  if (voters.length >= 2) return voters;
+
+  const provider = getLLMProvider();
+  const samples = Math.max(2, env.CLASSIFY_CONSENSUS_SAMPLES);
+  if (spec.length > 0) {
+    // A voter list that leaves fewer than two usable voters is a config error, not a request for samples
+    console.error("consensus:voters_misconfigured", {
+      configured: spec,
+      usable: voters.map((v) => v.label),
+      fallback: `${samples} samples of ${provider.name}:${provider.defaultModel("classify")}`,
+    });
+  }
+  return Array.from({ length: samples }, () => ({ provider, label: `${provider.name}:${provider.defaultModel("classify")}` }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Merge validated outputs into one output plus per-code vote counts.
+ * `total` is the number of voters asked; a voter whose output was unusable counts as not flagging anything.
+ */
+export function mergeConsensus(outputs: ClassifierOutput[], total = outputs.length): { output: ClassifierOutput; votes: Record<string, CodeVotes> } {
+  const byCode = new Map<string, { list: ClassifierViolation[]; voters: Set<number> }>();
+  outputs.forEach((out, i) => {
+    for (const v of out.violations) {
+      const entry = byCode.get(v.code) ?? { list: [], voters: new Set<number>() };
+      entry.list.push(v);
+      entry.voters.add(i); // One vote per sample, even if a sample repeats a code
+      byCode.set(v.code, entry);
+    }
+  });
+
+  const votes: Record<string, CodeVotes> = {};
+  const violations: ClassifierViolation[] = [];
+  for (const [code, { list, voters }] of byCode) {
+    const count = voters.size;
+    const agreement = Math.round((count / total) * 1000) / 1000;
+    votes[code] = { votes: count, total, agreement, contested: count * 2 <= total };
+    const lead = list.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+    violations.push({
+      ...lead,
+      severity: Math.round(median(list.map((v) => v.severity))),
+      confidence: list.reduce((sum, v) => sum + v.confidence, 0) / list.length,
+      evidence_quotes: Array.from(new Set(list.flatMap((v) => v.evidence_quotes))),
+      evidence_span_indices: [],
+    });
+  }
+
+  // Summary from the sample whose codes best match the consensus set
+  const consensusCodes = new Set(Object.keys(votes).filter((c) => !votes[c].contested));
+  const score = (o: ClassifierOutput) => {
+    const codes = new Set(o.violations.map((v) => v.code));
+    let s = 0;
+    for (const c of codes) s += consensusCodes.has(c) ? 1 : -1;
+    for (const c of consensusCodes) if (!codes.has(c)) s -= 1;
+    return s;
+  };
+  const representative = outputs.reduce((a, b) => (score(b) > score(a) ? b : a));
+
+  return {
+    output: {
+      violations,
+      summary: representative.summary,
+      overall_confidence: outputs.reduce((sum, o) => sum + o.overall_confidence, 0) / outputs.length,
+    },
+    votes,
+  };
+}
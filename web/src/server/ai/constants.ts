@@ -26,3 +26,25 @@ export function truncateForAI(text: string): string {
   return truncated + "\n\n[TEXT TRUNCATED - original exceeded character limit]";
 }
 
+
+/**
+ * Approximate characters per token for English text. Used to size chunks
+ * without a tokenizer dependency; errs on the side of smaller chunks.
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Token budget for the message text of one classifier call (header, chunk and
+ * footer). Equal to AI_TEXT_CHAR_LIMIT, so typical messages stay one chunk.
+ */
+export const AI_CHUNK_TOKEN_BUDGET = AI_TEXT_CHAR_LIMIT / CHARS_PER_TOKEN;
+
+/**
+ * Maximum chunks per message. Longer messages keep the opening chunks and the
+ * last chunk (where a P.S. usually sits); the middle is skipped with a notice.
+ */
+export const AI_MAX_CHUNKS = 6;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
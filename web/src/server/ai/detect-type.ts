@@ -1,4 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { completeChat, getLLMProvider, parseJsonContent, type LLMContentPart, type LLMMessage } from "./llm";
 
 export type MessageType = "sms" | "email" | "web" | "social" | "other" | "unknown";
 
@@ -17,26 +18,19 @@ export async function detectScreenshotType(
   imageDataUrl: string,
   timeoutMs?: number // Optional timeout; omit for no timeout (recommended for GPT-5)
 ): Promise<TypeDetectionResult> {
-  const apiKey = process.env.OPENAI_API_KEY;
+  const llm = getLLMProvider();
   
-  // If no API key, return unknown
-  if (!apiKey) {
-    console.warn("/api/ocr:type_detection:no_api_key");
+  // If the provider isn't configured, return unknown
+  if (!llm.configured) {
+    console.warn("/api/ocr:type_detection:llm_not_configured", { provider: llm.name });
     return {
       type: "unknown",
       confidence: 0,
-      rationale: "No API key available",
+      rationale: "No model provider configured",
       usedModel: false,
     };
   }
   
-  console.log("/api/ocr:type_detection:api_key_present", { 
-    keyPrefix: apiKey.substring(0, 7),
-    keyLength: apiKey.length,
-  });
-
-  const model = "gpt-5-mini-2025-08-07";
-  
   const system = `You are classifying the medium/type of a screenshot by visually analyzing the image.
 
 Your task: Determine if this is an SMS message, email, web page, social media post, or other type.
@@ -64,106 +58,71 @@ Return STRICT JSON only (no markdown):
 
 Be conservative with confidence. Only use high confidence (≥0.7) when visual indicators are clear and unambiguous.`;
 
-  type ContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
-  type Message = { role: "system" | "user"; content: string | ContentPart[] };
-  
   // Send only the image - the vision model can see everything
-  const userContent: ContentPart[] = [
+  const userContent: LLMContentPart[] = [
     { type: "image_url", image_url: { url: imageDataUrl } }
   ];
   
-  const messages: Message[] = [
+  const messages: LLMMessage[] = [
     { role: "system", content: system },
     { role: "user", content: userContent },
   ];
   
-  try {
-    const controller = new AbortController();
-    const timeout = timeoutMs ? setTimeout(() => controller.abort(), timeoutMs) : undefined;
-    
-    const requestBody = { 
-      model, 
-      messages,
-      reasoning_effort: "low",
-      verbosity: "low",
-    };
-    
-    console.log("/api/ocr:type_detection:calling_openai", { 
-      model, 
-      messageCount: messages.length,
-      hasTimeout: !!timeoutMs,
-    });
-    
-    const startTime = Date.now();
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: { 
-        "Content-Type": "application/json", 
-        Authorization: `Bearer ${apiKey}` 
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal,
+  console.log("/api/ocr:type_detection:calling_llm", { 
+    provider: llm.name,
+    messageCount: messages.length,
+    hasTimeout: !!timeoutMs,
+  });
+  
+  const completion = await completeChat({ purpose: "detect_type", messages, timeoutMs, lowEffort: true });
+  
+  if (!completion.ok) {
+    console.error("/api/ocr:type_detection:llm_failed", { 
+      error: completion.error,
+      status: completion.status, 
+      elapsed: completion.ms,
+      detail: completion.detail,
+      model: completion.model,
     });
     
-    if (timeout) clearTimeout(timeout);
-    const elapsed = Date.now() - startTime;
-    
-    if (!resp.ok) {
-      const errorBody = await resp.json().catch(() => null);
-      console.error("/api/ocr:type_detection:openai_failed", { 
-        status: resp.status, 
-        elapsed,
-        error: errorBody,
-        model,
-      });
-      
-      return {
-        type: "unknown",
-        confidence: 0,
-        rationale: `OpenAI API failed with status ${resp.status}`,
-        usedModel: false,
-      };
-    }
-    
-    const json = await resp.json();
-    const content = (json as any)?.choices?.[0]?.message?.content?.trim() || "{}";
+    let rationale = "Network error";
+    if (completion.error === "timeout") rationale = "Request timeout";
+    else if (completion.error === "http_error") rationale = `Model API failed with status ${completion.status}`;
+    else if (completion.error === "fixture_missing") rationale = "No fixture for request";
+    return {
+      type: "unknown",
+      confidence: 0,
+      rationale,
+      usedModel: false,
+    };
+  }
+  
+  const content = completion.content;
+  
+  try {
+    const parsed = parseJsonContent(content) as any;
+    const type = ["sms", "email", "web", "social", "other", "unknown"].includes(parsed.type)
+      ? parsed.type
+      : "unknown";
+    const confidence = typeof parsed.confidence === "number" 
+      ? Math.max(0, Math.min(1, parsed.confidence))
+      : 0;
+    const rationale = typeof parsed.rationale === "string" ? parsed.rationale : undefined;
     
-    try {
-      const parsed = JSON.parse(content);
-      const type = ["sms", "email", "web", "social", "other", "unknown"].includes(parsed.type)
-        ? parsed.type
-        : "unknown";
-      const confidence = typeof parsed.confidence === "number" 
-        ? Math.max(0, Math.min(1, parsed.confidence))
-        : 0;
-      const rationale = typeof parsed.rationale === "string" ? parsed.rationale : undefined;
-      
-      return {
-        type,
-        confidence,
-        rationale,
-        usedModel: true,
-      };
-    } catch (parseError) {
-      console.warn("/api/ocr:type_detection:parse_failed", { content, error: String(parseError) });
-      
-      return {
-        type: "unknown",
-        confidence: 0,
-        rationale: "Failed to parse AI response",
-        usedModel: false,
-      };
-    }
-  } catch (error) {
-    const errorMsg = String(error);
-    console.warn("/api/ocr:type_detection:error", { error: errorMsg });
+    return {
+      type,
+      confidence,
+      rationale,
+      usedModel: true,
+    };
+  } catch (parseError) {
+    console.warn("/api/ocr:type_detection:parse_failed", { content, error: String(parseError) });
     
     return {
       type: "unknown",
       confidence: 0,
-      rationale: errorMsg.includes("abort") ? "Request timeout" : "Network error",
+      rationale: "Failed to parse AI response",
       usedModel: false,
     };
   }
 }
-
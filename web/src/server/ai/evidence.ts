@@ -0,0 +1,181 @@
+/**
+ * Resolve quoted evidence from the classifier to character offsets in `raw_text`.
+ *
+ * The model returns verbatim quotes, but OCR noise, curly quotes and collapsed
+ * whitespace mean a quote rarely matches byte-for-byte. Matching goes from
+ * strict to loose:
+ *   1. exact substring
+ *   2. substring after normalization (case, whitespace, quote/dash variants)
+ *   3. approximate substring (edit distance within ~20% of the quote length)
+ * Offsets always refer to the original text, so `text.slice(start, end)` is the
+ * highlighted span.
+ */
+
+export type EvidenceSpan = { text: string; start: number; end: number };
+
+const MIN_QUOTE_CHARS = 4;
+const MAX_QUOTE_CHARS = 500;
+const MAX_FUZZY_ERROR_RATIO = 0.2;
+
+type Normalized = { text: string; map: number[] };
+
+function normalizeChar(ch: string): string {
+  if (/[\u2018\u2019\u201A\u201B\u2032`]/.test(ch)) return "'";
+  if (/[\u201C\u201D\u201E\u201F\u2033]/.test(ch)) return '"';
+  if (/[\u2010-\u2015\u2212]/.test(ch)) return "-";
+  if (ch === "\u2026") return ".";
+  return ch.toLowerCase();
+}
+
+/** Lowercase, unify punctuation variants and collapse whitespace, keeping a map back to original offsets. */
+function normalizeWithMap(input: string): Normalized {
+  let text = "";
+  const map: number[] = [];
+  let lastWasSpace = true;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (/[\s\u00A0\u200B-\u200D\uFEFF]/.test(ch)) {
+      if (!lastWasSpace) {
+        text += " ";
+        map.push(i);
+        lastWasSpace = true;
+      }
+      continue;
+    }
+    text += normalizeChar(ch);
+    map.push(i);
+    lastWasSpace = false;
+  }
+  if (text.endsWith(" ")) {
+    text = text.slice(0, -1);
+    map.pop();
+  }
+  return { text, map };
+}
+
+function toOriginal(source: string, norm: Normalized, start: number, end: number): EvidenceSpan {
+  const s = norm.map[start];
+  const e = norm.map[end - 1] + 1;
+  return { text: source.slice(s, e), start: s, end: e };
+}
+
+/**
+ * Best approximate occurrence of `pattern` in `text` (semi-global edit distance).
+ * Returns the normalized-space range with the fewest edits, or null if none is close enough.
+ */
+function fuzzyFind(text: string, pattern: string, maxErrors: number): { start: number; end: number; errors: number } | null {
+  const m = pattern.length;
+  // prev[j]/cur[j]: edits to match pattern[0..j) ending at the current text position; starts[] tracks where that match began
+  let prev = new Array<number>(m + 1);
+  let prevStart = new Array<number>(m + 1);
+  let cur = new Array<number>(m + 1);
+  let curStart = new Array<number>(m + 1);
+  for (let j = 0; j <= m; j++) {
+    prev[j] = j;
+    prevStart[j] = 0;
+  }
+  let best: { start: number; end: number; errors: number } | null = null;
+
+  for (let i = 1; i <= text.length; i++) {
+    cur[0] = 0;
+    curStart[0] = i;
+    const tc = text[i - 1];
+    for (let j = 1; j <= m; j++) {
+      const sub = prev[j - 1] + (pattern[j - 1] === tc ? 0 : 1);
+      const del = prev[j] + 1;
+      const ins = cur[j - 1] + 1;
+      if (sub <= del && sub <= ins) {
+        cur[j] = sub;
+        curStart[j] = prevStart[j - 1];
+      } else if (del <= ins) {
+        cur[j] = del;
+        curStart[j] = prevStart[j];
+      } else {
+        cur[j] = ins;
+        curStart[j] = curStart[j - 1];
+      }
+    }
+    if (cur[m] <= maxErrors && (!best || cur[m] < best.errors)) {
+      best = { start: curStart[m], end: i, errors: cur[m] };
+      if (cur[m] === 0) break;
+    }
+    [prev, cur] = [cur, prev];
+    [prevStart, curStart] = [curStart, prevStart];
+  }
+  return best;
+}
+
+/** Trim edge whitespace from a resolved span so highlights don't start or end mid-gap. */
+function tidy(source: string, span: EvidenceSpan): EvidenceSpan {
+  let { start, end } = span;
+  while (start < end && /\s/.test(source[start])) start++;
+  while (end > start && /\s/.test(source[end - 1])) end--;
+  return { text: source.slice(start, end), start, end };
+}
+
+export function resolveEvidenceSpan(source: string, quote: string, norm?: Normalized): EvidenceSpan | null {
+  const q = quote.trim().replace(/^["'\u201C\u2018]+|["'\u201D\u2019]+$/g, "").trim().slice(0, MAX_QUOTE_CHARS);
+  if (q.length < MIN_QUOTE_CHARS || !source) return null;
+
+  const exact = source.indexOf(q);
+  if (exact >= 0) return { text: q, start: exact, end: exact + q.length };
+
+  const src = norm ?? normalizeWithMap(source);
+  const nq = normalizeWithMap(q).text;
+  if (!nq) return null;
+
+  const idx = src.text.indexOf(nq);
+  if (idx >= 0) return tidy(source, toOriginal(source, src, idx, idx + nq.length));
+
+  const maxErrors = Math.max(1, Math.floor(nq.length * MAX_FUZZY_ERROR_RATIO));
+  const hit = fuzzyFind(src.text, nq, maxErrors);
+  if (!hit || hit.end <= hit.start) return null;
+  return tidy(source, toOriginal(source, src, hit.start, hit.end));
+}
+
+/**
+ * Resolve every quote against `source`; unresolvable quotes are dropped.
+ * Spans come back sorted by position with duplicates removed.
+ */
+export function resolveEvidenceSpans(source: string | null | undefined, quotes: string[]): { spans: EvidenceSpan[]; unresolved: string[] } {
+  const text = source || "";
+  const norm = normalizeWithMap(text);
+  const spans: EvidenceSpan[] = [];
+  const unresolved: string[] = [];
+  for (const quote of quotes) {
+    const span = resolveEvidenceSpan(text, quote, norm);
+    if (!span) {
+      if (quote.trim()) unresolved.push(quote);
+      continue;
+    }
+    if (!spans.some((s) => s.start === span.start && s.end === span.end)) spans.push(span);
+  }
+  spans.sort((a, b) => a.start - b.start || a.end - b.end);
+  return { spans, unresolved };
+}
+
+/**
+ * Resolve quotes from a model that only saw some regions of `source` (one chunk
+ * of a long message). Each quote is matched within the regions in order and the
+ * offsets are shifted back onto the full text.
+ */
+export function resolveEvidenceSpansInRegions(
+  source: string | null | undefined,
+  regions: Array<{ start: number; end: number }>,
+  quotes: string[]
+): { spans: EvidenceSpan[]; unresolved: string[] } {
+  const text = source || "";
+  let pending = quotes;
+  const spans: EvidenceSpan[] = [];
+  for (const region of regions) {
+    if (pending.length === 0) break;
+    const local = resolveEvidenceSpans(text.slice(region.start, region.end), pending);
+    for (const s of local.spans) {
+      const shifted = { text: s.text, start: s.start + region.start, end: s.end + region.start };
+      if (!spans.some((x) => x.start === shifted.start && x.end === shifted.end)) spans.push(shifted);
+    }
+    pending = local.unresolved;
+  }
+  spans.sort((a, b) => a.start - b.start || a.end - b.end);
+  return { spans, unresolved: pending };
+}
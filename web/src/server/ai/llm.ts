@@ -0,0 +1,132 @@
+/**
+ * Provider-agnostic chat completion layer.
+ *
+ * Every model call in the pipeline (classification, sender extraction, PII
+ * detection, screenshot type detection, OCR fallback) goes through
+ * `completeChat()`. The concrete provider is chosen by `LLM_PROVIDER`:
+ *
+ * - "openai"    - OpenAI Chat Completions (default)
+ * - "anthropic" - Anthropic Messages API
+ * - "local"     - Any OpenAI-compatible server (Ollama, vLLM, LM Studio, ...)
+ * - "fixture"   - Deterministic replay from JSON files, for offline CI runs
+ *
+ * Callers build OpenAI-style messages; providers translate as needed.
+ */
+
+import { createHash } from "crypto";
+import { env } from "@/lib/env";
+import { createOpenAIProvider } from "./providers/openai";
+import { createAnthropicProvider } from "./providers/anthropic";
+import { createFixtureProvider } from "./providers/fixture";
+
+export type LLMProviderName = "openai" | "anthropic" | "local" | "fixture";
+
+/** What the call is for. Drives default model selection and fixture lookup. */
+export type LLMPurpose = "classify" | "sender" | "redact_pii" | "detect_type" | "ocr";
+
+export type LLMTextPart = { type: "text"; text: string };
+export type LLMImagePart = { type: "image_url"; image_url: { url: string } };
+export type LLMContentPart = LLMTextPart | LLMImagePart;
+
+export type LLMMessage = {
+  role: "system" | "user" | "assistant";
+  content: string | LLMContentPart[];
+};
+
+export type LLMRequest = {
+  purpose: LLMPurpose;
+  messages: LLMMessage[];
+  model?: string; // Overrides the provider's default for this purpose
+  timeoutMs?: number;
+  lowEffort?: boolean; // Ask reasoning models for low effort/verbosity where supported
+};
+
+export type LLMResult =
+  | { ok: true; content: string; model: string; provider: LLMProviderName; ms: number }
+  | {
+      ok: false;
+      error: "not_configured" | "http_error" | "network_error" | "timeout" | "fixture_missing";
+      status?: number;
+      detail?: unknown;
+      model: string;
+      provider: LLMProviderName;
+      ms: number;
+    };
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  /** False when required credentials/config are missing. */
+  configured: boolean;
+  defaultModel(purpose: LLMPurpose): string;
+  complete(req: LLMRequest): Promise<LLMResult>;
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+export function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "anthropic":
+      return createAnthropicProvider();
+    case "local":
+      return createOpenAIProvider({
+        name: "local",
+        baseUrl: env.LLM_LOCAL_BASE_URL,
+        apiKey: env.LLM_LOCAL_API_KEY || null,
+        requireApiKey: false,
+        modelOverride: env.LLM_LOCAL_MODEL,
+      });
+    case "fixture":
+      return createFixtureProvider({
+        dir: env.LLM_FIXTURE_DIR,
+        recordWith: env.LLM_FIXTURE_RECORD ? createProvider(env.LLM_FIXTURE_RECORD) : null,
+      });
+    case "openai":
+    default:
+      return createOpenAIProvider({
+        name: "openai",
+        baseUrl: "https://api.openai.com/v1",
+        apiKey: env.OPENAI_API_KEY || null,
+        requireApiKey: true,
+      });
+  }
+}
+
+/** Get the provider selected by `LLM_PROVIDER` (created once per process). */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) cachedProvider = createProvider(env.LLM_PROVIDER);
+  return cachedProvider;
+}
+
+export async function completeChat(req: LLMRequest): Promise<LLMResult> {
+  return getLLMProvider().complete(req);
+}
+
+/**
+ * Stable hash of a message list. Signed URLs change on every request, so data
+ * URLs are hashed by content and remote URLs lose their query strings.
+ */
+export function hashLLMMessages(messages: LLMMessage[], salt = ""): string {
+  const normalized = messages.map((m) => ({
+    role: m.role,
+    content:
+      typeof m.content === "string"
+        ? m.content
+        : m.content.map((p) => {
+            if (p.type === "text") return p;
+            const url = p.image_url.url;
+            if (url.startsWith("data:")) return { image: createHash("sha256").update(url).digest("hex") };
+            return { image: url.split("?")[0] };
+          }),
+  }));
+  return createHash("sha256").update(salt + JSON.stringify(normalized)).digest("hex");
+}
+
+/**
+ * Extract a JSON object from model output. Tolerates markdown code fences,
+ * which some providers add even when told not to.
+ */
+export function parseJsonContent(content: string): unknown {
+  const trimmed = (content || "").trim();
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/i.exec(trimmed);
+  return JSON.parse(fenced ? fenced[1] : trimmed || "{}");
+}
@@ -0,0 +1,309 @@
+/**
+ * Versioned prompt registry for violation detection.
+ *
+ * A prompt template is a named, versioned text with placeholders that are filled
+ * from `VIOLATION_POLICIES` plus per-code guidance:
+ *
+ *   {{code_count}}     number of codes evaluated
+ *   {{code_list}}      "  AB003: Missing Full Entity Name" lines
+ *   {{code_guidance}}  "- AB003 (Missing Full Entity Name): ..." rules
+ *
+ * Built-in templates ship with the code. A row in `prompt_templates` with
+ * `is_active = true` overrides the built-in default, so prompts can be rolled
+ * forward or back without a deploy (see scripts/prompt-registry.ts).
+ */
+
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { getViolationPolicy } from "@/lib/violation-policies";
+
+export type PromptTemplate = {
+  name: string;
+  version: string;
+  codes: string[];
+  guidance: Record<string, string>;
+  template: string;
+};
+
+export type RenderedPrompt = {
+  name: string;
+  version: string;
+  /** `name@version`, recorded on classification runs and submissions */
+  id: string;
+  codes: string[];
+  system: string;
+  source: "builtin" | "database";
+};
+
+export const VIOLATION_CLASSIFIER = "violation_classifier";
+
+// Per-code rules, one literal map per built-in version so changing the rules of one version never changes another.
+// Multi-line guidance starts with a newline and is rendered as sub-bullets.
+const V1_GUIDANCE: Record<string, string> = Object.freeze({
+  AB003: `Only flag when NO full entity name appears anywhere in the message itself, not considering any landing page images. If any full entity name is present (e.g., "Let America Vote"), DO NOT return AB003. Do not flag commonly accepted committee abbreviations such as DNC, DCCC, DLCC, or DSCC.`,
+  AB004: `Flag when the message is ambiguous about whether donations go to a candidate or an organization/PAC. Do NOT flag joint or split fundraisers where the message names both the candidate and PAC and makes it reasonably clear that donations support both.`,
+  AB007: `
+  - Flag only for bullshit gimmicks that trick donors, like fake voting records or insinuating expiration of non-existent memberships/subscriptions. Flag "Democratic Membership" + donation ask (e.g., "Democratic Membership LAPSED—chip in $15 to renew")—this falsely implies donating renews official party membership. Do NOT flag candidate/committee supporter labels (e.g., "Team Pelosi Membership"). Do NOT flag political rhetoric or news claims.`,
+  AB008: `
+  - Use when the message advertises a matching program (e.g., "500% match").
+  - Rationale text should clearly state that political committees almost never run genuine donor matching programs, and that such claims are highly improbable and misleading to donors.
+  - Do NOT say "unsupported" or "not documented," since we cannot know whether documentation exists.
+  - Use direct phrasing such as:
+    "This solicitation advertises a '500%-MATCH.' Political committees almost never run genuine donor matching programs, making this claim highly improbable and misleading to donors."`,
+  AB009: `
+  - Flag when the message uses ActBlue's name inappropriately or in a disparaging manner.
+  - Examples include: suggesting ActBlue "may go away at any minute," falsely implying security or technical problems with ActBlue's platform, misrepresenting communications as being from ActBlue (e.g., sender name like "NEW ActBlue Update" when actually from a different entity), or undermining donor trust in ActBlue.
+  - Do NOT flag legitimate mentions of ActBlue (e.g., "Donate via ActBlue") or factual references to the platform (e.g., "Republicans Subpoenaed ActBlue").`,
+});
+
+// v2 adds AB001, AB002, AB005 and AB006
+const V2_GUIDANCE: Record<string, string> = Object.freeze({
+  AB001: `Flag only when the message presents itself as coming from a different candidate, official or organization than the actual sender, or uses a candidate's or organization's name in a way that implies their endorsement or authorization (e.g., "Obama needs you" from an unaffiliated PAC). Do NOT flag mere mentions of public figures, opponents, or issues. AB001 findings are held for human review before they are shown.`,
+  AB002: `
+  - Flag when the message claims or implies that a donation goes directly to a specific individual rather than to the committee (e.g., "send $20 straight to Jill so she can pay her legal bills," "your gift goes directly to Nancy," "help Joe personally").
+  - Do NOT flag standard campaign asks where the candidate's own committee is raising money for the campaign (e.g., "chip in to Jane's campaign"), or asks to support a candidate's race without implying personal receipt of funds.`,
+  AB003: `Only flag when NO full entity name appears anywhere in the message itself, not considering any landing page images. If any full entity name is present (e.g., "Let America Vote"), DO NOT return AB003. Do not flag commonly accepted committee abbreviations such as DNC, DCCC, DLCC, or DSCC.`,
+  AB004: `Flag when the message is ambiguous about whether donations go to a candidate or an organization/PAC. Do NOT flag joint or split fundraisers where the message names both the candidate and PAC and makes it reasonably clear that donations support both.`,
+  AB005: `
+  - Judge ONLY against the contribution form (landing page screenshot and landing page text). If no landing page is provided, do NOT return AB005.
+  - Flag when the form has no logo or name of the entity receiving the money, or when the form's branding does not match the entity the message claims to raise for (e.g., the message says "Official Democratic Petition" but the form belongs to an unrelated PAC).
+  - Quote the relevant form text in the rationale.`,
+  AB006: `
+  - Judge ONLY against the contribution form (landing page screenshot and landing page text). If no landing page is provided, do NOT return AB006.
+  - Flag when the recipient is a PAC but the form does not make clear that the donation goes to a PAC (e.g., the form only shows a candidate's photo or name, or hides the PAC name in fine print).
+  - Do NOT flag forms whose header or contribution disclaimer clearly names the PAC as the recipient.`,
+  AB007: `
+  - Flag only for bullshit gimmicks that trick donors, like fake voting records or insinuating expiration of non-existent memberships/subscriptions. Flag "Democratic Membership" + donation ask (e.g., "Democratic Membership LAPSED—chip in $15 to renew")—this falsely implies donating renews official party membership. Do NOT flag candidate/committee supporter labels (e.g., "Team Pelosi Membership"). Do NOT flag political rhetoric or news claims.`,
+  AB008: `
+  - Use when the message advertises a matching program (e.g., "500% match").
+  - Rationale text should clearly state that political committees almost never run genuine donor matching programs, and that such claims are highly improbable and misleading to donors.
+  - Do NOT say "unsupported" or "not documented," since we cannot know whether documentation exists.
+  - Use direct phrasing such as:
+    "This solicitation advertises a '500%-MATCH.' Political committees almost never run genuine donor matching programs, making this claim highly improbable and misleading to donors."`,
+  AB009: `
+  - Flag when the message uses ActBlue's name inappropriately or in a disparaging manner.
+  - Examples include: suggesting ActBlue "may go away at any minute," falsely implying security or technical problems with ActBlue's platform, misrepresenting communications as being from ActBlue (e.g., sender name like "NEW ActBlue Update" when actually from a different entity), or undermining donor trust in ActBlue.
+  - Do NOT flag legitimate mentions of ActBlue (e.g., "Donate via ActBlue") or factual references to the platform (e.g., "Republicans Subpoenaed ActBlue").`,
+});
+
+// v3 keeps the v2 rules; only the evidence format changed
+const V3_GUIDANCE: Record<string, string> = Object.freeze({
+  AB001: `Flag only when the message presents itself as coming from a different candidate, official or organization than the actual sender, or uses a candidate's or organization's name in a way that implies their endorsement or authorization (e.g., "Obama needs you" from an unaffiliated PAC). Do NOT flag mere mentions of public figures, opponents, or issues. AB001 findings are held for human review before they are shown.`,
+  AB002: `
+  - Flag when the message claims or implies that a donation goes directly to a specific individual rather than to the committee (e.g., "send $20 straight to Jill so she can pay her legal bills," "your gift goes directly to Nancy," "help Joe personally").
+  - Do NOT flag standard campaign asks where the candidate's own committee is raising money for the campaign (e.g., "chip in to Jane's campaign"), or asks to support a candidate's race without implying personal receipt of funds.`,
+  AB003: `Only flag when NO full entity name appears anywhere in the message itself, not considering any landing page images. If any full entity name is present (e.g., "Let America Vote"), DO NOT return AB003. Do not flag commonly accepted committee abbreviations such as DNC, DCCC, DLCC, or DSCC.`,
+  AB004: `Flag when the message is ambiguous about whether donations go to a candidate or an organization/PAC. Do NOT flag joint or split fundraisers where the message names both the candidate and PAC and makes it reasonably clear that donations support both.`,
+  AB005: `
+  - Judge ONLY against the contribution form (landing page screenshot and landing page text). If no landing page is provided, do NOT return AB005.
+  - Flag when the form has no logo or name of the entity receiving the money, or when the form's branding does not match the entity the message claims to raise for (e.g., the message says "Official Democratic Petition" but the form belongs to an unrelated PAC).
+  - Quote the relevant form text in the rationale.`,
+  AB006: `
+  - Judge ONLY against the contribution form (landing page screenshot and landing page text). If no landing page is provided, do NOT return AB006.
+  - Flag when the recipient is a PAC but the form does not make clear that the donation goes to a PAC (e.g., the form only shows a candidate's photo or name, or hides the PAC name in fine print).
+  - Do NOT flag forms whose header or contribution disclaimer clearly names the PAC as the recipient.`,
+  AB007: `
+  - Flag only for bullshit gimmicks that trick donors, like fake voting records or insinuating expiration of non-existent memberships/subscriptions. Flag "Democratic Membership" + donation ask (e.g., "Democratic Membership LAPSED—chip in $15 to renew")—this falsely implies donating renews official party membership. Do NOT flag candidate/committee supporter labels (e.g., "Team Pelosi Membership"). Do NOT flag political rhetoric or news claims.`,
+  AB008: `
+  - Use when the message advertises a matching program (e.g., "500% match").
+  - Rationale text should clearly state that political committees almost never run genuine donor matching programs, and that such claims are highly improbable and misleading to donors.
+  - Do NOT say "unsupported" or "not documented," since we cannot know whether documentation exists.
+  - Use direct phrasing such as:
+    "This solicitation advertises a '500%-MATCH.' Political committees almost never run genuine donor matching programs, making this claim highly improbable and misleading to donors."`,
+  AB009: `
+  - Flag when the message uses ActBlue's name inappropriately or in a disparaging manner.
+  - Examples include: suggesting ActBlue "may go away at any minute," falsely implying security or technical problems with ActBlue's platform, misrepresenting communications as being from ActBlue (e.g., sender name like "NEW ActBlue Update" when actually from a different entity), or undermining donor trust in ActBlue.
+  - Do NOT flag legitimate mentions of ActBlue (e.g., "Donate via ActBlue") or factual references to the platform (e.g., "Republicans Subpoenaed ActBlue").`,
+});
+
+const CLASSIFIER_TEMPLATE_V1 = `Role: Political Fundraising Compliance Assistant
+
+Instructions:
+- Accept OCR text and an optional screenshot image of the message. Use BOTH sources: read the text carefully and visually inspect the image when present.
+- Evaluate only for the provided {{code_count}} internal violation codes:
+{{code_list}}
+
+- Output STRICT JSON with these top-level keys, in order:
+  1. violations (array)
+  2. summary (string)
+  3. overall_confidence (float, 0–1 inclusive)
+- Each violation is returned as a single object with these keys: code (string), title (string), rationale (string), evidence_span_indices (array of integers), severity (int 1–5), confidence (float 0–1 inclusive).
+- Emit at most one violation object per code; if multiple findings, merge rationales and union indices for that code.
+
+Specific rules and disambiguation:
+{{code_guidance}}
+- AB007, AB008, AB009: Merge contributing lines into one object per code.
+
+- All confidence values must be floats (0–1).
+- evidence_span_indices must point to text spans; if the evidence is image-only, use an empty array and explain in the rationale (e.g., "image shows unaffiliated candidates").
+- If the message is malformed or incomplete, return: {"violations": [], "summary": "Input message is malformed or incomplete.", "overall_confidence": 0.1}
+- If no policy violations are found, return: {"violations": [], "summary": "No clear violations.", "overall_confidence": 0.3}
+
+Output Format:
+- Output JSON only—no commentary or markdown.
+- Structure: { "violations": [ ... ], "summary": "...", "overall_confidence": ... }
+- Maintain the exact specified ordering of top-level keys and the strict schema.`;
+
+// v2 evaluates all nine AUP codes; AB005/AB006 are judged against the landing page
+const CLASSIFIER_TEMPLATE_V2 = `Role: Political Fundraising Compliance Assistant
+
+Instructions:
+- Accept OCR text and an optional screenshot image of the message. Use BOTH sources: read the text carefully and visually inspect the image when present.
+- The contribution form the message links to (landing page screenshot and extracted landing page text) may follow the message. Use it ONLY for codes that concern the form; judge every other code against the message itself.
+- Evaluate only for the provided {{code_count}} internal violation codes:
+{{code_list}}
+
+- Output STRICT JSON with these top-level keys, in order:
+  1. violations (array)
+  2. summary (string)
+  3. overall_confidence (float, 0–1 inclusive)
+- Each violation is returned as a single object with these keys: code (string), title (string), rationale (string), evidence_span_indices (array of integers), severity (int 1–5), confidence (float 0–1 inclusive).
+- Emit at most one violation object per code; if multiple findings, merge rationales and union indices for that code.
+
+Specific rules and disambiguation:
+{{code_guidance}}
+- Merge contributing lines into one object per code.
+
+- All confidence values must be floats (0–1).
+- evidence_span_indices must point to spans of the message text; if the evidence is image-only or on the landing page, use an empty array and explain in the rationale (e.g., "image shows unaffiliated candidates").
+- If the message is malformed or incomplete, return: {"violations": [], "summary": "Input message is malformed or incomplete.", "overall_confidence": 0.1}
+- If no policy violations are found, return: {"violations": [], "summary": "No clear violations.", "overall_confidence": 0.3}
+
+Output Format:
+- Output JSON only—no commentary or markdown.
+- Structure: { "violations": [ ... ], "summary": "...", "overall_confidence": ... }
+- Maintain the exact specified ordering of top-level keys and the strict schema.`;
+
+// v3 asks for verbatim evidence quotes instead of span indices
+const CLASSIFIER_TEMPLATE_V3 = `Role: Political Fundraising Compliance Assistant
+
+Instructions:
+- Accept OCR text and an optional screenshot image of the message. Use BOTH sources: read the text carefully and visually inspect the image when present.
+- The contribution form the message links to (landing page screenshot and extracted landing page text) may follow the message. Use it ONLY for codes that concern the form; judge every other code against the message itself.
+- Evaluate only for the provided {{code_count}} internal violation codes:
+{{code_list}}
+
+- Output STRICT JSON with these top-level keys, in order:
+  1. violations (array)
+  2. summary (string)
+  3. overall_confidence (float, 0–1 inclusive)
+- Each violation is returned as a single object with these keys: code (string), title (string), rationale (string), evidence_quotes (array of strings), severity (int 1–5), confidence (float 0–1 inclusive).
+- Emit at most one violation object per code; if multiple findings, merge rationales and combine evidence_quotes for that code.
+
+Specific rules and disambiguation:
+{{code_guidance}}
+- Merge contributing lines into one object per code.
+
+- All confidence values must be floats (0–1).
+- evidence_quotes must be copied VERBATIM from the message text (the exact words, a short phrase or sentence each, no paraphrasing, no ellipses). Quote only the words that show the violation. If the evidence is image-only or on the landing page, use an empty array and explain in the rationale (e.g., "image shows unaffiliated candidates").
+- If the message is malformed or incomplete, return: {"violations": [], "summary": "Input message is malformed or incomplete.", "overall_confidence": 0.1}
+- If no policy violations are found, return: {"violations": [], "summary": "No clear violations.", "overall_confidence": 0.3}
+
+Output Format:
+- Output JSON only—no commentary or markdown.
+- Structure: { "violations": [ ... ], "summary": "...", "overall_confidence": ... }
+- Maintain the exact specified ordering of top-level keys and the strict schema.`;
+
+/**
+ * Templates shipped with the code, oldest first. The last one per name is the default.
+ * A version's guidance and template are what its name means on recorded runs: add a version instead of editing one.
+ */
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: VIOLATION_CLASSIFIER,
+    version: "v1",
+    codes: ["AB003", "AB004", "AB007", "AB008", "AB009"],
+    guidance: V1_GUIDANCE,
+    template: CLASSIFIER_TEMPLATE_V1,
+  },
+  {
+    name: VIOLATION_CLASSIFIER,
+    version: "v2",
+    codes: ["AB001", "AB002", "AB003", "AB004", "AB005", "AB006", "AB007", "AB008", "AB009"],
+    guidance: V2_GUIDANCE,
+    template: CLASSIFIER_TEMPLATE_V2,
+  },
+  {
+    name: VIOLATION_CLASSIFIER,
+    version: "v3",
+    codes: ["AB001", "AB002", "AB003", "AB004", "AB005", "AB006", "AB007", "AB008", "AB009"],
+    guidance: V3_GUIDANCE,
+    template: CLASSIFIER_TEMPLATE_V3,
+  },
+];
+
+export function renderPrompt(t: PromptTemplate): string {
+  const codeList = t.codes
+    .map((code) => `  ${code}: ${getViolationPolicy(code)?.title ?? code}`)
+    .join("\n");
+  const codeGuidance = t.codes
+    .filter((code) => t.guidance[code])
+    .map((code) => {
+      const title = getViolationPolicy(code)?.title ?? code;
+      const g = t.guidance[code];
+      return `- ${code} (${title}):${g.startsWith("\n") ? g : ` ${g}`}`;
+    })
+    .join("\n");
+  return t.template
+    .replaceAll("{{code_count}}", String(t.codes.length))
+    .replaceAll("{{code_list}}", codeList)
+    .replaceAll("{{code_guidance}}", codeGuidance);
+}
+
+function toRendered(t: PromptTemplate, source: RenderedPrompt["source"]): RenderedPrompt {
+  return {
+    name: t.name,
+    version: t.version,
+    id: `${t.name}@${t.version}`,
+    codes: t.codes,
+    system: renderPrompt(t),
+    source,
+  };
+}
+
+export function getBuiltinPrompt(name: string, version?: string): PromptTemplate | null {
+  const candidates = BUILTIN_PROMPTS.filter((p) => p.name === name);
+  if (version) return candidates.find((p) => p.version === version) ?? null;
+  return candidates[candidates.length - 1] ?? null;
+}
+
+// Active-version lookups are cached briefly so a rollout takes effect within a minute
+const CACHE_TTL_MS = 60_000;
+const activeCache = new Map<string, { at: number; prompt: RenderedPrompt }>();
+
+/**
+ * Resolve the prompt to use for `name`: the active database version if one
+ * exists, otherwise the newest built-in.
+ */
+export async function getActivePrompt(name: string): Promise<RenderedPrompt> {
+  const cached = activeCache.get(name);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.prompt;
+
+  let resolved: RenderedPrompt | null = null;
+  try {
+    const supabase = getSupabaseServer();
+    const { data, error } = await supabase
+      .from("prompt_templates")
+      .select("name, version, codes, guidance, template")
+      .eq("name", name)
+      .eq("is_active", true)
+      .limit(1)
+      .maybeSingle();
+    if (!error && data) {
+      const row = data as PromptTemplate;
+      resolved = toRendered(
+        { name: row.name, version: row.version, codes: row.codes || [], guidance: row.guidance || {}, template: row.template },
+        "database"
+      );
+    }
+  } catch (e) {
+    console.warn("getActivePrompt:lookup_failed", { name, error: String(e) });
+  }
+
+  if (!resolved) {
+    const builtin = getBuiltinPrompt(name);
+    if (!builtin) throw new Error(`Unknown prompt: ${name}`);
+    resolved = toRendered(builtin, "builtin");
+  }
+  activeCache.set(name, { at: Date.now(), prompt: resolved });
+  return resolved;
+}
@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { env } from "@/lib/env";
+import type { LLMContentPart, LLMMessage, LLMProvider, LLMPurpose, LLMRequest, LLMResult } from "../llm";
+
+const ANTHROPIC_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const MAX_TOKENS = 4096;
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } };
+
+function toAnthropicBlock(part: LLMContentPart): AnthropicBlock {
+  if (part.type === "text") return { type: "text", text: part.text };
+  const url = part.image_url.url;
+  const dataMatch = /^data:([^;]+);base64,([\s\S]*)$/.exec(url);
+  if (dataMatch) {
+    return { type: "image", source: { type: "base64", media_type: dataMatch[1], data: dataMatch[2] } };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+/**
+ * Translate OpenAI-style messages: system messages are hoisted into the
+ * top-level `system` field, consecutive same-role messages are merged
+ * (the Messages API requires alternating roles).
+ */
+function toAnthropicPayload(messages: LLMMessage[]) {
+  const systemParts: string[] = [];
+  const out: Array<{ role: "user" | "assistant"; content: AnthropicBlock[] }> = [];
+  for (const m of messages) {
+    const parts: LLMContentPart[] = typeof m.content === "string" ? [{ type: "text", text: m.content }] : m.content;
+    if (m.role === "system") {
+      for (const p of parts) if (p.type === "text") systemParts.push(p.text);
+      continue;
+    }
+    const blocks = parts.map(toAnthropicBlock);
+    const last = out[out.length - 1];
+    if (last && last.role === m.role) {
+      last.content.push(...blocks);
+    } else {
+      out.push({ role: m.role, content: blocks });
+    }
+  }
+  return { system: systemParts.join("\n\n") || undefined, messages: out };
+}
+
+export function createAnthropicProvider(): LLMProvider {
+  const apiKey = env.ANTHROPIC_API_KEY || null;
+  const configured = !!apiKey;
+
+  function defaultModel(purpose: LLMPurpose): string {
+    void purpose; // One model for every purpose unless overridden per request
+    return env.ANTHROPIC_MODEL;
+  }
+
+  async function complete(req: LLMRequest): Promise<LLMResult> {
+    const model = req.model || defaultModel(req.purpose);
+    const start = Date.now();
+    const base = { model, provider: "anthropic" as const };
+    if (!configured) {
+      return { ok: false, error: "not_configured", ...base, ms: 0 };
+    }
+
+    const payload = toAnthropicPayload(req.messages);
+    try {
+      const resp = await fetch(ANTHROPIC_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey as string,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({ model, max_tokens: MAX_TOKENS, ...payload }),
+        signal: req.timeoutMs ? AbortSignal.timeout(req.timeoutMs) : undefined,
+      });
+      const json = await resp.json().catch(() => null);
+      if (!resp.ok) {
+        return { ok: false, error: "http_error", status: resp.status, detail: json, ...base, ms: Date.now() - start };
+      }
+      const blocks = Array.isArray((json as any)?.content) ? ((json as any).content as Array<any>) : [];
+      const content = blocks
+        .filter((b) => b?.type === "text" && typeof b.text === "string")
+        .map((b) => b.text as string)
+        .join("")
+        .trim();
+      return { ok: true, content, ...base, ms: Date.now() - start };
+    } catch (e) {
+      const isTimeout = e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError");
+      return { ok: false, error: isTimeout ? "timeout" : "network_error", detail: String(e), ...base, ms: Date.now() - start };
+    }
+  }
+
+  return { name: "anthropic", configured, defaultModel, complete };
+}
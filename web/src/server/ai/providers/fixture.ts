@@ -0,0 +1,64 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { hashLLMMessages, type LLMMessage, type LLMProvider, type LLMPurpose, type LLMRequest, type LLMResult } from "../llm";
+
+/**
+ * Deterministic replay provider for offline runs.
+ *
+ * Responses live in `<LLM_FIXTURE_DIR>/<purpose>/<key>.json`, where `key` is a
+ * hash of the request messages. When no exact match exists the provider falls
+ * back to `<purpose>/default.json`. File shape: `{ "content": string | object }`.
+ *
+ * With a `recordWith` provider, misses are forwarded to it and the response is
+ * written to disk so the next run replays it.
+ */
+
+type FixtureFile = { content: unknown; model?: string };
+
+export function fixtureKey(purpose: LLMPurpose, messages: LLMMessage[]): string {
+  return hashLLMMessages(messages, purpose).slice(0, 24);
+}
+
+function readFixture(path: string): FixtureFile | null {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as FixtureFile;
+  } catch {
+    return null;
+  }
+}
+
+export function createFixtureProvider(opts: { dir: string; recordWith?: LLMProvider | null }): LLMProvider {
+  const dir = resolve(process.cwd(), opts.dir);
+
+  function defaultModel(purpose: LLMPurpose): string {
+    return `fixture:${purpose}`;
+  }
+
+  async function complete(req: LLMRequest): Promise<LLMResult> {
+    const start = Date.now();
+    const key = fixtureKey(req.purpose, req.messages);
+    const exactPath = join(dir, req.purpose, `${key}.json`);
+
+    const exact = readFixture(exactPath);
+    if (!exact && opts.recordWith) {
+      const live = await opts.recordWith.complete(req);
+      if (live.ok) {
+        mkdirSync(join(dir, req.purpose), { recursive: true });
+        writeFileSync(exactPath, JSON.stringify({ content: live.content, model: live.model }, null, 2) + "\n");
+        console.log("llm:fixture:recorded", { purpose: req.purpose, key });
+      }
+      return live;
+    }
+
+    const hit = exact || readFixture(join(dir, req.purpose, "default.json"));
+    const model = hit?.model || req.model || defaultModel(req.purpose);
+    if (!hit) {
+      console.warn("llm:fixture:missing", { purpose: req.purpose, key, dir });
+      return { ok: false, error: "fixture_missing", detail: { key }, model, provider: "fixture", ms: Date.now() - start };
+    }
+    const content = typeof hit.content === "string" ? hit.content : JSON.stringify(hit.content);
+    return { ok: true, content, model, provider: "fixture", ms: Date.now() - start };
+  }
+
+  return { name: "fixture", configured: true, defaultModel, complete };
+}
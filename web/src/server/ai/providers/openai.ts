@@ -0,0 +1,78 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { LLMProvider, LLMProviderName, LLMPurpose, LLMRequest, LLMResult } from "../llm";
+
+// Defaults match what each call site used before the provider layer existed
+const DEFAULT_MODELS: Record<LLMPurpose, string> = {
+  classify: "gpt-4o-mini",
+  sender: "gpt-5-mini-2025-08-07",
+  redact_pii: "gpt-5-mini-2025-08-07",
+  detect_type: "gpt-5-mini-2025-08-07",
+  ocr: "gpt-4o-mini",
+};
+
+// Purposes that honor OPENAI_MODEL_VISION
+const VISION_MODEL_PURPOSES: LLMPurpose[] = ["classify", "sender", "ocr"];
+
+export type OpenAIProviderOptions = {
+  name: Extract<LLMProviderName, "openai" | "local">;
+  baseUrl: string;
+  apiKey: string | null;
+  requireApiKey: boolean;
+  modelOverride?: string; // Single model for every purpose (local servers usually load one)
+};
+
+/**
+ * Chat Completions provider. Used for OpenAI itself and for any
+ * OpenAI-compatible local server.
+ */
+export function createOpenAIProvider(opts: OpenAIProviderOptions): LLMProvider {
+  const configured = !opts.requireApiKey || !!opts.apiKey;
+
+  function defaultModel(purpose: LLMPurpose): string {
+    if (opts.modelOverride) return opts.modelOverride;
+    if (VISION_MODEL_PURPOSES.includes(purpose) && process.env.OPENAI_MODEL_VISION) {
+      return process.env.OPENAI_MODEL_VISION;
+    }
+    return DEFAULT_MODELS[purpose];
+  }
+
+  async function complete(req: LLMRequest): Promise<LLMResult> {
+    const model = req.model || defaultModel(req.purpose);
+    const start = Date.now();
+    const base = { model, provider: opts.name };
+    if (!configured) {
+      return { ok: false, error: "not_configured", ...base, ms: 0 };
+    }
+
+    const body: Record<string, unknown> = { model, messages: req.messages };
+    // reasoning_effort/verbosity are OpenAI-specific; local servers may reject unknown params
+    if (req.lowEffort && opts.name === "openai") {
+      body.reasoning_effort = "low";
+      body.verbosity = "low";
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (opts.apiKey) headers.Authorization = `Bearer ${opts.apiKey}`;
+
+    try {
+      const resp = await fetch(`${opts.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: req.timeoutMs ? AbortSignal.timeout(req.timeoutMs) : undefined,
+      });
+      const json = await resp.json().catch(() => null);
+      if (!resp.ok) {
+        return { ok: false, error: "http_error", status: resp.status, detail: json, ...base, ms: Date.now() - start };
+      }
+      const maybeContent = (json as any)?.choices?.[0]?.message?.content;
+      const content = typeof maybeContent === "string" ? maybeContent.trim() : "";
+      return { ok: true, content, ...base, ms: Date.now() - start };
+    } catch (e) {
+      const isTimeout = e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError");
+      return { ok: false, error: isTimeout ? "timeout" : "network_error", detail: String(e), ...base, ms: Date.now() - start };
+    }
+  }
+
+  return { name: opts.name, configured, defaultModel, complete };
+}
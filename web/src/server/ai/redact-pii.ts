@@ -1,9 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { getSupabaseServer } from "@/lib/supabase-server";
 import { truncateForAI } from "./constants";
+import { completeChat, getLLMProvider, parseJsonContent, type LLMMessage } from "./llm";
 
 export interface PIIDetectionResult {
   strings_to_redact: string[];
   confidence: number;
+  /** Set when detection could not run (model call or parse failed), as opposed to finding nothing */
+  error?: string;
 }
 
 /**
@@ -14,18 +18,16 @@ export async function detectPII(
   rawText: string,
   emailFrom?: string | null
 ): Promise<PIIDetectionResult> {
-  const apiKey = process.env.OPENAI_API_KEY;
+  const llm = getLLMProvider();
   
-  if (!apiKey) {
-    console.warn("detectPII:no_api_key");
+  if (!llm.configured) {
+    console.warn("detectPII:llm_not_configured", { provider: llm.name });
     return {
       strings_to_redact: [],
       confidence: 0,
     };
   }
 
-  const model = "gpt-5-mini-2025-08-07";
-
   const system = `You are identifying PERSONAL INFORMATION that should be redacted from a political fundraising message.
 
 Your task: Find ALL variations of the recipient's personal information (name variants, email addresses) that appear in the message. Do NOT redact the sender's or signer's name.
@@ -63,8 +65,6 @@ IMPORTANT: Return the exact strings as they appear in the text. If "Ryan," appea
 
 Be conservative with confidence. Only return high confidence (≥0.7) when you find clear personalized content.`;
 
-  type Message = { role: "system" | "user"; content: string };
-  
   // Build message text and apply character limit to prevent abuse
   let messageText = "";
   if (emailFrom) {
@@ -73,54 +73,41 @@ Be conservative with confidence. Only return high confidence (≥0.7) when you f
   messageText += String(rawText || "").trim() || "(none)";
   messageText = truncateForAI(messageText);
   
-  const messages: Message[] = [
+  const messages: LLMMessage[] = [
     { role: "system", content: system },
     { role: "user", content: messageText },
   ];
 
   try {
-    console.log("detectPII:calling_openai", { 
-      model, 
+    console.log("detectPII:calling_llm", { 
+      provider: llm.name,
       textLength: messageText.length,
       hasEmailFrom: !!emailFrom,
     });
     
-    const startTime = Date.now();
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: { 
-        "Content-Type": "application/json", 
-        Authorization: `Bearer ${apiKey}` 
-      },
-      body: JSON.stringify({ 
-        model, 
-        messages,
-        reasoning_effort: "low",
-        verbosity: "low",
-      }),
-    });
-    
-    const elapsed = Date.now() - startTime;
+    const completion = await completeChat({ purpose: "redact_pii", messages, lowEffort: true });
+    const elapsed = completion.ms;
     
-    if (!resp.ok) {
-      const errorBody = await resp.json().catch(() => null);
-      console.error("detectPII:openai_failed", { 
-        status: resp.status, 
+    if (!completion.ok) {
+      console.error("detectPII:llm_failed", { 
+        model: completion.model,
+        error: completion.error,
+        status: completion.status, 
         elapsed,
-        error: errorBody,
+        detail: completion.detail,
       });
       
       return {
         strings_to_redact: [],
         confidence: 0,
+        error: "llm_failed",
       };
     }
     
-    const json = await resp.json();
-    const content = (json as any)?.choices?.[0]?.message?.content?.trim() || "{}";
+    const content = completion.content;
     
     try {
-      const parsed = JSON.parse(content);
+      const parsed = parseJsonContent(content) as any;
       
       const stringsToRedact = Array.isArray(parsed.strings_to_redact) 
         ? parsed.strings_to_redact.filter((s: any) => typeof s === "string" && s.trim().length > 0)
@@ -142,6 +129,7 @@ Be conservative with confidence. Only return high confidence (≥0.7) when you f
       return {
         strings_to_redact: [],
         confidence: 0,
+        error: "parse_failed",
       };
     }
   } catch (error) {
@@ -151,7 +139,137 @@ Be conservative with confidence. Only return high confidence (≥0.7) when you f
     return {
       strings_to_redact: [],
       confidence: 0,
+      error: "exception",
     };
   }
 }
 
+
+export type RedactSubmissionResult =
+  | { ok: true; status: 200; redacted: boolean; reason?: string; fieldsUpdated?: string[]; confidence?: number }
+  | { ok: false; status: number; error: "not_found" | "detection_failed" | "update_failed"; detail?: unknown };
+
+/**
+ * Redact the submitter's PII from a submission's text fields.
+ * Idempotent: redacted strings are replaced with asterisks, so a second pass finds nothing new.
+ */
+export async function redactSubmissionPII(submissionId: string): Promise<RedactSubmissionResult> {
+  const supabase = getSupabaseServer();
+
+  // Load submission data
+  const { data: items, error: fetchError } = await supabase
+    .from("submissions")
+    .select("id, raw_text, email_body, email_subject, email_from")
+    .eq("id", submissionId)
+    .limit(1);
+
+  if (fetchError || !items?.[0]) {
+    console.error("redact-pii:not_found", { submissionId, error: fetchError });
+    return { ok: false, status: 404, error: "not_found" };
+  }
+
+  const submission = items[0] as {
+    id: string;
+    raw_text?: string | null;
+    email_body?: string | null;
+    email_subject?: string | null;
+    email_from?: string | null;
+  };
+
+  // Detect PII using AI
+  const piiResult = await detectPII(
+    submission.raw_text || "",
+    submission.email_from
+  );
+
+  console.log("redact-pii:detected", {
+    submissionId,
+    stringsFound: piiResult.strings_to_redact.length,
+    confidence: piiResult.confidence,
+    error: piiResult.error,
+  });
+
+  // A failed detection is retried by the job queue rather than treated as "no PII"
+  if (piiResult.error) {
+    return { ok: false, status: 502, error: "detection_failed", detail: piiResult.error };
+  }
+
+  // If no PII detected or low confidence, skip redaction
+  if (piiResult.strings_to_redact.length === 0 || piiResult.confidence < 0.5) {
+    console.log("redact-pii:skipped", {
+      submissionId,
+      reason: "no_pii_or_low_confidence",
+      confidence: piiResult.confidence,
+    });
+    return { ok: true, status: 200, redacted: false, reason: "no_pii_detected", confidence: piiResult.confidence };
+  }
+
+  // Perform redaction on text fields - iterate over all strings to redact
+  const updates: Record<string, string | null> = {};
+
+  // Helper function to redact all PII strings from text
+  // Also redacts punctuation-stripped versions (e.g., "Ryan," → also redact "Ryan")
+  const redactText = (text: string): string => {
+    let redacted = text;
+    const stringsToRedact = new Set<string>();
+
+    // Collect all strings to redact, including punctuation-stripped versions
+    for (const piiString of piiResult.strings_to_redact) {
+      stringsToRedact.add(piiString);
+
+      // Also add version without trailing punctuation
+      const withoutPunctuation = piiString.replace(/[.,;:!?]+$/, "");
+      if (withoutPunctuation !== piiString && withoutPunctuation.length > 0) {
+        stringsToRedact.add(withoutPunctuation);
+      }
+    }
+
+    // Sort by length descending to redact longer strings first (avoid partial matches)
+    const sortedStrings = Array.from(stringsToRedact).sort((a, b) => b.length - a.length);
+
+    for (const piiString of sortedStrings) {
+      const asterisks = "*".repeat(piiString.length);
+      redacted = redacted.split(piiString).join(asterisks);
+    }
+    return redacted;
+  };
+
+  if (submission.raw_text) {
+    updates.raw_text = redactText(submission.raw_text);
+  }
+
+  if (submission.email_body) {
+    updates.email_body = redactText(submission.email_body);
+  }
+
+  if (submission.email_subject) {
+    updates.email_subject = redactText(submission.email_subject);
+  }
+
+  // Update database with redacted text
+  if (Object.keys(updates).length > 0) {
+    const { error: updateError } = await supabase
+      .from("submissions")
+      .update(updates)
+      .eq("id", submissionId);
+
+    if (updateError) {
+      console.error("redact-pii:update_failed", {
+        submissionId,
+        error: updateError,
+      });
+      return { ok: false, status: 500, error: "update_failed", detail: updateError.message };
+    }
+
+    console.log("redact-pii:success", {
+      submissionId,
+      fieldsUpdated: Object.keys(updates),
+      stringsRedacted: piiResult.strings_to_redact,
+    });
+
+    return { ok: true, status: 200, redacted: true, fieldsUpdated: Object.keys(updates), confidence: piiResult.confidence };
+  }
+
+  console.log("redact-pii:no_updates", { submissionId });
+  return { ok: true, status: 200, redacted: false, reason: "no_text_fields" };
+}
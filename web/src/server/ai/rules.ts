@@ -0,0 +1,162 @@
+/**
+ * Deterministic rule engine for pattern-level AUP violations.
+ *
+ * Rules are regexes or phrases tied to one violation code, each with a weight
+ * (0–1). Rules live in the `violation_rules` table so they can be edited without
+ * a deploy; `BUILTIN_RULES` is the fallback when the table is empty or missing.
+ *
+ * Rules never create violations on their own. Their candidates are passed to the
+ * classifier as hints, their spans are attached to matching LLM violations, and
+ * a candidate the LLM rejects flags the case for human review.
+ */
+
+import { getSupabaseServer } from "@/lib/supabase-server";
+import type { EvidenceSpan } from "./evidence";
+
+export type ViolationRule = {
+  id: string;
+  code: string;
+  name: string;
+  kind: "regex" | "phrase";
+  pattern: string;
+  flags?: string | null; // regex flags; "g" is always added
+  weight: number;
+};
+
+export type RuleHit = { rule_id: string; rule_name: string; weight: number; span: EvidenceSpan };
+
+export type RuleCandidate = {
+  code: string;
+  /** Combined weight of distinct rules that matched: 1 - Π(1 - weight) */
+  score: number;
+  hits: RuleHit[];
+};
+
+/** Candidates at or above this score are hinted as likely and checked for disagreement */
+export const RULE_CANDIDATE_THRESHOLD = 0.5;
+
+const MAX_HITS_PER_RULE = 5;
+
+export const BUILTIN_RULES: ViolationRule[] = [
+  { id: "builtin:ab008-percent-match", code: "AB008", name: "Percent match offer", kind: "regex", pattern: "\\b\\d{2,4}\\s?%[\\s-]*match(ed|ing)?\\b", flags: "i", weight: 0.9 },
+  { id: "builtin:ab008-multiplier-match", code: "AB008", name: "Multiplier match offer", kind: "regex", pattern: "\\b(double|triple|quadruple|quintuple|[2-9]x|[2-9]-to-1)[\\s-]+match(ed|ing)?\\b", flags: "i", weight: 0.8 },
+  { id: "builtin:ab008-gifts-matched", code: "AB008", name: "Gifts will be matched", kind: "regex", pattern: "\\b(gifts?|donations?|contributions?)\\s+(will\\s+be\\s+|are\\s+(being\\s+)?)?matched\\b", flags: "i", weight: 0.6 },
+  { id: "builtin:ab007-membership-lapsed", code: "AB007", name: "Democratic membership lapsed/renew", kind: "regex", pattern: "\\bdemocratic\\s+(party\\s+)?membership[\\s\\S]{0,60}?\\b(lapsed|expired|expiring|expires|renew(al)?|cancell?ed|deactivated|inactive)\\b", flags: "i", weight: 0.85 },
+  { id: "builtin:ab007-voting-record", code: "AB007", name: "Fake voting record", kind: "regex", pattern: "\\byour\\s+(democratic\\s+|official\\s+)?(voting|voter|donor)\\s+record\\b", flags: "i", weight: 0.6 },
+  { id: "builtin:ab009-actblue-go-away", code: "AB009", name: "ActBlue may go away", kind: "regex", pattern: "\\bactblue\\b[\\s\\S]{0,40}?\\b(may|could|might|will|is\\s+about\\s+to)\\s+(go\\s+away|shut\\s+down|disappear|be\\s+shut\\s+down|be\\s+banned|go\\s+dark)\\b", flags: "i", weight: 0.9 },
+  { id: "builtin:ab009-from-actblue", code: "AB009", name: "Message presented as from ActBlue", kind: "regex", pattern: "\\b(new\\s+)?actblue\\s+(update|alert|notice|notification|security\\s+alert)\\b", flags: "i", weight: 0.5 },
+  { id: "builtin:ab002-straight-to", code: "AB002", name: "Donation sent straight to a person", kind: "regex", pattern: "\\b(send|rush|give)\\b[^.!?\\n]{0,30}\\b(straight|directly)\\s+to\\s+(him|her|them)\\b", flags: "i", weight: 0.6 },
+];
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Compile a rule; returns null (and logs) for invalid patterns so one bad row can't break classification. */
+function compileRule(rule: ViolationRule): RegExp | null {
+  try {
+    if (rule.kind === "phrase") {
+      const words = rule.pattern.trim().split(/\s+/).map(escapeRegex);
+      return new RegExp(`\\b${words.join("\\s+")}\\b`, "gi");
+    }
+    const flags = Array.from(new Set(`${rule.flags || ""}g`.split(""))).join("");
+    return new RegExp(rule.pattern, flags);
+  } catch (e) {
+    console.warn("rules:invalid_pattern", { id: rule.id, error: String(e) });
+    return null;
+  }
+}
+
+export function evaluateRules(text: string | null | undefined, rules: ViolationRule[]): RuleCandidate[] {
+  const source = text || "";
+  if (!source) return [];
+  const byCode = new Map<string, RuleCandidate>();
+  for (const rule of rules) {
+    const re = compileRule(rule);
+    if (!re) continue;
+    const hits: RuleHit[] = [];
+    for (const m of source.matchAll(re)) {
+      if (!m[0] || m.index == null) continue;
+      hits.push({ rule_id: rule.id, rule_name: rule.name, weight: rule.weight, span: { text: m[0], start: m.index, end: m.index + m[0].length } });
+      if (hits.length >= MAX_HITS_PER_RULE) break;
+    }
+    if (hits.length === 0) continue;
+    const candidate = byCode.get(rule.code) ?? { code: rule.code, score: 0, hits: [] };
+    candidate.hits.push(...hits);
+    byCode.set(rule.code, candidate);
+  }
+  for (const c of byCode.values()) {
+    // Each rule counts once, however often it matched
+    const weights = new Map(c.hits.map((h) => [h.rule_id, h.weight]));
+    const miss = Array.from(weights.values()).reduce((acc, w) => acc * (1 - Math.min(Math.max(w, 0), 1)), 1);
+    c.score = Math.round((1 - miss) * 1000) / 1000;
+    c.hits.sort((a, b) => a.span.start - b.span.start);
+  }
+  return Array.from(byCode.values()).sort((a, b) => b.score - a.score);
+}
+
+/** Hint block appended to the classifier input. Rules are evidence to weigh, not verdicts. */
+export function buildRuleHints(candidates: RuleCandidate[]): string | null {
+  if (candidates.length === 0) return null;
+  const lines = candidates.map((c) => {
+    const quotes = Array.from(new Set(c.hits.map((h) => `"${h.span.text}"`))).slice(0, 3).join(", ");
+    const strength = c.score >= RULE_CANDIDATE_THRESHOLD ? "likely" : "weak";
+    return `- ${c.code} (${strength}, score ${c.score.toFixed(2)}): ${quotes}`;
+  });
+  return `Automated pattern checks matched the following phrases. Treat them as hints only: confirm or reject each one against the policy rules above, and do not flag a code just because it appears here.\n${lines.join("\n")}`;
+}
+
+/** Candidates restricted to hits inside `regions` (the part of a long message one classifier call sees). */
+export function candidatesInRegions(candidates: RuleCandidate[], regions: Array<{ start: number; end: number }>): RuleCandidate[] {
+  return candidates
+    .map((c) => ({ ...c, hits: c.hits.filter((h) => regions.some((r) => h.span.start >= r.start && h.span.end <= r.end)) }))
+    .filter((c) => c.hits.length > 0);
+}
+
+export type RuleDisagreement = {
+  /** Rules scored the code as likely, the LLM did not flag it */
+  rule_only: Array<{ code: string; score: number; quotes: string[] }>;
+  /** The LLM flagged a code that has enabled rules, none of which matched */
+  llm_only: string[];
+};
+
+export function compareWithLLM(candidates: RuleCandidate[], llmCodes: string[], rules: ViolationRule[]): RuleDisagreement | null {
+  const ruleCodes = new Set(rules.map((r) => r.code));
+  const rule_only = candidates
+    .filter((c) => c.score >= RULE_CANDIDATE_THRESHOLD && !llmCodes.includes(c.code))
+    .map((c) => ({ code: c.code, score: c.score, quotes: c.hits.map((h) => h.span.text).slice(0, 5) }));
+  const llm_only = llmCodes.filter((code) => ruleCodes.has(code) && !candidates.some((c) => c.code === code));
+  // Only rule-backed rejections need a human: LLM-only findings are routine for codes rules can't express
+  if (rule_only.length === 0) return null;
+  return { rule_only, llm_only };
+}
+
+/** The rule-only codes of a disagreement; a reviewed disagreement stays resolved while this key is unchanged. */
+export function ruleDisagreementKey(d: RuleDisagreement | null | undefined): string {
+  return (d?.rule_only || []).map((r) => r.code).sort().join(",");
+}
+
+const CACHE_TTL_MS = 60_000;
+let rulesCache: { at: number; rules: ViolationRule[] } | null = null;
+
+/** Enabled rules from the database, falling back to BUILTIN_RULES. Cached for a minute. */
+export async function getActiveRules(): Promise<ViolationRule[]> {
+  if (rulesCache && Date.now() - rulesCache.at < CACHE_TTL_MS) return rulesCache.rules;
+  let rules: ViolationRule[] = BUILTIN_RULES;
+  try {
+    const supabase = getSupabaseServer();
+    const { data, error } = await supabase
+      .from("violation_rules")
+      .select("id, code, name, kind, pattern, flags, weight, enabled");
+    // Once the table has rows it is authoritative, even if every rule is disabled
+    if (!error && data && data.length > 0) {
+      rules = (data as Array<ViolationRule & { weight: number | string; enabled: boolean }>)
+        .filter((r) => r.enabled)
+        .map((r) => ({ id: String(r.id), code: r.code, name: r.name, kind: r.kind, pattern: r.pattern, flags: r.flags, weight: Number(r.weight) }));
+    }
+  } catch (e) {
+    console.warn("rules:lookup_failed", { error: String(e) });
+  }
+  rulesCache = { at: Date.now(), rules };
+  return rules;
+}
@@ -1,22 +1,45 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { getSupabaseServer } from "@/lib/supabase-server";
 import { env } from "@/lib/env";
-import { truncateForAI } from "./constants";
+import { condenseForAI } from "./chunking";
+import { resolveSenderEntity } from "@/server/senders/registry";
+import { linkFecCommittee } from "@/server/senders/fec";
+import { checkDisclaimer } from "@/server/senders/disclaimer";
+import { completeChat, getLLMProvider, parseJsonContent, type LLMContentPart, type LLMMessage } from "./llm";
 
 export type SenderType = "org" | "pac" | "candidate" | "unknown";
+export const SENDER_TYPES: SenderType[] = ["org", "pac", "candidate", "unknown"];
+
+type SenderFields = {
+  sender_name: string | null;
+  sender_type: SenderType | null;
+  sender_confidence: number | null;
+  sender_notes: string | null;
+};
+
+/**
+ * One submission_sender_events row per field whose value changed, so a re-run
+ * (landing page screenshot, sweeper, manual) keeps what the earlier run said.
+ */
+function changedFields(before: SenderFields, after: SenderFields): Array<{ field: keyof SenderFields; old_value: string | null; new_value: string | null }> {
+  const text = (v: string | number | null) => (v == null ? null : String(v));
+  return (Object.keys(after) as Array<keyof SenderFields>)
+    .filter((field) => text(before[field]) !== text(after[field]))
+    .map((field) => ({ field, old_value: text(before[field]), new_value: text(after[field]) }));
+}
 
 export async function runSenderExtraction(submissionId: string) {
   const supabase = getSupabaseServer();
 
   const { data: items, error } = await supabase
     .from("submissions")
-    .select("id, image_url, raw_text, landing_screenshot_url")
+    .select("id, image_url, raw_text, landing_screenshot_url, sender_id, sender_name, sender_type, sender_confidence, sender_notes")
     .eq("id", submissionId)
     .limit(1);
   if (error || !items?.[0]) {
     return { ok: false as const, status: 404, error: "not_found" as const };
   }
-  const sub = items[0] as { id: string; image_url: string | null; raw_text: string | null; landing_screenshot_url: string | null };
+  const sub = items[0] as { id: string; image_url: string | null; raw_text: string | null; landing_screenshot_url: string | null; sender_id: string | null } & SenderFields;
 
   function parseSupabaseUrl(u?: string | null) {
     if (!u || !u.startsWith("supabase://")) return null as null | { bucket: string; path: string };
@@ -47,14 +70,7 @@ export async function runSenderExtraction(submissionId: string) {
     }
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return { ok: false as const, status: 400, error: "openai_key_missing" as const };
-  const model = process.env.OPENAI_MODEL_VISION || "gpt-5-mini-2025-08-07";
-
-  type ImageUrlPart = { type: "image_url"; image_url: { url: string } };
-  type TextPart = { type: "text"; text: string };
-  type ContentPart = ImageUrlPart | TextPart;
-  type Message = { role: "system" | "user"; content: string | ContentPart[] };
+  if (!getLLMProvider().configured) return { ok: false as const, status: 400, error: "llm_not_configured" as const };
 
   // Build system prompt with honeytrap examples (if configured)
   const honeytrapEmails = env.HONEYTRAP_EMAILS 
@@ -67,12 +83,12 @@ export async function runSenderExtraction(submissionId: string) {
   
   const system = `You are reviewing a political fundraising appeal to extract the ORIGINAL sending entity.\n\nGoals:\n- Identify the organization, PAC, or candidate responsible for the ORIGINAL message content (not any forwarder).\n- Ignore forwarding/relay info such as personal names or emails in headers like \'From:\' showing gmail/outlook/yahoo, \'Fwd:\', \'Forwarded message\', or \'via\'. These are often the person who forwarded the message.\n- Prefer explicit disclosures (e.g., \'Paid for by ...\'), unsubscribe/footer branding, sender lines, or signature blocks from the ORIGINAL content.\n- If the message was forwarded by an individual ${honeytrapExample} but the original is from an entity (e.g., Stop Republicans PAC), USE THE ORIGINAL ENTITY as the sender.\n- Use the screenshot image (logos/branding) to corroborate when available.\n- If multiple entities appear, choose the one that claims responsibility for fundraising/spending in the disclaimer; otherwise pick the most prominent org/PAC/campaign.\n- If none is provided, return sender_name = null and sender_type = \"unknown\".\n\nOutput JSON only (no markdown), with keys:\n{\n  "sender_name": string | null,\n  "sender_type": "org" | "pac" | "candidate" | "unknown",\n  "confidence": number (0..1),\n  "notes": string\n}`;
 
-  // Apply character limit to prevent abuse (rarely triggered in normal usage)
-  const rawText = truncateForAI(String(sub.raw_text || "").trim() || "(none)");
-  const userContent: ContentPart[] = [ { type: "text", text: rawText } ];
+  // Long messages keep their opening and the "Paid for by" footer, where the sender is named
+  const rawText = condenseForAI(String(sub.raw_text || "").trim() || "(none)");
+  const userContent: LLMContentPart[] = [ { type: "text", text: rawText } ];
   if (signedUrl) userContent.push({ type: "image_url", image_url: { url: signedUrl } });
   if (landingSignedUrl) userContent.push({ type: "image_url", image_url: { url: landingSignedUrl } });
-  const messages: Message[] = [
+  const messages: LLMMessage[] = [
     { role: "system", content: system },
     { role: "user", content: userContent },
   ];
@@ -82,43 +98,65 @@ export async function runSenderExtraction(submissionId: string) {
     sender_type: "unknown",
     confidence: 0.2,
   };
+  const completion = await completeChat({ purpose: "sender", messages, lowEffort: true });
+  if (!completion.ok) {
+    const status = completion.error === "http_error" ? 502 : 500;
+    return { ok: false as const, status, error: "llm_failed" as const, detail: completion.detail };
+  }
   try {
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
-      body: JSON.stringify({ model, messages, reasoning_effort: "low", verbosity: "low" }),
-    });
-    const json = await resp.json();
-    if (!resp.ok) {
-      return { ok: false as const, status: 502, error: "openai_failed" as const, detail: json } as const;
-    }
-    const maybeContent = (json as any)?.choices?.[0]?.message?.content;
-    const content = typeof maybeContent === "string" ? maybeContent.trim() : "";
-    try {
-      const obj = JSON.parse(content || "{}");
-      parsedOut = {
-        sender_name: typeof obj.sender_name === "string" && obj.sender_name.trim() ? obj.sender_name.trim() : null,
-        sender_type: (obj.sender_type === "org" || obj.sender_type === "pac" || obj.sender_type === "candidate" || obj.sender_type === "unknown") ? obj.sender_type : "unknown",
-        confidence: typeof obj.confidence === "number" ? obj.confidence : 0.2,
-        notes: typeof obj.notes === "string" ? obj.notes : undefined,
-      };
-    } catch {
-      parsedOut = { sender_name: null, sender_type: "unknown", confidence: 0.2, notes: "Parse failed" };
-    }
+    const obj = parseJsonContent(completion.content) as any;
+    parsedOut = {
+      sender_name: typeof obj.sender_name === "string" && obj.sender_name.trim() ? obj.sender_name.trim() : null,
+      sender_type: (obj.sender_type === "org" || obj.sender_type === "pac" || obj.sender_type === "candidate" || obj.sender_type === "unknown") ? obj.sender_type : "unknown",
+      confidence: typeof obj.confidence === "number" ? obj.confidence : 0.2,
+      notes: typeof obj.notes === "string" ? obj.notes : undefined,
+    };
   } catch {
-    return { ok: false as const, status: 500, error: "openai_failed" as const };
+    parsedOut = { sender_name: null, sender_type: "unknown", confidence: 0.2, notes: "Parse failed" };
   }
 
   const senderName = parsedOut.sender_name && parsedOut.sender_name.trim().length > 0 ? parsedOut.sender_name.trim() : null;
+  const next: SenderFields = {
+    sender_name: senderName,
+    sender_type: parsedOut.sender_type,
+    // numeric(3,2) column
+    sender_confidence: Number.isFinite(parsedOut.confidence) ? Math.round(Math.min(1, Math.max(0, parsedOut.confidence)) * 100) / 100 : null,
+    sender_notes: parsedOut.notes?.trim().slice(0, 1000) || null,
+  };
+  const previous: SenderFields = {
+    sender_name: sub.sender_name ?? null,
+    sender_type: sub.sender_type ?? null,
+    sender_confidence: sub.sender_confidence == null ? null : Number(sub.sender_confidence),
+    sender_notes: sub.sender_notes ?? null,
+  };
   try {
-    await supabase
+    const { error: updateError } = await supabase
       .from("submissions")
-      .update({ sender_name: senderName })
+      .update({ ...next, sender_extracted_at: new Date().toISOString() })
       .eq("id", submissionId);
+    if (updateError) {
+      console.warn("sender:update_failed", { submissionId, error: updateError.message });
+    } else {
+      const events = changedFields(previous, next).map((e) => ({ ...e, submission_id: submissionId, model: completion.model }));
+      if (events.length > 0) {
+        const { error: historyError } = await supabase.from("submission_sender_events").insert(events);
+        if (historyError) console.warn("sender:history_insert_failed", { submissionId, error: historyError.message });
+      }
+    }
+    await resolveSenderEntity(submissionId, { senderName, senderId: sub.sender_id, senderType: next.sender_type });
+    await checkDisclaimer(submissionId, { senderName });
+    await linkFecCommittee(submissionId, { senderName });
   } catch {
     // ignore update failures for sender
   }
-  return { ok: true as const, status: 200 };
+  return {
+    ok: true as const,
+    status: 200,
+    sender_name: senderName,
+    sender_type: next.sender_type,
+    sender_confidence: next.sender_confidence,
+    model: completion.model,
+  };
 }
 
 
@@ -0,0 +1,220 @@
+import { env } from "@/lib/env";
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { findSimhashNeighbors, hammingDistance64, simhashFromDb } from "@/server/ingest/dedupe";
+
+/**
+ * Message campaigns (sql/2026-11-05_create_campaigns.sql). A case joins the campaign
+ * of any case with the same normalized text, or of a near-duplicate neighbor when its
+ * simhash64 is within CAMPAIGN_SIMHASH_DISTANCE of the campaign's seed (its first case,
+ * sql/2026-11-10_add_campaign_seed_and_split.sql); measuring from the seed keeps a chain
+ * of small edits from drifting into unrelated appeals. A case that links two campaigns
+ * with close seeds merges them. Each distinct normalized text is a variant.
+ * Counts, first/last seen and the primary case (collapsed lists) are kept by
+ * refresh_campaign().
+ */
+
+// Simhash of a few words is mostly noise; short texts only join on identical text
+const MIN_WORDS_FOR_NEAR_MATCH = 8;
+const MAX_MERGE_HOPS = 5;
+
+export type Campaign = {
+  id: string;
+  representative_submission_id: string | null;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+  variant_count: number;
+  case_count: number;
+  sender_count: number;
+  received_by_count: number;
+};
+
+export type CampaignVariant = {
+  normalized_hash: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  case_count: number;
+  senders: string[];
+  received_by: string[];
+  message_types: string[];
+  example_submission_id: string;
+  distance: number | null;
+  example: { raw_text: string | null; email_subject: string | null; sender_name: string | null } | null;
+};
+
+const CAMPAIGN_FIELDS = "id, representative_submission_id, first_seen_at, last_seen_at, variant_count, case_count, sender_count, received_by_count";
+
+function distanceThreshold(): number {
+  const t = Number(env.CAMPAIGN_SIMHASH_DISTANCE);
+  return Number.isFinite(t) && t >= 0 ? t : 10;
+}
+
+type LinkedCampaign = { id: string; created_at: string; seed_simhash64: string | number | null; split_from_id: string | null };
+
+/**
+ * Put a case in its campaign: the closest campaign it links to (same text, or a neighbor
+ * whose campaign seed is within the distance), merging other linked campaigns whose seeds
+ * are close to that one's, or a new campaign seeded by the case. Safe to re-run.
+ */
+export async function assignCampaign(submissionId: string): Promise<{ campaignId: string; distance: number; created: boolean } | null> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id, normalized_text, normalized_hash, simhash64, campaign_id")
+    .eq("id", submissionId)
+    .maybeSingle();
+  if (error || !data) return null;
+  const row = data as { normalized_text: string | null; normalized_hash: string | null; simhash64: string | number | null; campaign_id: string | null };
+  if (!row.normalized_hash || !row.normalized_text) return null;
+  const threshold = distanceThreshold();
+  const sim = row.simhash64 != null ? simhashFromDb(row.simhash64) : null;
+
+  const linkedIds = new Set<string>();
+  const sameText = new Set<string>();
+  const { data: same } = await supabase
+    .from("submissions")
+    .select("campaign_id")
+    .eq("normalized_hash", row.normalized_hash)
+    .neq("id", submissionId)
+    .not("campaign_id", "is", null)
+    .limit(20);
+  for (const s of same || []) {
+    linkedIds.add(String(s.campaign_id));
+    sameText.add(String(s.campaign_id));
+  }
+
+  const words = row.normalized_text.split(" ").length;
+  if (sim != null && words >= MIN_WORDS_FOR_NEAR_MATCH) {
+    const neighbors = await findSimhashNeighbors(sim, threshold, { excludeId: submissionId });
+    if (neighbors.length > 0) {
+      const { data: clustered } = await supabase
+        .from("submissions")
+        .select("campaign_id")
+        .in("id", neighbors.map((n) => n.id))
+        .not("campaign_id", "is", null);
+      for (const c of clustered || []) linkedIds.add(String(c.campaign_id));
+    }
+  }
+  // A re-run keeps the case in its campaign when the neighbors changed, as long as it is still close to the seed
+  if (row.campaign_id && linkedIds.size === 0) linkedIds.add(row.campaign_id);
+
+  // Near matches only count when the case is close to the campaign's seed, so a chain of small edits cannot drift
+  const seedDistance = (c: LinkedCampaign) =>
+    sim != null && c.seed_simhash64 != null ? hammingDistance64(sim, simhashFromDb(c.seed_simhash64)) : Infinity;
+  let linked: Array<LinkedCampaign & { distance: number }> = [];
+  if (linkedIds.size > 0) {
+    const { data: campaigns } = await supabase
+      .from("campaigns")
+      .select("id, created_at, seed_simhash64, split_from_id")
+      .in("id", Array.from(linkedIds))
+      .is("merged_into_id", null)
+      .order("created_at", { ascending: true });
+    linked = ((campaigns || []) as LinkedCampaign[])
+      // Identical text always joins, and is preferred over a near match
+      .map((c) => ({ ...c, id: String(c.id), distance: sameText.has(String(c.id)) ? 0 : seedDistance(c) }))
+      .filter((c) => c.distance <= threshold)
+      .sort((a, b) => a.distance - b.distance || a.created_at.localeCompare(b.created_at));
+  }
+
+  let campaignId: string;
+  let distance = 0;
+  let created = false;
+  if (linked.length === 0) {
+    const { data: inserted, error: insertError } = await supabase
+      .from("campaigns")
+      .insert({ seed_simhash64: row.simhash64 ?? null })
+      .select("id")
+      .single();
+    if (insertError || !inserted) {
+      console.warn("campaigns:create_failed", { submissionId, error: insertError?.message });
+      return null;
+    }
+    campaignId = String(inserted.id);
+    created = true;
+  } else {
+    const target = linked[0];
+    campaignId = target.id;
+    distance = Number.isFinite(seedDistance(target)) ? seedDistance(target) : 0;
+    for (const other of linked.slice(1)) {
+      // Campaigns are only merged when their seeds are close, and never with a campaign split from them
+      const seeds =
+        target.seed_simhash64 != null && other.seed_simhash64 != null
+          ? hammingDistance64(simhashFromDb(target.seed_simhash64), simhashFromDb(other.seed_simhash64))
+          : Infinity;
+      if (seeds > threshold || other.split_from_id === target.id || target.split_from_id === other.id) continue;
+      const { error: mergeError } = await supabase.rpc("merge_campaigns", { from_id: other.id, into_id: campaignId });
+      if (mergeError) console.warn("campaigns:merge_failed", { from: other.id, into: campaignId, error: mergeError.message });
+      else console.log("campaigns:merged", { from: other.id, into: campaignId, via: submissionId });
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from("submissions")
+    .update({ campaign_id: campaignId, campaign_distance: distance })
+    .eq("id", submissionId);
+  if (updateError) {
+    console.warn("campaigns:assign_failed", { submissionId, error: updateError.message });
+    return null;
+  }
+  await supabase.rpc("refresh_campaign", { target: campaignId });
+  if (row.campaign_id && row.campaign_id !== campaignId) await supabase.rpc("refresh_campaign", { target: row.campaign_id });
+  return { campaignId, distance, created };
+}
+
+/**
+ * Move the cases of the given variants (normalized_hash) into a new campaign, for a campaign
+ * that joined unrelated appeals. Returns the new campaign id.
+ */
+export async function splitCampaign(campaignId: string, variantHashes: string[]): Promise<string> {
+  const { data, error } = await getSupabaseServer().rpc("split_campaign", { from_id: campaignId, variant_hashes: variantHashes });
+  if (error) throw new Error(`split failed: ${error.message}`);
+  console.log("campaigns:split", { from: campaignId, into: data, variants: variantHashes.length });
+  return String(data);
+}
+
+/** A campaign by id, following merges, with its variants (public cases only). */
+export async function getCampaign(id: string): Promise<{ campaign: Campaign; variants: CampaignVariant[] } | null> {
+  const supabase = getSupabaseServer();
+  let currentId = id;
+  let campaign: (Campaign & { merged_into_id?: string | null }) | null = null;
+  for (let hop = 0; hop <= MAX_MERGE_HOPS; hop++) {
+    const { data } = await supabase
+      .from("campaigns")
+      .select(`${CAMPAIGN_FIELDS}, merged_into_id`)
+      .eq("id", currentId)
+      .maybeSingle();
+    if (!data) return null;
+    campaign = data as unknown as Campaign & { merged_into_id: string | null };
+    if (!campaign.merged_into_id) break;
+    currentId = campaign.merged_into_id;
+  }
+  if (!campaign || campaign.merged_into_id) return null;
+
+  const { data: rows, error } = await supabase.rpc("campaign_variants", { target: campaign.id });
+  if (error) {
+    console.warn("campaigns:variants_failed", { campaignId: campaign.id, error: error.message });
+    return null;
+  }
+  const variants = (rows || []) as Array<Omit<CampaignVariant, "example">>;
+  const { data: examples } = variants.length > 0
+    ? await supabase
+        .from("submissions")
+        .select("id, raw_text, email_subject, sender_name")
+        .in("id", variants.map((v) => v.example_submission_id))
+    : { data: [] };
+  const exampleById = new Map((examples || []).map((e) => [String(e.id), e as NonNullable<CampaignVariant["example"]>]));
+
+  delete campaign.merged_into_id;
+  return {
+    campaign,
+    variants: variants.map((v) => ({ ...v, example: exampleById.get(v.example_submission_id) ?? null })),
+  };
+}
+
+/** Campaign counts by id, for case lists and the case page. */
+export async function getCampaigns(ids: Array<string | null | undefined>): Promise<Map<string, Campaign>> {
+  const unique = Array.from(new Set(ids.filter((id): id is string => Boolean(id))));
+  if (unique.length === 0) return new Map();
+  const supabase = getSupabaseServer();
+  const { data } = await supabase.from("campaigns").select(CAMPAIGN_FIELDS).in("id", unique);
+  return new Map(((data || []) as Campaign[]).map((c) => [String(c.id), c]));
+}
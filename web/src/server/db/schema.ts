@@ -21,13 +21,47 @@ export const submissions = pgTable(
     rawText: text("raw_text"),
     senderId: text("sender_id"),
     senderName: text("sender_name"),
+    senderType: text("sender_type"), // org | pac | candidate | unknown; changes are logged in submission_sender_events
+    senderConfidence: numeric("sender_confidence", { precision: 3, scale: 2 }),
+    senderNotes: text("sender_notes"),
+    senderExtractedAt: timestamp("sender_extracted_at", { withTimezone: true }),
+    senderEntityId: uuid("sender_entity_id"), // canonical sender (senders), resolved after sender extraction
+    fecCommitteeId: text("fec_committee_id"), // fec_committees.cmte_id, fuzzy-matched from the disclaimer or sender_name
+    fecMatchScore: numeric("fec_match_score", { precision: 3, scale: 2 }),
+    fecMatchSource: text("fec_match_source"), // disclaimer | sender_name | admin
+    fecMatchedAt: timestamp("fec_matched_at", { withTimezone: true }),
+    // Parsed "Paid for by" disclaimer (server/senders/disclaimer.ts)
+    disclaimerPaidForBy: text("disclaimer_paid_for_by"),
+    disclaimerAuthorization: text("disclaimer_authorization"), // not_authorized | authorized
+    disclaimerAuthorizedBy: text("disclaimer_authorized_by"),
+    disclaimerAddress: text("disclaimer_address"),
+    disclaimerText: text("disclaimer_text"),
+    disclaimerSource: text("disclaimer_source"), // text | ocr
+    disclaimerStatus: text("disclaimer_status"), // match | mismatch | missing | unverified, against sender_name
+    disclaimerCheckedAt: timestamp("disclaimer_checked_at", { withTimezone: true }),
+    receivedBy: text("received_by"), // honeytrap label (email-2, sms-4821), never the address
+    campaignId: uuid("campaign_id"), // campaigns.id, see server/campaigns/cluster.ts
+    campaignDistance: integer("campaign_distance"), // smallint in SQL
+    campaignPrimary: boolean("campaign_primary").notNull().default(false), // latest public case of the campaign
     isFundraising: boolean("is_fundraising"),
     links: jsonb("links").$type<Array<{ url: string; domain?: string }>>().default([]),
-    mediaUrls: jsonb("media_urls").$type<Array<{ url: string; contentType?: string }>>().default([]),
+    // Attachments; the media job copies them into storage (supabase:// url, provider URL in sourceUrl) and OCRs images
+    mediaUrls: jsonb("media_urls")
+      .$type<Array<{ url: string; contentType?: string; sourceUrl?: string; ocrText?: string | null; error?: string; contentId?: string; filename?: string }>>()
+      .default([]),
     redactLevel: text("redact_level").default("default"), // enum in SQL
     aiVersion: text("ai_version"),
+    aiPromptVersion: text("ai_prompt_version"), // prompt_templates name@version used for the current classification
     aiConfidence: numeric("ai_confidence", { precision: 3, scale: 2 }),
     aiSummary: text("ai_summary"),
+    classificationError: text("classification_error"), // validation issues when processing_status = 'parse_error'
+    processingStatusAt: timestamp("processing_status_at", { withTimezone: true }).defaultNow(), // entered current processing_status
+    sweepAttempts: integer("sweep_attempts").notNull().default(0), // stuck-case sweeper re-enqueues since last 'done'
+    ab001ReviewStatus: text("ab001_review_status"), // pending, confirmed, dismissed
+    ab001Candidate: jsonb("ab001_candidate"), // model's AB001 finding awaiting review
+    ruleDisagreement: jsonb("rule_disagreement"), // rules vs classifier mismatch awaiting review, null when they agree
+    ruleDisagreementResolution: text("rule_disagreement_resolution"), // model_correct, rule_correct
+    ruleDisagreementReviewedAt: timestamp("rule_disagreement_reviewed_at", { withTimezone: true }),
     emailSubject: text("email_subject"),
     emailBody: text("email_body"),
     emailBodyOriginal: text("email_body_original"),
@@ -37,12 +71,19 @@ export const submissions = pgTable(
     landingScreenshotUrl: text("landing_screenshot_url"),
     landingRenderedAt: timestamp("landing_rendered_at", { withTimezone: true }),
     landingRenderStatus: text("landing_render_status"),
+    landingText: text("landing_text"), // visible contribution form text, for AB005/AB006
     forwarderEmail: text("forwarder_email"),
     submissionToken: text("submission_token"),
     tokenUsedAt: timestamp("token_used_at", { withTimezone: true }),
     previewEmailSentAt: timestamp("preview_email_sent_at", { withTimezone: true }),
     previewEmailStatus: text("preview_email_status"),
     emailSentAt: timestamp("email_sent_at", { withTimezone: true }),
+    provider: text("provider"), // mailgun, twilio (webhook ingests), eml (uploaded raw message)
+    emailListUnsubscribe: text("email_list_unsubscribe"), // List-Unsubscribe header, .eml uploads only
+    emailScreenshotUrl: text("email_screenshot_url"), // email_body rendered to PNG by /api/render-email
+    emailRenderedAt: timestamp("email_rendered_at", { withTimezone: true }),
+    providerMessageId: text("provider_message_id"), // unique with provider; makes webhook retries idempotent
+    currentClassificationRunId: uuid("current_classification_run_id"),
   },
   (table) => {
     return {
@@ -64,8 +105,251 @@ export const violations = pgTable("violations", {
   severity: integer("severity").notNull(),
   confidence: numeric("confidence", { precision: 3, scale: 2 }).notNull(),
   actblueVerified: boolean("actblue_verified").default(false),
+  runId: uuid("run_id"), // classification_runs.id that produced this row
+  // Consensus runs only: voters that flagged the code, voters asked, and their ratio
+  consensusVotes: integer("consensus_votes"),
+  consensusTotal: integer("consensus_total"),
+  agreement: numeric("agreement"),
+  contested: boolean("contested"), // generated: consensus_votes * 2 <= consensus_total
 });
 
+export const classificationRuns = pgTable(
+  "classification_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    submissionId: uuid("submission_id").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    trigger: text("trigger").notNull(), // ingest, comment, landing_page, batch, manual, report
+    status: text("status").notNull(), // success, llm_failed, parse_error
+    mode: text("mode").notNull().default("single"), // single, consensus
+    provider: text("provider"),
+    model: text("model"),
+    promptVersion: text("prompt_version"),
+    inputHash: text("input_hash"),
+    rawOutput: text("raw_output"),
+    repairOutput: text("repair_output"),
+    parsedOutput: jsonb("parsed_output"),
+    ruleCandidates: jsonb("rule_candidates"),
+    consensus: jsonb("consensus"), // per-code votes for consensus runs
+    chunkCount: integer("chunk_count").notNull().default(1), // chunks per voter for long messages
+    violationCodes: text("violation_codes").array().default([]),
+    error: text("error"),
+    latencyMs: integer("latency_ms"),
+  },
+  (table) => {
+    return {
+      submissionIdx: index("classification_runs_submission_idx").on(table.submissionId, table.createdAt),
+    };
+  }
+);
+
+export const promptTemplates = pgTable("prompt_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  version: text("version").notNull(),
+  template: text("template").notNull(),
+  codes: text("codes").array().notNull().default([]),
+  guidance: jsonb("guidance").$type<Record<string, string>>().notNull().default({}),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(false), // at most one active version per name
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  activatedAt: timestamp("activated_at", { withTimezone: true }),
+});
+
+export const violationRules = pgTable("violation_rules", {
+  id: text("id").primaryKey(),
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  kind: text("kind").notNull().default("regex"), // regex, phrase
+  pattern: text("pattern").notNull(),
+  flags: text("flags").default("i"),
+  weight: numeric("weight", { precision: 3, scale: 2 }).notNull().default("0.5"),
+  enabled: boolean("enabled").notNull().default(true),
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+});
+
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    type: text("type").notNull(), // ocr, classify, sender, redact_pii, screenshot, preview_email
+    submissionId: uuid("submission_id").notNull(),
+    payload: jsonb("payload").notNull().default({}),
+    dedupeKey: text("dedupe_key"), // unique among pending jobs
+    status: text("status").notNull().default("pending"), // pending, running, succeeded, dead
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(5),
+    runAt: timestamp("run_at", { withTimezone: true }).notNull().defaultNow(),
+    lockedBy: text("locked_by"),
+    lockedUntil: timestamp("locked_until", { withTimezone: true }),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+  },
+  (table) => {
+    return {
+      submissionIdx: index("jobs_submission_idx").on(table.submissionId),
+    };
+  }
+);
+
+export const submissionStatusEvents = pgTable(
+  "submission_status_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    submissionId: uuid("submission_id").notNull(),
+    fromStatus: text("from_status"),
+    toStatus: text("to_status").notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => {
+    return {
+      submissionIdx: index("submission_status_events_submission_idx").on(table.submissionId),
+    };
+  }
+);
+
+// Canonical sender entities; sender_aliases maps names, phones, short codes and email domains to them
+export const senders = pgTable("senders", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  senderType: text("sender_type"),
+  mergedIntoId: uuid("merged_into_id"), // set by merge_senders()
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const campaigns = pgTable("campaigns", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  representativeSubmissionId: uuid("representative_submission_id"),
+  mergedIntoId: uuid("merged_into_id"), // set by merge_campaigns()
+  splitFromId: uuid("split_from_id"), // set by split_campaign(); the two are not merged again
+  firstSeenAt: timestamp("first_seen_at", { withTimezone: true }),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }),
+  variantCount: integer("variant_count").notNull().default(0),
+  caseCount: integer("case_count").notNull().default(0),
+  senderCount: integer("sender_count").notNull().default(0),
+  receivedByCount: integer("received_by_count").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const senderAliases = pgTable(
+  "sender_aliases",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    entityId: uuid("entity_id").notNull(),
+    kind: text("kind").notNull(), // name | phone | short_code | email_domain
+    value: text("value").notNull(),
+    normalized: text("normalized").notNull(), // unique with kind
+    source: text("source").notNull().default("extraction"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      entityIdx: index("sender_aliases_entity_idx").on(table.entityId),
+    };
+  }
+);
+
+// FEC bulk master files, loaded by scripts/import-fec.ts
+export const fecCommittees = pgTable("fec_committees", {
+  cmteId: text("cmte_id").primaryKey(),
+  name: text("name").notNull(),
+  normalizedName: text("normalized_name"), // generated: normalize_sender_name(name), trigram-indexed
+  treasurerName: text("treasurer_name"),
+  committeeType: text("committee_type"), // CMTE_TP
+  designation: text("designation"), // CMTE_DSGN
+  party: text("party"),
+  orgType: text("org_type"),
+  connectedOrg: text("connected_org"),
+  candidateId: text("candidate_id"),
+  city: text("city"),
+  state: text("state"),
+  filingFrequency: text("filing_frequency"),
+  cycle: integer("cycle"),
+  importedAt: timestamp("imported_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const fecCandidates = pgTable("fec_candidates", {
+  candId: text("cand_id").primaryKey(),
+  name: text("name").notNull(),
+  party: text("party"),
+  electionYear: integer("election_year"),
+  office: text("office"), // H, S, P
+  officeState: text("office_state"),
+  officeDistrict: text("office_district"),
+  incumbentChallenger: text("incumbent_challenger"),
+  status: text("status"),
+  principalCommitteeId: text("principal_committee_id"),
+  cycle: integer("cycle"),
+  importedAt: timestamp("imported_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const submissionSenderEvents = pgTable(
+  "submission_sender_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    submissionId: uuid("submission_id").notNull(),
+    field: text("field").notNull(), // sender_name | sender_type | sender_confidence | sender_notes
+    oldValue: text("old_value"),
+    newValue: text("new_value"),
+    model: text("model"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      submissionIdx: index("submission_sender_events_submission_idx").on(table.submissionId),
+    };
+  }
+);
+
+export const inboundEvents = pgTable(
+  "inbound_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    provider: text("provider").notNull(), // mailgun, twilio
+    providerMessageId: text("provider_message_id"),
+    submissionId: uuid("submission_id"),
+    outcome: text("outcome").notNull(), // created, duplicate_message, duplicate_content, suppressed, rejected, failed
+    detail: jsonb("detail"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => {
+    return {
+      messageIdx: index("inbound_events_message_idx").on(table.provider, table.providerMessageId),
+    };
+  }
+);
+
+// Later arrivals of a message already stored as a case (duplicates), see server/ingest/sightings.ts
+export const sightings = pgTable(
+  "sightings",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    submissionId: uuid("submission_id").notNull(),
+    seenAt: timestamp("seen_at", { withTimezone: true }).notNull().defaultNow(),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    channel: text("channel").notNull(), // sms, email, unknown
+    receivedBy: text("received_by"), // honeytrap label
+    senderId: text("sender_id"),
+    match: text("match").notNull(), // exact, near
+    distance: integer("distance").notNull().default(0), // smallint in SQL
+    provider: text("provider"),
+    providerMessageId: text("provider_message_id"), // unique with provider
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      submissionIdx: index("sightings_submission_idx").on(table.submissionId, table.seenAt),
+    };
+  }
+);
+
 export const auditLog = pgTable("audit_log", {
   id: uuid("id").primaryKey().defaultRandom(),
   actor: text("actor").notNull(),
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { env } from "@/lib/env";
+
+/**
+ * Evidence for outgoing emails (reports to ActBlue, case previews). Email cases
+ * are shown through their rendered screenshot (/api/render-email) when there is
+ * one, with the sanitized HTML attached as before.
+ */
+
+export type EvidenceAttachment = { filename: string; content: string; type?: string };
+
+export type EmailImageVariant = "full" | "preview" | "og";
+
+/** Stable link to a case's rendered email; signed storage URLs expire before reports are read. */
+export function emailImageUrl(caseId: string, variant: EmailImageVariant = "full"): string {
+  const base = (env.NEXT_PUBLIC_SITE_URL || "").replace(/\/$/, "");
+  return `${base}/api/cases/${caseId}/email-image${variant === "full" ? "" : `?variant=${variant}`}`;
+}
+
+function parseSupabaseUrl(u?: string | null) {
+  if (!u || !u.startsWith("supabase://")) return null;
+  const rest = u.replace("supabase://", "");
+  const [bucket, ...pathParts] = rest.split("/");
+  return { bucket, path: pathParts.join("/") };
+}
+
+/** The original message as attachments: email HTML (plus its screenshot), or the text for other cases. */
+export async function caseAttachments(
+  supabase: SupabaseClient,
+  sub: { email_body?: string | null; raw_text?: string | null; email_screenshot_url?: string | null }
+): Promise<EvidenceAttachment[]> {
+  const attachments: EvidenceAttachment[] = [];
+  if (sub.email_body) {
+    const base64 = Buffer.from(String(sub.email_body), "utf8").toString("base64");
+    attachments.push({ filename: "original_email.html", content: base64, type: "text/html" });
+    const shot = parseSupabaseUrl(sub.email_screenshot_url);
+    if (shot) {
+      const { data: file } = await supabase.storage.from(shot.bucket).download(shot.path);
+      if (file) {
+        attachments.push({ filename: "original_email.png", content: Buffer.from(await file.arrayBuffer()).toString("base64"), type: "image/png" });
+      }
+    }
+  } else if (sub.raw_text) {
+    const base64 = Buffer.from(String(sub.raw_text), "utf8").toString("base64");
+    attachments.push({ filename: "original_text.txt", content: base64, type: "text/plain" });
+  }
+  return attachments;
+}
@@ -103,37 +103,86 @@ export async function findDuplicateCase(rawText: string): Promise<DuplicateMatch
 
   // Near-duplicate via simhash prefilter
   const sim = toSignedBigInt(computeSimhash64(norm));
-  const threshold = getDistanceThreshold();
-  // Prefilter window: +/- 2^24 as rough bucket window (tunable but wide)
-  const window = BigInt(1) << BigInt(24);
-  const lower = sim - window;
-  const upper = sim + window;
+  const [best] = await findSimhashNeighbors(sim, getDistanceThreshold());
+  if (best) return { match: best.distance === 0 ? "exact" : "near", caseId: best.id, distance: best.distance };
+  return { match: null };
+}
+
+export type SimhashNeighbor = { id: string; distance: number };
+
+// LSH index (sql/2026-11-07_add_simhash_bands.sql): the simhash split into four 16-bit
+// bands, each stored in an indexed column. A neighbor is a candidate when it shares a
+// band value with the query (or one bit away from it, see simhashBandProbes).
+export const SIMHASH_BANDS = 4;
+const BAND_BITS = 16;
+const BAND_MASK = (BigInt(1) << BigInt(BAND_BITS)) - BigInt(1);
+const DEFAULT_CANDIDATE_LIMIT = 1000;
+
+/** Unsigned 64-bit value of a simhash64 as stored (signed int8, returned as a string) */
+export function simhashFromDb(value: string | number | bigint): bigint {
+  const v = BigInt(value);
+  return v < BigInt(0) ? v + (BigInt(1) << BigInt(64)) : v;
+}
+
+/** Band values of a simhash (signed or unsigned), low bits first */
+export function simhashBands(sim: bigint): number[] {
+  const v = simhashFromDb(sim);
+  const out: number[] = [];
+  for (let i = 0; i < SIMHASH_BANDS; i++) out.push(Number((v >> BigInt(i * BAND_BITS)) & BAND_MASK));
+  return out;
+}
+
+/**
+ * Band values to look up, per band. Two simhashes within SIMHASH_BANDS - 1 bits agree
+ * exactly on at least one band, so up to that distance the bands alone are enough.
+ * Beyond it each band also probes every value one bit away: any simhash within
+ * 2 * SIMHASH_BANDS - 1 bits (7) is then a candidate. Wider distances (campaign
+ * clustering) are best effort; scripts/bench-simhash.ts measures the recall.
+ */
+export function simhashBandProbes(sim: bigint, maxDistance: number): number[][] {
+  const multiProbe = maxDistance >= SIMHASH_BANDS;
+  return simhashBands(sim).map((band) => {
+    if (!multiProbe) return [band];
+    const values = [band];
+    for (let bit = 0; bit < BAND_BITS; bit++) values.push(band ^ (1 << bit));
+    return values;
+  });
+}
+
+/**
+ * Submissions whose simhash is within maxDistance of `sim` (signed, as stored), nearest first.
+ * Candidates come from the band index; rows without bands (not yet backfilled by
+ * scripts/simhash-bands.ts) are not found. Used by duplicate detection and campaign clustering.
+ */
+export async function findSimhashNeighbors(
+  sim: bigint,
+  maxDistance: number,
+  opts: { excludeId?: string; limit?: number } = {}
+): Promise<SimhashNeighbor[]> {
+  const supabase = getSupabaseServer();
+  // Any band matching one of its probe values makes a candidate
+  const bandFilter = simhashBandProbes(sim, maxDistance)
+    .map((values, i) => `simhash_band${i}.in.(${values.join(",")})`)
+    .join(",");
 
   // Supabase returns int8 as string; select simhash64 too
-  const { data: rows } = await supabase
+  const { data: rows, error } = await supabase
     .from("submissions")
     .select("id, simhash64")
-    .gte("simhash64", lower.toString())
-    .lte("simhash64", upper.toString())
-    .limit(200);
+    .or(bandFilter)
+    .limit(opts.limit ?? DEFAULT_CANDIDATE_LIMIT);
+  if (error) console.warn("dedupe:candidates_failed", { error: error.message });
 
-  let best: { id: string; dist: number } | null = null;
+  // Both are signed, convert back to unsigned for distance calc
+  const simUnsigned = simhashFromDb(sim);
+  const out: SimhashNeighbor[] = [];
   for (const r of (rows as Array<{ id: string; simhash64: string | number | null }> | null) || []) {
     const sv = r.simhash64;
-    if (sv === null || sv === undefined) continue;
-    const other = typeof sv === "string" ? BigInt(sv) : BigInt(sv);
-    // Both are signed now, convert back to unsigned for distance calc
-    const simUnsigned = sim < BigInt(0) ? sim + (BigInt(1) << BigInt(64)) : sim;
-    const otherUnsigned = other < BigInt(0) ? other + (BigInt(1) << BigInt(64)) : other;
-    const dist = hammingDistance64(simUnsigned, otherUnsigned);
-    if (dist <= threshold && (!best || dist < best.dist)) {
-      best = { id: String(r.id), dist };
-      if (dist === 0) break;
-    }
+    if (sv === null || sv === undefined || String(r.id) === opts.excludeId) continue;
+    const dist = hammingDistance64(simUnsigned, simhashFromDb(sv));
+    if (dist <= maxDistance) out.push({ id: String(r.id), distance: dist });
   }
-
-  if (best) return { match: best.dist === 0 ? "exact" : "near", caseId: best.id, distance: best.dist };
-  return { match: null };
+  return out.sort((a, b) => a.distance - b.distance);
 }
 
 function toSignedBigInt(unsigned: bigint): bigint {
@@ -145,11 +194,31 @@ function toSignedBigInt(unsigned: bigint): bigint {
   return unsigned;
 }
 
-export function buildDedupeFields(raw: string): { normalized_text: string; normalized_hash: string; simhash64: string } {
+export type DedupeFields = {
+  normalized_text: string;
+  normalized_hash: string;
+  simhash64: string;
+  simhash_band0: number;
+  simhash_band1: number;
+  simhash_band2: number;
+  simhash_band3: number;
+};
+
+/** Dedupe columns of a submission, ready to insert or update */
+export function buildDedupeFields(raw: string): DedupeFields {
   const norm = normalizeText(raw || "");
   const hash = sha256Base64(norm);
-  const sim = toSignedBigInt(computeSimhash64(norm)).toString();
-  return { normalized_text: norm, normalized_hash: hash, simhash64: sim };
+  const sim = computeSimhash64(norm);
+  const [b0, b1, b2, b3] = simhashBands(sim);
+  return {
+    normalized_text: norm,
+    normalized_hash: hash,
+    simhash64: toSignedBigInt(sim).toString(),
+    simhash_band0: b0,
+    simhash_band1: b1,
+    simhash_band2: b2,
+    simhash_band3: b3,
+  };
 }
 
 
@@ -0,0 +1,91 @@
+import { parseEml, type ParsedEmail } from "./mime";
+import { cleanTextForAI } from "./text-cleaner";
+import { sanitizeEmailHtml } from "./html-sanitizer";
+import { redactHoneytrap } from "./honeytrap";
+import { storeMessageParts } from "./media";
+import { ingestTextSubmission, type IngestResult, type IngestTextParams } from "./save";
+
+/**
+ * Raw .eml uploads. Unlike forwarded mail, the file keeps the original headers,
+ * so From, Date, Message-ID and List-Unsubscribe come straight from the message
+ * instead of the forwarded-header heuristics in /api/inbound-email. Also used
+ * by scripts/import-mailbox.ts for archived mail.
+ */
+
+// Vercel rejects function request bodies over 4.5 MB; 4 MB leaves room for the multipart framing
+export const MAX_EML_BYTES = 4 * 1024 * 1024;
+export const MAX_EML_REQUEST_BYTES = Math.floor(4.5 * 1024 * 1024);
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function parseEmailAddress(input: string | null | undefined): string | null {
+  if (!input) return null;
+  const m = input.match(/([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
+  return m ? m[1].toLowerCase() : null;
+}
+
+/** Reject dates from broken clocks: before 2000 or more than a day in the future. */
+export function plausibleDate(date: Date | null): Date | null {
+  if (!date) return null;
+  const t = date.getTime();
+  if (t < Date.UTC(2000, 0, 1) || t > Date.now() + 24 * 3600 * 1000) return null;
+  return date;
+}
+
+/**
+ * ingestTextSubmission params for a parsed message, with the same processing as
+ * /api/inbound-email: honeytrap redaction, cleanTextForAI for the AI text and
+ * sanitizeEmailHtml for display. Null when the message has no text or HTML body.
+ */
+export function emlIngestParams(parsed: ParsedEmail): IngestTextParams | null {
+  if (!parsed.text && !parsed.html) return null;
+  const rawText = redactHoneytrap(parsed.text?.trim() ? parsed.text : stripHtml(parsed.html || ""));
+  return {
+    text: cleanTextForAI(rawText) || "",
+    rawText,
+    senderId: parseEmailAddress(parsed.from),
+    messageType: "email",
+    imageUrlPlaceholder: "email://no-image",
+    emailSubject: parsed.subject ? redactHoneytrap(parsed.subject) : null,
+    emailBody: parsed.html ? redactHoneytrap(sanitizeEmailHtml(parsed.html)) : null,
+    emailBodyOriginal: parsed.html,
+    emailFrom: parsed.from,
+    emailSentAt: plausibleDate(parsed.date),
+    emailListUnsubscribe: parsed.listUnsubscribe,
+    // The same message ingested twice (upload or import) returns the first case
+    provider: "eml",
+    providerMessageId: parsed.messageId,
+  };
+}
+
+/**
+ * Parse a raw message and create a case from it, exactly like a forwarded email but with real headers.
+ * `storedParts` and `hasHtml` tell the caller which visual inputs (media OCR, email render) to queue.
+ */
+export async function ingestEml(raw: Buffer): Promise<IngestResult & { storedParts?: number; hasHtml?: boolean }> {
+  const parsed = parseEml(raw);
+  const params = emlIngestParams(parsed);
+  if (!params) return { ok: false, error: "empty_message" };
+
+  const result = await ingestTextSubmission(params);
+  if (result.ok && result.id) {
+    const stored = await storeMessageParts(result.id, [...parsed.inline, ...parsed.attachments], "eml");
+    console.log("eml:ingested", {
+      id: result.id,
+      from: params.senderId,
+      hasHtml: Boolean(parsed.html),
+      inline: parsed.inline.length,
+      attachments: parsed.attachments.length,
+      stored,
+    });
+    return { ...result, storedParts: stored, hasHtml: Boolean(params.emailBody) };
+  }
+  return result;
+}
@@ -0,0 +1,77 @@
+import { env } from "@/lib/env";
+
+/**
+ * Honeytrap redaction shared by every email ingest path (/api/inbound-email,
+ * .eml uploads, the mbox importer). Our honeytrap addresses and the tracking
+ * IDs senders embed for them must never reach stored text or the public site.
+ */
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(",").map((e) => e.trim()).filter((e) => e.length > 0) : [];
+}
+
+/** HONEYTRAP_EMAILS as a list */
+export function honeytrapEmails(): string[] {
+  return splitList(env.HONEYTRAP_EMAILS);
+}
+
+/** HONEYTRAP_IDS as a list */
+export function honeytrapIds(): string[] {
+  return splitList(env.HONEYTRAP_IDS);
+}
+
+export function honeytrapConfigured(): boolean {
+  return honeytrapEmails().length > 0 || honeytrapIds().length > 0;
+}
+
+/** Replace honeytrap addresses with *******@*******.com and tracking IDs with ######## */
+export function redactHoneytrap(text: string): string {
+  let result = text;
+
+  // Redact email addresses
+  for (const email of honeytrapEmails()) {
+    const escaped = email.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    result = result.replace(new RegExp(escaped, "gi"), "*******@*******.com");
+  }
+
+  // Redact tracking IDs
+  for (const id of honeytrapIds()) {
+    const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    result = result.replace(new RegExp(escaped, "gi"), "########");
+  }
+
+  return result;
+}
+
+/**
+ * Which honeytrap received a message, without the address: its position in
+ * HONEYTRAP_EMAILS ("email-2") or the last four digits of our SMS number ("sms-4821").
+ * Null when the recipient is not a honeytrap (user forwards).
+ */
+export function honeytrapLabel(channel: "email" | "sms", recipient: string | null | undefined): string | null {
+  if (!recipient) return null;
+  if (channel === "sms") {
+    const digits = recipient.replace(/\D/g, "");
+    return digits.length >= 4 ? `sms-${digits.slice(-4)}` : null;
+  }
+  const lower = recipient.toLowerCase();
+  const index = honeytrapEmails().findIndex((email) => lower.includes(email.toLowerCase()));
+  return index >= 0 ? `email-${index + 1}` : null;
+}
+
+// Known non-ActBlue fundraisers — emails from these domains are skipped at ingest.
+const SKIP_SENDER_DOMAINS: string[] = [
+  "bounce.alerts.savethechildren.org",
+  "savethechildren.org",
+];
+
+/** Known non-ActBlue senders and any address or domain in INGEST_SUPPRESS_LIST are not ingested */
+export function isSuppressedSender(senderEmail: string): boolean {
+  const email = senderEmail.toLowerCase();
+  const domain = email.split("@")[1] ?? "";
+  const suppressList = splitList(env.INGEST_SUPPRESS_LIST).map((s) => s.toLowerCase());
+  return (
+    SKIP_SENDER_DOMAINS.some((d) => domain === d || email === d) ||
+    suppressList.some((entry) => email === entry || domain === entry)
+  );
+}
@@ -0,0 +1,51 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+
+/** Webhook providers whose message IDs make ingestion idempotent */
+export type InboundProvider = "mailgun" | "twilio";
+
+export type InboundOutcome = "created" | "duplicate_message" | "duplicate_content" | "suppressed" | "rejected" | "failed";
+
+export type InboundEvent = {
+  provider: InboundProvider;
+  providerMessageId?: string | null;
+  submissionId?: string | null;
+  outcome: InboundOutcome;
+  detail?: Record<string, unknown> | null;
+};
+
+/** Append to the inbound_events log. Best-effort: a logging failure never fails the webhook. */
+export async function recordInboundEvent(event: InboundEvent): Promise<void> {
+  try {
+    const supabase = getSupabaseServer();
+    const { error } = await supabase.from("inbound_events").insert({
+      provider: event.provider,
+      provider_message_id: event.providerMessageId || null,
+      submission_id: event.submissionId || null,
+      outcome: event.outcome,
+      detail: event.detail ?? null,
+    });
+    if (error) console.warn("inbound-events:insert_failed", { error: error.message });
+  } catch (e) {
+    console.warn("inbound-events:exception", { error: String(e) });
+  }
+}
+
+/** Mailgun Message-Id from the posted field, else from the message-headers JSON ([[name, value], ...]). */
+export function mailgunMessageId(field: string | null | undefined, messageHeaders: string | null | undefined): string | null {
+  if (field && field.trim()) return field.trim();
+  if (!messageHeaders) return null;
+  try {
+    const headers = JSON.parse(messageHeaders) as Array<[string, string]>;
+    const hit = headers.find((h) => Array.isArray(h) && String(h[0]).toLowerCase() === "message-id");
+    return hit?.[1] ? String(hit[1]).trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Log outcome for an ingestTextSubmission result. */
+export function ingestOutcome(result: { ok: boolean; error?: string; duplicateOf?: "message" | "content" }): InboundOutcome {
+  if (result.ok) return "created";
+  if (result.error === "duplicate") return result.duplicateOf === "message" ? "duplicate_message" : "duplicate_content";
+  return "failed";
+}
@@ -0,0 +1,216 @@
+import { env } from "@/lib/env";
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { ocrImage } from "./ocr";
+import type { MimePart } from "./mime";
+
+/**
+ * Message attachments (`submissions.media_urls`). Twilio MMS links expire and
+ * need the account credentials, so the `media` job copies every attachment into
+ * storage, rewrites its entry to a supabase:// URL and OCRs the images. Email
+ * parts arrive with the webhook and are stored at ingest (storeMessageParts);
+ * the same job OCRs them. The OCR text stays on the entry; the classifier reads
+ * it together with the images.
+ */
+
+export type MediaEntry = {
+  url: string;
+  contentType?: string;
+  sourceUrl?: string; // original provider URL, before the copy into storage
+  ocrText?: string | null; // null: OCR attempted and found nothing (or is not configured)
+  error?: string; // attachment could not be downloaded
+  contentId?: string; // email inline image, referenced from the HTML as cid:<contentId>
+  filename?: string;
+};
+
+const MAX_MEDIA_BYTES = 5 * 1024 * 1024; // Twilio's MMS limit
+const MAX_STORED_PARTS = 20;
+const OCR_MIME_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp", "image/bmp", "application/pdf"];
+
+function parseSupabaseUrl(u?: string | null) {
+  if (!u || !u.startsWith("supabase://")) return null;
+  const rest = u.replace("supabase://", "");
+  const [bucket, ...pathParts] = rest.split("/");
+  return { bucket, path: pathParts.join("/") };
+}
+
+function extensionFor(mime: string): string {
+  const map: Record<string, string> = {
+    "image/jpeg": "jpg",
+    "image/jpg": "jpg",
+    "image/png": "png",
+    "image/gif": "gif",
+    "image/webp": "webp",
+    "image/heic": "heic",
+    "application/pdf": "pdf",
+    "video/mp4": "mp4",
+    "text/vcard": "vcf",
+  };
+  return map[mime] || mime.split("/")[1]?.replace(/[^a-z0-9]/g, "") || "bin";
+}
+
+const TWILIO_MEDIA_HOST = "api.twilio.com";
+
+/** Only Twilio's API host serves MMS media; anything else in media_urls is never fetched (and never gets the credentials). */
+function isTwilioMediaUrl(url: string): boolean {
+  try {
+    const u = new URL(url);
+    return u.protocol === "https:" && u.hostname.toLowerCase() === TWILIO_MEDIA_HOST;
+  } catch {
+    return false;
+  }
+}
+
+/** Twilio media URLs carry the account SID; the auth token is the password for basic auth. */
+function twilioAuthHeader(url: string): string | null {
+  const sid = /\/Accounts\/(AC[0-9a-fA-F]{32})\//.exec(url)?.[1];
+  if (!sid || !env.TWILIO_AUTH_TOKEN) return null;
+  return `Basic ${Buffer.from(`${sid}:${env.TWILIO_AUTH_TOKEN}`).toString("base64")}`;
+}
+
+type Download = { ok: true; content: Buffer; contentType: string } | { ok: false; error: string; retry: boolean };
+
+async function download(url: string, fallbackType?: string): Promise<Download> {
+  if (!isTwilioMediaUrl(url)) return { ok: false, error: "untrusted_host", retry: false };
+  try {
+    const auth = twilioAuthHeader(url);
+    // fetch drops the Authorization header on the cross-origin redirect to Twilio's CDN
+    const resp = await fetch(url, { headers: auth ? { Authorization: auth } : {}, redirect: "follow", cache: "no-store" });
+    if (!resp.ok) return { ok: false, error: `http_${resp.status}`, retry: resp.status >= 500 || resp.status === 429 };
+    const content = Buffer.from(await resp.arrayBuffer());
+    if (content.length > MAX_MEDIA_BYTES) return { ok: false, error: "too_large", retry: false };
+    const contentType = (resp.headers.get("content-type") || fallbackType || "application/octet-stream").split(";")[0].trim().toLowerCase();
+    return { ok: true, content, contentType };
+  } catch (e) {
+    return { ok: false, error: String(e), retry: true };
+  }
+}
+
+function isStorablePart(part: MimePart): boolean {
+  return (part.contentType.startsWith("image/") || part.contentType === "application/pdf") && part.content.length <= MAX_MEDIA_BYTES;
+}
+
+function partFilename(part: MimePart, index: number): string {
+  const base = (part.filename || part.contentId || `part-${index}`)
+    .replace(/\.[^.]+$/, "")
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${index}-${base || "part"}.${extensionFor(part.contentType)}`;
+}
+
+/**
+ * Store the image/PDF parts of an email (inline and attached) under
+ * <submissionId>/<folder>/ and link them from media_urls. They have no
+ * `ocrText` yet, so a `media` job run afterwards OCRs them.
+ */
+export async function storeMessageParts(submissionId: string, parts: MimePart[], folder: string): Promise<number> {
+  const supabase = getSupabaseServer();
+  const bucket = env.SUPABASE_BUCKET_INCOMING;
+  const entries: MediaEntry[] = [];
+  for (const [i, part] of parts.filter(isStorablePart).slice(0, MAX_STORED_PARTS).entries()) {
+    const path = `${submissionId}/${folder}/${partFilename(part, i)}`;
+    const { error } = await supabase.storage.from(bucket).upload(path, part.content, { contentType: part.contentType, upsert: true });
+    if (error) {
+      console.warn("media:part_upload_failed", { submissionId, path, error: error.message });
+      continue;
+    }
+    entries.push({
+      url: `supabase://${bucket}/${path}`,
+      contentType: part.contentType,
+      ...(part.contentId ? { contentId: part.contentId } : {}),
+      ...(part.filename ? { filename: part.filename } : {}),
+    });
+  }
+  if (entries.length > 0) {
+    const { error } = await supabase.from("submissions").update({ media_urls: entries }).eq("id", submissionId);
+    if (error) console.warn("media:media_urls_update_failed", { submissionId, error: error.message });
+  }
+  return entries.length;
+}
+
+export type MediaResult =
+  | { ok: true; stored: number; ocrText: string; isFundraising: boolean }
+  | { ok: false; status: number; error: string; detail?: unknown };
+
+/**
+ * Copy a submission's attachments into storage and OCR the images. Idempotent:
+ * entries already in storage are not downloaded again and entries with an
+ * `ocrText` key are not OCR'd again. Progress is saved before a retryable error
+ * is returned, so a retry only redoes what failed.
+ */
+export async function storeSubmissionMedia(submissionId: string): Promise<MediaResult> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id, media_urls, is_fundraising")
+    .eq("id", submissionId)
+    .maybeSingle();
+  if (error) return { ok: false, status: 500, error: "load_failed", detail: error.message };
+  if (!data) return { ok: false, status: 404, error: "not_found" };
+  const row = data as { media_urls?: MediaEntry[] | null; is_fundraising?: boolean | null };
+  const entries: MediaEntry[] = Array.isArray(row.media_urls) ? row.media_urls.map((e) => ({ ...e })) : [];
+
+  const bucket = env.SUPABASE_BUCKET_INCOMING;
+  let retryError: string | null = null;
+  let stored = 0;
+  for (const [i, entry] of entries.entries()) {
+    if (entry.error) continue;
+    let content: Buffer | null = null;
+    let contentType = entry.contentType?.toLowerCase() || "application/octet-stream";
+
+    const existing = parseSupabaseUrl(entry.url);
+    if (!existing) {
+      const dl = await download(entry.url, entry.contentType);
+      if (!dl.ok) {
+        console.warn("media:download_failed", { submissionId, index: i, error: dl.error, retry: dl.retry });
+        if (dl.retry) retryError = dl.error;
+        else entries[i] = { ...entry, error: dl.error };
+        continue;
+      }
+      content = dl.content;
+      contentType = dl.contentType;
+      const path = `${submissionId}/media/${i}.${extensionFor(contentType)}`;
+      const { error: upError } = await supabase.storage.from(bucket).upload(path, content, { contentType, upsert: true });
+      if (upError) {
+        console.warn("media:upload_failed", { submissionId, index: i, error: upError.message });
+        retryError = `upload_failed: ${upError.message}`;
+        continue;
+      }
+      entries[i] = { ...entry, url: `supabase://${bucket}/${path}`, contentType, sourceUrl: entry.url };
+      stored += 1;
+    }
+
+    if (entries[i].ocrText !== undefined || !OCR_MIME_TYPES.includes(contentType)) continue;
+    if (!content && existing) {
+      const { data: file, error: dlError } = await supabase.storage.from(existing.bucket).download(existing.path);
+      if (dlError || !file) {
+        retryError = `storage_download_failed: ${dlError?.message || "empty"}`;
+        continue;
+      }
+      content = Buffer.from(await file.arrayBuffer());
+    }
+    if (!content) continue;
+    const ocr = await ocrImage(content, contentType, submissionId);
+    if (!ocr.ok && ocr.error === "ocrspace_failed") {
+      // Leave ocrText unset so a retry tries again
+      retryError = "ocr_failed";
+      continue;
+    }
+    entries[i] = { ...entries[i], ocrText: ocr.ok && ocr.text.trim() ? ocr.text.trim() : null };
+  }
+
+  const { error: updateError } = await supabase.from("submissions").update({ media_urls: entries }).eq("id", submissionId);
+  if (updateError) return { ok: false, status: 500, error: "db_update_failed", detail: updateError.message };
+  console.log("media:stored", { submissionId, entries: entries.length, stored, ocr: entries.filter((e) => e.ocrText).length, retryError });
+  if (retryError) return { ok: false, status: 502, error: retryError };
+
+  return { ok: true, stored, ocrText: mediaOcrText(entries), isFundraising: Boolean(row.is_fundraising) };
+}
+
+/** OCR text of all attachments, one labelled block per attachment. */
+export function mediaOcrText(entries: MediaEntry[] | null | undefined): string {
+  return (entries || [])
+    .map((e, i) => (e.ocrText ? `[${e.contentId ? "Inline image" : "Attachment"} ${i + 1}]\n${e.ocrText}` : ""))
+    .filter(Boolean)
+    .join("\n\n");
+}
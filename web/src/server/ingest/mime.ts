@@ -0,0 +1,260 @@
+/**
+ * Minimal RFC 5322 / MIME parser for raw .eml files.
+ *
+ * Handles header unfolding, RFC 2047 encoded words, RFC 2231 parameters,
+ * nested multipart bodies and base64 / quoted-printable transfer encodings.
+ * The whole message is held in memory, which is fine for single uploads
+ * (MAX_EML_BYTES in /api/upload-eml).
+ */
+
+export type MimeHeaders = Record<string, string[]>;
+
+export type MimePart = {
+  contentType: string;
+  filename: string | null;
+  contentId: string | null; // without angle brackets, as referenced by cid: URLs
+  disposition: "inline" | "attachment";
+  content: Buffer;
+};
+
+export type ParsedEmail = {
+  headers: MimeHeaders;
+  from: string | null;
+  to: string | null;
+  subject: string | null;
+  date: Date | null;
+  messageId: string | null;
+  listUnsubscribe: string | null;
+  text: string | null;
+  html: string | null;
+  inline: MimePart[];
+  attachments: MimePart[];
+};
+
+const MAX_DEPTH = 10;
+const MAX_PARTS = 200;
+
+/** First value of a header, decoded. */
+export function headerValue(headers: MimeHeaders, name: string): string | null {
+  const v = headers[name.toLowerCase()]?.[0];
+  return v == null ? null : decodeEncodedWords(v).trim();
+}
+
+function splitHeaderBody(raw: string): { head: string; body: string } {
+  // A part with no headers starts with the blank line
+  const leading = /^\r?\n/.exec(raw);
+  if (leading) return { head: "", body: raw.slice(leading[0].length) };
+  const m = /\r?\n\r?\n/.exec(raw);
+  if (!m) return { head: raw, body: "" };
+  return { head: raw.slice(0, m.index), body: raw.slice(m.index + m[0].length) };
+}
+
+/** Parse a header block (latin1 string of raw bytes), unfolding continuation lines. */
+export function parseHeaders(head: string): MimeHeaders {
+  const headers: MimeHeaders = {};
+  const lines = head.replace(/\r\n/g, "\n").split("\n");
+  let current: string | null = null;
+  const flush = () => {
+    if (!current) return;
+    const idx = current.indexOf(":");
+    if (idx > 0) {
+      const name = current.slice(0, idx).trim().toLowerCase();
+      // Header bytes are usually ASCII; raw UTF-8 (RFC 6532) is decoded here
+      const value = Buffer.from(current.slice(idx + 1), "latin1").toString("utf-8").trim();
+      (headers[name] ||= []).push(value);
+    }
+    current = null;
+  };
+  for (const line of lines) {
+    if (/^[ \t]/.test(line) && current != null) {
+      current += " " + line.trim();
+    } else {
+      flush();
+      current = line;
+    }
+  }
+  flush();
+  return headers;
+}
+
+function decodeCharset(bytes: Buffer, charset: string | null | undefined): string {
+  const label = (charset || "utf-8").trim().toLowerCase().replace(/^"|"$/g, "");
+  try {
+    return new TextDecoder(label === "us-ascii" ? "utf-8" : label).decode(bytes);
+  } catch {
+    return bytes.toString("utf-8");
+  }
+}
+
+export function decodeQuotedPrintable(input: string): Buffer {
+  const soft = input.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < soft.length; i++) {
+    const ch = soft[i];
+    if (ch === "=" && /^[0-9A-Fa-f]{2}$/.test(soft.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(soft.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(soft.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** Decode RFC 2047 encoded words (=?charset?B|Q?text?=); whitespace between adjacent words is dropped. */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, "$1")
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_m, charset: string, enc: string, text: string) => {
+      const bytes =
+        enc.toUpperCase() === "B" ? Buffer.from(text, "base64") : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/** Split "type/subtype; a=b; c*=utf-8''x" into a value and lowercase-named params (RFC 2231 aware). */
+export function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const parts: string[] = [];
+  let buf = "";
+  let quoted = false;
+  for (const ch of value) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === ";" && !quoted) {
+      parts.push(buf);
+      buf = "";
+    } else {
+      buf += ch;
+    }
+  }
+  parts.push(buf);
+
+  const params: Record<string, string> = {};
+  const continued: Record<string, Array<{ index: number; text: string; encoded: boolean }>> = {};
+  for (const raw of parts.slice(1)) {
+    const idx = raw.indexOf("=");
+    if (idx < 0) continue;
+    const key = raw.slice(0, idx).trim().toLowerCase();
+    let val = raw.slice(idx + 1).trim();
+    if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1).replace(/\\(.)/g, "$1");
+    const m = /^([^*]+)\*(\d+)?(\*)?$/.exec(key);
+    if (m) {
+      (continued[m[1]] ||= []).push({ index: Number(m[2] ?? 0), text: val, encoded: Boolean(m[3]) || m[2] == null });
+    } else {
+      params[key] = decodeEncodedWords(val);
+    }
+  }
+  for (const [key, segments] of Object.entries(continued)) {
+    segments.sort((a, b) => a.index - b.index);
+    let charset = "utf-8";
+    const bytes: Buffer[] = [];
+    segments.forEach((seg, i) => {
+      let text = seg.text;
+      if (seg.encoded && i === 0) {
+        const m = /^([^']*)'[^']*'(.*)$/.exec(text);
+        if (m) {
+          charset = m[1] || charset;
+          text = m[2];
+        }
+      }
+      bytes.push(seg.encoded ? Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_x, h: string) => String.fromCharCode(parseInt(h, 16))), "latin1") : Buffer.from(text, "latin1"));
+    });
+    params[key] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+  return { value: parts[0].trim().toLowerCase(), params };
+}
+
+function decodeTransfer(body: string, encoding: string | null): Buffer {
+  const enc = (encoding || "").trim().toLowerCase();
+  if (enc === "base64") return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+  if (enc === "quoted-printable") return decodeQuotedPrintable(body);
+  return Buffer.from(body, "latin1");
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const lines = body.split(/\r?\n/);
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      if (current) parts.push(current.join("\r\n"));
+      current = null;
+      break;
+    }
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join("\r\n"));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current && current.length > 0) parts.push(current.join("\r\n")); // missing closing delimiter
+  return parts;
+}
+
+type Collected = { text: string | null; html: string | null; inline: MimePart[]; attachments: MimePart[]; count: number };
+
+function walk(raw: string, depth: number, out: Collected): void {
+  if (depth > MAX_DEPTH || out.count >= MAX_PARTS) return;
+  out.count += 1;
+  const { head, body } = splitHeaderBody(raw);
+  const headers = parseHeaders(head);
+  const { value: contentType, params } = parseHeaderParams(headers["content-type"]?.[0] || "text/plain");
+
+  if (contentType.startsWith("multipart/") && params.boundary) {
+    for (const part of splitMultipart(body, params.boundary)) walk(part, depth + 1, out);
+    return;
+  }
+
+  const content = decodeTransfer(body, headers["content-transfer-encoding"]?.[0] ?? null);
+  const disposition = parseHeaderParams(headers["content-disposition"]?.[0] || "");
+  const filename = disposition.params.filename || params.name || null;
+  const isAttachment = disposition.value === "attachment" || (disposition.value !== "inline" && Boolean(filename) && !contentType.startsWith("text/"));
+
+  if (!isAttachment && contentType === "text/plain" && out.text == null) {
+    out.text = decodeCharset(content, params.charset);
+    return;
+  }
+  if (!isAttachment && contentType === "text/html" && out.html == null) {
+    out.html = decodeCharset(content, params.charset);
+    return;
+  }
+  const contentId = headerValue(headers, "content-id")?.replace(/^<|>$/g, "") || null;
+  const part: MimePart = {
+    contentType,
+    filename,
+    contentId,
+    disposition: isAttachment ? "attachment" : "inline",
+    content,
+  };
+  if (isAttachment) out.attachments.push(part);
+  else out.inline.push(part);
+}
+
+/** Parse a raw message (the bytes of an .eml file). */
+export function parseEml(input: Buffer | string): ParsedEmail {
+  // latin1 keeps one char per byte, so 8bit/binary bodies survive the string handling
+  const raw = typeof input === "string" ? Buffer.from(input, "utf-8").toString("latin1") : input.toString("latin1");
+  const { head } = splitHeaderBody(raw);
+  const headers = parseHeaders(head);
+  const out: Collected = { text: null, html: null, inline: [], attachments: [], count: 0 };
+  walk(raw, 0, out);
+
+  const dateHeader = headerValue(headers, "date");
+  const parsedDate = dateHeader ? new Date(dateHeader.replace(/\s*\([^)]*\)\s*$/, "")) : null;
+  const { text, html, inline, attachments } = out;
+  return {
+    headers,
+    from: headerValue(headers, "from"),
+    to: headerValue(headers, "to"),
+    subject: headerValue(headers, "subject"),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : null,
+    messageId: headerValue(headers, "message-id"),
+    listUnsubscribe: headerValue(headers, "list-unsubscribe"),
+    text,
+    html,
+    inline,
+    attachments,
+  };
+}
@@ -0,0 +1,184 @@
+import sharp from "sharp";
+import { env } from "@/lib/env";
+
+/**
+ * OCR for uploaded screenshots and PDFs via OCR.space (hosted Tesseract).
+ * Shared by /api/ocr (interactive upload) and the `ocr` background job.
+ */
+
+type OcrAttempt =
+  | { ok: true; text: string; confidence: number; totalPageCount?: number; hasMorePages?: boolean }
+  | { ok: false; json: unknown };
+
+export type OcrResult =
+  | { ok: true; text: string; confidence: number; totalPageCount?: number; hasMorePages?: boolean; processed: Buffer }
+  | { ok: false; error: "ocrspace_key_missing" | "ocrspace_failed"; detail?: unknown; processed: Buffer };
+
+/**
+ * Preprocess (images only) and OCR, retrying once with the original file and a longer timeout.
+ * `processed` is the preprocessed image, returned for callers that reuse it (type detection thumbnails).
+ */
+export async function ocrImage(imgBuf: Buffer, mime: string, submissionId: string): Promise<OcrResult> {
+  const isPdf = mime === "application/pdf";
+  let processed: Buffer;
+  if (isPdf) {
+    // Skip image preprocessing for PDFs; send PDF as-is to OCR.space
+    processed = imgBuf;
+  } else {
+    try {
+      const preStart = Date.now();
+      processed = await sharp(imgBuf)
+        .resize({ width: 1600, withoutEnlargement: false })
+        .grayscale()
+        .normalise()
+        .threshold(180)
+        .toFormat("png")
+        .toBuffer();
+      console.log("/api/ocr:preprocess_ok", { outBytes: processed.length, ms: Date.now() - preStart });
+    } catch (e) {
+      console.warn("/api/ocr:preprocess_failed — using original image", String(e));
+      processed = imgBuf;
+    }
+  }
+
+  // OCR via hosted Tesseract (OCR.space)
+  if (!env.OCRSPACE_API_KEY) {
+    return { ok: false as const, error: "ocrspace_key_missing" as const, processed };
+  }
+
+  async function callOcrSpace(dataUri: string, timeoutMs: number, filetype?: string) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const form = new URLSearchParams();
+      form.set("apikey", env.OCRSPACE_API_KEY as string);
+      form.set("base64Image", dataUri);
+      if (filetype) form.set("filetype", filetype);
+      form.set("language", "eng");
+      form.set("isOverlayRequired", "false");
+      const attemptStart = Date.now();
+      const resp = await fetch("https://api.ocr.space/parse/image", {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: form.toString(),
+        signal: controller.signal,
+      });
+      const json = await resp.json();
+      
+      // Check if we have parsed results even if IsErroredOnProcessing is true
+      // OCR.space sets IsErroredOnProcessing=true for page limit warnings but still returns valid results
+      const allPages = json?.ParsedResults ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const hasResults = allPages.length > 0 && allPages.some((p: any) => p?.ParsedText);
+      
+      // Check if this is a page limit warning (has results despite error flag)
+      const isPageLimitWarning = json?.IsErroredOnProcessing && 
+        hasResults &&
+        json?.ErrorMessage?.some((msg: unknown) => String(msg).includes('maximum page limit'));
+      
+      if (!resp.ok || (json?.IsErroredOnProcessing && !isPageLimitWarning)) {
+        console.warn("/api/ocr:ocrspace_response_err", { status: resp.status, ms: Date.now() - attemptStart, detail: json });
+        return { ok: false as const, json };
+      }
+      
+      // Extract text from up to 3 pages and concatenate
+      const pages = allPages.slice(0, 3);
+      const totalPageCount = allPages.length;
+      const hasMorePages = isPageLimitWarning || totalPageCount > 3;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const parsedText = pages.map((p: any) => p?.ParsedText ?? "").join("\n\n");
+      const confidence = Number(json?.OCRExitCode === 1 ? 0.8 : 0.5);
+      console.log("/api/ocr:ocrspace_ok", { textLen: parsedText?.length || 0, conf: confidence, pages: pages.length, totalPages: totalPageCount, isPageLimitWarning, ms: Date.now() - attemptStart });
+      return { ok: true as const, text: parsedText, confidence, totalPageCount, hasMorePages };
+    } catch (err) {
+      console.warn("/api/ocr:ocrspace_fetch_err", String(err));
+      return { ok: false as const, json: { error: String(err) } };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async function callOcrSpaceFile(fileBuffer: Buffer, mimeType: string, filename: string, timeoutMs: number) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const form = new FormData();
+      form.set("apikey", env.OCRSPACE_API_KEY as string);
+      form.set("language", "eng");
+      form.set("isOverlayRequired", "false");
+      // Convert Node Buffer to a standalone ArrayBuffer to satisfy BlobPart typing
+      const ab = new ArrayBuffer(fileBuffer.byteLength);
+      new Uint8Array(ab).set(fileBuffer);
+      const file = new File([ab], filename, { type: mimeType });
+      form.set("file", file);
+      const attemptStart = Date.now();
+      const resp = await fetch("https://api.ocr.space/parse/image", {
+        method: "POST",
+        body: form,
+        signal: controller.signal,
+      });
+      const json = await resp.json();
+      
+      // Check if we have parsed results even if IsErroredOnProcessing is true
+      // OCR.space sets IsErroredOnProcessing=true for page limit warnings but still returns valid results
+      const allPages = json?.ParsedResults ?? [];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const hasResults = allPages.length > 0 && allPages.some((p: any) => p?.ParsedText);
+      
+      // Check if this is a page limit warning (has results despite error flag)
+      const isPageLimitWarning = json?.IsErroredOnProcessing && 
+        hasResults &&
+        json?.ErrorMessage?.some((msg: unknown) => String(msg).includes('maximum page limit'));
+      
+      if (!resp.ok || (json?.IsErroredOnProcessing && !isPageLimitWarning)) {
+        console.warn("/api/ocr:ocrspace_response_err", { status: resp.status, ms: Date.now() - attemptStart, detail: json });
+        return { ok: false as const, json };
+      }
+      
+      // Extract text from up to 3 pages and concatenate
+      const pages = allPages.slice(0, 3);
+      const totalPageCount = allPages.length;
+      const hasMorePages = isPageLimitWarning || totalPageCount > 3;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const parsedText = pages.map((p: any) => p?.ParsedText ?? "").join("\n\n");
+      const confidence = Number(json?.OCRExitCode === 1 ? 0.8 : 0.5);
+      console.log("/api/ocr:ocrspace_ok", { textLen: parsedText?.length || 0, conf: confidence, pages: pages.length, totalPages: totalPageCount, isPageLimitWarning, ms: Date.now() - attemptStart });
+      return { ok: true as const, text: parsedText, confidence, totalPageCount, hasMorePages };
+    } catch (err) {
+      console.warn("/api/ocr:ocrspace_fetch_err", String(err));
+      return { ok: false as const, json: { error: String(err) } };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  const b64Processed = processed.toString("base64");
+  // Increase timeouts to reduce AbortError rate from OCR.space under load
+  const t1 = isPdf ? 120000 : 60000;
+  const t2 = isPdf ? 180000 : 120000;
+  let result: OcrAttempt;
+  if (isPdf) {
+    console.log("/api/ocr:attempt_1", { processed: false, mime: "application/pdf", timeoutMs: t1 });
+    result = await callOcrSpaceFile(imgBuf, "application/pdf", `${submissionId}.pdf`, t1);
+  } else {
+    const dataUriProcessed = `data:image/png;base64,${b64Processed}`;
+    console.log("/api/ocr:attempt_1", { processed: true, mime: "image/png", timeoutMs: t1 });
+    result = await callOcrSpace(dataUriProcessed, t1);
+  }
+  if (!result.ok) {
+    // Retry once with original (non-processed) image and a longer timeout.
+    // For images, switch to multipart file upload on retry (more reliable than base64 under load).
+    console.warn("/api/ocr:attempt_1_failed", result.json);
+    console.log("/api/ocr:attempt_2", { processed: false, mime, timeoutMs: t2 });
+    if (isPdf) {
+      result = await callOcrSpaceFile(imgBuf, "application/pdf", `${submissionId}.pdf`, t2);
+    } else {
+      const filename = `${submissionId}.${mime === "image/png" ? "png" : "jpg"}`;
+      result = await callOcrSpaceFile(imgBuf, mime, filename, t2);
+    }
+  }
+  if (!result.ok) {
+    return { ok: false as const, error: "ocrspace_failed" as const, detail: result.json || null, processed };
+  }
+  return { ...result, processed };
+}
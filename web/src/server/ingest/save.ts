@@ -1,7 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { after } from "next/server";
 import { getSupabaseServer } from "@/lib/supabase-server";
-import { env } from "@/lib/env";
+import { enqueueJob } from "@/server/jobs/queue";
+import { runJobs } from "@/server/jobs/worker";
 import { buildDedupeFields, findDuplicateCase } from "./dedupe";
+import type { InboundProvider } from "./inbound-events";
+import { recordSighting } from "./sightings";
+
+/** Webhook providers, plus "eml" for uploaded raw messages (keyed on their own Message-ID) */
+export type SubmissionProvider = InboundProvider | "eml";
 
 export type IngestTextParams = {
   text: string; // Cleaned text for AI/heuristics
@@ -17,6 +24,10 @@ export type IngestTextParams = {
   submissionToken?: string | null;
   mediaUrls?: Array<{ url: string; contentType?: string }>;
   emailSentAt?: Date | null; // Original email send date (for forwarded emails)
+  emailListUnsubscribe?: string | null; // List-Unsubscribe header (only known for .eml uploads)
+  provider?: SubmissionProvider; // With providerMessageId makes ingestion idempotent
+  providerMessageId?: string | null; // Mailgun Message-Id, Twilio MessageSid, or the .eml Message-ID header
+  receivedBy?: string | null; // Honeytrap label from honeytrapLabel(), for bot-captured messages
 };
 
 export type IngestResult = {
@@ -26,9 +37,10 @@ export type IngestResult = {
   isFundraising?: boolean;
   heuristic?: { score: number; hits: string[] };
   landingUrl?: string | null;
+  duplicateOf?: "message" | "content"; // With error "duplicate": same provider message ID, or near-identical text
 };
 
-function computeHeuristic(text: string): { isFundraising: boolean; score: number; hits: string[] } {
+export function computeHeuristic(text: string): { isFundraising: boolean; score: number; hits: string[] } {
   const t = (text || "").toLowerCase();
   const positive = [
     "donate",
@@ -399,6 +411,23 @@ async function extractActBlueUrl(
   return null;
 }
 
+/** Case already ingested from this provider message, if any. */
+export async function findByProviderMessageId(provider: SubmissionProvider, providerMessageId: string): Promise<string | null> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id")
+    .eq("provider", provider)
+    .eq("provider_message_id", providerMessageId)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.warn("ingestTextSubmission:message_lookup_failed", { provider, error: error.message });
+    return null;
+  }
+  return ((data as any)?.id as string | undefined) || null;
+}
+
 export async function ingestTextSubmission(params: IngestTextParams): Promise<IngestResult> {
   const supabase = getSupabaseServer();
   const imageUrl = params.imageUrlPlaceholder || "sms://no-image";
@@ -408,12 +437,34 @@ export async function ingestTextSubmission(params: IngestTextParams): Promise<In
   // Use raw text for duplicate detection if provided, otherwise use cleaned text
   const textForDedupe = params.rawText || params.text;
 
+  // Webhook retries carry the same provider message ID; return the original case even if the text changed
+  const messageKey = params.provider && params.providerMessageId ? { provider: params.provider, id: params.providerMessageId } : null;
+  if (messageKey) {
+    const existingId = await findByProviderMessageId(messageKey.provider, messageKey.id);
+    if (existingId) {
+      console.log("ingestTextSubmission:duplicate_message", { provider: messageKey.provider, caseId: existingId });
+      return { ok: false, id: existingId, error: "duplicate", duplicateOf: "message" };
+    }
+  }
+
   // Duplicate detection before insert
   try {
     const dup = await findDuplicateCase(textForDedupe || "");
     if (dup.match && dup.caseId) {
       console.log("ingestTextSubmission:duplicate_detected", { match: dup.match, caseId: dup.caseId, distance: dup.distance });
-      return { ok: false, id: dup.caseId, error: "duplicate" };
+      // Not a new case, but another send of it: keep when and where it arrived
+      await recordSighting({
+        submissionId: dup.caseId,
+        match: dup.match,
+        distance: dup.distance ?? 0,
+        channel: params.messageType,
+        receivedBy: params.receivedBy,
+        senderId: params.senderId,
+        sentAt: params.emailSentAt,
+        provider: messageKey?.provider,
+        providerMessageId: messageKey?.id,
+      });
+      return { ok: false, id: dup.caseId, error: "duplicate", duplicateOf: "content" };
     }
   } catch (e) {
     console.warn("ingestTextSubmission:dedupe_failed", String(e));
@@ -455,6 +506,16 @@ export async function ingestTextSubmission(params: IngestTextParams): Promise<In
   if (params.emailSentAt) {
     insertRow.email_sent_at = params.emailSentAt.toISOString();
   }
+  if (params.emailListUnsubscribe) {
+    insertRow.email_list_unsubscribe = params.emailListUnsubscribe;
+  }
+  if (params.receivedBy) {
+    insertRow.received_by = params.receivedBy;
+  }
+  if (messageKey) {
+    insertRow.provider = messageKey.provider;
+    insertRow.provider_message_id = messageKey.id;
+  }
 
   // Extract ActBlue landing URL from text AND email HTML (tracking links often only in HTML)
   // Use ORIGINAL unsanitized HTML for URL extraction (sanitized HTML has tracking links removed)
@@ -487,9 +548,7 @@ export async function ingestTextSubmission(params: IngestTextParams): Promise<In
 
   try {
     const fields = buildDedupeFields(textForDedupe || "");
-    insertRow.normalized_text = fields.normalized_text;
-    insertRow.normalized_hash = fields.normalized_hash;
-    insertRow.simhash64 = fields.simhash64; // pass as string for int8 safety
+    Object.assign(insertRow, fields); // simhash64 as a string for int8 safety, plus its bands
   } catch (e) {
     console.warn("ingestTextSubmission:build_fields_failed", String(e));
   }
@@ -502,6 +561,14 @@ export async function ingestTextSubmission(params: IngestTextParams): Promise<In
     .maybeSingle();
 
   if (error) {
+    // Concurrent delivery of the same message won the insert (submissions_provider_message_id_idx)
+    if (error.code === "23505" && messageKey) {
+      const existingId = await findByProviderMessageId(messageKey.provider, messageKey.id);
+      if (existingId) {
+        console.log("ingestTextSubmission:duplicate_message_race", { provider: messageKey.provider, caseId: existingId });
+        return { ok: false, id: existingId, error: "duplicate", duplicateOf: "message" };
+      }
+    }
     return { ok: false, error: error.message };
   }
   const id = (data as any)?.id as string | undefined;
@@ -509,52 +576,52 @@ export async function ingestTextSubmission(params: IngestTextParams): Promise<In
   return { ok: true, id, isFundraising, heuristic: heur, landingUrl: landingUrl || null };
 }
 
-export async function triggerPipelines(submissionId: string) {
+/**
+ * Queue the post-ingest pipeline (classify, sender extraction, PII redaction and,
+ * with a landing URL, the landing page screenshot) as durable jobs, then run the
+ * fast steps inline. Anything that fails here is retried by the cron worker
+ * (/api/jobs/worker), so callers no longer lose steps when a fetch drops.
+ * With `hasMedia`, classification waits for the `media` job (attachment download
+ * and OCR), which enqueues it once the images are in storage.
+ */
+export async function triggerPipelines(
+  submissionId: string,
+  opts: { landingUrl?: string | null; hasMedia?: boolean; renderEmail?: boolean } = {}
+) {
   try {
-    // For local development, always use localhost even if NEXT_PUBLIC_SITE_URL is set to production
-    const isLocal = process.env.NODE_ENV === "development" || !env.NEXT_PUBLIC_SITE_URL || env.NEXT_PUBLIC_SITE_URL.includes("localhost");
-    const base = isLocal ? "http://localhost:3000" : env.NEXT_PUBLIC_SITE_URL;
-    console.log("triggerPipelines:start", { submissionId, base, isLocal });
-    
-    // Fire all requests in parallel and await them (serverless needs this)
-    const classifyPromise = fetch(`${base}/api/classify`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ submissionId }),
-    }).then(async (r) => {
-      const text = await r.text().catch(() => "");
-      console.log("triggerPipelines:classify", { status: r.status, body: text?.slice(0, 200) });
-    }).catch((e) => {
-      console.error("triggerPipelines:classify_error", String(e));
-    });
-    
-    const senderPromise = fetch(`${base}/api/sender`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ submissionId }),
-    }).then(async (r) => {
-      const text = await r.text().catch(() => "");
-      console.log("triggerPipelines:sender", { status: r.status, body: text?.slice(0, 200) });
-    }).catch((e) => {
-      console.error("triggerPipelines:sender_error", String(e));
-    });
-    
-    const redactPiiPromise = fetch(`${base}/api/redact-pii`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ submissionId }),
-    }).then(async (r) => {
-      const text = await r.text().catch(() => "");
-      console.log("triggerPipelines:redact-pii", { status: r.status, body: text?.slice(0, 200) });
-    }).catch((e) => {
-      console.error("triggerPipelines:redact-pii_error", String(e));
-    });
-    
-    // Await all to ensure they complete (Vercel serverless requirement)
-    await Promise.all([classifyPromise, senderPromise, redactPiiPromise]);
+    console.log("triggerPipelines:start", { submissionId, hasLandingUrl: !!opts.landingUrl, hasMedia: !!opts.hasMedia, renderEmail: !!opts.renderEmail });
+    // Classification waits for its visual inputs: email render, then attachment OCR, then classify
+    const firstStep = opts.renderEmail
+      ? enqueueJob("email_render", submissionId, { next: opts.hasMedia ? "media" : "classify" }, { maxAttempts: 2 })
+      : opts.hasMedia
+        ? enqueueJob("media", submissionId)
+        : enqueueJob("classify", submissionId, { trigger: "ingest" });
+    await Promise.all([
+      firstStep,
+      enqueueJob("sender", submissionId),
+      enqueueJob("redact_pii", submissionId),
+      opts.landingUrl ? enqueueJob("screenshot", submissionId, { url: opts.landingUrl }) : null,
+    ]);
+
+    // Await the inline steps (serverless needs this); screenshots can take 15+ seconds and media
+    // downloads plus OCR about as long, so those run after the response with the classification they trigger
+    const summary = await runJobs({ submissionId, types: ["classify", "sender", "redact_pii", "preview_email"], deadlineMs: 60_000 });
+    console.log("triggerPipelines:inline_done", { submissionId, ...summary });
+    if (opts.landingUrl || opts.hasMedia || opts.renderEmail) after(() => runJobs({ submissionId }).then(() => undefined));
   } catch (e) {
     console.error("triggerPipelines:exception", String(e));
   }
 }
 
-
+/**
+ * Attachments of a case the heuristic found non-fundraising: the media job may still promote it.
+ * With `nonFundraisingNotice` the job sends the forwarder's notice if the case stays non-fundraising.
+ */
+export async function triggerMediaPipeline(submissionId: string, opts: { nonFundraisingNotice?: boolean } = {}) {
+  try {
+    await enqueueJob("media", submissionId, opts.nonFundraisingNotice ? { nonFundraisingNotice: true } : {});
+    after(() => runJobs({ submissionId }).then(() => undefined));
+  } catch (e) {
+    console.error("triggerMediaPipeline:exception", String(e));
+  }
+}
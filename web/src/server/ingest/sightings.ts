@@ -0,0 +1,80 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+import type { SubmissionProvider } from "./save";
+
+/**
+ * Sightings (sql/2026-11-06_create_sightings.sql): each later arrival of a message that
+ * findDuplicateCase matched to an existing case. The duplicate is still not stored as a
+ * case; the sighting keeps when and where it arrived so case pages can show how often a
+ * message was sent and the stats can count sends. Webhook retries of a stored message
+ * are not sightings, and a retried duplicate is only recorded once (unique on
+ * provider + provider_message_id).
+ */
+
+export type Sighting = {
+  id: string;
+  seen_at: string;
+  sent_at: string | null;
+  channel: "sms" | "email" | "unknown";
+  received_by: string | null;
+  sender_id: string | null;
+  match: "exact" | "near";
+  distance: number;
+  provider: string | null;
+};
+
+export type SightingInput = {
+  submissionId: string; // the canonical case
+  match: "exact" | "near";
+  distance: number;
+  channel: Sighting["channel"];
+  receivedBy?: string | null;
+  senderId?: string | null;
+  sentAt?: Date | null;
+  provider?: SubmissionProvider | null;
+  providerMessageId?: string | null;
+};
+
+const SIGHTING_FIELDS = "id, seen_at, sent_at, channel, received_by, sender_id, match, distance, provider";
+
+/** Record a duplicate arrival. Best effort: a failure is logged and never blocks ingestion. */
+export async function recordSighting(input: SightingInput): Promise<{ recorded: boolean }> {
+  const supabase = getSupabaseServer();
+  const { error } = await supabase.from("sightings").insert({
+    submission_id: input.submissionId,
+    sent_at: input.sentAt ? input.sentAt.toISOString() : null,
+    channel: input.channel,
+    received_by: input.receivedBy || null,
+    sender_id: input.senderId || null,
+    match: input.match,
+    distance: input.distance,
+    provider: input.provider || null,
+    provider_message_id: input.providerMessageId || null,
+  });
+  if (error) {
+    // A retry of a duplicate we already counted (sightings_provider_message_id_idx)
+    if (error.code === "23505") {
+      console.log("sightings:already_recorded", { caseId: input.submissionId, provider: input.provider || null });
+      return { recorded: false };
+    }
+    console.warn("sightings:insert_failed", { caseId: input.submissionId, error: error.message });
+    return { recorded: false };
+  }
+  console.log("sightings:recorded", { caseId: input.submissionId, match: input.match, distance: input.distance, channel: input.channel });
+  return { recorded: true };
+}
+
+/** Sighting count and the most recent sightings of a case, for the case page timeline. */
+export async function getSightings(submissionId: string, limit = 50): Promise<{ count: number; items: Sighting[] }> {
+  const supabase = getSupabaseServer();
+  const { data, count, error } = await supabase
+    .from("sightings")
+    .select(SIGHTING_FIELDS, { count: "exact" })
+    .eq("submission_id", submissionId)
+    .order("seen_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.warn("sightings:load_failed", { caseId: submissionId, error: error.message });
+    return { count: 0, items: [] };
+  }
+  return { count: count ?? 0, items: (data || []) as Sighting[] };
+}
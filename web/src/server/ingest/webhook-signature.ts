@@ -0,0 +1,137 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { env } from "@/lib/env";
+
+/**
+ * Signature verification for inbound webhooks.
+ *
+ * Twilio (X-Twilio-Signature): base64 HMAC-SHA1, keyed with the account auth
+ * token, over the full request URL followed by every POST parameter sorted by
+ * name, each as name + value with no separators. JSON bodies are not signed as
+ * parameters; Twilio adds a `bodySHA256` query parameter instead, and the body
+ * must hash to it.
+ *
+ * Mailgun (timestamp/token/signature fields): hex HMAC-SHA256, keyed with the
+ * webhook signing key, over timestamp + token. Requests older than
+ * MAILGUN_MAX_AGE_SECONDS, and tokens already seen by this instance, are rejected.
+ *
+ * Known-answer vectors:
+ *   Twilio, auth token "12345", URL "https://mycompany.com/myapp.php?foo=1&bar=2",
+ *   params { CallSid: "CA1234567890ABCDE", Caller: "+12349013030", Digits: "1234",
+ *   From: "+12349013030", To: "+18005551212" } → "0/KCTR6DLpKmkAf8muzZqo1nDgQ="
+ *   Mailgun, signing key "key-3ax6xnjp29jd6fds4gc373sgvjxteol0", timestamp "1529006854",
+ *   token "a8ce0edb2dd8301dee6c2405235584e45aa91d1e9f979f3de0"
+ *   → "b63c0701c4f4b614f272106a1b367c5c3369bcdca664ae73ebd52787e45eef07"
+ */
+
+export type WebhookVerification =
+  | { ok: true; bypassed?: boolean }
+  | { ok: false; reason: "not_configured" | "missing_signature" | "invalid_signature" | "stale_timestamp" | "replayed_token" };
+
+export const MAILGUN_MAX_AGE_SECONDS = 300;
+
+/** WEBHOOK_SIGNATURE_BYPASS=true skips verification for local testing; never honored in production. */
+export function webhookBypassEnabled(): boolean {
+  return env.WEBHOOK_SIGNATURE_BYPASS === "true" && process.env.NODE_ENV !== "production";
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+export function computeTwilioSignature(authToken: string, url: string, params: Record<string, string> = {}): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  return createHmac("sha1", authToken).update(Buffer.from(data, "utf-8")).digest("base64");
+}
+
+/** Twilio signs the URL exactly as configured; try it with and without an explicit default port. */
+function urlVariants(url: string): string[] {
+  try {
+    const u = new URL(url);
+    const rest = `${u.pathname}${u.search}`;
+    const port = u.port || (u.protocol === "https:" ? "443" : "80");
+    return Array.from(new Set([url, `${u.protocol}//${u.hostname}${rest}`, `${u.protocol}//${u.hostname}:${port}${rest}`]));
+  } catch {
+    return [url];
+  }
+}
+
+export function verifyTwilioSignature(authToken: string, signature: string, url: string, params: Record<string, string>, rawBody?: string): boolean {
+  for (const candidate of urlVariants(url)) {
+    const bodyHash = new URL(candidate).searchParams.get("bodySHA256");
+    if (bodyHash != null) {
+      // JSON body: the URL alone is signed and the body must match its hash
+      const actual = createHash("sha256").update(rawBody ?? "").digest("hex");
+      if (safeEqual(computeTwilioSignature(authToken, candidate), signature) && safeEqual(actual, bodyHash)) return true;
+      continue;
+    }
+    if (safeEqual(computeTwilioSignature(authToken, candidate, params), signature)) return true;
+  }
+  return false;
+}
+
+/**
+ * URLs the request may have been sent to. Behind Vercel's proxy `req.url` can
+ * differ from the public URL Twilio called, so the forwarded host and the
+ * configured site URL are tried as well.
+ */
+export function requestUrlCandidates(req: Request): string[] {
+  const actual = new URL(req.url);
+  const path = `${actual.pathname}${actual.search}`;
+  const out = new Set<string>([actual.toString()]);
+  const host = req.headers.get("x-forwarded-host") || req.headers.get("host");
+  if (host) out.add(`${req.headers.get("x-forwarded-proto") || "https"}://${host}${path}`);
+  if (env.NEXT_PUBLIC_SITE_URL) out.add(`${env.NEXT_PUBLIC_SITE_URL.replace(/\/$/, "")}${path}`);
+  return Array.from(out);
+}
+
+/** Verify a Twilio webhook. `params` are the form fields (empty for JSON bodies). */
+export function verifyTwilioRequest(req: Request, params: Record<string, string>, rawBody: string): WebhookVerification {
+  if (webhookBypassEnabled()) return { ok: true, bypassed: true };
+  if (!env.TWILIO_AUTH_TOKEN) return { ok: false, reason: "not_configured" };
+  const signature = req.headers.get("x-twilio-signature");
+  if (!signature) return { ok: false, reason: "missing_signature" };
+  const valid = requestUrlCandidates(req).some((url) => verifyTwilioSignature(env.TWILIO_AUTH_TOKEN!, signature, url, params, rawBody));
+  return valid ? { ok: true } : { ok: false, reason: "invalid_signature" };
+}
+
+export function computeMailgunSignature(signingKey: string, timestamp: string, token: string): string {
+  return createHmac("sha256", signingKey).update(timestamp + token).digest("hex");
+}
+
+// Tokens accepted recently by this instance. Best effort: serverless instances don't share it,
+// the timestamp window is the hard limit.
+const seenMailgunTokens = new Map<string, number>();
+
+function rememberToken(token: string, nowMs: number): boolean {
+  for (const [t, at] of seenMailgunTokens) {
+    if (nowMs - at > MAILGUN_MAX_AGE_SECONDS * 1000) seenMailgunTokens.delete(t);
+  }
+  if (seenMailgunTokens.has(token)) return false;
+  seenMailgunTokens.set(token, nowMs);
+  return true;
+}
+
+export type MailgunSignatureFields = { timestamp?: string | null; token?: string | null; signature?: string | null };
+
+export function verifyMailgunSignature(signingKey: string, fields: MailgunSignatureFields, nowMs = Date.now()): WebhookVerification {
+  const { timestamp, token, signature } = fields;
+  if (!timestamp || !token || !signature) return { ok: false, reason: "missing_signature" };
+  if (!safeEqual(computeMailgunSignature(signingKey, timestamp, token), signature.toLowerCase())) {
+    return { ok: false, reason: "invalid_signature" };
+  }
+  const ageSeconds = Math.abs(nowMs / 1000 - Number(timestamp));
+  if (!Number.isFinite(ageSeconds) || ageSeconds > MAILGUN_MAX_AGE_SECONDS) return { ok: false, reason: "stale_timestamp" };
+  if (!rememberToken(token, nowMs)) return { ok: false, reason: "replayed_token" };
+  return { ok: true };
+}
+
+/** Verify a Mailgun webhook from its timestamp/token/signature fields. */
+export function verifyMailgunRequest(fields: MailgunSignatureFields): WebhookVerification {
+  if (webhookBypassEnabled()) return { ok: true, bypassed: true };
+  if (!env.MAILGUN_WEBHOOK_SIGNING_KEY) return { ok: false, reason: "not_configured" };
+  return verifyMailgunSignature(env.MAILGUN_WEBHOOK_SIGNING_KEY, fields);
+}
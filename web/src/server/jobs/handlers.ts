@@ -0,0 +1,246 @@
+import { env } from "@/lib/env";
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { runClassification, CLASSIFICATION_TRIGGERS, type ClassificationTrigger } from "@/server/ai/classify";
+import { runSenderExtraction } from "@/server/ai/sender";
+import { assignCampaign } from "@/server/campaigns/cluster";
+import { redactSubmissionPII } from "@/server/ai/redact-pii";
+import { buildDedupeFields } from "@/server/ingest/dedupe";
+import { ocrImage } from "@/server/ingest/ocr";
+import { storeSubmissionMedia } from "@/server/ingest/media";
+import { computeHeuristic } from "@/server/ingest/save";
+import { enqueueJob, type Job, type JobType } from "./queue";
+import { setProcessingStatus } from "./status";
+
+/**
+ * One handler per job type. Every handler is safe to run more than once for the
+ * same submission: it either skips work that is already done or overwrites its
+ * own earlier result.
+ */
+
+export type JobOutcome = { ok: true; detail?: unknown } | { ok: false; error: string; retry?: boolean };
+
+/** 5xx and network failures are worth retrying; 4xx means the input is wrong and will stay wrong. */
+function outcome(result: { ok: boolean; status?: number; error?: string; detail?: unknown }): JobOutcome {
+  if (result.ok) return { ok: true };
+  const status = result.status ?? 500;
+  const detail = result.detail == null ? "" : `: ${typeof result.detail === "string" ? result.detail : JSON.stringify(result.detail)}`;
+  return { ok: false, error: `${result.error || "failed"} (${status})${detail}`, retry: status >= 500 };
+}
+
+/** Base URL for calling this app's own routes (jobs that still run inside a route handler). */
+export function internalBaseUrl(): string {
+  // For local development, always use localhost even if NEXT_PUBLIC_SITE_URL is set to production
+  const isLocal = process.env.NODE_ENV === "development" || !env.NEXT_PUBLIC_SITE_URL || env.NEXT_PUBLIC_SITE_URL.includes("localhost");
+  return isLocal ? "http://localhost:3000" : env.NEXT_PUBLIC_SITE_URL!;
+}
+
+async function postInternal(path: string, body: Record<string, unknown>): Promise<JobOutcome> {
+  try {
+    const r = await fetch(`${internalBaseUrl()}${path}`, {
+      method: "POST",
+      // Internal routes that launch Chrome (/api/render-email) require the cron secret
+      headers: { "Content-Type": "application/json", ...(env.CRON_SECRET ? { Authorization: `Bearer ${env.CRON_SECRET}` } : {}) },
+      body: JSON.stringify(body),
+    });
+    const text = await r.text().catch(() => "");
+    if (r.ok) return { ok: true, detail: text.slice(0, 200) };
+    return { ok: false, error: `${path} ${r.status}: ${text.slice(0, 500)}`, retry: r.status >= 500 || r.status === 429 };
+  } catch (e) {
+    return { ok: false, error: `${path}: ${String(e)}`, retry: true };
+  }
+}
+
+function parseSupabaseUrl(u?: string | null) {
+  if (!u || !u.startsWith("supabase://")) return null;
+  const rest = u.replace("supabase://", "");
+  const [bucket, ...pathParts] = rest.split("/");
+  return { bucket, path: pathParts.join("/") };
+}
+
+function mimeFromPath(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase();
+  if (ext === "pdf") return "application/pdf";
+  if (ext === "png") return "image/png";
+  if (ext === "webp") return "image/webp";
+  if (ext === "heic") return "image/heic";
+  return "image/jpeg";
+}
+
+/**
+ * Backstop OCR for uploads whose browser never called /api/ocr (tab closed mid-upload).
+ * Skipped once raw_text exists, which is the normal case.
+ */
+async function handleOcr(job: Job): Promise<JobOutcome> {
+  const supabase = getSupabaseServer();
+  const { data: sub } = await supabase
+    .from("submissions")
+    .select("id, image_url, raw_text")
+    .eq("id", job.submission_id)
+    .maybeSingle();
+  if (!sub) return { ok: false, error: "not_found", retry: false };
+  if ((sub as { raw_text?: string | null }).raw_text) return { ok: true, detail: "already_ocr" };
+  if (!env.OCRSPACE_API_KEY) return { ok: false, error: "ocrspace_key_missing", retry: false };
+
+  const parsed = parseSupabaseUrl((sub as { image_url?: string | null }).image_url);
+  if (!parsed) return { ok: false, error: "no_image", retry: false };
+  const { data: file, error: dlError } = await supabase.storage.from(parsed.bucket).download(parsed.path);
+  if (dlError || !file) return { ok: false, error: `download_failed: ${dlError?.message || "empty"}`, retry: true };
+
+  const start = Date.now();
+  const mime = file.type || mimeFromPath(parsed.path);
+  const result = await ocrImage(Buffer.from(await file.arrayBuffer()), mime, job.submission_id);
+  if (!result.ok) return { ok: false, error: result.error, retry: result.error !== "ocrspace_key_missing" };
+
+  const fields = buildDedupeFields(result.text || "");
+  const updated = await setProcessingStatus(job.submission_id, "ocr", {
+    reason: "ocr:job",
+    fields: {
+      raw_text: result.text,
+      ocr_method: "ocrspace",
+      ocr_confidence: result.confidence,
+      ocr_ms: Date.now() - start,
+      ...fields,
+    },
+  });
+  if (!updated.ok) return { ok: false, error: `db_update_failed: ${updated.error}`, retry: updated.error !== "invalid_transition" };
+
+  await enqueueJob("classify", job.submission_id);
+  await enqueueJob("sender", job.submission_id);
+  return { ok: true };
+}
+
+async function handleClassify(job: Job): Promise<JobOutcome> {
+  const trigger = CLASSIFICATION_TRIGGERS.includes(job.payload.trigger as ClassificationTrigger)
+    ? (job.payload.trigger as ClassificationTrigger)
+    : "ingest";
+  // mark in-progress for UI polling safety
+  await setProcessingStatus(job.submission_id, "classified", { reason: `classify:${trigger}` });
+  const result = await runClassification(job.submission_id, {
+    includeExistingComments: Boolean(job.payload.includeExistingComments),
+    replaceExisting: true,
+    trigger,
+    consensus: Boolean(job.payload.consensus),
+  });
+  if (result.ok) await enqueueJob("preview_email", job.submission_id);
+  const out = outcome(result);
+  // Unparseable model output is already stored as parse_error; a retry repeats the same calls
+  return !out.ok && result.error === "parse_failed" ? { ...out, retry: false } : out;
+}
+
+/** Sender extraction, then the campaign: its counts include the senders of every case. */
+async function handleSender(job: Job): Promise<JobOutcome> {
+  const result = await runSenderExtraction(job.submission_id);
+  try {
+    await assignCampaign(job.submission_id);
+  } catch (e) {
+    console.warn("jobs:campaign_failed", { submissionId: job.submission_id, error: String(e) });
+  }
+  return outcome(result);
+}
+
+async function handleRedactPii(job: Job): Promise<JobOutcome> {
+  return outcome(await redactSubmissionPII(job.submission_id));
+}
+
+async function handleScreenshot(job: Job): Promise<JobOutcome> {
+  const url = typeof job.payload.url === "string" ? job.payload.url : "";
+  if (!url) return { ok: false, error: "missing_url", retry: false };
+  const supabase = getSupabaseServer();
+  const { data: sub } = await supabase
+    .from("submissions")
+    .select("landing_url, landing_render_status")
+    .eq("id", job.submission_id)
+    .maybeSingle();
+  const landing = sub as { landing_url?: string | null; landing_render_status?: string | null } | null;
+  if (landing?.landing_url === url && landing.landing_render_status === "success") return { ok: true, detail: "already_rendered" };
+  // Puppeteer needs the route's runtime config and bundling, so the job calls the route
+  return postInternal("/api/screenshot-actblue", { caseId: job.submission_id, url });
+}
+
+async function handlePreviewEmail(job: Job): Promise<JobOutcome> {
+  // The route is idempotent via preview_email_sent_at and skips submissions without a forwarder
+  return postInternal("/api/send-case-preview", { submissionId: job.submission_id });
+}
+
+/**
+ * Copy MMS attachments into storage (email parts are already there) and OCR
+ * them, then classify with the images.
+ * A text that is only a graphic looks non-fundraising at ingest; if the image
+ * text says otherwise the case is promoted and gets the full pipeline.
+ */
+async function handleMedia(job: Job): Promise<JobOutcome> {
+  const result = await storeSubmissionMedia(job.submission_id);
+  if (!result.ok) return outcome(result);
+
+  let isFundraising = result.isFundraising;
+  if (!isFundraising && result.ocrText && computeHeuristic(result.ocrText).isFundraising) {
+    const supabase = getSupabaseServer();
+    const { error } = await supabase.from("submissions").update({ is_fundraising: true, public: true }).eq("id", job.submission_id);
+    if (error) return { ok: false, error: `db_update_failed: ${error.message}`, retry: true };
+    console.log("jobs:media_promoted_fundraising", { submissionId: job.submission_id });
+    await enqueueJob("sender", job.submission_id);
+    await enqueueJob("redact_pii", job.submission_id);
+    isFundraising = true;
+  }
+  if (isFundraising) {
+    await enqueueJob("classify", job.submission_id, { trigger: "ingest" });
+  } else if (job.payload.nonFundraisingNotice) {
+    // Held back by /api/inbound-email until the images were checked
+    const notice = await postInternal("/api/send-non-fundraising-notice", { submissionId: job.submission_id });
+    if (!notice.ok) return notice;
+  }
+  return { ok: true, detail: { stored: result.stored, promoted: isFundraising && !result.isFundraising } };
+}
+
+/**
+ * Classification comes after the email render, or after the attachments' OCR when there are any.
+ * Renders queued on their own (backfill of older cases) have no next step.
+ */
+async function enqueueAfterEmailRender(job: Job): Promise<void> {
+  if (job.payload.next === "media") await enqueueJob("media", job.submission_id);
+  else if (job.payload.next === "classify") await enqueueJob("classify", job.submission_id, { trigger: "ingest" });
+}
+
+/**
+ * Screenshot of the email HTML: vision input for the classifier and the case's evidence image.
+ * Best effort: classification follows even if it fails.
+ */
+async function handleEmailRender(job: Job): Promise<JobOutcome> {
+  // Puppeteer runs inside the route, like the landing page screenshot
+  const result = await postInternal("/api/render-email", { submissionId: job.submission_id });
+  if (result.ok) await enqueueAfterEmailRender(job);
+  return result;
+}
+
+export const JOB_HANDLERS: Record<JobType, (job: Job) => Promise<JobOutcome>> = {
+  ocr: handleOcr,
+  classify: handleClassify,
+  sender: handleSender,
+  redact_pii: handleRedactPii,
+  screenshot: handleScreenshot,
+  preview_email: handlePreviewEmail,
+  media: handleMedia,
+  email_render: handleEmailRender,
+};
+
+/** Called once a job is dead. Steps the case page waits on must not leave it spinning forever. */
+export async function onJobDead(job: Job): Promise<void> {
+  // Classify without the attachments rather than not at all
+  if (job.type === "media") {
+    const supabase = getSupabaseServer();
+    const { data } = await supabase.from("submissions").select("is_fundraising").eq("id", job.submission_id).maybeSingle();
+    if ((data as { is_fundraising?: boolean | null } | null)?.is_fundraising) await enqueueJob("classify", job.submission_id, { trigger: "ingest" });
+    return;
+  }
+  if (job.type === "email_render") {
+    await enqueueAfterEmailRender(job);
+    return;
+  }
+  if (job.type !== "ocr" && job.type !== "classify") return;
+  // A parse_error from the last attempt says more than a generic error
+  const supabase = getSupabaseServer();
+  const { data } = await supabase.from("submissions").select("processing_status").eq("id", job.submission_id).maybeSingle();
+  const status = (data as { processing_status?: string | null } | null)?.processing_status;
+  if (status === "error" || status === "parse_error") return;
+  await setProcessingStatus(job.submission_id, "error", { reason: `job_dead:${job.type}` });
+}
@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import { getSupabaseServer } from "@/lib/supabase-server";
+
+/**
+ * Postgres-backed job queue (table `jobs`, sql/2026-10-26_create_jobs.sql).
+ *
+ * Jobs move pending → running → succeeded, or back to pending with exponential
+ * backoff after a failure, and to dead once attempts run out. A running job
+ * holds a lease; if its worker dies, claim_jobs hands it out again when the
+ * lease expires. Handlers must therefore be idempotent.
+ */
+
+export type JobType = "ocr" | "classify" | "sender" | "redact_pii" | "screenshot" | "preview_email" | "media" | "email_render";
+export const JOB_TYPES: JobType[] = ["ocr", "classify", "sender", "redact_pii", "screenshot", "preview_email", "media", "email_render"];
+
+export type JobStatus = "pending" | "running" | "succeeded" | "dead";
+
+export type Job = {
+  id: string;
+  type: JobType;
+  submission_id: string;
+  payload: Record<string, unknown>;
+  dedupe_key: string | null;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+};
+
+/** How long a claimed job is reserved for its worker before another worker may take it */
+export const LEASE_SECONDS = 300;
+
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 3_600;
+
+export function newWorkerId(): string {
+  return `worker-${randomUUID().slice(0, 8)}`;
+}
+
+/** Delay before retry n (1-based): 30s, 60s, 120s, … capped at an hour, with ±20% jitter. */
+export function backoffSeconds(attempts: number): number {
+  const base = Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_SECONDS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+export type EnqueueOptions = {
+  /** Run no earlier than this many seconds from now */
+  delaySeconds?: number;
+  /** At most one pending job per key; defaults to `${type}:${submissionId}`. Pass null to always insert. */
+  dedupeKey?: string | null;
+  maxAttempts?: number;
+};
+
+/**
+ * Add a job. Enqueueing a step that is already pending for the submission merges
+ * the payload into the existing row rather than running the step twice.
+ */
+export async function enqueueJob(type: JobType, submissionId: string, payload: Record<string, unknown> = {}, opts: EnqueueOptions = {}): Promise<string | null> {
+  const supabase = getSupabaseServer();
+  const dedupeKey = opts.dedupeKey === undefined ? `${type}:${submissionId}` : opts.dedupeKey;
+  const runAt = new Date(Date.now() + (opts.delaySeconds ?? 0) * 1000).toISOString();
+  const { data, error } = await supabase.rpc("enqueue_job", {
+    type_param: type,
+    submission_id_param: submissionId,
+    payload_param: payload,
+    dedupe_key_param: dedupeKey,
+    run_at_param: runAt,
+    max_attempts_param: opts.maxAttempts ?? 5,
+  });
+  if (error) {
+    console.error("jobs:enqueue_failed", { type, submissionId, error: error.message });
+    return null;
+  }
+  console.log("jobs:enqueued", { type, submissionId, jobId: data, delaySeconds: opts.delaySeconds ?? 0 });
+  return (data as string | null) ?? null;
+}
+
+export async function claimJobs(workerId: string, limit: number, filter: { submissionId?: string; types?: JobType[] } = {}): Promise<Job[]> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase.rpc("claim_jobs", {
+    worker_param: workerId,
+    limit_param: limit,
+    lease_seconds_param: LEASE_SECONDS,
+    submission_id_param: filter.submissionId ?? null,
+    types_param: filter.types ?? null,
+  });
+  if (error) {
+    console.error("jobs:claim_failed", { workerId, error: error.message });
+    return [];
+  }
+  return (data as Job[] | null) ?? [];
+}
+
+export async function completeJob(job: Job, workerId: string): Promise<void> {
+  const supabase = getSupabaseServer();
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("jobs")
+    .update({ status: "succeeded", locked_by: null, locked_until: null, last_error: null, finished_at: now, updated_at: now })
+    .eq("id", job.id)
+    .eq("locked_by", workerId);
+  if (error) console.error("jobs:complete_failed", { jobId: job.id, error: error.message });
+}
+
+/**
+ * Record a failed attempt: back to pending with backoff, or dead when attempts
+ * are used up or the error is not worth retrying. Returns the new status.
+ */
+export async function failJob(job: Job, workerId: string, message: string, retry = true): Promise<JobStatus> {
+  const supabase = getSupabaseServer();
+  const now = new Date();
+  const dead = !retry || job.attempts >= job.max_attempts;
+  const update = dead
+    ? { status: "dead" as const, finished_at: now.toISOString() }
+    : { status: "pending" as const, run_at: new Date(now.getTime() + backoffSeconds(job.attempts) * 1000).toISOString() };
+  const fields = { locked_by: null, locked_until: null, last_error: message.slice(0, 2000), updated_at: now.toISOString() };
+  const { error } = await supabase.from("jobs").update({ ...update, ...fields }).eq("id", job.id).eq("locked_by", workerId);
+  if (error?.code === "23505") {
+    // A newer job with the same dedupe key was enqueued while this one ran; that one does the retry
+    await supabase
+      .from("jobs")
+      .update({ ...fields, status: "dead", finished_at: now.toISOString(), last_error: `superseded: ${message}`.slice(0, 2000) })
+      .eq("id", job.id)
+      .eq("locked_by", workerId);
+    return "dead";
+  }
+  if (error) console.error("jobs:fail_update_failed", { jobId: job.id, error: error.message });
+  return update.status;
+}
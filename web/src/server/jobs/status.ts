@@ -0,0 +1,101 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+
+/**
+ * `submissions.processing_status` state machine.
+ *
+ *   queued → ocr → classified → done
+ *                            ↘ error
+ *                            ↘ parse_error
+ *
+ * `classified` means "classification in progress". done/error/parse_error are
+ * terminal for a pipeline pass but can re-enter `classified` when a case is
+ * re-classified. Every change goes through setProcessingStatus(), which refuses
+ * transitions not listed here, stamps `processing_status_at` and records the
+ * transition in `submission_status_events`.
+ */
+
+export type ProcessingStatus = "queued" | "ocr" | "classified" | "done" | "error" | "parse_error";
+
+export const PROCESSING_STATUSES: ProcessingStatus[] = ["queued", "ocr", "classified", "done", "error", "parse_error"];
+
+/** Statuses the sweeper watches; a case should not sit in one of these for long */
+export const IN_PROGRESS_STATUSES: ProcessingStatus[] = ["queued", "ocr", "classified"];
+
+const TRANSITIONS: Record<ProcessingStatus, ProcessingStatus[]> = {
+  queued: ["ocr", "classified", "done", "error", "parse_error"],
+  ocr: ["classified", "done", "error", "parse_error"],
+  classified: ["done", "error", "parse_error"],
+  // Re-classification (comments, landing page, consensus before reporting) can fail too
+  done: ["classified", "error", "parse_error"],
+  // A late success still wins over an error set by the sweeper
+  error: ["queued", "ocr", "classified", "done", "parse_error"],
+  parse_error: ["classified", "done", "error"],
+};
+
+/** Staying in the same status is always allowed (it refreshes processing_status_at). */
+export function canTransition(from: ProcessingStatus, to: ProcessingStatus): boolean {
+  return from === to || TRANSITIONS[from].includes(to);
+}
+
+export type StatusChangeResult =
+  | { ok: true; from: ProcessingStatus }
+  | { ok: false; error: "not_found" | "invalid_transition" | "update_failed" | "conflict"; from?: ProcessingStatus };
+
+export type StatusChangeOptions = {
+  /** Stored with the transition event, e.g. "classify:llm_failed" */
+  reason?: string;
+  /** Other submission columns written in the same update */
+  fields?: Record<string, unknown>;
+};
+
+/**
+ * Move a submission to `to`. The update is conditional on the status read just
+ * before it, so two writers racing cannot skip a check; on a lost race the
+ * current status is re-read and validated again.
+ */
+export async function setProcessingStatus(submissionId: string, to: ProcessingStatus, opts: StatusChangeOptions = {}): Promise<StatusChangeResult> {
+  const supabase = getSupabaseServer();
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data, error: loadError } = await supabase
+      .from("submissions")
+      .select("processing_status")
+      .eq("id", submissionId)
+      .maybeSingle();
+    if (loadError) {
+      console.error("status:load_failed", { submissionId, error: loadError.message });
+      return { ok: false, error: "update_failed" };
+    }
+    if (!data) return { ok: false, error: "not_found" };
+    const current = (data as { processing_status: ProcessingStatus | null }).processing_status;
+    const from = current ?? "queued";
+    if (!canTransition(from, to)) {
+      console.warn("status:invalid_transition", { submissionId, from, to, reason: opts.reason });
+      return { ok: false, error: "invalid_transition", from };
+    }
+
+    const update = {
+      ...opts.fields,
+      processing_status: to,
+      processing_status_at: new Date().toISOString(),
+      ...(to === "done" ? { sweep_attempts: 0 } : {}),
+    };
+    let query = supabase.from("submissions").update(update).eq("id", submissionId);
+    query = current == null ? query.is("processing_status", null) : query.eq("processing_status", current);
+    const { data: updated, error } = await query.select("id");
+    if (error) {
+      console.error("status:update_failed", { submissionId, from, to, error: error.message });
+      return { ok: false, error: "update_failed", from };
+    }
+    if (!updated || updated.length === 0) continue; // status changed underneath us
+
+    if (from !== to) {
+      const { error: eventError } = await supabase
+        .from("submission_status_events")
+        .insert({ submission_id: submissionId, from_status: from, to_status: to, reason: opts.reason ?? null });
+      if (eventError) console.warn("status:event_insert_failed", { submissionId, error: eventError.message });
+    }
+    return { ok: true, from };
+  }
+  console.warn("status:conflict", { submissionId, to });
+  return { ok: false, error: "conflict" };
+}
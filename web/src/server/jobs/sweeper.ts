@@ -0,0 +1,188 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { enqueueJob, type JobType } from "./queue";
+import { IN_PROGRESS_STATUSES, setProcessingStatus, type ProcessingStatus } from "./status";
+
+/**
+ * Stuck-case sweeper. A case that has sat in queued/ocr/classified longer than
+ * STUCK_AFTER_MINUTES with no pending or running job lost its pipeline step
+ * (crashed function, job that never got enqueued). The sweeper re-enqueues the
+ * step it is waiting on, up to MAX_SWEEP_ATTEMPTS times, then gives up and marks
+ * the case `error` so it stops showing a spinner.
+ */
+
+/** Keep in sync with the pipeline_health view (sql/2026-10-27_add_processing_status_transitions.sql) */
+export const STUCK_AFTER_MINUTES = 15;
+export const MAX_SWEEP_ATTEMPTS = 2;
+/** Older cases are errored instead of re-run, so a first sweep over old data does not replay months of classification */
+const MAX_REQUEUE_AGE_HOURS = 24;
+const SWEEP_BATCH = 50;
+
+type StuckRow = {
+  id: string;
+  processing_status: ProcessingStatus;
+  processing_status_at: string | null;
+  sweep_attempts: number | null;
+  raw_text: string | null;
+  image_url: string | null;
+};
+
+export type SweepSummary = { scanned: number; requeued: number; errored: number; waiting: number };
+
+/** The job that moves a case out of `status`. */
+function nextJob(row: StuckRow): JobType {
+  if (row.processing_status === "queued" && !row.raw_text && row.image_url?.startsWith("supabase://")) return "ocr";
+  return "classify";
+}
+
+export async function sweepStuckCases(): Promise<SweepSummary> {
+  const supabase = getSupabaseServer();
+  const cutoff = new Date(Date.now() - STUCK_AFTER_MINUTES * 60_000).toISOString();
+  const summary: SweepSummary = { scanned: 0, requeued: 0, errored: 0, waiting: 0 };
+
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id, processing_status, processing_status_at, sweep_attempts, raw_text, image_url")
+    .in("processing_status", IN_PROGRESS_STATUSES)
+    .lt("processing_status_at", cutoff)
+    .order("processing_status_at", { ascending: true })
+    .limit(SWEEP_BATCH);
+  if (error) {
+    console.error("sweeper:load_failed", { error: error.message });
+    return summary;
+  }
+  const rows = (data as StuckRow[] | null) ?? [];
+  summary.scanned = rows.length;
+  if (rows.length === 0) return summary;
+
+  // Cases with a job still in flight are not stuck, just waiting for the worker or a retry
+  const { data: active } = await supabase
+    .from("jobs")
+    .select("submission_id")
+    .in("submission_id", rows.map((r) => r.id))
+    .in("status", ["pending", "running"]);
+  const busy = new Set(((active as Array<{ submission_id: string }> | null) ?? []).map((j) => j.submission_id));
+
+  for (const row of rows) {
+    if (busy.has(row.id)) {
+      summary.waiting += 1;
+      continue;
+    }
+    const attempts = row.sweep_attempts ?? 0;
+    const ageHours = row.processing_status_at ? (Date.now() - Date.parse(row.processing_status_at)) / 3_600_000 : Infinity;
+    if (attempts >= MAX_SWEEP_ATTEMPTS || ageHours > MAX_REQUEUE_AGE_HOURS) {
+      const res = await setProcessingStatus(row.id, "error", { reason: `sweeper:stuck_in_${row.processing_status}` });
+      if (res.ok) summary.errored += 1;
+      console.warn("sweeper:errored", { submissionId: row.id, status: row.processing_status, attempts, ageHours: Math.round(ageHours) });
+      continue;
+    }
+
+    const type = nextJob(row);
+    const jobId = await enqueueJob(type, row.id, type === "classify" ? { trigger: "sweeper", includeExistingComments: true } : {});
+    if (!jobId) continue;
+    // Same-status transition: restarts the stuck clock and counts the attempt
+    await setProcessingStatus(row.id, row.processing_status, { fields: { sweep_attempts: attempts + 1 } });
+    await supabase
+      .from("submission_status_events")
+      .insert({ submission_id: row.id, from_status: row.processing_status, to_status: row.processing_status, reason: `sweeper:requeue_${type}` });
+    summary.requeued += 1;
+    console.log("sweeper:requeued", { submissionId: row.id, status: row.processing_status, type, attempt: attempts + 1 });
+  }
+
+  console.log("sweeper:done", summary);
+  return summary;
+}
+
+export type PipelineHealth = {
+  stuck_queued: number;
+  stuck_ocr: number;
+  stuck_classified: number;
+  error: number;
+  parse_error: number;
+  dead_jobs: number;
+  due_jobs: number;
+};
+
+/** Counts from the pipeline_health view, or null if it can't be read. */
+export async function getPipelineHealth(): Promise<PipelineHealth | null> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase.from("pipeline_health").select("*").maybeSingle();
+  if (error || !data) {
+    console.warn("sweeper:health_failed", { error: error?.message });
+    return null;
+  }
+  const row = data as Record<keyof PipelineHealth, number | string>;
+  return Object.fromEntries(Object.entries(row).map(([k, v]) => [k, Number(v)])) as PipelineHealth;
+}
+
+export type PipelineCase = {
+  id: string;
+  processing_status: ProcessingStatus;
+  processing_status_at: string | null;
+  sender_name: string | null;
+  sweep_attempts: number | null;
+  /** Reason recorded with the transition into the current status */
+  reason: string | null;
+};
+
+export type DeadJob = {
+  id: string;
+  type: JobType;
+  submission_id: string;
+  attempts: number;
+  last_error: string | null;
+  finished_at: string | null;
+};
+
+/**
+ * Cases behind the pipeline_health counts, newest first: failed (error, parse_error)
+ * or stuck in an in-progress status past STUCK_AFTER_MINUTES. For /admin/pipeline.
+ */
+export async function listPipelineCases(kind: "failed" | "stuck", limit = 50): Promise<PipelineCase[]> {
+  const supabase = getSupabaseServer();
+  let query = supabase
+    .from("submissions")
+    .select("id, processing_status, processing_status_at, sender_name, sweep_attempts")
+    .order("processing_status_at", { ascending: false })
+    .limit(limit);
+  if (kind === "failed") {
+    query = query.in("processing_status", ["error", "parse_error"]);
+  } else {
+    const cutoff = new Date(Date.now() - STUCK_AFTER_MINUTES * 60_000).toISOString();
+    query = query.in("processing_status", IN_PROGRESS_STATUSES).lt("processing_status_at", cutoff);
+  }
+  const { data, error } = await query;
+  if (error) {
+    console.warn("sweeper:list_cases_failed", { kind, error: error.message });
+    return [];
+  }
+  const rows = (data as Array<Omit<PipelineCase, "reason">> | null) ?? [];
+  if (rows.length === 0) return [];
+
+  const { data: events } = await supabase
+    .from("submission_status_events")
+    .select("submission_id, to_status, reason, created_at")
+    .in("submission_id", rows.map((r) => r.id))
+    .order("created_at", { ascending: false });
+  const reasons = new Map<string, string | null>();
+  for (const e of (events as Array<{ submission_id: string; to_status: string; reason: string | null }> | null) ?? []) {
+    const row = rows.find((r) => r.id === e.submission_id);
+    if (row && e.to_status === row.processing_status && !reasons.has(e.submission_id)) reasons.set(e.submission_id, e.reason);
+  }
+  return rows.map((r) => ({ ...r, reason: reasons.get(r.id) ?? null }));
+}
+
+/** Most recently failed dead jobs, for /admin/pipeline. */
+export async function listDeadJobs(limit = 50): Promise<DeadJob[]> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("id, type, submission_id, attempts, last_error, finished_at")
+    .eq("status", "dead")
+    .order("finished_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.warn("sweeper:list_dead_jobs_failed", { error: error.message });
+    return [];
+  }
+  return (data as DeadJob[] | null) ?? [];
+}
@@ -0,0 +1,62 @@
+import { claimJobs, completeJob, failJob, newWorkerId, type Job, type JobType } from "./queue";
+import { JOB_HANDLERS, onJobDead } from "./handlers";
+
+export type RunJobsOptions = {
+  workerId?: string;
+  /** Jobs claimed per batch; a batch runs in parallel */
+  batchSize?: number;
+  /** Only jobs for this submission (inline draining after ingest) */
+  submissionId?: string;
+  types?: JobType[];
+  /** Stop claiming new batches after this long; claimed jobs still finish */
+  deadlineMs?: number;
+};
+
+export type RunJobsSummary = { workerId: string; claimed: number; succeeded: number; retried: number; dead: number; ms: number };
+
+async function runOne(job: Job, workerId: string): Promise<"succeeded" | "retried" | "dead"> {
+  const start = Date.now();
+  let result;
+  try {
+    result = await JOB_HANDLERS[job.type](job);
+  } catch (e) {
+    result = { ok: false as const, error: `exception: ${String(e)}`, retry: true };
+  }
+  if (result.ok) {
+    await completeJob(job, workerId);
+    console.log("jobs:succeeded", { jobId: job.id, type: job.type, submissionId: job.submission_id, attempt: job.attempts, ms: Date.now() - start });
+    return "succeeded";
+  }
+  const status = await failJob(job, workerId, result.error, result.retry !== false);
+  console.warn("jobs:failed", { jobId: job.id, type: job.type, submissionId: job.submission_id, attempt: job.attempts, status, error: result.error });
+  if (status === "dead") {
+    await onJobDead(job).catch((e) => console.error("jobs:on_dead_failed", { jobId: job.id, error: String(e) }));
+    return "dead";
+  }
+  return "retried";
+}
+
+/**
+ * Claim and run ready jobs in batches until none are left or the deadline passes.
+ * Jobs that fail and are scheduled for a later retry are not picked up again in
+ * the same call; the cron worker runs them when they come due.
+ */
+export async function runJobs(opts: RunJobsOptions = {}): Promise<RunJobsSummary> {
+  const workerId = opts.workerId || newWorkerId();
+  const batchSize = opts.batchSize ?? 5;
+  const deadline = Date.now() + (opts.deadlineMs ?? 240_000);
+  const start = Date.now();
+  const summary: RunJobsSummary = { workerId, claimed: 0, succeeded: 0, retried: 0, dead: 0, ms: 0 };
+
+  while (Date.now() < deadline) {
+    const jobs = await claimJobs(workerId, batchSize, { submissionId: opts.submissionId, types: opts.types });
+    if (jobs.length === 0) break;
+    summary.claimed += jobs.length;
+    const results = await Promise.all(jobs.map((job) => runOne(job, workerId)));
+    for (const r of results) summary[r] += 1;
+  }
+
+  summary.ms = Date.now() - start;
+  if (summary.claimed > 0) console.log("jobs:run_done", summary);
+  return summary;
+}
@@ -0,0 +1,66 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { existsSync } from "fs";
+
+/**
+ * Headless Chrome for page and email screenshots: @sparticuz/chromium on
+ * Vercel, a local Chrome install (or CHROME_PATH) in development.
+ */
+
+// Lazy import puppeteer deps to avoid edge bundling issues when route is untouched
+async function getChromium() {
+  const mod = await import("@sparticuz/chromium");
+  return (mod as any).default ?? mod;
+}
+async function getPuppeteerCore() {
+  const mod = await import("puppeteer-core");
+  return (mod as any).default ?? mod;
+}
+
+function resolveLocalChromePath(): string | null {
+  const envPath = process.env.CHROME_PATH;
+  if (envPath && typeof envPath === "string") return envPath;
+  // Common macOS locations
+  const candidates = [
+    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+    "/Applications/Chromium.app/Contents/MacOS/Chromium",
+    "/Applications/Google Chrome Canary.app/Contents/MacOS/Google Chrome Canary",
+  ];
+  for (const p of candidates) {
+    if (existsSync(p)) return p;
+  }
+  return null;
+}
+
+/** Launch a browser; the caller closes it. */
+export async function launchBrowser(): Promise<any> {
+  const chromium: any = await getChromium();
+  const puppeteer: any = await getPuppeteerCore();
+  let executablePath: string | null = null;
+  try {
+    executablePath = await chromium.executablePath();
+  } catch {}
+  if (!executablePath) executablePath = resolveLocalChromePath();
+  const args: string[] = Array.isArray(chromium.args) ? chromium.args.slice() : [];
+  // Harden for local/docker/vercel
+  for (const a of ["--no-sandbox","--disable-setuid-sandbox","--disable-dev-shm-usage","--disable-gpu","--hide-scrollbars","--ignore-certificate-errors","--window-size=1280,2000"]) {
+    if (!args.includes(a)) args.push(a);
+  }
+  try {
+    return await puppeteer.launch({
+      args,
+      defaultViewport: chromium.defaultViewport || { width: 1280, height: 1200 },
+      executablePath: executablePath || undefined,
+      headless: (chromium.headless as boolean) ?? true,
+    });
+  } catch {
+    // Retry using system Chrome if the downloaded chromium path is not executable
+    const localExe = resolveLocalChromePath();
+    if (!localExe) throw new Error("No Chrome executable found");
+    return puppeteer.launch({
+      args,
+      defaultViewport: { width: 1280, height: 1200 },
+      executablePath: localExe,
+      headless: true,
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/**
+ * Outbound-request guard for headless renders of sender-controlled HTML: a URL is
+ * only fetched when every address its host resolves to is public, so a hostname
+ * that points at localhost, the VPC or the cloud metadata endpoint
+ * (169.254.169.254.nip.io) is refused like the literal address would be.
+ *
+ * IPv6 forms that carry an IPv4 address are judged by that address, whatever the
+ * notation: [::ffff:a9fe:a9fe] and [::ffff:169.254.169.254] (mapped), [::127.0.0.1]
+ * (compatible), [64:ff9b::7f00:1] (NAT64), [2002:7f00:1::] (6to4) and Teredo are all
+ * refused, while [::ffff:808:808] (8.8.8.8) is allowed.
+ *
+ * Known limit: Chrome resolves the host again when it fetches, so a name that
+ * answers with a public address here and a private one a moment later (DNS
+ * rebinding) can still get through.
+ */
+
+function isPublicIPv4(ip: string): boolean {
+  const [a, b] = ip.split(".").map(Number);
+  if (a === 0 || a === 10 || a === 127 || a >= 224) return false; // this network, private, loopback, multicast/reserved
+  if (a === 100 && b >= 64 && b <= 127) return false; // carrier-grade NAT
+  if (a === 169 && b === 254) return false; // link-local, cloud metadata
+  if (a === 172 && b >= 16 && b <= 31) return false;
+  if (a === 192 && (b === 168 || b === 0)) return false;
+  if (a === 198 && (b === 18 || b === 19)) return false; // benchmarking
+  return true;
+}
+
+/** The 16 bytes of a valid IPv6 address (zone ID dropped, trailing dotted quad allowed). */
+function ipv6Bytes(ip: string): number[] | null {
+  let v = ip.toLowerCase().replace(/%.*$/, "");
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(v);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    v = `${v.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const halves = v.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const groups = halves.length === 2 ? [...head, ...Array(8 - head.length - tail.length).fill("0"), ...tail] : head;
+  if (groups.length !== 8) return null;
+  return groups.flatMap((g) => {
+    const n = parseInt(g, 16);
+    return [n >> 8, n & 0xff];
+  });
+}
+
+const ipv4At = (bytes: number[], offset: number) => bytes.slice(offset, offset + 4).join(".");
+const zeroUpTo = (bytes: number[], end: number) => bytes.slice(0, end).every((b) => b === 0);
+
+function isPublicIPv6(ip: string): boolean {
+  const bytes = ipv6Bytes(ip);
+  if (!bytes || bytes.some((b) => Number.isNaN(b))) return false;
+  if (zeroUpTo(bytes, 16)) return false; // unspecified ::
+  if (zeroUpTo(bytes, 15) && bytes[15] === 1) return false; // loopback ::1
+  if (zeroUpTo(bytes, 12)) return isPublicIPv4(ipv4At(bytes, 12)); // IPv4-compatible ::/96
+  if (zeroUpTo(bytes, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return isPublicIPv4(ipv4At(bytes, 12)); // IPv4-mapped ::ffff:0:0/96
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && bytes.slice(4, 12).every((b) => b === 0)) {
+    return isPublicIPv4(ipv4At(bytes, 12)); // NAT64 64:ff9b::/96
+  }
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return isPublicIPv4(ipv4At(bytes, 2)); // 6to4 2002::/16
+  if (bytes[0] === 0x20 && bytes[1] === 0x01 && bytes[2] === 0 && bytes[3] === 0) {
+    // Teredo 2001::/32: server address, then the client address with every bit flipped
+    const client = bytes.slice(12).map((b) => b ^ 0xff).join(".");
+    return isPublicIPv4(ipv4At(bytes, 4)) && isPublicIPv4(client);
+  }
+  if ((bytes[0] & 0xfe) === 0xfc) return false; // unique local fc00::/7
+  if (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) return false; // link-local fe80::/10
+  if (bytes[0] === 0xff) return false; // multicast
+  return true;
+}
+
+export function isPublicAddress(ip: string): boolean {
+  const family = isIP(ip);
+  if (family === 4) return isPublicIPv4(ip);
+  if (family === 6) return isPublicIPv6(ip);
+  return false;
+}
+
+/** Whether the renderer may fetch `input`: http(s) to a host that only resolves to public addresses, or inline data. */
+export async function isPublicUrl(input: string, cache?: Map<string, boolean>): Promise<boolean> {
+  if (input.startsWith("data:")) return true;
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (!host || host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) return false;
+  if (isIP(host)) return isPublicAddress(host);
+
+  const cached = cache?.get(host);
+  if (cached !== undefined) return cached;
+  let allowed = false;
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    allowed = addresses.length > 0 && addresses.every((a) => isPublicAddress(a.address));
+  } catch {
+    allowed = false;
+  }
+  cache?.set(host, allowed);
+  return allowed;
+}
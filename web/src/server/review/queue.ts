@@ -0,0 +1,104 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+import type { RuleDisagreement } from "@/server/ai/rules";
+
+/**
+ * Human review queue for /admin/review. AB001 (Misrepresentation/Impersonation)
+ * findings are parked on the case as `ab001_review_status = 'pending'`
+ * (sql/2026-10-22_add_landing_text_and_ab001_review.sql) until a reviewer
+ * confirms or dismisses them through resolve_ab001_review(). Cases where the rule
+ * engine and the classifier disagree (`rule_disagreement`) wait for a verdict in
+ * `rule_disagreement_resolution` (sql/2026-11-08_add_rule_disagreement_review.sql).
+ */
+
+export type Ab001Candidate = {
+  run_id?: string | null;
+  title?: string | null;
+  rationale?: string | null;
+  severity?: number | null;
+  confidence?: number | null;
+  evidence_spans?: Array<{ quote?: string }> | null;
+};
+
+export type Ab001ReviewItem = {
+  id: string;
+  created_at: string | null;
+  sender_name: string | null;
+  raw_text: string | null;
+  ab001_candidate: Ab001Candidate | null;
+};
+
+/** Pending AB001 flags, newest first (submissions_ab001_pending_idx). */
+export async function listPendingAb001(limit = 50): Promise<{ count: number; items: Ab001ReviewItem[] }> {
+  const supabase = getSupabaseServer();
+  const { data, count, error } = await supabase
+    .from("submissions")
+    .select("id, created_at, sender_name, raw_text, ab001_candidate", { count: "exact" })
+    .eq("ab001_review_status", "pending")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.warn("review:ab001_load_failed", { error: error.message });
+    return { count: 0, items: [] };
+  }
+  return { count: count ?? 0, items: (data as Ab001ReviewItem[] | null) ?? [] };
+}
+
+/** Confirm (insert the AB001 violation and hide the case) or dismiss a pending flag. */
+export async function resolveAb001Review(submissionId: string, confirm: boolean): Promise<{ ok: true } | { ok: false; error: string }> {
+  const supabase = getSupabaseServer();
+  const { error } = await supabase.rpc("resolve_ab001_review", { submission_id_param: submissionId, confirm });
+  if (error) {
+    console.warn("review:ab001_resolve_failed", { submissionId, confirm, error: error.message });
+    return { ok: false, error: error.message };
+  }
+  console.log("review:ab001_resolved", { submissionId, confirm });
+  return { ok: true };
+}
+
+export type RuleDisagreementResolution = "model_correct" | "rule_correct";
+
+export type RuleDisagreementItem = {
+  id: string;
+  created_at: string | null;
+  sender_name: string | null;
+  raw_text: string | null;
+  rule_disagreement: RuleDisagreement;
+};
+
+/** Disagreements without a verdict, newest first (submissions_rule_disagreement_open_idx). */
+export async function listOpenRuleDisagreements(limit = 50): Promise<{ count: number; items: RuleDisagreementItem[] }> {
+  const supabase = getSupabaseServer();
+  const { data, count, error } = await supabase
+    .from("submissions")
+    .select("id, created_at, sender_name, raw_text, rule_disagreement", { count: "exact" })
+    .not("rule_disagreement", "is", null)
+    .is("rule_disagreement_reviewed_at", null)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.warn("review:rule_disagreement_load_failed", { error: error.message });
+    return { count: 0, items: [] };
+  }
+  return { count: count ?? 0, items: (data as RuleDisagreementItem[] | null) ?? [] };
+}
+
+/** Record which side was right; the case leaves the queue until a re-classification disagrees on other codes. */
+export async function resolveRuleDisagreement(
+  submissionId: string,
+  resolution: RuleDisagreementResolution
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("submissions")
+    .update({ rule_disagreement_resolution: resolution, rule_disagreement_reviewed_at: new Date().toISOString() })
+    .eq("id", submissionId)
+    .not("rule_disagreement", "is", null)
+    .select("id");
+  if (error) {
+    console.warn("review:rule_disagreement_resolve_failed", { submissionId, resolution, error: error.message });
+    return { ok: false, error: error.message };
+  }
+  if (!data || data.length === 0) return { ok: false, error: "no_disagreement" };
+  console.log("review:rule_disagreement_resolved", { submissionId, resolution });
+  return { ok: true };
+}
@@ -0,0 +1,194 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { mediaOcrText, type MediaEntry } from "@/server/ingest/media";
+
+/**
+ * "Paid for by" disclaimers. cleanTextForAI keeps the line; this module parses it
+ * out of the message text (raw_text, which is the OCR text for screenshots) and the
+ * OCR text of attachments: who paid, the "not authorized by any candidate" clause
+ * (or who authorized it) and the committee address. The paid-for-by entity is
+ * compared with the extracted sender_name, and the result is stored on the case
+ * (disclaimer_* columns) for the classifier (AB003/AB004) and the stats.
+ */
+
+export type DisclaimerStatus = "match" | "mismatch" | "missing" | "unverified";
+export const DISCLAIMER_STATUSES: DisclaimerStatus[] = ["match", "mismatch", "missing", "unverified"];
+
+export type Disclaimer = {
+  paidForBy: string | null;
+  authorization: "not_authorized" | "authorized" | null;
+  authorizedBy: string | null;
+  address: string | null;
+  text: string | null; // the disclaimer as found, up to the address
+  source: "text" | "ocr" | null;
+};
+
+const EMPTY: Disclaimer = { paidForBy: null, authorization: null, authorizedBy: null, address: null, text: null, source: null };
+
+const PAID_FOR_BY_RE = /paid\s+for\s+by[:\s]+/gi;
+const DISCLAIMER_WINDOW = 400;
+const NOT_AUTHORIZED_RE = /not\s+authori[sz]ed\s+by\s+any\s+(?:federal\s+)?candidate(?:\s+or\s+candidate[’']?s?\s+committee)?/i;
+const AUTHORIZED_BY_RE = /(?<!not\s)authori[sz]ed\s+by\s+(?!any\b)([^.;|\n]+)/i;
+// Street or PO Box, optional suite, city, state, ZIP
+const ADDRESS_RE =
+  /(?:P\.?\s*O\.?\s*Box\s+\d+|\d{1,6}\s+(?:[A-Za-z0-9.'-]+\s+){0,5}?(?:St|Street|Ave|Avenue|Rd|Road|Blvd|Boulevard|Dr|Drive|Ln|Lane|Way|Pl|Place|Ct|Court|Pkwy|Parkway|Hwy|Highway|Sq|Square|Ter|Terrace|Cir|Circle)\.?(?:\s+(?:NW|NE|SW|SE|N|S|E|W)\.?)?)(?:[,\s]+(?:Suite|Ste\.?|Unit|#)\s*[\w-]+)?[,\s]+[A-Za-z][A-Za-z .'-]*,?\s+[A-Z]{2}\.?\s+\d{5}(?:-\d{4})?/;
+
+// "(www.turnoutpac.org)", "(https://example.com/donate)"
+const URL_PARENTHETICAL_RE = /\s*\(\s*(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:\/[^)\s]*)?\s*\)/gi;
+
+/**
+ * Name after "Paid for by", up to the end of the sentence, the "and not authorized"
+ * clause, a website or a street address.
+ */
+function paidForByName(tail: string): string | null {
+  const name = tail
+    .split("\n")[0]
+    .replace(URL_PARENTHETICAL_RE, "")
+    .replace(/^the\s+/i, "")
+    .split(/\s+(?:and|&)\s+not\s+authori[sz]ed\b|\.\s|\.$|\s*[;|]\s*|,\s*(?:www\.|https?:|[a-z0-9-]+\.(?:com|org|net|us)\b|\d|P\.?\s*O\.?\s*Box)|\s+(?:www\.|https?:)/i)[0]
+    .replace(/[.,;:\s]+$/, "")
+    .trim();
+  return name.length >= 3 && name.length <= 200 ? name : null;
+}
+
+function fromText(text: string): Disclaimer | null {
+  const matches = Array.from(text.matchAll(PAID_FOR_BY_RE));
+  // The footer disclaimer is the last one; earlier ones are usually quoted or forwarded copies
+  const last = matches[matches.length - 1];
+  if (!last || last.index == null) return null;
+  const start = last.index;
+  const window = text.slice(start, start + DISCLAIMER_WINDOW);
+  const paidForBy = paidForByName(text.slice(start + last[0].length));
+  if (!paidForBy) return null;
+
+  const addressMatch = ADDRESS_RE.exec(window);
+  const address = addressMatch ? addressMatch[0].replace(/\s+/g, " ").trim() : null;
+  const notAuthorized = NOT_AUTHORIZED_RE.test(window);
+  const authorizedBy = notAuthorized ? null : AUTHORIZED_BY_RE.exec(window)?.[1]?.trim() || null;
+  // Up to the address, else to the end of the paragraph
+  const end = addressMatch ? addressMatch.index + addressMatch[0].length : window.search(/\n\s*\n|$/);
+  return {
+    paidForBy,
+    authorization: notAuthorized ? "not_authorized" : authorizedBy ? "authorized" : null,
+    authorizedBy,
+    address,
+    text: window.slice(0, end > 0 ? end : window.length).replace(/\s+/g, " ").trim().slice(0, 500),
+    source: "text",
+  };
+}
+
+/** Disclaimer from the message text, else from the attachments' OCR text. */
+export function extractDisclaimer(text: string | null | undefined, ocrText?: string | null): Disclaimer {
+  const fromMessage = text ? fromText(text) : null;
+  if (fromMessage) return fromMessage;
+  const fromOcr = ocrText ? fromText(ocrText) : null;
+  return fromOcr ? { ...fromOcr, source: "ocr" } : EMPTY;
+}
+
+const NAME_STOPWORDS = new Set(["the", "for", "of", "and", "inc", "llc", "committee", "pac", "fund", "a"]);
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** A name, its parenthetical (often the acronym) and its initialism. A website in parentheses is not part of the name. */
+function nameForms(name: string): string[] {
+  const stripped = name.replace(URL_PARENTHETICAL_RE, "");
+  const full = normalizeName(stripped);
+  const forms = [full];
+  for (const m of stripped.matchAll(/\(([^)]+)\)/g)) forms.push(normalizeName(m[1]));
+  const words = full.split(" ").filter((w) => w && !["the", "of", "for", "and"].includes(w));
+  if (words.length >= 3) forms.push(words.map((w) => w[0]).join(""));
+  return forms.filter((f) => f.length >= 2);
+}
+
+function significantTokens(form: string): Set<string> {
+  return new Set(form.split(" ").filter((t) => t.length > 1 && !NAME_STOPWORDS.has(t)));
+}
+
+/**
+ * Whether two entity names refer to the same sender: equal after normalization, the
+ * same significant words ("Jane Doe for Congress, Inc." / "Jane Doe Congress"), or one
+ * is the acronym of the other (DCCC). A name inside another is not enough: "Jane Doe"
+ * and "Friends of Jane Doe" can be different committees.
+ */
+export function sameEntityName(a: string, b: string): boolean {
+  for (const x of nameForms(a)) {
+    for (const y of nameForms(b)) {
+      if (x === y) return true;
+      const tx = significantTokens(x);
+      const ty = significantTokens(y);
+      if (tx.size > 0 && tx.size === ty.size && Array.from(tx).every((t) => ty.has(t))) return true;
+    }
+  }
+  return false;
+}
+
+export function disclaimerStatus(disclaimer: Disclaimer, senderName: string | null): DisclaimerStatus {
+  if (!disclaimer.paidForBy) return "missing";
+  if (!senderName) return "unverified";
+  return sameEntityName(disclaimer.paidForBy, senderName) ? "match" : "mismatch";
+}
+
+/**
+ * Extract the case's disclaimer, compare it with the sender and store both.
+ * `senderName` overrides the stored one (the sender job passes its fresh result).
+ */
+export async function checkDisclaimer(
+  submissionId: string,
+  opts: { senderName?: string | null } = {}
+): Promise<(Disclaimer & { status: DisclaimerStatus }) | null> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id, raw_text, media_urls, sender_name")
+    .eq("id", submissionId)
+    .maybeSingle();
+  if (error || !data) return null;
+  const row = data as { raw_text: string | null; media_urls: MediaEntry[] | null; sender_name: string | null };
+
+  const disclaimer = extractDisclaimer(row.raw_text, mediaOcrText(row.media_urls));
+  const status = disclaimerStatus(disclaimer, opts.senderName !== undefined ? opts.senderName : row.sender_name);
+  const { error: updateError } = await supabase
+    .from("submissions")
+    .update({
+      disclaimer_paid_for_by: disclaimer.paidForBy,
+      disclaimer_authorization: disclaimer.authorization,
+      disclaimer_authorized_by: disclaimer.authorizedBy,
+      disclaimer_address: disclaimer.address,
+      disclaimer_text: disclaimer.text,
+      disclaimer_source: disclaimer.source,
+      disclaimer_status: status,
+      disclaimer_checked_at: new Date().toISOString(),
+    })
+    .eq("id", submissionId);
+  if (updateError) console.warn("disclaimer:update_failed", { submissionId, error: updateError.message });
+  return { ...disclaimer, status };
+}
+
+/** Summary of the check for the classifier prompt. */
+export function disclaimerContext(result: Disclaimer & { status: DisclaimerStatus }, senderName: string | null): string {
+  if (!result.paidForBy) {
+    return 'Disclaimer check (automated): no "Paid for by" disclaimer was found in the message text or image text.';
+  }
+  const lines = [
+    `Disclaimer check (automated, from the ${result.source === "ocr" ? "image text" : "message text"}):`,
+    `- Paid for by: ${result.paidForBy}`,
+    `- Authorization: ${
+      result.authorization === "not_authorized"
+        ? '"not authorized by any candidate" clause present'
+        : result.authorization === "authorized"
+          ? `authorized by ${result.authorizedBy}`
+          : "no authorization statement found"
+    }`,
+    `- Committee address: ${result.address ?? "not found"}`,
+  ];
+  if (result.status === "match") lines.push(`- Matches the extracted sender (${senderName})`);
+  if (result.status === "mismatch") lines.push(`- Names a different entity than the extracted sender (${senderName})`);
+  return lines.join("\n");
+}
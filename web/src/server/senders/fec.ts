@@ -0,0 +1,169 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+import { mediaOcrText, type MediaEntry } from "@/server/ingest/media";
+import { extractDisclaimer } from "./disclaimer";
+
+/**
+ * FEC committee linkage. scripts/import-fec.ts loads the FEC bulk committee master
+ * (cm.txt) and candidate master (cn.txt) into fec_committees / fec_candidates; this
+ * module fuzzy-matches a case's "Paid for by" disclaimer and extracted sender_name
+ * against them (match_fec_committees, pg_trgm similarity on the normalized name) and
+ * stores the best match on the submission. The classifier gets the committee type,
+ * which AB004/AB006 judgments depend on.
+ */
+
+// Below this similarity a match is more often a different committee with a similar name
+export const FEC_MATCH_MIN_SCORE = 0.6;
+
+// CMTE_TP codes from the FEC committee master file description
+export const FEC_COMMITTEE_TYPES: Record<string, string> = {
+  C: "Communication cost",
+  D: "Delegate committee",
+  E: "Electioneering communication",
+  H: "House campaign",
+  I: "Independent expenditor (person or group)",
+  N: "PAC (nonqualified)",
+  O: "Super PAC (independent expenditure-only)",
+  P: "Presidential campaign",
+  Q: "PAC (qualified)",
+  S: "Senate campaign",
+  U: "Single-candidate independent expenditure",
+  V: "Hybrid PAC (nonqualified)",
+  W: "Hybrid PAC (qualified)",
+  X: "Party (nonqualified)",
+  Y: "Party (qualified)",
+  Z: "National party nonfederal account",
+};
+
+// CMTE_DSGN codes
+export const FEC_DESIGNATIONS: Record<string, string> = {
+  A: "Authorized by a candidate",
+  B: "Lobbyist/registrant PAC",
+  D: "Leadership PAC",
+  J: "Joint fundraiser",
+  P: "Principal campaign committee",
+  U: "Unauthorized",
+};
+
+export type FecCommittee = {
+  cmte_id: string;
+  name: string;
+  committee_type: string | null;
+  committee_type_label: string | null;
+  designation: string | null;
+  designation_label: string | null;
+  treasurer_name: string | null;
+  party: string | null;
+  connected_org: string | null;
+  candidate: { cand_id: string; name: string; office: string | null; office_state: string | null; office_district: string | null; party: string | null } | null;
+  url: string;
+};
+
+export type FecMatch = { cmteId: string; name: string; score: number; source: "disclaimer" | "sender_name" };
+
+/** Best FEC committee for a case: the disclaimer is tried first, it names the registered committee. */
+export async function matchFecCommittee(input: { disclaimer: string | null; senderName: string | null }): Promise<FecMatch | null> {
+  const supabase = getSupabaseServer();
+  const queries: Array<{ text: string; source: FecMatch["source"] }> = [];
+  if (input.disclaimer) queries.push({ text: input.disclaimer, source: "disclaimer" });
+  if (input.senderName && input.senderName !== input.disclaimer) queries.push({ text: input.senderName, source: "sender_name" });
+
+  let best: FecMatch | null = null;
+  for (const q of queries) {
+    const { data, error } = await supabase.rpc("match_fec_committees", { query: q.text, max_results: 1 });
+    if (error) {
+      console.warn("fec:match_failed", { error: error.message });
+      return null;
+    }
+    const row = (data as Array<{ cmte_id: string; name: string; score: number }> | null)?.[0];
+    if (row && Number(row.score) >= FEC_MATCH_MIN_SCORE && (!best || Number(row.score) > best.score)) {
+      best = { cmteId: row.cmte_id, name: row.name, score: Math.round(Number(row.score) * 100) / 100, source: q.source };
+    }
+  }
+  return best;
+}
+
+/**
+ * Match a case to an FEC committee and store the link (fec_committee_id, score, source).
+ * fec_matched_at records the attempt even without a match. An admin-set link
+ * (fec_match_source = 'admin') is never replaced.
+ */
+export async function linkFecCommittee(submissionId: string, opts: { senderName?: string | null } = {}): Promise<FecMatch | null> {
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id, raw_text, media_urls, sender_name, fec_match_source")
+    .eq("id", submissionId)
+    .maybeSingle();
+  if (error || !data) return null;
+  const row = data as { raw_text: string | null; media_urls: MediaEntry[] | null; sender_name: string | null; fec_match_source: string | null };
+  if (row.fec_match_source === "admin") return null;
+
+  const match = await matchFecCommittee({
+    disclaimer: extractDisclaimer(row.raw_text, mediaOcrText(row.media_urls)).paidForBy,
+    senderName: opts.senderName !== undefined ? opts.senderName : row.sender_name,
+  });
+  const { error: updateError } = await supabase
+    .from("submissions")
+    .update({
+      fec_committee_id: match?.cmteId ?? null,
+      fec_match_score: match?.score ?? null,
+      fec_match_source: match?.source ?? null,
+      fec_matched_at: new Date().toISOString(),
+    })
+    .eq("id", submissionId);
+  if (updateError) console.warn("fec:link_failed", { submissionId, error: updateError.message });
+  else if (match) console.log("fec:linked", { submissionId, cmteId: match.cmteId, score: match.score, source: match.source });
+  return match;
+}
+
+/** Committees by id with readable type/designation labels and the linked candidate. */
+export async function getFecCommittees(ids: Array<string | null | undefined>): Promise<Map<string, FecCommittee>> {
+  const unique = Array.from(new Set(ids.filter((id): id is string => Boolean(id))));
+  if (unique.length === 0) return new Map();
+  const supabase = getSupabaseServer();
+  const { data: committees } = await supabase
+    .from("fec_committees")
+    .select("cmte_id, name, committee_type, designation, treasurer_name, party, connected_org, candidate_id")
+    .in("cmte_id", unique);
+  const candidateIds = (committees || []).map((c) => c.candidate_id as string | null).filter((id): id is string => Boolean(id));
+  const { data: candidates } = candidateIds.length > 0
+    ? await supabase
+        .from("fec_candidates")
+        .select("cand_id, name, office, office_state, office_district, party")
+        .in("cand_id", candidateIds)
+    : { data: [] };
+  const candidateById = new Map((candidates || []).map((c) => [String(c.cand_id), c as NonNullable<FecCommittee["candidate"]>]));
+
+  const out = new Map<string, FecCommittee>();
+  for (const c of committees || []) {
+    const type = (c.committee_type as string | null) ?? null;
+    const designation = (c.designation as string | null) ?? null;
+    out.set(String(c.cmte_id), {
+      cmte_id: String(c.cmte_id),
+      name: String(c.name),
+      committee_type: type,
+      committee_type_label: type ? FEC_COMMITTEE_TYPES[type] ?? null : null,
+      designation,
+      designation_label: designation ? FEC_DESIGNATIONS[designation] ?? null : null,
+      treasurer_name: (c.treasurer_name as string | null) ?? null,
+      party: (c.party as string | null) ?? null,
+      connected_org: (c.connected_org as string | null) ?? null,
+      candidate: c.candidate_id ? candidateById.get(String(c.candidate_id)) ?? null : null,
+      url: `https://www.fec.gov/data/committee/${c.cmte_id}/`,
+    });
+  }
+  return out;
+}
+
+/** One-paragraph description of the committee for the classifier prompt. */
+export function fecCommitteeContext(committee: FecCommittee): string {
+  const parts = [`${committee.name} (FEC ID ${committee.cmte_id})`];
+  if (committee.committee_type_label) parts.push(`committee type: ${committee.committee_type_label}`);
+  if (committee.designation_label) parts.push(`designation: ${committee.designation_label}`);
+  if (committee.connected_org) parts.push(`connected organization: ${committee.connected_org}`);
+  if (committee.candidate) {
+    const seat = [committee.candidate.office, committee.candidate.office_state, committee.candidate.office_district].filter(Boolean).join("-");
+    parts.push(`candidate: ${committee.candidate.name}${seat ? ` (${seat})` : ""}`);
+  }
+  return parts.join("; ");
+}
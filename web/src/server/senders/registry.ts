@@ -0,0 +1,146 @@
+import { getSupabaseServer } from "@/lib/supabase-server";
+import type { SenderType } from "@/server/ai/sender";
+
+/**
+ * Canonical sender entities (`senders`, `sender_aliases`; sql/2026-11-02_create_senders.sql).
+ * Sender extraction resolves the extracted name and the raw sender_id (phone, short
+ * code, email address) to one entity per committee and stores it in
+ * `submissions.sender_entity_id`; the stats RPCs and the case filters group by it.
+ * The matching itself lives in SQL (resolve_sender_entity) so concurrent extractions
+ * of a new name cannot create the same entity twice. Admins fix groupings with
+ * scripts/senders.ts.
+ */
+
+export type SenderAliasKind = "name" | "phone" | "short_code" | "email_domain";
+export const SENDER_ALIAS_KINDS: SenderAliasKind[] = ["name", "phone", "short_code", "email_domain"];
+
+export type SenderEntity = {
+  id: string;
+  name: string;
+  sender_type: SenderType | null;
+  merged_into_id: string | null;
+  created_at: string;
+  aliases: Array<{ id: string; kind: SenderAliasKind; value: string; source: string }>;
+};
+
+/** Link a submission to its sender entity. Returns the entity id, or null when there is nothing to match on. */
+export async function resolveSenderEntity(
+  submissionId: string,
+  input: { senderName: string | null; senderId: string | null; senderType?: SenderType | null }
+): Promise<string | null> {
+  if (!input.senderName && !input.senderId) return null;
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase.rpc("resolve_sender_entity", {
+    raw_name: input.senderName,
+    raw_sender_id: input.senderId,
+    type_hint: input.senderType ?? null,
+  });
+  if (error) {
+    console.warn("senders:resolve_failed", { submissionId, error: error.message });
+    return null;
+  }
+  const entityId = (data as string | null) ?? null;
+  const { error: updateError } = await supabase.from("submissions").update({ sender_entity_id: entityId }).eq("id", submissionId);
+  if (updateError) console.warn("senders:link_failed", { submissionId, entityId, error: updateError.message });
+  return entityId;
+}
+
+/** Entity ids whose display name is one of `names` (the values the stats sender filter produces). */
+export async function senderEntityIdsByName(names: string[]): Promise<string[]> {
+  if (names.length === 0) return [];
+  const supabase = getSupabaseServer();
+  const { data, error } = await supabase.from("senders").select("id").in("name", names).is("merged_into_id", null);
+  if (error) {
+    console.warn("senders:lookup_failed", { error: error.message });
+    return [];
+  }
+  return (data || []).map((r) => String(r.id));
+}
+
+/** Entity names by id, for labelling case lists. */
+export async function senderEntityNames(ids: Array<string | null | undefined>): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(ids.filter((id): id is string => Boolean(id))));
+  if (unique.length === 0) return new Map();
+  const supabase = getSupabaseServer();
+  const { data } = await supabase.from("senders").select("id, name").in("id", unique);
+  return new Map((data || []).map((r) => [String(r.id), String(r.name)]));
+}
+
+/** Entity with its aliases; follows merges so an old id returns the surviving entity. */
+export async function getSenderEntity(id: string): Promise<SenderEntity | null> {
+  const supabase = getSupabaseServer();
+  let currentId = id;
+  for (let hop = 0; hop < 5; hop++) {
+    const { data, error } = await supabase
+      .from("senders")
+      .select("id, name, sender_type, merged_into_id, created_at")
+      .eq("id", currentId)
+      .maybeSingle();
+    if (error) throw new Error(`sender lookup failed: ${error.message}`);
+    if (!data) return null;
+    if (data.merged_into_id) {
+      currentId = String(data.merged_into_id);
+      continue;
+    }
+    const { data: aliases } = await supabase
+      .from("sender_aliases")
+      .select("id, kind, value, source")
+      .eq("entity_id", currentId)
+      .order("created_at", { ascending: true });
+    return { ...(data as Omit<SenderEntity, "aliases">), aliases: (aliases || []) as SenderEntity["aliases"] };
+  }
+  return null;
+}
+
+export async function searchSenderEntities(query: string, limit = 50): Promise<Array<{ id: string; name: string; sender_type: string | null; cases: number }>> {
+  const supabase = getSupabaseServer();
+  let builder = supabase.from("senders").select("id, name, sender_type").is("merged_into_id", null).order("name").limit(limit);
+  const q = query.replace(/[%_\\,()]/g, "").trim();
+  if (q) builder = builder.ilike("name", `%${q}%`);
+  const { data, error } = await builder;
+  if (error) throw new Error(`sender search failed: ${error.message}`);
+  const out = [];
+  for (const row of data || []) {
+    const { count } = await supabase.from("submissions").select("id", { count: "exact", head: true }).eq("sender_entity_id", row.id);
+    out.push({ id: String(row.id), name: String(row.name), sender_type: (row.sender_type as string | null) ?? null, cases: count ?? 0 });
+  }
+  return out;
+}
+
+export async function mergeSenders(fromId: string, intoId: string): Promise<void> {
+  const { error } = await getSupabaseServer().rpc("merge_senders", { from_id: fromId, into_id: intoId });
+  if (error) throw new Error(`merge failed: ${error.message}`);
+  console.log("senders:merged", { fromId, intoId });
+}
+
+/** Move aliases to a new entity named `newName`; cases that matched them follow. Returns the new entity id. */
+export async function splitSender(fromId: string, aliasIds: string[], newName: string): Promise<string> {
+  const { data, error } = await getSupabaseServer().rpc("split_sender", { from_id: fromId, alias_ids: aliasIds, new_name: newName });
+  if (error) throw new Error(`split failed: ${error.message}`);
+  console.log("senders:split", { fromId, newId: data, aliases: aliasIds.length });
+  return String(data);
+}
+
+export async function renameSender(id: string, name: string): Promise<void> {
+  const { error } = await getSupabaseServer()
+    .from("senders")
+    .update({ name: name.trim(), updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw new Error(`rename failed: ${error.message}`);
+}
+
+/** Attach an alias by hand, e.g. a committee's short code before any case from it was extracted. */
+export async function addSenderAlias(entityId: string, kind: SenderAliasKind, value: string): Promise<void> {
+  const supabase = getSupabaseServer();
+  const { data: normalized, error: keyError } = await supabase.rpc("sender_alias_key", { alias_kind: kind, raw: value });
+  if (keyError) throw new Error(`alias normalization failed: ${keyError.message}`);
+  if (!normalized) throw new Error(`"${value}" is not a valid ${kind}`);
+  const { error } = await supabase
+    .from("sender_aliases")
+    .insert({ entity_id: entityId, kind, value: value.trim(), normalized, source: "admin" });
+  if (error) {
+    // unique (kind, normalized): the alias already belongs to an entity
+    if (error.code === "23505") throw new Error(`${kind} "${value}" already belongs to a sender; split or merge instead`);
+    throw new Error(`alias insert failed: ${error.message}`);
+  }
+}